@@ -5,21 +5,34 @@
  * 1. Next.js application (HTTP)
  * 2. WebSocket connections for terminal
  * 3. PTY (pseudo-terminal) session
- * 4. Server status management
+ * 4. Minecraft server process supervision
+ * 5. Server status management
+ * 6. Server process metrics (CPU / RAM, TPS / MSPT) and their history
+ * 7. Online players and their sessions
+ * 8. Prometheus / OpenMetrics exporter at /metrics
+ * 9. Login sessions gating every HTTP route and the WebSocket upgrade
+ *
+ * Items 4-7 exist once per server instance (see src/lib/instances.ts);
+ * each WebSocket client follows one instance at a time.
  */
 
-import { createServer } from 'http';
+import { createServer, type ServerResponse } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { WebSocketServer, WebSocket } from 'ws';
 import * as pty from 'node-pty';
 import stripAnsi from 'strip-ansi';
 import { pinggy } from '@pinggy/pinggy';
-import { getConfig } from './src/config';
-import { statusManager } from './src/lib/statusManager';
-import { s3BackupService } from './src/lib/s3Backup';
-import * as fs from 'fs';
-import * as path from 'path';
+import { DEFAULT_INSTANCE_ID, getConfig, getInstanceDir } from './src/config';
+import type { StatusAlert } from './src/lib/statusManager';
+import { instanceManager, type ServerInstance } from './src/lib/instances';
+import { readServerProperties, updateServerProperty } from './src/lib/serverProperties';
+import { authManager, safeRedirectPath, type SessionUser } from './src/lib/auth';
+import { hasPermission, userHasPermission, type Permission } from './src/lib/permissions';
+import { apiTokenManager } from './src/lib/apiTokens';
+import { auditLog, getClientIp, splitTypedInput, CLIENT_IP_HEADER } from './src/lib/auditLog';
+import { renderMetrics, wantsOpenMetrics, OPENMETRICS_CONTENT_TYPE, PROMETHEUS_CONTENT_TYPE, type MetricFamily } from './src/lib/prometheus';
+import { timingSafeEqual } from 'crypto';
 
 import * as os from 'os';
 
@@ -34,90 +47,33 @@ const handle = app.getRequestHandler();
 // Terminal configuration
 const shell = os.platform() === 'win32' ? 'powershell.exe' : 'bash';
 const clients = new Set<WebSocket>();
+// Who is behind each WebSocket client (roles are looked up per message),
+// plus partially typed lines for the audit log
+interface ClientInfo {
+  username: string;
+  ip: string;
+  /** Set for clients connected with an API token */
+  tokenId?: string;
+  scopes?: readonly Permission[];
+  /** Instance whose console, status and metrics the client follows */
+  instanceId: string;
+  terminalLine: string;
+  consoleLine: string;
+}
+const clientInfo = new Map<WebSocket, ClientInfo>();
 let outputBuffer = '';
 const MAX_BUFFER_SIZE = 50000;
 
-// Panel-driven uptime tracking (start on 'start' action, stop on 'stop')
-let panelUptimeStart: number | null = null;
-let panelUptimeActive = false;
+// Panel-driven uptime tracking per instance (starts when it becomes running, stops when it stops)
+const panelUptimeStart = new Map<string, number>();
 
-/**
- * Server Properties Management
- */
-let mcFolderPath: string = '';
+// Tunnel state, reported by the /metrics exporter
+const tunnelUp = { pinggy: false, playit: false };
 
-/**
- * Read server.properties file
- */
-async function readServerProperties(): Promise<{ [key: string]: string }> {
-  try {
-    if (!mcFolderPath) {
-      const config = await getConfig();
-      mcFolderPath = config.MC_DIR || path.join(process.cwd(), 'mc');
-    }
-    
-    const propsPath = path.join(mcFolderPath, 'server.properties');
-    const content = await fs.promises.readFile(propsPath, 'utf8');
-    
-    const properties: { [key: string]: string } = {};
-    const lines = content.split(/\r?\n/);
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('#')) {
-        const [key, ...valueParts] = trimmed.split('=');
-        if (key) {
-          properties[key.trim()] = valueParts.join('=').trim();
-        }
-      }
-    }
-    
-    return properties;
-  } catch (error) {
-    console.error('[ServerProperties] Error reading server.properties:', error);
-    return {};
-  }
-}
-
-/**
- * Update a property in server.properties file
- */
-async function updateServerProperty(key: string, value: string): Promise<boolean> {
-  try {
-    if (!mcFolderPath) {
-      const config = await getConfig();
-      mcFolderPath = config.MC_DIR || path.join(process.cwd(), 'mc');
-    }
-    
-    const propsPath = path.join(mcFolderPath, 'server.properties');
-    const content = await fs.promises.readFile(propsPath, 'utf8');
-    const lines = content.split(/\r?\n/);
-    
-    let updated = false;
-    const newLines = lines.map(line => {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('#')) {
-        const [lineKey] = trimmed.split('=');
-        if (lineKey && lineKey.trim() === key) {
-          updated = true;
-          return `${key}=${value}`;
-        }
-      }
-      return line;
-    });
-    
-    // If property doesn't exist, add it
-    if (!updated) {
-      newLines.push(`${key}=${value}`);
-    }
-    
-    await fs.promises.writeFile(propsPath, newLines.join('\n'), 'utf8');
-    console.log(`[ServerProperties] Updated ${key}=${value}`);
-    return true;
-  } catch (error) {
-    console.error('[ServerProperties] Error updating server.properties:', error);
-    return false;
-  }
+function getPanelUptimeSeconds(instanceId: string): number {
+  const start = panelUptimeStart.get(instanceId);
+  if (start == null) return 0;
+  return Math.max(0, Math.floor((Date.now() - start) / 1000));
 }
 
 /**
@@ -144,27 +100,10 @@ ptyProcess.onData((data: string) => {
     outputBuffer = outputBuffer.slice(-MAX_BUFFER_SIZE);
   }
   
-  // Parse terminal output for server status detection
-  try {
-    // Strip ANSI codes for clean parsing
-    const cleanData = stripAnsi(data);
-    const lines = cleanData.split(/\r?\n/);
-    
-    // Check each line for the "Done" message
-    for (const line of lines) {
-      if (line.trim()) {
-        // Pass line to status manager for processing
-        statusManager.handleTerminalLine(line);
-      }
-    }
-  } catch (error) {
-    // Ignore parsing errors
-  }
-  
-  // Broadcast to all connected clients
+  // Broadcast to clients allowed to use the shell
   const message = JSON.stringify({ type: 'output', data });
   clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+    if (client.readyState === WebSocket.OPEN && clientCan(client, 'terminal')) {
       client.send(message);
     }
   });
@@ -177,6 +116,364 @@ ptyProcess.onExit(({ exitCode, signal }) => {
   console.log(`Terminal process exited with code ${exitCode}, signal ${signal}`);
 });
 
+/**
+ * Send a message to the clients following an instance
+ */
+function broadcastToInstance(instanceId: string, message: string): void {
+  clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN && clientInfo.get(client)?.instanceId === instanceId) {
+      client.send(message);
+    }
+  });
+}
+
+/**
+ * Wire an instance's console, lifecycle events, status, metrics and alerts to the WebSocket clients
+ */
+function attachInstance(instance: ServerInstance): void {
+  const { id } = instance;
+  let consoleLineRemainder = '';
+
+  // Handle Minecraft console output
+  instance.process.addOutputListener((data: string) => {
+    // Parse console output for server status detection
+    try {
+      // Strip ANSI codes for clean parsing; keep a trailing partial line for the next chunk
+      const lines = (consoleLineRemainder + stripAnsi(data)).split(/\r?\n/);
+      consoleLineRemainder = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          // Pass line to status manager, tick monitor and player tracker for processing
+          instance.status.handleTerminalLine(line);
+          instance.ticks.handleTerminalLine(line);
+          instance.players.handleTerminalLine(line);
+        }
+      }
+    } catch (error) {
+      // Ignore parsing errors
+    }
+
+    broadcastToInstance(id, JSON.stringify({ type: 'console', data }));
+  });
+
+  // Broadcast Minecraft process lifecycle events
+  instance.process.addEventListener((event) => {
+    if (event.type === 'spawn') {
+      consoleLineRemainder = '';
+    }
+    broadcastToInstance(id, JSON.stringify({ type: 'process-event', data: event }));
+  });
+
+  // If the server is already running on startup, start its uptime counter
+  if (instance.status.getStatus() === 'running') {
+    console.log(`[Server] '${id}' is already running, starting uptime counter`);
+    panelUptimeStart.set(id, Date.now());
+  }
+
+  instance.status.addListener((statusInfo) => {
+    // Manage uptime based on status changes
+    if (statusInfo.status === 'running' && !panelUptimeStart.has(id)) {
+      console.log(`[Server] '${id}' is now running, starting uptime counter`);
+      panelUptimeStart.set(id, Date.now());
+    } else if (statusInfo.status === 'stopped' && panelUptimeStart.has(id)) {
+      console.log(`[Server] '${id}' stopped, stopping uptime counter`);
+      panelUptimeStart.delete(id);
+    }
+    broadcastToInstance(id, JSON.stringify({ type: 'status', data: statusInfo }));
+  });
+
+  instance.metrics.addListener((sample) => {
+    broadcastToInstance(id, JSON.stringify({ type: 'metrics', data: sample }));
+  });
+
+  instance.ticks.addListener((sample) => {
+    broadcastToInstance(id, JSON.stringify({ type: 'tick', data: sample }));
+  });
+
+  instance.players.addListener((players) => {
+    broadcastToInstance(id, JSON.stringify({ type: 'players', data: players }));
+  });
+
+  // Crash / crash loop and overload alerts go to every client, tagged with the instance
+  const broadcastAlert = (alert: StatusAlert) => {
+    const message = JSON.stringify({ type: 'alert', data: alert, instance: { id, name: instance.name } });
+    clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  };
+  instance.status.addAlertListener(broadcastAlert);
+  instance.ticks.addAlertListener(broadcastAlert);
+}
+
+/**
+ * Send the state of the followed instance to a client: which instance it is,
+ * console history, status, recent metrics, online players and uptime
+ */
+function sendInstanceSnapshot(ws: WebSocket, instance: ServerInstance): void {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  try {
+    ws.send(JSON.stringify({ type: 'instance', data: { id: instance.id, name: instance.name } }));
+    ws.send(JSON.stringify({ type: 'console-history', data: instance.process.getBuffer() }));
+    ws.send(JSON.stringify({ type: 'status', data: instance.status.getStatusInfo() }));
+    ws.send(JSON.stringify({ type: 'metrics-history', data: instance.metrics.getHistory() }));
+    ws.send(JSON.stringify({ type: 'tick-history', data: instance.ticks.getHistory() }));
+    ws.send(JSON.stringify({ type: 'players', data: instance.players.getOnlinePlayers() }));
+    ws.send(JSON.stringify({ type: 'uptime', uptimeSeconds: getPanelUptimeSeconds(instance.id) }));
+  } catch {}
+}
+
+/**
+ * Run a panel action against the Minecraft server process of the client's instance
+ * Failures are reported back to the requesting client only
+ */
+async function runPanelAction(action: string, ws: WebSocket): Promise<void> {
+  const info = clientInfo.get(ws);
+  const instance = instanceManager.get(info?.instanceId);
+  const audit = {
+    actor: info?.username ?? 'anonymous',
+    ip: info?.ip ?? '',
+    action: `server.${action}`,
+    target: info?.instanceId ?? DEFAULT_INSTANCE_ID,
+  };
+  try {
+    if (!instance) {
+      throw new Error(`Unknown instance: ${info?.instanceId}`);
+    } else if (action === 'start') {
+      await instance.process.start();
+    } else if (action === 'stop') {
+      instance.status.cancelAutoRestart();
+      await instance.process.stop();
+    } else if (action === 'restart') {
+      await instance.process.restart();
+    } else if (action === 'kill') {
+      instance.status.cancelAutoRestart();
+      instance.process.kill();
+    } else {
+      throw new Error(`Unknown panel action: ${action}`);
+    }
+    auditLog.record(audit);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Server] Panel action '${action}' failed:`, message);
+    auditLog.record({ ...audit, success: false, details: { error: message } });
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'panel-error', action, message }));
+    }
+  }
+}
+
+/**
+ * Instance id from the ?instance= parameter of a request URL (undefined for the default instance)
+ */
+function requestedInstanceId(url: string | undefined): string | undefined {
+  const value = parse(url || '', true).query.instance;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Reachable without a session: the login page and its API, and Next.js assets
+const PUBLIC_PATHS = new Set(['/login', '/api/auth/login', '/api/auth/setup', '/favicon.ico']);
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.has(pathname) || pathname.startsWith('/_next/');
+}
+
+/**
+ * Check the optional METRICS_TOKEN bearer token for /metrics
+ */
+function isMetricsAuthorized(authorization: string | undefined, token: string | undefined): boolean {
+  if (!token) return false;
+  const match = (authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Collect the panel's gauges for the /metrics exporter
+ * Per-server gauges carry an `instance` label
+ */
+function collectPanelMetrics(): MetricFamily[] {
+  const states = ['stopped', 'starting', 'running', 'stopping'] as const;
+  const instances = instanceManager.list().map((instance) => {
+    const info = instance.status.getStatusInfo();
+    const running = info.status !== 'stopped';
+    return {
+      labels: { instance: instance.id },
+      info,
+      uptime: getPanelUptimeSeconds(instance.id),
+      sample: running ? instance.metrics.getHistory().pop() : undefined,
+      tick: running ? instance.ticks.getHistory().pop() : undefined,
+      players: running && info.ping?.online ? info.ping.players : undefined,
+      backup: instance.backup.getStatus(),
+    };
+  });
+
+  return [
+    {
+      name: 'panel_server_state',
+      help: 'Minecraft server state (1 for the current state, 0 otherwise)',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, info }) =>
+        states.map((state) => ({ labels: { ...labels, state }, value: info.status === state ? 1 : 0 }))
+      ),
+    },
+    {
+      name: 'panel_server_uptime_seconds',
+      help: 'Seconds since the Minecraft server became running',
+      type: 'gauge',
+      samples: instances.map(({ labels, uptime }) => ({ labels, value: uptime })),
+    },
+    {
+      name: 'panel_websocket_clients',
+      help: 'Connected WebSocket clients',
+      type: 'gauge',
+      samples: [{ value: clients.size }],
+    },
+    {
+      name: 'panel_players_online',
+      help: 'Players online, from the Server List Ping',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, players }) => (players ? [{ labels, value: players.online }] : [])),
+    },
+    {
+      name: 'panel_players_max',
+      help: 'Player slots, from the Server List Ping',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, players }) => (players ? [{ labels, value: players.max }] : [])),
+    },
+    {
+      name: 'panel_jvm_cpu_percent',
+      help: 'JVM CPU usage as a share of all host cores (0-100)',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, sample }) => (sample ? [{ labels, value: sample.cpuPercent }] : [])),
+    },
+    {
+      name: 'panel_jvm_resident_memory_bytes',
+      help: 'JVM resident set size',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, sample }) => (sample ? [{ labels, value: sample.rssBytes }] : [])),
+    },
+    {
+      name: 'panel_jvm_threads',
+      help: 'JVM thread count',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, sample }) => (sample ? [{ labels, value: sample.threads }] : [])),
+    },
+    {
+      name: 'panel_server_tps',
+      help: 'Ticks per second',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, tick }) => (tick?.tps != null ? [{ labels, value: tick.tps }] : [])),
+    },
+    {
+      name: 'panel_server_mspt',
+      help: 'Milliseconds per tick',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, tick }) => (tick?.mspt != null ? [{ labels, value: tick.mspt }] : [])),
+    },
+    {
+      name: 'panel_backup_last_success_timestamp_seconds',
+      help: 'Unix time of the last successful S3 backup',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, backup }) =>
+        backup.lastSuccessAt != null ? [{ labels, value: backup.lastSuccessAt / 1000 }] : []
+      ),
+    },
+    {
+      name: 'panel_backup_last_duration_seconds',
+      help: 'Duration of the last successful S3 backup',
+      type: 'gauge',
+      samples: instances.flatMap(({ labels, backup }) =>
+        backup.lastDurationMs != null ? [{ labels, value: backup.lastDurationMs / 1000 }] : []
+      ),
+    },
+    {
+      name: 'panel_backup_in_progress',
+      help: 'Whether an S3 backup is currently running',
+      type: 'gauge',
+      samples: instances.map(({ labels, backup }) => ({ labels, value: backup.inProgress ? 1 : 0 })),
+    },
+    {
+      name: 'panel_tunnel_up',
+      help: 'Whether a tunnel is up (1) or down (0)',
+      type: 'gauge',
+      samples: [
+        { labels: { tunnel: 'pinggy' }, value: tunnelUp.pinggy ? 1 : 0 },
+        { labels: { tunnel: 'playit' }, value: tunnelUp.playit ? 1 : 0 },
+      ],
+    },
+  ];
+}
+
+// Permission needed for each client → server WebSocket message type
+const MESSAGE_PERMISSIONS: Record<string, Permission> = {
+  'input': 'terminal',
+  'resize': 'terminal',
+  'console-input': 'console:write',
+  'console-resize': 'console:write',
+  'panel-action': 'server:control',
+};
+
+/**
+ * Resolve the ?instance= query parameter (default instance when absent)
+ * Replies 404 for unknown instances
+ */
+function requireInstance(res: ServerResponse, value: string | string[] | undefined): ServerInstance | null {
+  const id = typeof value === 'string' ? value : undefined;
+  const instance = instanceManager.get(id);
+  if (instance) return instance;
+  res.statusCode = 404;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ success: false, error: `Unknown instance: ${id}` }));
+  return null;
+}
+
+/**
+ * Whether a WebSocket client's user currently has a permission
+ * API token clients also need the token to be unrevoked, unexpired and scoped for it
+ */
+function clientCan(ws: WebSocket, permission: Permission): boolean {
+  const info = clientInfo.get(ws);
+  const role = info ? authManager.getRole(info.username) : null;
+  if (!info || !role || !hasPermission(role, permission)) return false;
+  if (info.tokenId && !apiTokenManager.isActive(info.tokenId)) return false;
+  return !info.scopes || info.scopes.includes(permission);
+}
+
+/**
+ * Record lines typed into the shell or the Minecraft console in the audit log
+ */
+function auditTypedInput(ws: WebSocket, source: 'terminal' | 'console', data: string): void {
+  const info = clientInfo.get(ws);
+  if (!info) return;
+  const key = source === 'terminal' ? 'terminalLine' : 'consoleLine';
+  const { pending, lines } = splitTypedInput(info[key], data);
+  info[key] = pending;
+  for (const line of lines) {
+    auditLog.record({
+      actor: info.username,
+      ip: info.ip,
+      action: source === 'terminal' ? 'terminal.input' : 'console.command',
+      target: line,
+    });
+  }
+}
+
+/**
+ * Reply 403 unless the session user has the permission
+ */
+function requirePermission(res: ServerResponse, session: SessionUser | null, permission: Permission): boolean {
+  if (session && userHasPermission(session, permission)) return true;
+  res.statusCode = 403;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ success: false, error: `Forbidden: requires ${permission}` }));
+  return false;
+}
+
 /**
  * Update status bar
  */
@@ -185,76 +482,109 @@ function updateStatusBar() {
   console.log(`Connected clients: ${clientCount}`);
 }
 
-// Handle Ctrl+C to shutdown server
-process.on('SIGINT', () => {
+// Handle Ctrl+C / SIGTERM to shutdown server
+// The Minecraft server gets the same graceful stop sequence as the Stop button;
+// a second signal skips straight to killing it.
+let shuttingDown = false;
+const shutdown = async () => {
+  const instances = instanceManager.list();
+  if (shuttingDown) {
+    console.log('\nForcing shutdown...');
+    instances.forEach((instance) => instance.process.kill());
+    process.exit(1);
+  }
+  shuttingDown = true;
   console.log('\nShutting down server...');
-  statusManager.destroy();
+  await Promise.all(instances.map(async (instance) => {
+    try {
+      await instance.process.stop();
+    } catch (error) {
+      console.error(`[Server] Graceful stop of '${instance.id}' failed:`, error);
+      instance.process.kill();
+    }
+  }));
+  await instanceManager.destroy();
   ptyProcess.kill();
   process.exit(0);
-});
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 /**
  * Start the server
  */
 app.prepare().then(async () => {
-  // Initialize status manager before starting server
-  console.log('[Server] Initializing status manager...');
-  await statusManager.initialize();
-  const initialStatus = statusManager.getStatus();
-  console.log(`[Server] Initial status: ${initialStatus}`);
-  
-  // If server is already running on startup, start uptime counter
-  if (initialStatus === 'running') {
-    console.log('[Server] Server is already running, starting uptime counter');
-    panelUptimeStart = Date.now();
-    panelUptimeActive = true;
+  // Load users before accepting requests; every route is gated on them
+  await authManager.initialize();
+
+  // Create every configured instance (supervisor, status, metrics, backups) before starting server
+  console.log('[Server] Initializing server instances...');
+  await instanceManager.initialize();
+  for (const instance of instanceManager.list()) {
+    console.log(`[Server] Initial status of '${instance.id}': ${instance.status.getStatus()}`);
+    attachInstance(instance);
   }
 
-  // Add status change listener to broadcast to all WebSocket clients
-  statusManager.addListener((statusInfo) => {
-    console.log('[Server] Broadcasting status update to clients:', statusInfo.status);
-    
-    // Manage uptime based on status changes
-    if (statusInfo.status === 'running') {
-      // Start uptime when server becomes running (online)
-      if (!panelUptimeActive) {
-        console.log('[Server] Server is now running, starting uptime counter');
-        panelUptimeStart = Date.now();
-        panelUptimeActive = true;
-      }
-    } else if (statusInfo.status === 'stopped') {
-      // Stop uptime when server stops
-      if (panelUptimeActive) {
-        console.log('[Server] Server stopped, stopping uptime counter');
-        panelUptimeActive = false;
-        panelUptimeStart = null;
+  const server = createServer(async (req, res) => {
+    const parsedUrl = parse(req.url!, true);
+    const pathname = parsedUrl.pathname || '/';
+    // Route handlers read the client IP for audit entries from this header
+    const clientIp = getClientIp(req);
+    req.headers[CLIENT_IP_HEADER] = clientIp;
+    const session = authManager.authenticateRequest(req.headers, clientIp);
+
+    // GET /metrics — Prometheus / OpenMetrics exporter, for sessions, API tokens or the METRICS_TOKEN bearer token
+    if (req.method === 'GET' && pathname === '/metrics') {
+      try {
+        const config = await getConfig();
+        const allowed = session ? userHasPermission(session, 'status:read') : isMetricsAuthorized(req.headers.authorization, config.METRICS_TOKEN);
+        if (!allowed) {
+          res.statusCode = 401;
+          res.setHeader('WWW-Authenticate', 'Bearer realm="metrics"');
+          res.setHeader('Content-Type', 'text/plain');
+          res.end('Unauthorized\n');
+          return;
+        }
+        const openMetrics = wantsOpenMetrics(req.headers.accept);
+        res.statusCode = 200;
+        res.setHeader('Content-Type', openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE);
+        res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+        res.end(renderMetrics(collectPanelMetrics(), openMetrics));
+      } catch (error) {
+        res.statusCode = 500;
+        res.setHeader('Content-Type', 'text/plain');
+        res.end(`Failed to collect metrics: ${error instanceof Error ? error.message : String(error)}\n`);
       }
+      return;
     }
-    
-    const message = JSON.stringify({ 
-      type: 'status', 
-      data: {
-        status: statusInfo.status,
-        processFound: statusInfo.processFound,
-        pid: statusInfo.pid,
-        timestamp: statusInfo.timestamp
-      }
-    });
-    
-    clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
-  });
 
-  const server = createServer(async (req, res) => {
-    const parsedUrl = parse(req.url!, true);
+    // Everything else requires a session or API token: pages redirect to /login, API calls get 401
+    if (!session && !isPublicPath(pathname)) {
+      if (req.method === 'GET' && !pathname.startsWith('/api/')) {
+        res.statusCode = 302;
+        res.setHeader('Location', `/login?next=${encodeURIComponent(req.url || '/')}`);
+        res.end();
+      } else {
+        res.statusCode = 401;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ success: false, error: 'Unauthorized' }));
+      }
+      return;
+    }
+    if (session && pathname === '/login') {
+      res.statusCode = 302;
+      res.setHeader('Location', safeRedirectPath(typeof parsedUrl.query.next === 'string' ? parsedUrl.query.next : null));
+      res.end();
+      return;
+    }
 
-    // GET /api/server-properties — read server.properties
+    // GET /api/server-properties?instance=<id> — read server.properties
     if (req.method === 'GET' && parsedUrl.pathname === '/api/server-properties') {
+      if (!requirePermission(res, session, 'status:read')) return;
+      const instance = requireInstance(res, parsedUrl.query.instance);
+      if (!instance) return;
       try {
-        const properties = await readServerProperties();
+        const properties = await readServerProperties(instance.id);
         res.statusCode = 200;
         res.setHeader('Content-Type', 'application/json');
         res.end(JSON.stringify({ success: true, properties }));
@@ -266,11 +596,14 @@ app.prepare().then(async () => {
       return;
     }
 
-    // POST /api/server-properties — update server property
+    // POST /api/server-properties?instance=<id> — update server property
     if (req.method === 'POST' && parsedUrl.pathname === '/api/server-properties') {
+      if (!requirePermission(res, session, 'properties:write')) return;
+      const instance = requireInstance(res, parsedUrl.query.instance);
+      if (!instance) return;
       try {
         // Check if server is running
-        const currentStatus = statusManager.getStatus();
+        const currentStatus = instance.status.getStatus();
         if (currentStatus === 'running' || currentStatus === 'starting') {
           res.statusCode = 400;
           res.setHeader('Content-Type', 'application/json');
@@ -295,7 +628,15 @@ app.prepare().then(async () => {
           return;
         }
 
-        const success = await updateServerProperty(key, value);
+        const success = await updateServerProperty(instance.id, key, value);
+        auditLog.record({
+          actor: session!.username,
+          ip: clientIp,
+          action: 'properties.update',
+          target: String(key),
+          success,
+          details: { value: String(value), instance: instance.id },
+        });
         res.statusCode = success ? 200 : 500;
         res.setHeader('Content-Type', 'application/json');
         res.end(JSON.stringify({ success }));
@@ -309,6 +650,7 @@ app.prepare().then(async () => {
 
     // POST /api/exec — execute a command on the shared PTY and return output window
     if (req.method === 'POST' && parsedUrl.pathname === '/api/exec') {
+      if (!requirePermission(res, session, 'terminal')) return;
       try {
         // Read JSON body
         const chunks: Buffer[] = [];
@@ -325,6 +667,8 @@ app.prepare().then(async () => {
           return;
         }
 
+        auditLog.record({ actor: session!.username, ip: clientIp, action: 'terminal.exec', target: cmd });
+
         // Capture output window
         let captured = '';
         const onData = (data: string) => { captured += data; };
@@ -358,51 +702,64 @@ app.prepare().then(async () => {
     handle(req, res, parsedUrl);
   });
 
-  // Create WebSocket server on the same HTTP server
+  // Create WebSocket server on the same HTTP server; the upgrade needs a session or API token
   const wss = new WebSocketServer({ 
     server,
-    path: '/api/terminal-ws'
+    path: '/api/terminal-ws',
+    verifyClient: (info, callback) => {
+      // The socket streams status and console output, so API tokens need status:read
+      const user = authManager.authenticateRequest(info.req.headers, getClientIp(info.req));
+      if (!user || !userHasPermission(user, 'status:read')) {
+        console.log('[Server] Rejected unauthenticated WebSocket connection');
+        callback(false, 401, 'Unauthorized');
+      } else if (!instanceManager.get(requestedInstanceId(info.req.url))) {
+        callback(false, 404, 'Unknown instance');
+      } else {
+        callback(true);
+      }
+    },
   });
 
-  // Uptime ticker: every 1s, send panel-driven uptime
+  // Uptime ticker: every 1s, send the panel-driven uptime of each client's instance
   setInterval(() => {
-    let seconds = 0;
-    if (panelUptimeActive && panelUptimeStart != null) {
-      seconds = Math.max(0, Math.floor((Date.now() - panelUptimeStart) / 1000));
-    }
-    const msg = JSON.stringify({ type: 'uptime', uptimeSeconds: seconds });
     clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) client.send(msg);
+      const info = clientInfo.get(client);
+      if (!info || client.readyState !== WebSocket.OPEN) return;
+      client.send(JSON.stringify({ type: 'uptime', uptimeSeconds: getPanelUptimeSeconds(info.instanceId) }));
     });
   }, 1000);
 
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('New client connected');
+  wss.on('connection', (ws: WebSocket, req) => {
+    // verifyClient already checked the session; it can only be gone if it expired in between
+    const ip = getClientIp(req);
+    const user = authManager.authenticateRequest(req.headers, ip);
+    if (!user) {
+      ws.close(1008, 'Unauthorized');
+      return;
+    }
+    const instance = instanceManager.get(requestedInstanceId(req.url))!;
+    console.log(`New client connected (${user.username}${user.tokenId ? ', API token' : ''}, instance '${instance.id}')`);
     clients.add(ws);
+    clientInfo.set(ws, {
+      username: user.username,
+      ip,
+      tokenId: user.tokenId,
+      scopes: user.scopes,
+      instanceId: instance.id,
+      terminalLine: '',
+      consoleLine: '',
+    });
     updateStatusBar();
     
-    // Send terminal history to new client
+    // Send terminal history to new client (shell users only)
     try {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === WebSocket.OPEN && clientCan(ws, 'terminal')) {
         ws.send(JSON.stringify({ type: 'history', data: outputBuffer }));
       }
     } catch {}
 
-    // Send current status to new client
-    try {
-      if (ws.readyState === WebSocket.OPEN) {
-        const statusInfo = statusManager.getStatusInfo();
-        ws.send(JSON.stringify({ 
-          type: 'status', 
-          data: {
-            status: statusInfo.status,
-            processFound: statusInfo.processFound,
-            pid: statusInfo.pid,
-            timestamp: statusInfo.timestamp
-          }
-        }));
-      }
-    } catch {}
+    // Send the followed instance's console history, status and recent metrics to new client
+    sendInstanceSnapshot(ws, instance);
 
     /**
      * Handle incoming messages from clients
@@ -410,11 +767,21 @@ app.prepare().then(async () => {
     ws.on('message', (message: Buffer) => {
       try {
         const data = JSON.parse(message.toString());
+
+        const required = MESSAGE_PERMISSIONS[data.type];
+        if (required && !clientCan(ws, required)) {
+          console.log(`[Server] '${clientInfo.get(ws)?.username}' lacks ${required}, ignoring ${data.type}`);
+          if (data.type === 'panel-action' && ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ type: 'panel-error', action: data.action, message: 'You do not have permission to control the server' }));
+          }
+          return;
+        }
         
         if (data.type === 'input') {
           try {
             if (ws.readyState === WebSocket.OPEN && ptyProcess) {
               ptyProcess.write(data.data);
+              auditTypedInput(ws, 'terminal', String(data.data ?? ''));
             }
           } catch (e: any) {
             const msg = e?.message || String(e);
@@ -439,18 +806,29 @@ app.prepare().then(async () => {
               if (process.env.DEBUG) console.debug('Resize error:', msg);
             }
           }
-        } else if (data.type === 'panel-action') {
-          // Handle panel actions for status
-          if (data.action === 'start') {
-            console.log('[Server] Panel action: start');
-            // Set status to starting (uptime will start when status becomes 'running')
-            // Note: Client sends 'clear' command and waits 1 second before sending Java command
-            statusManager.setStatus('starting');
-          } else if (data.action === 'stop') {
-            console.log('[Server] Panel action: stop');
-            // Set status to stopping (uptime will stop when status becomes 'stopped')
-            statusManager.setStatus('stopping');
+        } else if (data.type === 'console-input') {
+          // Forward input to the Minecraft server console of the client's instance
+          instanceManager.get(clientInfo.get(ws)?.instanceId)?.process.write(String(data.data ?? ''));
+          auditTypedInput(ws, 'console', String(data.data ?? ''));
+        } else if (data.type === 'console-resize') {
+          const cols = Math.max(1, parseInt(data.cols) || 80);
+          const rows = Math.max(1, parseInt(data.rows) || 30);
+          instanceManager.get(clientInfo.get(ws)?.instanceId)?.process.resize(cols, rows);
+        } else if (data.type === 'select-instance') {
+          // Follow another instance; the client gets its snapshot like on connect
+          const info = clientInfo.get(ws);
+          const selected = instanceManager.get(String(data.instance ?? ''));
+          if (!info || !selected) {
+            ws.send(JSON.stringify({ type: 'panel-error', action: 'select-instance', message: `Unknown instance: ${data.instance}` }));
+            return;
           }
+          info.instanceId = selected.id;
+          info.consoleLine = '';
+          sendInstanceSnapshot(ws, selected);
+        } else if (data.type === 'panel-action') {
+          // Status follows the process lifecycle (uptime starts when status becomes 'running')
+          console.log(`[Server] Panel action: ${data.action}`);
+          runPanelAction(String(data.action), ws);
         }
       } catch (error: any) {
         const msg = error?.message || String(error);
@@ -468,6 +846,7 @@ app.prepare().then(async () => {
     ws.on('close', () => {
       console.log('Client disconnected');
       clients.delete(ws);
+      clientInfo.delete(ws);
       updateStatusBar();
     });
     
@@ -477,6 +856,7 @@ app.prepare().then(async () => {
     ws.on('error', (error) => {
       console.error('WebSocket error:', error);
       clients.delete(ws);
+      clientInfo.delete(ws);
       updateStatusBar();
     });
   });
@@ -506,8 +886,10 @@ app.prepare().then(async () => {
         const urls = await t.start();
         console.log('[pinggy] Tunnel started. URLs:', urls);
         pinggyTunnel = t;
+        tunnelUp.pinggy = true;
       } catch (e: any) {
         console.error('[pinggy] failed to start:', e?.message || String(e));
+        tunnelUp.pinggy = false;
       }
     };
 
@@ -524,6 +906,7 @@ app.prepare().then(async () => {
           }
         }
         pinggyTunnel = null;
+        tunnelUp.pinggy = false;
         await startPinggyTunnel();
         console.log('[pinggy] Tunnel restart complete');
       } catch (e: any) {
@@ -552,7 +935,15 @@ app.prepare().then(async () => {
       try {
         const { spawn } = await import('child_process');
         const playit = spawn('playit', [], { env: process.env });
-        playit.on('exit', (code, signal) => console.log(`[playit] exited code=${code} signal=${signal}`));
+        playit.on('spawn', () => { tunnelUp.playit = true; });
+        playit.on('error', (e) => {
+          tunnelUp.playit = false;
+          console.error('[playit] process error:', e.message);
+        });
+        playit.on('exit', (code, signal) => {
+          tunnelUp.playit = false;
+          console.log(`[playit] exited code=${code} signal=${signal}`);
+        });
       } catch (e: any) {
         console.error('[playit] failed to start on boot:', e?.message || String(e));
         console.error('[playit] Ensure the binary is installed and in PATH');
@@ -561,16 +952,17 @@ app.prepare().then(async () => {
       console.log('[playit] Disabled in config, skipping startup');
     }
 
-    // Start S3 Backup Service
-    try {
-      console.log('[S3Backup] Initializing backup service...');
-      const mcPath = config.MC_DIR || path.join(process.cwd(), 'mc');
-      await s3BackupService.initialize(mcPath);
-      s3BackupService.startAutoBackup();
-      console.log('[S3Backup] Backup service started successfully');
-    } catch (e: any) {
-      console.error('[S3Backup] Failed to start backup service:', e?.message || String(e));
-      console.error('[S3Backup] Backups will not be performed');
+    // Start the S3 Backup Service of each instance
+    for (const instance of instanceManager.list()) {
+      try {
+        console.log(`[S3Backup] Initializing backup service of '${instance.id}'...`);
+        await instance.backup.initialize(await getInstanceDir(instance.id));
+        instance.backup.startAutoBackup();
+        console.log(`[S3Backup] Backup service of '${instance.id}' started successfully`);
+      } catch (e: any) {
+        console.error(`[S3Backup] Failed to start backup service of '${instance.id}':`, e?.message || String(e));
+        console.error(`[S3Backup] Backups of '${instance.id}' will not be performed`);
+      }
     }
   });
 });
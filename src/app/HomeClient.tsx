@@ -1,16 +1,18 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { addUptimeListener, getOrCreateTerminalWS, panelAction } from './terminal/wsSession';
+import { addAlertListener, addPanelErrorListener, addProcessEventListener, addUptimeListener, getOrCreateTerminalWS, panelAction, selectTerminalInstance } from './terminal/wsSession';
+import type { StopStep } from '@/lib/serverProcess';
+import type { AutoRestartState } from '@/lib/statusManager';
 import { DashboardLayout } from '@/components/dashboard';
+import { useInstance } from '@/hooks/useInstance';
 
 interface HomeClientProps {
   javaIp: string;
   bedrockIp: string;
-  startCommand: string;
 }
 
-export default function HomeClient({ javaIp, bedrockIp, startCommand }: HomeClientProps) {
+export default function HomeClient({ javaIp, bedrockIp }: HomeClientProps) {
   const [running, setRunning] = useState(false);
   const [preparing, setPreparing] = useState(false);
   const [busy, setBusy] = useState(false);
@@ -19,8 +21,15 @@ export default function HomeClient({ javaIp, bedrockIp, startCommand }: HomeClie
   const [error, setError] = useState<string | null>(null);
   const [serverInfo, setServerInfo] = useState<any>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
   const [uptimeSeconds, setUptimeSeconds] = useState<number | null>(null);
+  const [stopStep, setStopStep] = useState<StopStep | null>(null);
+  const [autoRestartState, setAutoRestartState] = useState<AutoRestartState>('idle');
+  const { instanceId, instances, withInstance } = useInstance();
+  // Read by the alert listener, which is registered once
+  const instanceIdRef = useRef(instanceId);
+  useEffect(() => {
+    instanceIdRef.current = instanceId || instances[0]?.id || '';
+  }, [instanceId, instances]);
 
   const handleStatusUpdate = useCallback((data: any) => {
     const status = data?.status;
@@ -38,6 +47,7 @@ export default function HomeClient({ javaIp, bedrockIp, startCommand }: HomeClie
     setPreparing(isStarting);
     setStopping(isStopping);
     setServerInfo(data);
+    setAutoRestartState(data?.autoRestart?.state || 'idle');
     setStatusReady(true);
     
     // Clear busy state when we reach a stable state
@@ -46,87 +56,72 @@ export default function HomeClient({ javaIp, bedrockIp, startCommand }: HomeClie
     }
   }, []);
 
-  // Setup WebSocket connection for terminal and uptime
+  // Setup WebSocket connection for panel actions and uptime
+  // (page.tsx remounts this component when another instance is selected)
   useEffect(() => {
-    const ws = getOrCreateTerminalWS();
-    wsRef.current = ws;
+    selectTerminalInstance(instanceId);
+    getOrCreateTerminalWS();
     
     // Listen for uptime updates
     const removeListener = addUptimeListener((seconds: number) => {
       setUptimeSeconds(seconds);
     });
+
+    // Panel actions run server-side; failures are reported back over the WebSocket
+    const removeErrorListener = addPanelErrorListener((action: string, message: string) => {
+      setError(message || `Failed to ${action}`);
+      setPreparing(false);
+      setStopping(false);
+      setBusy(false);
+    });
+    
+    // Track the graceful stop sequence (stop command → SIGTERM → SIGKILL)
+    const removeProcessListener = addProcessEventListener((event) => {
+      if (event.type === 'stop-step') {
+        setStopStep(event.step);
+      } else if (event.type === 'exit' || event.type === 'spawn') {
+        setStopStep(null);
+      }
+    });
+    
+    // Crashes and crash loops are surfaced in the error banner, naming other instances
+    const removeAlertListener = addAlertListener((alert, instance) => {
+      const other = instance && instance.id !== instanceIdRef.current;
+      setError(other ? `${instance.name}: ${alert.message}` : alert.message);
+    });
     
     return () => {
       removeListener();
+      removeErrorListener();
+      removeProcessListener();
+      removeAlertListener();
     };
-  }, []);
+  }, [instanceId]);
 
-  const sendInput = useCallback((data: string) => {
-    const ws = wsRef.current;
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'input', data }));
-      return true;
-    }
-    return false;
-  }, []);
-
-  const startServer = useCallback(async () => {
+  const startServer = useCallback(() => {
     setBusy(true);
     setError(null);
     setStopping(false);
     setPreparing(true);
     
-    try {
-      if (!startCommand) throw new Error('Start command not available');
-      
-      // Notify server to start uptime counter and set status to 'starting'
-      panelAction('start');
-      
-      // Send clear command first
-      const clearOk = sendInput('clear\n');
-      if (!clearOk) throw new Error('Terminal connection not ready');
-      
-      // Wait 1 second before sending the Java start command
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Send the start command
-      const ok = sendInput(startCommand + "\n");
-      if (!ok) throw new Error('Terminal connection not ready');
-      
-      // Status will be updated via SSE (which gets it from WebSocket)
-    } catch (e: any) {
-      setError(e?.message || 'Failed to start');
-      setPreparing(false);
-      setBusy(false);
-    }
-  }, [sendInput, startCommand]);
+    // The server spawns the JVM; status will be updated via SSE (which gets it from WebSocket)
+    panelAction('start');
+  }, []);
 
-  const stopServer = useCallback(async () => {
+  const stopServer = useCallback(() => {
     setBusy(true);
     setError(null);
     setPreparing(false);
     setStopping(true);
     
-    try {
-      // Notify server to stop uptime counter and set status to 'stopping'
-      panelAction('stop');
-      
-      // Send Ctrl+C
-      const ok = sendInput('\x03');
-      if (!ok) throw new Error('Terminal connection not ready');
-      
-      // Status will be updated via SSE (which gets it from WebSocket)
-    } catch (e: any) {
-      setError(e?.message || 'Failed to stop');
-      setStopping(false);
-      setBusy(false);
-    }
-  }, [sendInput]);
+    // The server sends `stop` to the console; status will be updated via SSE
+    panelAction('stop');
+  }, []);
 
   useEffect(() => {
     // Set up Server-Sent Events for real-time status updates
     // SSE endpoint connects to WebSocket server-side to get status
-    const eventSource = new EventSource('/api/server-status-stream');
+    const eventSource = new EventSource(withInstance('/api/server-status-stream'));
     eventSourceRef.current = eventSource;
 
     eventSource.onmessage = (event) => {
@@ -149,13 +144,18 @@ export default function HomeClient({ javaIp, bedrockIp, startCommand }: HomeClie
         eventSourceRef.current.close();
       }
     };
-  }, [handleStatusUpdate]);
+  }, [handleStatusUpdate, withInstance]);
 
   return (
     <DashboardLayout
       running={running}
       preparing={preparing}
       stopping={stopping}
+      stopStep={stopStep}
+      autoRestartState={autoRestartState}
+      lastCrash={serverInfo?.lastCrash}
+      ping={serverInfo?.ping}
+      bedrock={serverInfo?.bedrock}
       busy={busy}
       error={error}
       statusReady={statusReady}
@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { auditLog } from '@/lib/auditLog';
+import { changeAccessList, isAccessListName, readAccessLists, type AccessChange } from '@/lib/accessLists';
+import { readServerProperties } from '@/lib/serverProperties';
+
+/**
+ * GET /api/access?instance=<id>
+ * 
+ * Returns an instance's whitelist, ops and ban lists
+ * 
+ * Response Format:
+ * {
+ *   running: boolean,
+ *   whitelistEnabled: boolean,
+ *   whitelist: [{ uuid, name }],
+ *   ops: [{ uuid, name, level, bypassesPlayerLimit }],
+ *   bans: [{ uuid, name, created, source, expires, reason }],
+ *   'ip-bans': [{ ip, created, source, expires, reason }],
+ *   tempBans: [{ list: 'bans' | 'ip-bans', target, expiresAt, actor, reason? }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+  try {
+    const [lists, properties, tempBans] = await Promise.all([
+      readAccessLists(instance.id),
+      readServerProperties(instance.id),
+      instance.moderation.listTempBans(),
+    ]);
+    return NextResponse.json(
+      {
+        running: instance.status.getStatus() === 'running',
+        whitelistEnabled: properties['white-list'] === 'true',
+        ...lists,
+        tempBans,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Access API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read access lists',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/access?instance=<id>
+ * 
+ * Adds a player / IP to a list or removes it (requires players:manage).
+ * Uses console commands while the server is running, file writes while it is stopped.
+ * Bans with durationMinutes are pardoned by the moderation scheduler when they expire;
+ * bans and pardons are added to the player's moderation history.
+ * 
+ * Request Body:
+ *   { list: 'whitelist', action: 'add' | 'remove', name }
+ *   { list: 'ops', action: 'add' | 'remove', name, level?: 1-4, bypassesPlayerLimit?: boolean }
+ *   { list: 'bans', action: 'add' | 'remove', name, reason?, durationMinutes? }
+ *   { list: 'ip-bans', action: 'add' | 'remove', ip, reason?, durationMinutes? }
+ * 
+ * Response Format:
+ * { success: boolean, via: 'console' | 'file', applied: boolean, entries: [...], error?: string }
+ */
+export async function POST(request: Request) {
+  const denied = checkPermission(request, 'players:manage');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const body = await request.json().catch(() => ({}));
+  if (!isAccessListName(body?.list) || (body?.action !== 'add' && body?.action !== 'remove')) {
+    return NextResponse.json({ success: false, error: 'Invalid list or action' }, { status: 400 });
+  }
+  const subject = body.list === 'ip-bans' ? body.ip : body.name;
+  if (typeof subject !== 'string' || !subject) {
+    return NextResponse.json({ success: false, error: body.list === 'ip-bans' ? 'IP is required' : 'Name is required' }, { status: 400 });
+  }
+  const isBan = body.list === 'bans' || body.list === 'ip-bans';
+  const duration = body.durationMinutes;
+  if (duration !== undefined && (!isBan || body.action !== 'add' || !Number.isInteger(duration) || duration <= 0)) {
+    return NextResponse.json({ success: false, error: 'durationMinutes must be a positive whole number (bans only)' }, { status: 400 });
+  }
+  const expiresAt = duration ? new Date(Date.now() + duration * 60 * 1000).toISOString() : undefined;
+
+  const context = getAuditContext(request);
+  const change = {
+    list: body.list,
+    action: body.action,
+    ...(body.list === 'ip-bans' ? { ip: subject } : { name: subject }),
+    ...(typeof body.reason === 'string' ? { reason: body.reason } : {}),
+    ...(typeof body.level === 'number' ? { level: body.level } : {}),
+    ...(typeof body.bypassesPlayerLimit === 'boolean' ? { bypassesPlayerLimit: body.bypassesPlayerLimit } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+    source: context.actor,
+  } as AccessChange;
+  const audit = {
+    ...context,
+    action: `player.${body.list}.${body.action}`,
+    target: subject,
+    details: { instance: instance.id, ...(expiresAt ? { expiresAt } : {}) },
+  };
+
+  try {
+    const result = await changeAccessList(instance, change);
+    auditLog.record({ ...audit, success: result.applied, details: { ...audit.details, via: result.via } });
+    if (isBan && result.applied) {
+      const list = body.list as 'bans' | 'ip-bans';
+      if (expiresAt) {
+        await instance.moderation.scheduleUnban({ list, target: subject, expiresAt, actor: context.actor, ...(body.reason ? { reason: body.reason } : {}) });
+      } else {
+        await instance.moderation.cancelUnban(list, subject);
+      }
+      await instance.moderation.record({
+        target: subject,
+        action: body.action === 'add' ? 'ban' : 'unban',
+        actor: context.actor,
+        ...(typeof body.reason === 'string' ? { reason: body.reason } : {}),
+        ...(expiresAt ? { expiresAt } : {}),
+      });
+    }
+    return NextResponse.json({
+      success: result.applied,
+      ...result,
+      ...(result.applied ? {} : { error: 'The server did not apply the change; check the console' }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    auditLog.record({ ...audit, success: false, details: { ...audit.details, error: message } });
+    return NextResponse.json({ success: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { auditLog } from '@/lib/auditLog';
+import { checkPermission } from '@/lib/routeAuth';
+
+/**
+ * Parse a timestamp given as epoch milliseconds or an ISO date
+ */
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * GET /api/audit
+ *
+ * Searches the audit log, newest first (requires audit:read)
+ *
+ * Query Parameters:
+ *   - actor: exact username ('system' for scheduled actions)
+ *   - action: exact action, or a prefix ending in '.' such as file.
+ *   - q: case-insensitive text in the target or details
+ *   - from / to: epoch ms or ISO date
+ *   - limit: max entries (default 200, max 1000)
+ *
+ * Response Format:
+ * {
+ *   entries: [{ timestamp, actor, ip, action, target?, success, details? }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'audit:read');
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const from = parseTime(searchParams.get('from'));
+  const to = parseTime(searchParams.get('to'));
+  if (from === null || to === null) {
+    return NextResponse.json({ error: 'Invalid from / to' }, { status: 400 });
+  }
+  const limitRaw = searchParams.get('limit');
+  const limit = limitRaw ? parseInt(limitRaw, 10) : undefined;
+  if (limit !== undefined && isNaN(limit)) {
+    return NextResponse.json({ error: 'Invalid limit' }, { status: 400 });
+  }
+
+  try {
+    const entries = await auditLog.query({
+      actor: searchParams.get('actor') || undefined,
+      action: searchParams.get('action') || undefined,
+      q: searchParams.get('q') || undefined,
+      from,
+      to,
+      limit,
+    });
+    return NextResponse.json({ entries }, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    console.error('[Audit API] Query failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
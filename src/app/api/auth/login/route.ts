@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { authManager } from '@/lib/auth';
+import { auditLog, CLIENT_IP_HEADER } from '@/lib/auditLog';
+
+/**
+ * POST /api/auth/login
+ *
+ * Checks a username / password and sets the signed session cookie
+ *
+ * Request Body: { username: string, password: string }
+ *
+ * Response Format:
+ * { success: true, username: string } or { success: false, error: string } (401)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const username = typeof body?.username === 'string' ? body.username.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!username || !password) {
+      return NextResponse.json({ success: false, error: 'Username and password are required' }, { status: 400 });
+    }
+
+    const user = await authManager.verifyCredentials(username, password);
+    const ip = request.headers.get(CLIENT_IP_HEADER) ?? '';
+    if (!user) {
+      console.log(`[Auth] Failed login for '${username}'`);
+      auditLog.record({ actor: username, ip, action: 'auth.login', success: false });
+      return NextResponse.json({ success: false, error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    console.log(`[Auth] '${user}' logged in`);
+    auditLog.record({ actor: user, ip, action: 'auth.login' });
+    const secure = request.headers.get('x-forwarded-proto') === 'https';
+    return NextResponse.json(
+      { success: true, username: user },
+      { headers: { 'Set-Cookie': authManager.sessionCookie(authManager.createSession(user), secure) } }
+    );
+  } catch (error) {
+    console.error('[Auth API] Login error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { authManager } from '@/lib/auth';
+
+/**
+ * POST /api/auth/logout
+ *
+ * Clears the session cookie
+ */
+export async function POST() {
+  return NextResponse.json(
+    { success: true },
+    { headers: { 'Set-Cookie': authManager.clearSessionCookie() } }
+  );
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/routeAuth';
+import { PERMISSIONS, userHasPermission } from '@/lib/permissions';
+
+/**
+ * GET /api/auth/me
+ *
+ * Returns the logged-in user and what their role (and API token scopes) allow
+ *
+ * Response Format:
+ * { username: string, role: string, permissions: string[] }
+ */
+export async function GET(request: Request) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  return NextResponse.json(
+    { username: user.username, role: user.role, permissions: PERMISSIONS.filter((p) => userHasPermission(user, p)) },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
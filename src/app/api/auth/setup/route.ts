@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { authManager } from '@/lib/auth';
+import { auditLog, CLIENT_IP_HEADER } from '@/lib/auditLog';
+
+/**
+ * POST /api/auth/setup
+ *
+ * First-run bootstrap: creates the admin account and logs it in.
+ * Only available while no users exist, and requires the setup code
+ * printed to the server console on startup.
+ *
+ * Request Body: { setupCode: string, username: string, password: string }
+ *
+ * Response Format:
+ * { success: true, username: string } or { success: false, error: string } (400)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const setupCode = typeof body?.setupCode === 'string' ? body.setupCode : '';
+    const username = typeof body?.username === 'string' ? body.username.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+
+    try {
+      await authManager.createAdmin(setupCode, username, password);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    auditLog.record({ actor: username, ip: request.headers.get(CLIENT_IP_HEADER) ?? '', action: 'auth.setup', target: username });
+    const secure = request.headers.get('x-forwarded-proto') === 'https';
+    return NextResponse.json(
+      { success: true, username },
+      { headers: { 'Set-Cookie': authManager.sessionCookie(authManager.createSession(username), secure) } }
+    );
+  } catch (error) {
+    console.error('[Auth API] Setup error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+
+/**
+ * GET /api/backup?instance=<id>
+ *
+ * Returns the S3 backup status of an instance
+ *
+ * Response Format:
+ * {
+ *   running: boolean,          // automatic backups are scheduled
+ *   interval: number,          // minutes between automatic backups
+ *   inProgress: boolean,
+ *   lastSuccessAt: number | null,
+ *   lastDurationMs: number | null,
+ *   lastSizeBytes: number | null,
+ *   lastFailureAt: number | null
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+  return NextResponse.json(instance.backup.getStatus(), {
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  });
+}
+
+/**
+ * POST /api/backup?instance=<id>
+ *
+ * Starts a backup of an instance now (requires backup:run). The backup runs in the
+ * background; poll GET /api/backup for the result.
+ *
+ * Responses: 202 started, 409 already in progress, 503 backups unavailable
+ */
+export async function POST(request: Request) {
+  const denied = checkPermission(request, 'backup:run');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const status = instance.backup.getStatus();
+  if (!status.running) {
+    return NextResponse.json({ success: false, error: 'Backup service is not running' }, { status: 503 });
+  }
+  if (status.inProgress) {
+    return NextResponse.json({ success: false, error: 'A backup is already in progress' }, { status: 409 });
+  }
+
+  instance.backup.manualBackup(getAuditContext(request)).catch((error) => {
+    console.error('[Backup API] Manual backup failed:', error);
+  });
+  return NextResponse.json({ success: true, started: true }, { status: 202 });
+}
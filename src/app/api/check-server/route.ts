@@ -1,73 +1,18 @@
 import { NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
-
-const execAsync = promisify(exec);
-
-/**
- * Check if Minecraft server process is running
- */
-async function isMinecraftProcessRunning(): Promise<{ running: boolean; pid?: number; details?: string }> {
-  try {
-
-    
-    // Check for Java process running paper jar
-    const platform = process.platform;
-    let command: string;
-    
-    if (platform === 'win32') {
-      // Windows: Use tasklist and findstr
-      command = 'tasklist /FI "IMAGENAME eq java.exe" /FO CSV /NH';
-    } else {
-      // Linux/Mac: Use ps and grep
-      command = 'ps aux | grep "[j]ava.*paper.*\\.jar"';
-    }
-    
-    const { stdout, stderr } = await execAsync(command);
-    
-    if (platform === 'win32') {
-      // Parse Windows tasklist output
-      const lines = stdout.trim().split('\n');
-      for (const line of lines) {
-        if (line.toLowerCase().includes('java.exe')) {
-          const parts = line.split(',');
-          const pid = parts[1]?.replace(/"/g, '').trim();
-
-          return { running: true, pid: parseInt(pid || '0'), details: line };
-        }
-      }
-    } else {
-      // Parse Unix ps output
-      if (stdout.trim()) {
-        const lines = stdout.trim().split('\n');
-        for (const line of lines) {
-          const match = line.match(/^\S+\s+(\d+)/);
-          if (match) {
-            const pid = parseInt(match[1]);
-
-
-            return { running: true, pid, details: line };
-          }
-        }
-      }
-    }
-    
-
-    return { running: false };
-  } catch (error: any) {
-
-    return { running: false };
-  }
-}
+import { pingServer, type SlpResult } from '@/lib/slp';
+import { getServerPort } from '@/lib/serverProperties';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { getInstanceDir } from '@/config';
 
 /**
  * Check if log file is being actively updated
  */
-async function isLogFileActive(): Promise<{ active: boolean; ageSeconds?: number }> {
+async function isLogFileActive(instanceId: string): Promise<{ active: boolean; ageSeconds?: number }> {
   try {
-    const logPath = path.join(process.cwd(), 'mc', 'logs', 'latest.log');
+    const logPath = path.join(await getInstanceDir(instanceId), 'logs', 'latest.log');
     const stats = await fs.stat(logPath);
     const ageMs = Date.now() - stats.mtimeMs;
     const ageSeconds = ageMs / 1000;
@@ -83,55 +28,35 @@ async function isLogFileActive(): Promise<{ active: boolean; ageSeconds?: number
 
 /**
  * Check if server is listening on the Minecraft port
+ * Uses a Server List Ping so only a real Minecraft listener counts
  */
-async function isPortListening(): Promise<{ listening: boolean; port?: number }> {
+async function isPortListening(instanceId: string): Promise<{ listening: boolean; port?: number; ping?: SlpResult }> {
   try {
-    const propsPath = path.join(process.cwd(), 'mc', 'server.properties');
-    const content = await fs.readFile(propsPath, 'utf8');
-    
-    // Parse server port
-    let serverPort = 25565; // default
-    for (const line of content.split(/\r?\n/)) {
-      if (line.startsWith('server-port=')) {
-        serverPort = parseInt(line.split('=')[1].trim()) || 25565;
-        break;
-      }
-    }
-    
-
-    
-    const platform = process.platform;
-    let command: string;
-    
-    if (platform === 'win32') {
-      command = `netstat -ano | findstr :${serverPort}`;
-    } else {
-      command = `lsof -i :${serverPort} -sTCP:LISTEN || netstat -tuln | grep :${serverPort}`;
-    }
-    
-    const { stdout } = await execAsync(command);
-    const listening = stdout.trim().length > 0;
-    
-
-    return { listening, port: serverPort };
+    const serverPort = await getServerPort(instanceId);
+    const ping = await pingServer('127.0.0.1', serverPort);
+    return { listening: ping.online, port: serverPort, ping };
   } catch (error: any) {
 
     return { listening: false };
   }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
 
   
   try {
-    // Check 1: Process running
-    const processCheck = await isMinecraftProcessRunning();
+    // Check 1: Process running (the instance's supervised server process)
+    const processCheck = { running: instance.process.isRunning(), pid: instance.process.getPid() };
     
     // Check 2: Log file activity
-    const logCheck = await isLogFileActive();
+    const logCheck = await isLogFileActive(instance.id);
     
     // Check 3: Port listening
-    const portCheck = await isPortListening();
+    const portCheck = await isPortListening(instance.id);
     
     // Determine overall status
     // Server is considered online if:
@@ -161,6 +86,7 @@ export async function GET() {
           listening: portCheck.listening,
           port: portCheck.port,
         },
+        ping: portCheck.ping,
       },
       timestamp: new Date().toISOString(),
     };
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { instanceManager } from '@/lib/instances';
+import { checkPermission } from '@/lib/routeAuth';
+
+/**
+ * GET /api/instances
+ *
+ * Lists the server instances managed by the panel, default first
+ *
+ * Response Format:
+ * {
+ *   instances: [{ id: string, name: string, status: 'stopped' | 'starting' | 'running' | 'stopping' }]
+ * }
+ *
+ * Other routes that act on one server take `?instance=<id>`.
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instances = instanceManager.list().map((instance) => ({
+    id: instance.id,
+    name: instance.name,
+    status: instance.status.getStatus(),
+  }));
+  return NextResponse.json(
+    { instances },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
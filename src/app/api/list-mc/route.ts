@@ -1,20 +1,27 @@
 import { NextResponse } from "next/server";
 import { readdir, stat } from "node:fs/promises";
 import path from "node:path";
+import { checkPermission } from "@/lib/routeAuth";
+import { getRequestInstance, isInsideDir } from "@/lib/routeInstance";
+import { getInstanceDir } from "@/config";
 
 export async function GET(req: Request) {
+  const denied = checkPermission(req, "files:read");
+  if (denied) return denied;
+  const instance = getRequestInstance(req);
+  if (instance instanceof NextResponse) return instance;
   try {
     const { searchParams } = new URL(req.url);
     const rel = searchParams.get("path") || "";
     // prevent path traversal
     const safeRel = rel.replace(/\\/g, "/").replace(/\.+\//g, "");
-    const mcRoot = path.join(process.cwd(), "mc");
+    const mcRoot = await getInstanceDir(instance.id);
     const target = path.join(mcRoot, safeRel);
 
     // ensure target stays under mcRoot
     const resolvedRoot = path.resolve(mcRoot);
     const resolvedTarget = path.resolve(target);
-    if (!resolvedTarget.startsWith(resolvedRoot)) {
+    if (!isInsideDir(resolvedRoot, resolvedTarget)) {
       return NextResponse.json({ error: "Invalid path" }, { status: 400 });
     }
 
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { listLogs } from '@/lib/logArchive';
+
+/**
+ * GET /api/logs?instance=<id>
+ *
+ * Lists the log files in the instance's <MC_DIR>/logs: latest.log first,
+ * then the .log.gz archives newest first
+ *
+ * Response Format:
+ * {
+ *   files: [{ name, size, modified, compressed, date: 'YYYY-MM-DD' | null }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'files:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  try {
+    return NextResponse.json(
+      { files: await listLogs(instance.id) },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Logs API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list logs',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
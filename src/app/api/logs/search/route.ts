@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { isLogLevel, searchLogs } from '@/lib/logArchive';
+
+/**
+ * GET /api/logs/search?instance=<id>&q=<text>&regex=1&level=WARN,ERROR&from=<iso>&to=<iso>&file=<name>&cursor=<cursor>&limit=200
+ *
+ * Searches latest.log and the .log.gz archives, newest file first, all
+ * filters optional. Without filters and with `file` it pages through one
+ * log. `q` matches as plain text unless `regex=1` is given (regular
+ * expressions run with a time limit). A page stops after `limit` matches
+ * or after a bounded number of lines; request the next one with
+ * `cursor=<nextCursor>`.
+ *
+ * Response Format:
+ * {
+ *   matches: [{ file, line, time?, level?, text }],
+ *   nextCursor: string | null
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'files:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const params = new URL(request.url).searchParams;
+  const levels = (params.get('level') || '').split(',').map((level) => level.trim().toUpperCase()).filter(Boolean);
+  const invalidLevel = levels.find((level) => !isLogLevel(level));
+  if (invalidLevel) {
+    return NextResponse.json({ error: `Unknown log level: ${invalidLevel}` }, { status: 400 });
+  }
+  const limitParam = params.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  let result;
+  try {
+    result = await searchLogs(instance.id, {
+      query: params.get('q') || undefined,
+      regex: params.get('regex') === '1',
+      levels: levels.filter(isLogLevel),
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      file: params.get('file') || undefined,
+      cursor: params.get('cursor') || undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code) {
+      console.error('[Logs API] Search failed:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to search logs',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+
+  return NextResponse.json(result, {
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { tailLatestLog } from '@/lib/logArchive';
+
+const DEFAULT_INITIAL_LINES = 100;
+
+/**
+ * Server-Sent Events endpoint following latest.log
+ *
+ * GET /api/logs/tail?instance=<id>&lines=100
+ *
+ * Sends the last `lines` lines, then new lines as the server writes them
+ * (the file is polled, so this works while the server runs outside the
+ * panel too). Each event is `data: { lines: string[] }`.
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'files:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const linesParam = parseInt(new URL(request.url).searchParams.get('lines') || '', 10);
+  const initialLines = Number.isFinite(linesParam) ? linesParam : DEFAULT_INITIAL_LINES;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let stop: (() => void) | null = null;
+      let heartbeatInterval: NodeJS.Timeout | null = null;
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      // Clean up on SSE connection close
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+        stop?.();
+        if (heartbeatInterval) clearInterval(heartbeatInterval);
+        controller.close();
+      });
+
+      try {
+        stop = await tailLatestLog(instance.id, initialLines, (lines) => {
+          send(`data: ${JSON.stringify({ lines })}\n\n`);
+        });
+        if (closed) {
+          stop();
+          return;
+        }
+        // Comment lines keep proxies from closing an idle stream
+        heartbeatInterval = setInterval(() => send(': ping\n\n'), 30000);
+      } catch (error) {
+        console.error(`[Logs:${instance.id}] Failed to tail latest.log:`, error);
+        send(`event: error\ndata: ${JSON.stringify({ error: error instanceof Error ? error.message : String(error) })}\n\n`);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
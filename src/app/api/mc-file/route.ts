@@ -1,6 +1,16 @@
 import { NextResponse } from "next/server";
 import { readFile, writeFile, unlink, stat, rm } from "node:fs/promises";
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
 import path from "node:path";
+import { checkPermission, getAuditContext } from "@/lib/routeAuth";
+import { auditLog } from "@/lib/auditLog";
+import { getRequestInstance, isInsideDir } from "@/lib/routeInstance";
+import { getInstanceDir } from "@/config";
+import { readLogText } from "@/lib/logArchive";
+
+// Decompressed size up to which a rolled-over log is shown in the editor
+const MAX_ARCHIVE_VIEW_LENGTH = 10 * 1024 * 1024;
 
 function sanitize(rel: string) {
   // normalize slashes and remove traversal
@@ -9,17 +19,21 @@ function sanitize(rel: string) {
 }
 
 export async function GET(req: Request) {
+  const denied = checkPermission(req, "files:read");
+  if (denied) return denied;
+  const instance = getRequestInstance(req);
+  if (instance instanceof NextResponse) return instance;
   try {
     const { searchParams } = new URL(req.url);
     const relRaw = searchParams.get("path") || "";
     const download = searchParams.get("download") === "1";
     const rel = sanitize(relRaw);
-    const mcRoot = path.join(process.cwd(), "mc");
+    const mcRoot = await getInstanceDir(instance.id);
     const target = path.join(mcRoot, rel);
 
     const resolvedRoot = path.resolve(mcRoot);
     const resolvedTarget = path.resolve(target);
-    if (!resolvedTarget.startsWith(resolvedRoot)) {
+    if (!isInsideDir(resolvedRoot, resolvedTarget)) {
       return NextResponse.json({ error: "Invalid path" }, { status: 400 });
     }
     const s = await stat(resolvedTarget);
@@ -28,24 +42,35 @@ export async function GET(req: Request) {
     }
 
     // For certain binary/archive files, only allow download
+    const lower = rel.toLowerCase();
     {
-      const lower = rel.toLowerCase();
-      const restricted = lower.endsWith(".jar") || lower.endsWith(".zip") || lower.endsWith(".rar") || lower.endsWith(".log.gz");
+      const restricted = lower.endsWith(".jar") || lower.endsWith(".zip") || lower.endsWith(".rar");
       if (!download && restricted) {
         return NextResponse.json({ error: "Viewing/editing this file type is not allowed" }, { status: 400 });
       }
     }
 
-    const data = await readFile(resolvedTarget);
     if (download) {
+      // Streamed, so large worlds and archives are not loaded into memory
       const filename = path.basename(resolvedTarget);
-      return new NextResponse(data, {
+      const body = Readable.toWeb(createReadStream(resolvedTarget)) as ReadableStream<Uint8Array>;
+      return new NextResponse(body, {
         headers: {
           "Content-Type": "application/octet-stream",
           "Content-Disposition": `attachment; filename="${filename}"`,
+          "Content-Length": String(s.size),
         },
       });
     }
+    // Rolled-over logs are shown decompressed (read-only, see PUT), streamed with a size cap
+    if (lower.endsWith(".log.gz")) {
+      const content = await readLogText(resolvedTarget, MAX_ARCHIVE_VIEW_LENGTH);
+      if (content === null) {
+        return NextResponse.json({ error: "This archive is too large to view; download it or search it on the Logs page" }, { status: 413 });
+      }
+      return NextResponse.json({ content });
+    }
+    const data = await readFile(resolvedTarget);
     // default: return as text
     return NextResponse.json({ content: data.toString("utf-8") });
   } catch (e: any) {
@@ -54,6 +79,10 @@ export async function GET(req: Request) {
 }
 
 export async function PUT(req: Request) {
+  const denied = checkPermission(req, "files:write");
+  if (denied) return denied;
+  const instance = getRequestInstance(req);
+  if (instance instanceof NextResponse) return instance;
   try {
     const body = await req.json();
     const rel = sanitize(body?.path || "");
@@ -68,11 +97,11 @@ export async function PUT(req: Request) {
       }
     }
 
-    const mcRoot = path.join(process.cwd(), "mc");
+    const mcRoot = await getInstanceDir(instance.id);
     const target = path.join(mcRoot, rel);
     const resolvedRoot = path.resolve(mcRoot);
     const resolvedTarget = path.resolve(target);
-    if (!resolvedTarget.startsWith(resolvedRoot)) {
+    if (!isInsideDir(resolvedRoot, resolvedTarget)) {
       return NextResponse.json({ error: "Invalid path" }, { status: 400 });
     }
     const s = await stat(resolvedTarget);
@@ -81,6 +110,7 @@ export async function PUT(req: Request) {
     }
 
     await writeFile(resolvedTarget, content, "utf-8");
+    auditLog.record({ ...getAuditContext(req), action: "file.edit", target: rel, details: { bytes: Buffer.byteLength(content), instance: instance.id } });
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Failed" }, { status: 500 });
@@ -88,18 +118,25 @@ export async function PUT(req: Request) {
 }
 
 export async function DELETE(req: Request) {
+  const denied = checkPermission(req, "files:write");
+  if (denied) return denied;
+  const instance = getRequestInstance(req);
+  if (instance instanceof NextResponse) return instance;
   try {
     const { searchParams } = new URL(req.url);
     const relRaw = searchParams.get("path") || "";
     const rel = sanitize(relRaw);
 
-    const mcRoot = path.join(process.cwd(), "mc");
+    const mcRoot = await getInstanceDir(instance.id);
     const target = path.join(mcRoot, rel);
     const resolvedRoot = path.resolve(mcRoot);
     const resolvedTarget = path.resolve(target);
-    if (!resolvedTarget.startsWith(resolvedRoot)) {
+    if (!isInsideDir(resolvedRoot, resolvedTarget)) {
       return NextResponse.json({ error: "Invalid path" }, { status: 400 });
     }
+    if (resolvedTarget === resolvedRoot) {
+      return NextResponse.json({ error: "The server folder itself cannot be deleted" }, { status: 400 });
+    }
     const s = await stat(resolvedTarget);
 
     // If it's a file, delete the file. If it's a directory, delete it recursively.
@@ -112,6 +149,7 @@ export async function DELETE(req: Request) {
       return NextResponse.json({ error: "Unsupported path type" }, { status: 400 });
     }
 
+    auditLog.record({ ...getAuditContext(req), action: "file.delete", target: rel, details: { directory: s.isDirectory(), instance: instance.id } });
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Failed" }, { status: 500 });
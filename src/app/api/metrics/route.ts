@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { METRIC_SERIES, type MetricSeries } from '@/lib/metricsStore';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const STEP_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse a timestamp given as epoch milliseconds or an ISO date
+ */
+function parseTime(value: string | null, fallback: number): number | null {
+  if (!value) return fallback;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse a step such as "300", "5m", "1h" or "1d" into seconds
+ */
+function parseStep(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const match = value.trim().match(/^(\d+)\s*([smhd]?)$/);
+  if (!match) return null;
+  const seconds = parseInt(match[1], 10) * STEP_UNITS[match[2] || 's'];
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * GET /api/metrics
+ *
+ * Returns an instance's stored metric history from the on-disk time-series store
+ *
+ * Query Parameters:
+ *   - instance: instance id (default: the default instance)
+ *   - series: comma separated list of cpu, ram, tps, mspt, players, disk (default: all)
+ *   - from: epoch ms or ISO date (default: 24 hours ago)
+ *   - to: epoch ms or ISO date (default: now)
+ *   - step: bucket size, seconds or with a unit like 5m, 1h, 1d (default: about 500 points)
+ *
+ * Response Format:
+ * {
+ *   from: number,
+ *   to: number,
+ *   series: {
+ *     [name]: { unit: string, stepSeconds: number, points: [{ t, avg, min, max, count }] }
+ *   }
+ * }
+ *
+ * Steps are rounded to the 1m, 1h or 1d rollup the range is read from;
+ * 1m data is kept for 2 days, 1h for 90 days and 1d for 3 years.
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+  try {
+    const { searchParams } = new URL(request.url);
+    const now = Date.now();
+
+    const requested = (searchParams.get('series') || METRIC_SERIES.join(','))
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    const unknown = requested.filter((s) => !(METRIC_SERIES as readonly string[]).includes(s));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown series: ${unknown.join(', ')}`, available: METRIC_SERIES },
+        { status: 400 }
+      );
+    }
+
+    const to = parseTime(searchParams.get('to'), now);
+    const from = parseTime(searchParams.get('from'), (to ?? now) - DEFAULT_RANGE_MS);
+    const step = parseStep(searchParams.get('step'));
+    if (from === null || to === null || from >= to) {
+      return NextResponse.json({ error: 'Invalid from/to range' }, { status: 400 });
+    }
+    if (step === null) {
+      return NextResponse.json({ error: 'Invalid step' }, { status: 400 });
+    }
+
+    const series: Record<string, { unit: string; stepSeconds: number; points: unknown[] }> = {};
+    for (const name of requested as MetricSeries[]) {
+      const result = await instance.store.query(name, from, to, step);
+      series[name] = { unit: result.unit, stepSeconds: result.stepSeconds, points: result.points };
+    }
+
+    return NextResponse.json(
+      { from, to, series },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Metrics API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read metrics',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
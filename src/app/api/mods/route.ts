@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { listMods } from '@/lib/mods';
+
+/**
+ * GET /api/mods?instance=<id>
+ * 
+ * Returns the Fabric / Quilt / Forge / NeoForge mods in an instance's mods/
+ * folder, read from the metadata in each jar. serverVersion comes from the
+ * running server or its jar; minecraft version ranges are not checked without it.
+ * 
+ * Response Format:
+ * {
+ *   serverVersion: string | null,
+ *   mods: [{
+ *     file, size, loader?: 'fabric' | 'quilt' | 'forge' | 'neoforge', id?, name?, version?, description?,
+ *     environment: 'both' | 'client' | 'server',
+ *     dependencies: [{ id, versionRange, kind: 'required' | 'optional' | 'incompatible' }],
+ *     issues: [{ type: 'invalid' | 'client-only' | 'duplicate' | 'missing-dependency' | 'dependency-version' | 'incompatible', message }]
+ *   }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'files:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  try {
+    return NextResponse.json(await listMods(instance), {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    });
+  } catch (error) {
+    console.error('[Mods API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list mods',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { auditLog } from '@/lib/auditLog';
+import { cleanReason, isPlayerName } from '@/lib/accessLists';
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+/**
+ * GET /api/players/:name/moderation?instance=<id>
+ * 
+ * Returns a player's moderation history (newest first) and pending temporary ban
+ * 
+ * Response Format:
+ * {
+ *   name: string,
+ *   history: [{ id, timestamp, target, action: 'note' | 'warning' | 'kick' | 'ban' | 'unban', actor, reason?, expiresAt? }],
+ *   tempBan: { list, target, expiresAt, actor, reason? } | null
+ * }
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const { name } = await params;
+  const [history, tempBan] = await Promise.all([
+    instance.moderation.getHistory(name),
+    instance.moderation.getTempBan(name),
+  ]);
+  return NextResponse.json(
+    { name, history, tempBan },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
+
+/**
+ * POST /api/players/:name/moderation?instance=<id>
+ * 
+ * Adds a note, warns or kicks a player (requires players:manage).
+ * A warning is also sent to the player with `tell` when the server is running;
+ * a kick needs a running server. Bans go through POST /api/access.
+ * 
+ * Request Body: { action: 'note' | 'warning' | 'kick', reason: string }
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const denied = checkPermission(request, 'players:manage');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const { name } = await params;
+  const body = await request.json().catch(() => ({}));
+  const action = body?.action;
+  const reason = cleanReason(typeof body?.reason === 'string' ? body.reason : '');
+  if (!isPlayerName(name)) {
+    return NextResponse.json({ success: false, error: `Invalid player name: ${name}` }, { status: 400 });
+  }
+  if (action !== 'note' && action !== 'warning' && action !== 'kick') {
+    return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
+  }
+  if (action !== 'kick' && !reason) {
+    return NextResponse.json({ success: false, error: 'Text is required' }, { status: 400 });
+  }
+
+  const context = getAuditContext(request);
+  const running = instance.status.getStatus() === 'running';
+  if (action === 'kick') {
+    if (!running || !instance.process.write(`kick ${name}${reason ? ` ${reason}` : ''}\n`)) {
+      return NextResponse.json({ success: false, error: 'Kicking needs a running server' }, { status: 409 });
+    }
+  } else if (action === 'warning' && running) {
+    instance.process.write(`tell ${name} Warning: ${reason}\n`);
+  }
+
+  const entry = await instance.moderation.record({ target: name, action, actor: context.actor, ...(reason ? { reason } : {}) });
+  auditLog.record({
+    ...context,
+    action: `player.${action}`,
+    target: name,
+    details: { instance: instance.id, ...(reason ? { reason } : {}) },
+  });
+  return NextResponse.json({ success: true, entry });
+}
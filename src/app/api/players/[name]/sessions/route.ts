@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+/**
+ * GET /api/players/:name/sessions?instance=<id>&limit=100
+ * 
+ * Returns a player's sessions on an instance, newest first; the current
+ * session (without leftAt) comes first while the player is online
+ * 
+ * Response Format:
+ * {
+ *   name: string,
+ *   online: boolean,
+ *   sessions: [{ name, uuid?, ip?, joinedAt, leftAt? }]
+ * }
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const { name } = await params;
+  const limitParam = new URL(request.url).searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  try {
+    const sessions = await instance.players.getSessions(name, Number.isFinite(limit) ? limit : undefined);
+    return NextResponse.json(
+      { name, online: sessions.length > 0 && !sessions[0].leftAt, sessions },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Player Sessions API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read player sessions',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
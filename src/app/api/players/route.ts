@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+
+/**
+ * GET /api/players?instance=<id>
+ * 
+ * Returns the players online on an instance, in join order
+ * 
+ * Response Format:
+ * {
+ *   players: [{ name, uuid?, ip?, joinedAt }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+  return NextResponse.json(
+    { players: instance.players.getOnlinePlayers() },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
@@ -1,4 +1,6 @@
 import { NextRequest } from 'next/server'
+import { checkPermission, getAuditContext } from '@/lib/routeAuth'
+import { auditLog } from '@/lib/auditLog'
 export const runtime = 'nodejs'
 
 let playitProcess: ReturnType<typeof spawn> | null = null
@@ -14,13 +16,18 @@ function pushLog(line: string) {
 
 import { spawn } from 'child_process'
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const denied = checkPermission(req, 'status:read')
+  if (denied) return denied
   // return current status and last logs (only through API; nothing printed to terminal)
   const running = !!playitProcess && !playitProcess.killed
   return Response.json({ running, logs })
 }
 
 export async function POST(req: NextRequest) {
+  const denied = checkPermission(req, 'tunnel:manage')
+  if (denied) return denied
+
   const body = await req.json().catch(() => ({})) as { action?: 'start' | 'stop' }
   const action = body.action || 'start'
 
@@ -29,6 +36,7 @@ export async function POST(req: NextRequest) {
       playitProcess.kill('SIGTERM')
       playitProcess = null
       pushLog('[playit] stopped via API')
+      auditLog.record({ ...getAuditContext(req), action: 'tunnel.stop', target: 'playit' })
       return Response.json({ ok: true, message: 'stopped' })
     }
     return Response.json({ ok: true, message: 'not running' })
@@ -44,6 +52,7 @@ export async function POST(req: NextRequest) {
     playitProcess = spawn('playit', [], { env: process.env })
   } catch (e: any) {
     pushLog(`[playit] failed to spawn: ${e?.message || e}`)
+    auditLog.record({ ...getAuditContext(req), action: 'tunnel.start', target: 'playit', success: false, details: { error: String(e?.message || e) } })
     return Response.json({ ok: false, error: 'spawn_failed', message: String(e) }, { status: 500 })
   }
 
@@ -67,5 +76,6 @@ export async function POST(req: NextRequest) {
     pushLog(`[playit] process error: ${err?.message || err}`)
   })
 
+  auditLog.record({ ...getAuditContext(req), action: 'tunnel.start', target: 'playit' })
   return Response.json({ ok: true, message: 'started' })
 }
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { auditLog } from '@/lib/auditLog';
+import { listPlugins, setPluginEnabled } from '@/lib/plugins';
+
+/**
+ * GET /api/plugins?instance=<id>
+ * 
+ * Returns the plugins in an instance's plugins/ (enabled) and
+ * plugins/.disabled (disabled) folders, read from their plugin.yml or
+ * paper-plugin.yml. serverVersion comes from the running server or its
+ * jar (see serverSoftware.ts); api-version checks are skipped without it.
+ * 
+ * Response Format:
+ * {
+ *   running: boolean,
+ *   serverVersion: string | null,
+ *   plugins: [{
+ *     file, enabled, size, paperPlugin, name?, version?, description?, authors, apiVersion?, depend, softdepend,
+ *     issues: [{ type: 'invalid' | 'missing-dependency' | 'duplicate' | 'api-version', message }]
+ *   }]
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'files:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  try {
+    const { serverVersion, plugins } = await listPlugins(instance);
+    return NextResponse.json(
+      { running: instance.status.getStatus() !== 'stopped', serverVersion, plugins },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Plugins API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list plugins',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/plugins?instance=<id>
+ * 
+ * Enables or disables a plugin by moving its jar between plugins/ and
+ * plugins/.disabled (requires files:write; the server must be stopped)
+ * 
+ * Request Body:
+ *   { file: string, enabled: boolean }
+ * 
+ * Response Format:
+ * { success: boolean, error?: string }
+ */
+export async function POST(request: Request) {
+  const denied = checkPermission(request, 'files:write');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.file !== 'string' || typeof body?.enabled !== 'boolean') {
+    return NextResponse.json({ success: false, error: 'file and enabled are required' }, { status: 400 });
+  }
+
+  const audit = {
+    ...getAuditContext(request),
+    action: body.enabled ? 'plugin.enable' : 'plugin.disable',
+    target: body.file,
+    details: { instance: instance.id },
+  };
+  try {
+    await setPluginEnabled(instance, body.file, body.enabled);
+    auditLog.record({ ...audit, success: true });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    auditLog.record({ ...audit, success: false, details: { ...audit.details, error: message } });
+    return NextResponse.json({ success: false, error: message }, { status: 400 });
+  }
+}
@@ -1,4 +1,7 @@
 import WebSocket from 'ws';
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
 
 /**
  * Server-Sent Events endpoint for real-time server status updates
@@ -8,8 +11,14 @@ import WebSocket from 'ws';
  * 
  * Architecture:
  * Main Server (statusManager) → WebSocket → SSE Endpoint → SSE Stream → Frontend
+ *
+ * `?instance=<id>` selects the instance to follow (default: the default instance).
  */
 export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
   const encoder = new TextEncoder();
   
   const stream = new ReadableStream({
@@ -18,8 +27,13 @@ export async function GET(request: Request) {
       let heartbeatInterval: NodeJS.Timeout | null = null;
       
       try {
-        // Create WebSocket client connection to main server
-        ws = new WebSocket('ws://localhost:8000/api/terminal-ws');
+        // Create WebSocket client connection to main server, passing on the caller's session cookie or API token
+        ws = new WebSocket(`ws://localhost:8000/api/terminal-ws?instance=${encodeURIComponent(instance.id)}`, {
+          headers: {
+            cookie: request.headers.get('cookie') ?? '',
+            ...(request.headers.get('authorization') ? { authorization: request.headers.get('authorization')! } : {}),
+          },
+        });
         
         // Handle WebSocket connection open
         ws.on('open', () => {
@@ -70,10 +84,14 @@ export async function GET(request: Request) {
                     pid: statusData.pid,
                   },
                   port: {
-                    listening: statusData.status === 'running',
-                    port: 25565,
+                    listening: statusData.ping?.online ?? false,
+                    port: statusData.ping?.port ?? 25565,
                   },
                 },
+                autoRestart: statusData.autoRestart,
+                ping: statusData.ping,
+                bedrock: statusData.bedrock,
+                lastCrash: statusData.lastCrash,
                 timestamp: statusData.timestamp,
               };
               
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { readCrashReportFile } from '@/lib/crashReports';
+
+/**
+ * GET /api/server/crashes/report?instance=<id>&file=crash-reports/<name>.txt
+ * 
+ * Returns the full text of a crash report or JVM error log (hs_err_pid*.log)
+ * listed in an instance's crash history
+ * 
+ * Response Format:
+ * {
+ *   file: string,
+ *   content: string
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  const file = new URL(request.url).searchParams.get('file') || '';
+  try {
+    const content = await readCrashReportFile(instance.id, file);
+    return NextResponse.json(
+      { file, content },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return NextResponse.json({ error: `Crash report not found: ${file}` }, { status: 404 });
+    }
+    if (!(error as NodeJS.ErrnoException).code) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+    console.error('[Crash Report API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read crash report',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
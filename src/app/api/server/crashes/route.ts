@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+
+/**
+ * GET /api/server/crashes?instance=<id>
+ * 
+ * Returns an instance's recorded server crashes (most recent first) and the auto restart state
+ * 
+ * Response Format:
+ * {
+ *   autoRestart: { state: 'idle' | 'waiting' | 'crash-loop', consecutiveCrashes: number, nextRestartAt?: string },
+ *   crashes: [{
+ *     timestamp, sessionStartedAt, exitCode, signal, uptimeSeconds, lastLines, restartDelayMs?,
+ *     reports: [{ file, kind: 'minecraft' | 'jvm', time, description?, exception?, suspects: string[] }]
+ *   }]
+ * }
+ *
+ * The full text of a report is served by /api/server/crashes/report
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+  try {
+    const { autoRestart } = instance.status.getStatusInfo();
+    return NextResponse.json(
+      { autoRestart, crashes: instance.status.getCrashHistory() },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Server Crashes API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read crash history',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { checkJava, detectServerSoftware } from '@/lib/serverSoftware';
+import { getJavaCommand } from '@/lib/javaRuntimes';
+import { getInstanceConfig } from '@/config';
+
+/**
+ * GET /api/server/software?instance=<id>
+ *
+ * Returns the server software detected from an instance's JAR_NAME (and
+ * its latest log), and whether the instance's Java runtime (JAVA_PATH /
+ * JAVA_VERSION, or `java` from PATH) can run it
+ *
+ * Response Format:
+ * {
+ *   software: {
+ *     jar: string,
+ *     platform: 'vanilla' | 'paper' | 'purpur' | 'spigot' | 'fabric' | 'forge' | 'neoforge' | 'velocity' | null,
+ *     platformVersion: string | null,
+ *     minecraftVersion: string | null,
+ *     javaVersion: number | null,
+ *     source: 'jar' | 'log' | null
+ *   },
+ *   java: { command: string, installed: number | null, required: number | null, warning?: string }
+ * }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
+
+  try {
+    const software = await detectServerSoftware(instance.id);
+    const java = await checkJava(software, await getJavaCommand(await getInstanceConfig(instance.id)));
+    return NextResponse.json(
+      { software, java },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Server Software API] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to detect server software',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
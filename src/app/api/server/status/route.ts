@@ -1,12 +1,14 @@
 import { NextResponse } from 'next/server';
-import { statusManager } from '@/lib/statusManager';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
 
 /**
  * GET /api/server/status
  * 
- * Returns the current Minecraft server status using the centralized status manager
+ * Returns the current Minecraft server status using the instance's status manager
  * 
  * Query Parameters:
+ *   - instance: instance id (default: the default instance)
  *   - format: 'simple' | 'detailed' (default: 'simple')
  *   - port: number (optional, for compatibility)
  * 
@@ -17,6 +19,9 @@ import { statusManager } from '@/lib/statusManager';
  *     process: { running: boolean, pid?: number },
  *     port: { listening: boolean, port: number }
  *   },
+ *   autoRestart: { state: 'idle' | 'waiting' | 'crash-loop', consecutiveCrashes: number, nextRestartAt?: string },
+ *   players?: { online: number, max: number, sample: { name: string, id: string }[] },
+ *   bedrock?: { reachable: boolean, host: string, port: number, edition?: string, motd?: string, players?: { online: number, max: number } },
  *   timestamp: string
  * }
  * 
@@ -25,10 +30,29 @@ import { statusManager } from '@/lib/statusManager';
  *   status: 'stopped' | 'starting' | 'running' | 'stopping',
  *   processFound: boolean,
  *   pid?: number,
+ *   autoRestart: { state: 'idle' | 'waiting' | 'crash-loop', consecutiveCrashes: number, nextRestartAt?: string },
+ *   ping?: {
+ *     online: boolean, host: string, port: number,
+ *     version?: { name: string, protocol: number },
+ *     players?: { online: number, max: number, sample: { name: string, id: string }[] },
+ *     motd?: string, latencyMs?: number, legacy?: boolean, error?: string, timestamp: string
+ *   },
+ *   bedrock?: {
+ *     online: boolean, host: string, port: number, edition?: string, motd?: string, subMotd?: string,
+ *     protocol?: number, version?: string, players?: { online: number, max: number },
+ *     gamemode?: string, serverGuid?: string, latencyMs?: number, error?: string, timestamp: string
+ *   },
  *   timestamp: string
  * }
+ * 
+ * The ping is a Server List Ping refreshed every 10 seconds while running.
+ * bedrock is a RakNet unconnected ping of BEDROCK_IP, refreshed alongside it.
  */
 export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
   try {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get('format') || 'simple';
@@ -43,7 +67,7 @@ export async function GET(request: Request) {
     }
 
     // Get status from manager
-    const statusInfo = statusManager.getStatusInfo();
+    const statusInfo = instance.status.getStatusInfo();
 
     if (format === 'detailed') {
       // Return detailed format with internal status
@@ -80,10 +104,20 @@ export async function GET(request: Request) {
             pid: statusInfo.pid,
           },
           port: {
-            listening: statusInfo.status === 'running',
-            port: port,
+            listening: statusInfo.ping?.online ?? false,
+            port: statusInfo.ping?.port ?? port,
           },
         },
+        autoRestart: statusInfo.autoRestart,
+        players: statusInfo.ping?.players,
+        bedrock: statusInfo.bedrock && {
+          reachable: statusInfo.bedrock.online,
+          host: statusInfo.bedrock.host,
+          port: statusInfo.bedrock.port,
+          edition: statusInfo.bedrock.edition,
+          motd: statusInfo.bedrock.motd,
+          players: statusInfo.bedrock.players,
+        },
         timestamp: statusInfo.timestamp,
       };
 
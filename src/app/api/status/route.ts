@@ -1,52 +1,18 @@
 import { NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
-
-const execAsync = promisify(exec);
-
-/**
- * Check if Minecraft server process is running
- */
-async function isMinecraftProcessRunning(): Promise<boolean> {
-  try {
-    const platform = process.platform;
-    let command: string;
-    
-    if (platform === 'win32') {
-      command = 'tasklist /FI "IMAGENAME eq java.exe" /FO CSV /NH';
-    } else {
-      command = 'ps aux | grep "[j]ava.*paper.*\\.jar"';
-    }
-    
-    const { stdout } = await execAsync(command);
-    
-    if (platform === 'win32') {
-      const lines = stdout.trim().split('\n');
-      for (const line of lines) {
-        if (line.toLowerCase().includes('java.exe')) {
-          return true;
-        }
-      }
-    } else {
-      if (stdout.trim()) {
-        return true;
-      }
-    }
-    
-    return false;
-  } catch (error: any) {
-    return false;
-  }
-}
+import { pingServer } from '@/lib/slp';
+import { getServerPort } from '@/lib/serverProperties';
+import { checkPermission } from '@/lib/routeAuth';
+import { getRequestInstance } from '@/lib/routeInstance';
+import { getInstanceDir } from '@/config';
 
 /**
  * Check if log file is being actively updated (server is preparing/starting)
  */
-async function isLogFileActive(): Promise<boolean> {
+async function isLogFileActive(instanceId: string): Promise<boolean> {
   try {
-    const logPath = path.join(process.cwd(), 'mc', 'logs', 'latest.log');
+    const logPath = path.join(await getInstanceDir(instanceId), 'logs', 'latest.log');
     const stats = await fs.stat(logPath);
     const ageMs = Date.now() - stats.mtimeMs;
     return ageMs < 30000; // 30 seconds
@@ -57,43 +23,28 @@ async function isLogFileActive(): Promise<boolean> {
 
 /**
  * Check if server is listening on the Minecraft port (fully running)
+ * Uses a Server List Ping so only a real Minecraft listener counts
  */
-async function isPortListening(): Promise<boolean> {
+async function isPortListening(instanceId: string): Promise<boolean> {
   try {
-    const propsPath = path.join(process.cwd(), 'mc', 'server.properties');
-    const content = await fs.readFile(propsPath, 'utf8');
-    
-    let serverPort = 25565;
-    for (const line of content.split(/\r?\n/)) {
-      if (line.startsWith('server-port=')) {
-        serverPort = parseInt(line.split('=')[1].trim()) || 25565;
-        break;
-      }
-    }
-    
-    const platform = process.platform;
-    let command: string;
-    
-    if (platform === 'win32') {
-      command = `netstat -ano | findstr :${serverPort}`;
-    } else {
-      command = `lsof -i :${serverPort} -sTCP:LISTEN || netstat -tuln | grep :${serverPort}`;
-    }
-    
-    const { stdout } = await execAsync(command);
-    return stdout.trim().length > 0;
+    const ping = await pingServer('127.0.0.1', await getServerPort(instanceId));
+    return ping.online;
   } catch (error: any) {
     return false;
   }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read');
+  if (denied) return denied;
+  const instance = getRequestInstance(request);
+  if (instance instanceof NextResponse) return instance;
 
   
   try {
-    const processRunning = await isMinecraftProcessRunning();
-    const logActive = await isLogFileActive();
-    const portListening = await isPortListening();
+    const processRunning = instance.process.isRunning();
+    const logActive = await isLogFileActive(instance.id);
+    const portListening = await isPortListening(instance.id);
     
     let status: 'running' | 'stopped' | 'preparing';
     
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { apiTokenManager } from '@/lib/apiTokens';
+import { auditLog } from '@/lib/auditLog';
+import { getAuditContext, getSessionUser } from '@/lib/routeAuth';
+import { userHasPermission } from '@/lib/permissions';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/tokens/:id
+ *
+ * Revokes an API token. Users can revoke their own tokens;
+ * revoking someone else's requires users:manage.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const user = getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const token = apiTokenManager.getToken(id);
+  if (!token || (token.owner !== user.username && !userHasPermission(user, 'users:manage'))) {
+    return NextResponse.json({ success: false, error: 'Token not found' }, { status: 404 });
+  }
+
+  try {
+    await apiTokenManager.revokeToken(id);
+    auditLog.record({ ...getAuditContext(request), action: 'token.revoke', target: id, details: { name: token.name, owner: token.owner } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
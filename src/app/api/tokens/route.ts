@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { apiTokenManager } from '@/lib/apiTokens';
+import { auditLog } from '@/lib/auditLog';
+import { getAuditContext, getSessionUser } from '@/lib/routeAuth';
+import { hasPermission, isTokenScope } from '@/lib/permissions';
+
+const MAX_EXPIRY_DAYS = 3650;
+
+/**
+ * GET /api/tokens
+ *
+ * Lists the caller's API tokens; with ?all=1, every user's (requires users:manage)
+ *
+ * Response Format:
+ * {
+ *   tokens: [{ id, name, owner, scopes, createdAt, expiresAt, lastUsedAt, lastUsedIp, revokedAt }]
+ * }
+ */
+export async function GET(request: Request) {
+  const user = getSessionUser(request);
+  if (!user || user.tokenId) {
+    return NextResponse.json({ success: false, error: 'API tokens are managed from a browser session' }, { status: 401 });
+  }
+  const all = new URL(request.url).searchParams.get('all') === '1';
+  if (all && !hasPermission(user.role, 'users:manage')) {
+    return NextResponse.json({ success: false, error: 'Forbidden: requires users:manage' }, { status: 403 });
+  }
+  return NextResponse.json(
+    { tokens: apiTokenManager.listTokens(all ? undefined : user.username) },
+    {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
+
+/**
+ * POST /api/tokens
+ *
+ * Creates an API token for the caller. Scopes must be ones the caller's
+ * role allows. The token is only returned in this response.
+ *
+ * Request Body: { name: string, scopes: string[], expiresInDays: number | null }
+ *
+ * Response Format:
+ * { success: true, token: string, info: { id, name, ... } }
+ */
+export async function POST(request: Request) {
+  const user = getSessionUser(request);
+  if (!user || user.tokenId) {
+    return NextResponse.json({ success: false, error: 'API tokens are managed from a browser session' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body?.name === 'string' ? body.name : '';
+  const scopes: unknown[] = Array.isArray(body?.scopes) ? body.scopes : [];
+  if (!scopes.every(isTokenScope)) {
+    return NextResponse.json({ success: false, error: 'Invalid scope' }, { status: 400 });
+  }
+  const notAllowed = scopes.filter((scope) => !hasPermission(user.role, scope));
+  if (notAllowed.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `Your role does not allow: ${notAllowed.join(', ')}` },
+      { status: 403 }
+    );
+  }
+  const days = body?.expiresInDays;
+  if (days !== null && days !== undefined && (typeof days !== 'number' || !Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS)) {
+    return NextResponse.json({ success: false, error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS} or null` }, { status: 400 });
+  }
+  const expiresAt = typeof days === 'number' ? Date.now() + days * 24 * 60 * 60 * 1000 : null;
+
+  try {
+    const { token, info } = await apiTokenManager.createToken(user.username, name, scopes, expiresAt);
+    auditLog.record({
+      ...getAuditContext(request),
+      action: 'token.create',
+      target: info.id,
+      details: { name: info.name, scopes: info.scopes, expiresAt: info.expiresAt },
+    });
+    return NextResponse.json({ success: true, token, info }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
 import path from "node:path";
 import { mkdir, stat, writeFile, readFile as fsReadFile } from "node:fs/promises";
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
-const execAsync = promisify(exec);
+import { checkPermission, getAuditContext } from "@/lib/routeAuth";
+import { auditLog } from "@/lib/auditLog";
+import { getRequestInstance, isInsideDir } from "@/lib/routeInstance";
+import { getInstanceDir } from "@/config";
 
 function sanitize(rel: string) {
   const cleaned = rel.replace(/\\/g, "/").replace(/^\/+/, "");
@@ -11,22 +12,19 @@ function sanitize(rel: string) {
 }
 
 export async function POST(req: Request) {
+  const denied = checkPermission(req, "files:write");
+  if (denied) return denied;
+  const instance = getRequestInstance(req);
+  if (instance instanceof NextResponse) return instance;
   try {
     const { searchParams } = new URL(req.url);
 
     // Fast server state gate: block uploads if server appears active
-    const mcRoot = path.join(process.cwd(), "mc");
+    const mcRoot = await getInstanceDir(instance.id);
     let serverBusy = false;
     try {
-      // Check process
-      const platform = process.platform;
-      let cmd = platform === 'win32' ? 'tasklist /FI "IMAGENAME eq java.exe" /FO CSV /NH' : 'ps aux | grep "[j]ava.*paper.*\\.jar"';
-      const { stdout } = await execAsync(cmd);
-      if (platform === 'win32') {
-        serverBusy = stdout.toLowerCase().includes('java.exe');
-      } else {
-        serverBusy = stdout.trim().length > 0;
-      }
+      // Check the instance's server process
+      serverBusy = instance.process.isRunning();
       // If not caught by process, also check log recency
       if (!serverBusy) {
         try {
@@ -54,7 +52,7 @@ export async function POST(req: Request) {
 
     const resolvedRoot = path.resolve(mcRoot);
     const resolvedTarget = path.resolve(targetDir);
-    if (!resolvedTarget.startsWith(resolvedRoot)) {
+    if (!isInsideDir(resolvedRoot, resolvedTarget)) {
       return NextResponse.json({ error: "Invalid path" }, { status: 400 });
     }
 
@@ -75,13 +73,18 @@ export async function POST(req: Request) {
       const buffer = Buffer.from(arrayBuffer);
       const filePath = path.join(resolvedTarget, item.name);
       const resolvedFile = path.resolve(filePath);
-      if (!resolvedFile.startsWith(resolvedRoot)) {
+      if (!isInsideDir(resolvedRoot, resolvedFile)) {
         return NextResponse.json({ error: "Invalid file path" }, { status: 400 });
       }
       await writeFile(resolvedFile, buffer);
       saved.push({ name: item.name, size: buffer.byteLength });
     }
 
+    const audit = getAuditContext(req);
+    for (const file of saved) {
+      auditLog.record({ ...audit, action: "file.upload", target: path.posix.join(rel, file.name), details: { bytes: file.size, instance: instance.id } });
+    }
+
     return NextResponse.json({ ok: true, saved });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Upload failed" }, { status: 500 });
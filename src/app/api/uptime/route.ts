@@ -1,10 +1,13 @@
 import { NextResponse } from 'next/server'
+import { checkPermission } from '@/lib/routeAuth'
 
 export const runtime = 'nodejs'
 
 const startedAt = Date.now()
 
-export async function GET() {
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'status:read')
+  if (denied) return denied
   const now = Date.now()
   const uptimeMs = Math.max(0, now - startedAt)
   const uptimeSeconds = Math.floor(uptimeMs / 1000)
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { authManager } from '@/lib/auth';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { auditLog } from '@/lib/auditLog';
+import { isRole } from '@/lib/permissions';
+
+type RouteContext = { params: Promise<{ username: string }> };
+
+/**
+ * PATCH /api/users/:username
+ *
+ * Changes a user's role and / or password (requires users:manage).
+ * A password change logs the user out everywhere.
+ *
+ * Request Body: { role?: string, password?: string }
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = checkPermission(request, 'users:manage');
+  if (denied) return denied;
+
+  const { username } = await params;
+  const body = await request.json().catch(() => ({}));
+  if (body?.role !== undefined && !isRole(body.role)) {
+    return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+  }
+  if (body?.password !== undefined && typeof body.password !== 'string') {
+    return NextResponse.json({ success: false, error: 'Invalid password' }, { status: 400 });
+  }
+
+  try {
+    const user = await authManager.updateUser(username, { role: body?.role, password: body?.password });
+    auditLog.record({
+      ...getAuditContext(request),
+      action: 'user.update',
+      target: username,
+      details: { ...(body?.role !== undefined ? { role: body.role } : {}), passwordChanged: body?.password !== undefined },
+    });
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/:username
+ *
+ * Removes a user (requires users:manage); the last admin cannot be removed
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = checkPermission(request, 'users:manage');
+  if (denied) return denied;
+
+  const { username } = await params;
+  try {
+    await authManager.deleteUser(username);
+    auditLog.record({ ...getAuditContext(request), action: 'user.delete', target: username });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { authManager } from '@/lib/auth';
+import { checkPermission, getAuditContext } from '@/lib/routeAuth';
+import { auditLog } from '@/lib/auditLog';
+import { isRole } from '@/lib/permissions';
+
+/**
+ * GET /api/users
+ *
+ * Lists panel users (requires users:manage)
+ *
+ * Response Format:
+ * { users: [{ username, role, createdAt }] }
+ */
+export async function GET(request: Request) {
+  const denied = checkPermission(request, 'users:manage');
+  if (denied) return denied;
+  return NextResponse.json({ users: authManager.listUsers() });
+}
+
+/**
+ * POST /api/users
+ *
+ * Creates a panel user (requires users:manage)
+ *
+ * Request Body: { username: string, password: string, role: 'admin' | 'operator' | 'console-only' | 'viewer' }
+ */
+export async function POST(request: Request) {
+  const denied = checkPermission(request, 'users:manage');
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const username = typeof body?.username === 'string' ? body.username.trim() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!isRole(body?.role)) {
+    return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+  }
+
+  try {
+    const user = await authManager.createUser(username, password, body.role);
+    auditLog.record({ ...getAuditContext(request), action: 'user.create', target: user.username, details: { role: user.role } });
+    return NextResponse.json({ success: true, user }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
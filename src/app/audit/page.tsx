@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { RefreshCw } from "lucide-react";
+import type { AuditEntry } from "@/lib/auditLog";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+const ACTION_FILTERS = [
+  { value: "", label: "All actions" },
+  { value: "server.", label: "Server start / stop" },
+  { value: "console.", label: "Console commands" },
+  { value: "terminal.", label: "Terminal" },
+  { value: "file.", label: "Files" },
+  { value: "plugin.", label: "Plugins" },
+  { value: "properties.", label: "server.properties" },
+  { value: "player.", label: "Whitelist, ops and bans" },
+  { value: "config.", label: "config.panel" },
+  { value: "backup.", label: "Backups" },
+  { value: "tunnel.", label: "Tunnels" },
+  { value: "user.", label: "Users" },
+  { value: "token.", label: "API tokens" },
+  { value: "auth.", label: "Logins" },
+];
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("");
+  const [q, setQ] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  // Filters apply on submit: each submit stores a new object, which reloads
+  const [applied, setApplied] = useState({ actor: "", action: "", q: "", from: "", to: "" });
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (applied.actor.trim()) params.set("actor", applied.actor.trim());
+      if (applied.action) params.set("action", applied.action);
+      if (applied.q.trim()) params.set("q", applied.q.trim());
+      // datetime-local values are local time; send them as epoch ms
+      if (applied.from) params.set("from", String(new Date(applied.from).getTime()));
+      if (applied.to) params.set("to", String(new Date(applied.to).getTime()));
+      const res = await fetch(`/api/audit?${params}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load audit log");
+      setEntries(data.entries || []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [applied]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-4 md:p-10 h-full">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href="/" className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Audit log</h1>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setApplied({ actor, action, q, from, to });
+          }}
+          className="flex flex-wrap gap-2 mb-4"
+        >
+          <input placeholder="User" value={actor} onChange={(e) => setActor(e.target.value)} className={inputClass} />
+          <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+            {ACTION_FILTERS.map((f) => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+          <input placeholder="Search target / details" value={q} onChange={(e) => setQ(e.target.value)} className={`${inputClass} flex-1 min-w-[12rem]`} />
+          <input type="datetime-local" title="From" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <input type="datetime-local" title="To" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <button
+            type="submit"
+            disabled={loading}
+            className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm ${loading ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Search
+          </button>
+        </form>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {!error && (
+          <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+            <div className="grid grid-cols-[11rem_8rem_8rem_10rem_1fr] gap-3 bg-neutral-900 text-neutral-400 text-xs uppercase tracking-wide p-2">
+              <div>Time</div>
+              <div>User</div>
+              <div>IP</div>
+              <div>Action</div>
+              <div>Target</div>
+            </div>
+            {!loading && entries.length === 0 && <div className="p-2 text-sm text-neutral-400">No entries</div>}
+            {entries.map((entry, i) => (
+              <div
+                key={`${entry.timestamp}-${i}`}
+                className="grid grid-cols-[11rem_8rem_8rem_10rem_1fr] gap-3 p-2 text-sm text-white items-start"
+              >
+                <div className="text-neutral-400">{new Date(entry.timestamp).toLocaleString()}</div>
+                <div className="break-all">{entry.actor}</div>
+                <div className="break-all text-neutral-400">{entry.ip || "-"}</div>
+                <div className={entry.success ? "" : "text-red-400"}>
+                  {entry.action}
+                  {!entry.success && " (failed)"}
+                </div>
+                <div className="break-all font-mono text-xs">
+                  {entry.target}
+                  {entry.details && <div className="text-neutral-500">{JSON.stringify(entry.details)}</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
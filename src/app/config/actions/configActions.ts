@@ -1,37 +1,65 @@
 'use server';
 
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
+import { checkActionPermission, getActionAuditContext } from '@/lib/routeAuth';
+import { auditLog } from '@/lib/auditLog';
+import { discoverJavaRuntimes, type JavaRuntime } from '@/lib/javaRuntimes';
+import { formatLaunchCommand, resolveLaunchSpec } from '@/lib/launchCommand';
+import { migrateConfigContent, parseKeyValue, parseRamToMB, validateConfigValues, type ConfigIssue } from '@/lib/configSchema';
+import { DEFAULT_INSTANCE_ID, parseConfig, parseInstanceConfigs } from '@/config';
 
 const CONFIG_NAME = 'config.panel';
 
-function parseKeyValue(content: string): Record<string, string> {
-  const map: Record<string, string> = {};
-  for (const raw of content.split(/\r?\n/)) {
-    const line = raw.trim();
-    if (!line || line.startsWith('#')) continue;
-    const idx = line.indexOf('=');
-    if (idx === -1) continue;
-    const key = line.slice(0, idx).trim();
-    const value = line.slice(idx + 1).trim();
-    if (key) map[key] = value;
+async function isDirectory(target: string): Promise<boolean> {
+  return fs.stat(target).then((stats) => stats.isDirectory(), () => false);
+}
+
+async function isFile(target: string): Promise<boolean> {
+  return fs.stat(target).then((stats) => stats.isFile(), () => false);
+}
+
+// Checks that need the host: MC_DIR and JAR_NAME on disk, MAX_RAM against its memory
+async function checkHost(content: string): Promise<ConfigIssue[]> {
+  const issues: ConfigIssue[] = [];
+  const map = parseKeyValue(content);
+  const totalMB = Math.floor(os.totalmem() / 1024 / 1024);
+  let sumMB = 0;
+
+  for (const { id, config } of await parseInstanceConfigs(content)) {
+    const prefix = id === DEFAULT_INSTANCE_ID ? '' : `${id}.`;
+    const dir = config.MC_DIR ? path.resolve(process.cwd(), config.MC_DIR) : '';
+    if (dir && await isDirectory(dir)) {
+      if (config.JAR_NAME && !(await isFile(path.resolve(dir, config.JAR_NAME)))) {
+        issues.push({ key: `${prefix}JAR_NAME`, level: 'warning', message: `${prefix}JAR_NAME (${config.JAR_NAME}) was not found in ${dir}` });
+      }
+    } else if (map[`${prefix}MC_DIR`]) {
+      // The ./mc-<id> default of an instance may still be created by uploading a server
+      issues.push({ key: `${prefix}MC_DIR`, level: 'error', message: `${prefix}MC_DIR (${dir}) does not exist or is not a folder` });
+    }
+
+    const maxMB = parseRamToMB(config.MAX_RAM || '') ?? 0;
+    sumMB += maxMB;
+    if (maxMB > totalMB) {
+      issues.push({ key: `${prefix}MAX_RAM`, level: 'error', message: `${prefix}MAX_RAM (${config.MAX_RAM}) is more than the host memory (${totalMB}M)` });
+    }
+  }
+
+  if (sumMB > totalMB) {
+    issues.push({ key: 'MAX_RAM', level: 'warning', message: `MAX_RAM of all instances adds up to ${sumMB}M, more than the host memory (${totalMB}M)` });
   }
-  return map;
+  return issues;
 }
 
-function parseRamToMB(v: string): number | null {
-  if (!v) return null;
-  const m = String(v).trim();
-  const g = m.match(/^([0-9]+)\s*[Gg]$/);
-  if (g) return parseInt(g[1], 10) * 1024;
-  const mm = m.match(/^([0-9]+)\s*[Mm]$/);
-  if (mm) return parseInt(mm[1], 10);
-  const num = m.match(/^([0-9]+)$/);
-  if (num) return parseInt(num[1], 10);
-  return null;
+async function checkContent(content: string): Promise<ConfigIssue[]> {
+  return [...validateConfigValues(parseKeyValue(content)), ...(await checkHost(content))];
 }
 
-export async function loadConfig(): Promise<{ success: boolean; content?: string; error?: string }> {
+export async function loadConfig(): Promise<{ success: boolean; content?: string; migrations?: string[]; error?: string }> {
+  // config.panel holds secrets such as METRICS_TOKEN, so reading needs the same permission
+  const denied = await checkActionPermission('config:manage');
+  if (denied) return { success: false, error: denied };
   try {
     const filePath = path.join(process.cwd(), CONFIG_NAME);
     let content = '';
@@ -39,42 +67,72 @@ export async function loadConfig(): Promise<{ success: boolean; content?: string
       content = await fs.readFile(filePath, 'utf8');
     } catch (e: any) {
       if (e?.code !== 'ENOENT') throw e;
-      content = '';
+      return { success: true, content: '', migrations: [] };
     }
-    return { success: true, content };
+    // Migrated in the editor only; the file is rewritten on the next save
+    const migrated = migrateConfigContent(content);
+    return { success: true, content: migrated.content, migrations: migrated.applied.map((m) => m.description) };
   } catch (e: any) {
     return { success: false, error: e?.message || String(e) };
   }
 }
 
-export async function saveConfig(content: string): Promise<{ success: boolean; error?: string }> {
+// Schema and host problems of unsaved config.panel content
+export async function checkConfig(content: string): Promise<{ success: boolean; issues?: ConfigIssue[]; error?: string }> {
+  const denied = await checkActionPermission('config:manage');
+  if (denied) return { success: false, error: denied };
   try {
-    // Validate MIN_RAM <= MAX_RAM server-side
-    const map = parseKeyValue(content);
-    const minRaw = (map.MIN_RAM || '1G').trim();
-    const maxRaw = (map.MAX_RAM || '2G').trim();
-    const minMB = parseRamToMB(minRaw);
-    const maxMB = parseRamToMB(maxRaw);
-    
-    if (minMB == null || maxMB == null) {
-      return { 
-        success: false, 
-        error: 'Invalid MIN_RAM or MAX_RAM. Use values like 512M or 1G.' 
-      };
-    }
-    
-    if (minMB > maxMB) {
-      return { 
-        success: false, 
-        error: `MIN_RAM (${minRaw}) must be <= MAX_RAM (${maxRaw})` 
-      };
+    return { success: true, issues: await checkContent(migrateConfigContent(content).content) };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+export async function saveConfig(content: string): Promise<{ success: boolean; issues?: ConfigIssue[]; error?: string }> {
+  const denied = await checkActionPermission('config:manage');
+  if (denied) return { success: false, error: denied };
+  try {
+    const migrated = migrateConfigContent(content);
+    const issues = await checkContent(migrated.content);
+    const firstError = issues.find((issue) => issue.level === 'error');
+    if (firstError) {
+      return { success: false, issues, error: firstError.message };
     }
 
     const filePath = path.join(process.cwd(), CONFIG_NAME);
-    await fs.writeFile(filePath, content, 'utf8');
-    
-    return { success: true };
+    const previous = parseKeyValue(await fs.readFile(filePath, 'utf8').catch(() => ''));
+    const map = parseKeyValue(migrated.content);
+    await fs.writeFile(filePath, migrated.content, 'utf8');
+
+    // Only key names are recorded; values may hold credentials
+    const changedKeys = [...new Set([...Object.keys(previous), ...Object.keys(map)])]
+      .filter((key) => previous[key] !== map[key]);
+    const migrations = migrated.applied.map((m) => m.version);
+    auditLog.record({ ...(await getActionAuditContext()), action: 'config.save', target: CONFIG_NAME, details: { changedKeys, migrations } });
+
+    return { success: true, issues };
   } catch (e: any) {
     return { success: false, error: e?.message || String(e) };
   }
 }
+
+export async function listJavaRuntimes(): Promise<{ success: boolean; runtimes?: JavaRuntime[]; error?: string }> {
+  const denied = await checkActionPermission('config:manage');
+  if (denied) return { success: false, error: denied };
+  try {
+    return { success: true, runtimes: await discoverJavaRuntimes() };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Command line of the default instance, from unsaved config.panel content
+export async function previewLaunchCommand(content: string): Promise<{ success: boolean; command?: string; error?: string }> {
+  const denied = await checkActionPermission('config:manage');
+  if (denied) return { success: false, error: denied };
+  try {
+    return { success: true, command: formatLaunchCommand(await resolveLaunchSpec(parseConfig(content))) };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -3,50 +3,56 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useToast } from "../toast";
-import { loadConfig, saveConfig } from "./actions/configActions";
-
-// The config keys we support (as per src/config.ts)
-const DEFAULTS = {
-  MIN_RAM: "1G",
-  MAX_RAM: "2G",
-};
-
-function buildJavaCommand(cfg: { MC_DIR: string; JAR_NAME: string; MIN_RAM?: string; MAX_RAM?: string }) {
-  const min = (cfg.MIN_RAM || DEFAULTS.MIN_RAM).trim();
-  const max = (cfg.MAX_RAM || DEFAULTS.MAX_RAM).trim();
-  const jar = (cfg.JAR_NAME || "").trim();
-  return `java -Xms${min} -Xmx${max} -jar ${jar} nogui`;
-}
+import { checkConfig, listJavaRuntimes, loadConfig, previewLaunchCommand, saveConfig } from "./actions/configActions";
+import type { JavaRuntime } from "@/lib/javaRuntimes";
+import {
+  CONFIG_GROUPS,
+  CONFIG_SCHEMA,
+  parseKeyValue,
+  setConfigValue,
+  type ConfigField,
+  type ConfigIssue,
+} from "@/lib/configSchema";
+
+const INPUT_CLASS = "w-full rounded border border-neutral-800 bg-black text-white p-2 text-sm";
 
 export default function ConfigPanelPage() {
   const { showToast } = useToast();
   const [content, setContent] = useState("");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [runtimes, setRuntimes] = useState<JavaRuntime[]>([]);
+  const [preview, setPreview] = useState<{ command?: string; error?: string } | null>(null);
+  const [issues, setIssues] = useState<ConfigIssue[]>([]);
+  const [migrations, setMigrations] = useState<string[]>([]);
+  const [mode, setMode] = useState<"form" | "raw">("form");
 
-  const cfgObj = useMemo(() => {
-    const out: Record<string, string> = {};
-    content.split("\n").forEach((line) => {
-      const l = line.trim();
-      if (!l || l.startsWith("#")) return;
-      const eq = l.indexOf("=");
-      if (eq > 0) {
-        const k = l.slice(0, eq).trim();
-        const v = l.slice(eq + 1).trim();
-        out[k] = v;
-      }
-    });
-    return out;
-  }, [content]);
-
-  const javaCmd = useMemo(() => {
-    const MC_DIR = cfgObj.MC_DIR || "";
-    const JAR_NAME = cfgObj.JAR_NAME || "";
-    const MIN_RAM = cfgObj.MIN_RAM || DEFAULTS.MIN_RAM;
-    const MAX_RAM = cfgObj.MAX_RAM || DEFAULTS.MAX_RAM;
-    if (!MC_DIR || !JAR_NAME) return "";
-    return `(cd ${MC_DIR} && ${buildJavaCommand({ MC_DIR, JAR_NAME, MIN_RAM, MAX_RAM })})`;
-  }, [cfgObj]);
+  const values = useMemo(() => parseKeyValue(content), [content]);
+
+  // Form edits rewrite single lines, so comments and order are kept
+  const setField = (key: string, value: string) => setContent((current) => setConfigValue(current, key, value));
+
+  // The command line and checks are built server-side, exactly as a start or save would
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      previewLaunchCommand(content)
+        .then((result) => {
+          if (!cancelled) setPreview(result.success ? { command: result.command } : { error: result.error });
+        })
+        .catch(() => {});
+      checkConfig(content)
+        .then((result) => {
+          if (!cancelled && result.success) setIssues(result.issues || []);
+        })
+        .catch(() => {});
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [content, loading]);
 
   useEffect(() => {
     const run = async () => {
@@ -57,6 +63,7 @@ export default function ConfigPanelPage() {
           throw new Error(result.error || 'Failed to load config');
         }
         setContent(result.content || "");
+        setMigrations(result.migrations || []);
       } catch (e: any) {
         showToast(e?.message || "Failed to load config.panel", "error");
       } finally {
@@ -66,13 +73,23 @@ export default function ConfigPanelPage() {
     run();
   }, [showToast]);
 
+  useEffect(() => {
+    listJavaRuntimes()
+      .then((result) => {
+        if (result.success) setRuntimes(result.runtimes || []);
+      })
+      .catch(() => {});
+  }, []);
+
   const onSave = async () => {
     setSaving(true);
     try {
       const result = await saveConfig(content);
+      if (result.issues) setIssues(result.issues);
       if (!result.success) {
         throw new Error(result.error || 'Save failed');
       }
+      setMigrations([]);
       showToast("✓ Saved successfully", "success");
     } catch (e: any) {
       showToast(e?.message || "Failed to save", "error");
@@ -81,6 +98,42 @@ export default function ConfigPanelPage() {
     }
   };
 
+  const renderInput = (field: ConfigField) => {
+    const value = values[field.key] ?? "";
+    switch (field.type) {
+      case "boolean":
+        return (
+          <input
+            type="checkbox"
+            checked={(value || field.default || "").toLowerCase() === "true"}
+            onChange={(e) => setField(field.key, String(e.target.checked))}
+          />
+        );
+      case "enum":
+        return (
+          <select className={INPUT_CLASS} value={(value || field.default || "").toLowerCase()} onChange={(e) => setField(field.key, e.target.value)}>
+            {field.options?.map((option) => (
+              <option key={option} value={option}>{field.optionLabels?.[option] ?? option}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            className={INPUT_CLASS}
+            type={field.type === "integer" ? "number" : field.type === "secret" ? "password" : "text"}
+            min={field.min}
+            max={field.max}
+            value={value}
+            placeholder={field.default}
+            list={field.key === "JAVA_PATH" ? "java-runtimes" : undefined}
+            onChange={(e) => setField(field.key, e.target.value)}
+            spellCheck={false}
+          />
+        );
+    }
+  };
+
   return (
     <div className="flex-1 overflow-auto">
       <div className="p-4 md:p-10 h-full">
@@ -107,31 +160,98 @@ export default function ConfigPanelPage() {
         ) : (
           <div className="grid gap-6 md:grid-cols-2">
             <div className="flex flex-col gap-2">
-              <label className="text-sm text-neutral-300">config.panel</label>
-              <textarea
-                className="min-h-[400px] w-full rounded border border-neutral-800 bg-black text-white p-3 font-mono text-sm"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                spellCheck={false}
-              />
-              <p className="text-xs text-neutral-400">Tip: Use KEY=VALUE lines. Supported: MC_DIR, JAR_NAME, MIN_RAM, MAX_RAM, JAVA_IP, BEDROCK_IP, ENABLE_PINGGY, ENABLE_PLAYIT.</p>
+              <div className="flex items-center gap-2 text-sm">
+                {(["form", "raw"] as const).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`px-3 py-1 rounded ${mode === m ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`}
+                  >
+                    {m === "form" ? "Form" : "config.panel"}
+                  </button>
+                ))}
+              </div>
+
+              {mode === "raw" ? (
+                <>
+                  <textarea
+                    className="min-h-[400px] w-full rounded border border-neutral-800 bg-black text-white p-3 font-mono text-sm"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    spellCheck={false}
+                  />
+                  <p className="text-xs text-neutral-400">Tip: Use KEY=VALUE lines; lines starting with # are comments. Per-instance values use &lt;id&gt;.KEY for the ids listed in INSTANCES.</p>
+                </>
+              ) : (
+                <div className="flex flex-col gap-6">
+                  {CONFIG_GROUPS.map((group) => (
+                    <section key={group}>
+                      <h2 className="font-semibold text-white mb-2">{group}</h2>
+                      <div className="flex flex-col gap-3">
+                        {CONFIG_SCHEMA.filter((field) => field.group === group).map((field) => (
+                          <div key={field.key}>
+                            <label className="flex items-center gap-2 text-sm text-neutral-300 mb-1 font-mono">
+                              {field.type === "boolean" && renderInput(field)}
+                              {field.key}{field.required && <span className="text-red-400">*</span>}
+                            </label>
+                            {field.type !== "boolean" && renderInput(field)}
+                            <p className="text-xs text-neutral-400 mt-1">{field.description}</p>
+                            {issues.filter((issue) => issue.key === field.key).map((issue) => (
+                              <p key={issue.message} className={`text-xs mt-1 ${issue.level === "error" ? "text-red-400" : "text-yellow-400"}`}>{issue.message}</p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  ))}
+                  <datalist id="java-runtimes">
+                    {runtimes.map((r) => (
+                      <option key={r.home} value={r.home}>
+                        Java {r.version}{r.vendor ? ` (${r.vendor})` : ""}
+                      </option>
+                    ))}
+                  </datalist>
+                  <p className="text-xs text-neutral-400">
+                    {runtimes.length > 0
+                      ? `JAVA_PATH suggests the ${runtimes.length} runtime(s) found in JAVA_HOME, /usr/lib/jvm and sdkman.`
+                      : "No Java runtimes found in JAVA_HOME, /usr/lib/jvm or sdkman."}
+                    {" "}Per-instance values (&lt;id&gt;.KEY) are edited in config.panel.
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="flex flex-col gap-3">
+              {migrations.length > 0 && (
+                <div className="rounded border border-blue-900 bg-blue-950/40 p-3 text-sm text-blue-300">
+                  config.panel was migrated: {migrations.join("; ")}. Save to write the changes.
+                </div>
+              )}
+
               <div>
-                <h2 className="font-semibold text-white mb-2">Parsed</h2>
+                <h2 className="font-semibold text-white mb-2">Checks</h2>
                 <div className="rounded border border-neutral-800 bg-neutral-950 p-3 text-sm">
-                  <pre className="whitespace-pre-wrap break-all text-neutral-300">{JSON.stringify(cfgObj, null, 2)}</pre>
+                  {issues.length === 0 ? (
+                    <p className="text-emerald-400">No problems found</p>
+                  ) : (
+                    <ul className="flex flex-col gap-1">
+                      {issues.map((issue) => (
+                        <li key={`${issue.key}:${issue.message}`} className={issue.level === "error" ? "text-red-400" : "text-yellow-400"}>
+                          {issue.level === "error" ? "Error" : "Warning"}: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
 
               <div>
                 <h2 className="font-semibold text-white mb-2">Java command</h2>
                 <div className="rounded border border-neutral-800 bg-neutral-950 p-3 text-sm">
-                  {javaCmd ? (
-                    <code className="break-all text-emerald-400">{javaCmd}</code>
+                  {preview?.command ? (
+                    <code className="break-all text-emerald-400">{preview.command}</code>
                   ) : (
-                    <p className="text-neutral-400">Fill MC_DIR and JAR_NAME to see the command</p>
+                    <p className={preview?.error ? "text-red-400" : "text-neutral-400"}>{preview?.error || "Building the command..."}</p>
                   )}
                 </div>
               </div>
@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { RefreshCw } from "lucide-react";
+import { useInstance } from "@/hooks/useInstance";
+import type { AutoRestartInfo, CrashRecord } from "@/lib/statusManager";
+
+const AUTO_RESTART_LABELS: Record<AutoRestartInfo["state"], string> = {
+  idle: "Idle",
+  waiting: "Restart pending",
+  "crash-loop": "Gave up (crash loop)",
+};
+
+export default function CrashesPage() {
+  const { withInstance } = useInstance();
+  const [crashes, setCrashes] = useState<CrashRecord[]>([]);
+  const [autoRestart, setAutoRestart] = useState<AutoRestartInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<{ file: string; content: string } | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(withInstance("/api/server/crashes"), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to load crash history");
+      setCrashes(data.crashes || []);
+      setAutoRestart(data.autoRestart || null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [withInstance]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openReport = async (file: string) => {
+    try {
+      const res = await fetch(withInstance(`/api/server/crashes/report?file=${encodeURIComponent(file)}`), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to load crash report");
+      setReport(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full max-w-5xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Crash history</h1>
+          <button onClick={load} disabled={loading} className="ml-auto text-neutral-400 hover:text-white" title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+
+        {autoRestart && (
+          <p className="text-sm text-neutral-400 mb-4">
+            Auto restart: <span className="text-white">{AUTO_RESTART_LABELS[autoRestart.state]}</span>
+            {autoRestart.consecutiveCrashes > 0 && ` · ${autoRestart.consecutiveCrashes} crash(es) in a row`}
+            {autoRestart.nextRestartAt && ` · next attempt ${new Date(autoRestart.nextRestartAt).toLocaleTimeString()}`}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex flex-col gap-4">
+          {!loading && crashes.length === 0 && <p className="text-sm text-neutral-400">No crashes recorded</p>}
+          {crashes.map((crash) => (
+            <div key={crash.timestamp} className="rounded-lg border border-neutral-800 p-3 text-sm">
+              <div className="flex flex-wrap justify-between gap-2 text-white">
+                <span className="font-medium">{new Date(crash.timestamp).toLocaleString()}</span>
+                <span className="text-neutral-400">
+                  exit code {crash.exitCode ?? "none"}
+                  {crash.signal !== null && ` · signal ${crash.signal}`}
+                  {` · up ${crash.uptimeSeconds}s`}
+                  {crash.sessionStartedAt && ` · session started ${new Date(crash.sessionStartedAt).toLocaleString()}`}
+                  {crash.restartDelayMs !== undefined && ` · restarted after ${Math.round(crash.restartDelayMs / 1000)}s`}
+                </span>
+              </div>
+
+              {crash.reports.map((r) => (
+                <div key={r.file} className="mt-2 rounded border border-neutral-800 bg-neutral-950 p-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-orange-400">{r.description || (r.kind === "jvm" ? "JVM error" : "Crash report")}</span>
+                    <button onClick={() => openReport(r.file)} className="text-xs text-neutral-400 hover:text-white underline shrink-0">
+                      {r.file}
+                    </button>
+                  </div>
+                  {r.exception && <div className="font-mono text-xs text-neutral-300 break-all mt-1">{r.exception}</div>}
+                  {r.suspects.length > 0 && <div className="text-xs text-neutral-400 mt-1">Suspects: {r.suspects.join(", ")}</div>}
+                </div>
+              ))}
+
+              {crash.lastLines.length > 0 && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-neutral-400 hover:text-white">Last console lines</summary>
+                  <pre className="mt-1 max-h-64 overflow-auto rounded bg-neutral-950 p-2 text-xs text-neutral-300 whitespace-pre-wrap break-all">
+                    {crash.lastLines.join("\n")}
+                  </pre>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {report && (
+          <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={() => setReport(null)}>
+            <div className="w-full max-w-4xl max-h-[85vh] flex flex-col rounded-lg border border-neutral-800 bg-neutral-950" onClick={(e) => e.stopPropagation()}>
+              <div className="flex justify-between items-center p-3 border-b border-neutral-800">
+                <span className="text-white text-sm break-all">{report.file}</span>
+                <button onClick={() => setReport(null)} className="text-neutral-400 hover:text-white text-sm">Close</button>
+              </div>
+              <pre className="flex-1 overflow-auto p-3 text-xs text-neutral-300 whitespace-pre-wrap break-all">{report.content}</pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { Suspense, useEffect, useState, useMemo, useCallback, memo } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useToast } from "../toast";
+import { useSession } from "@/hooks/useSession";
+import { useInstance } from "@/hooks/useInstance";
 import { Folder, File as FileIcon, ChevronLeft, Download, Pencil, Trash2, X, Eye } from "lucide-react";
 
 type Entry = {
@@ -23,12 +25,14 @@ const FolderRow = memo(({
   name, 
   onOpen, 
   onDelete, 
-  serverBusy 
+  serverBusy,
+  canWrite
 }: { 
   name: string; 
   onOpen: () => void; 
   onDelete: () => void; 
   serverBusy: boolean;
+  canWrite: boolean;
 }) => (
   <div className="w-full hover:bg-neutral-900/60">
     <div className="p-2 text-white break-all flex items-center justify-between gap-3">
@@ -40,14 +44,16 @@ const FolderRow = memo(({
         <Folder className="h-4 w-4" />
         {name}
       </button>
-      <button
-        title={serverBusy ? "Delete disabled while server is running" : "Delete folder"}
-        disabled={serverBusy}
-        onClick={onDelete}
-        className={serverBusy ? "text-neutral-600 cursor-not-allowed" : "hover:text-white"}
-      >
-        <Trash2 className="h-4 w-4" />
-      </button>
+      {canWrite && (
+        <button
+          title={serverBusy ? "Delete disabled while server is running" : "Delete folder"}
+          disabled={serverBusy}
+          onClick={onDelete}
+          className={serverBusy ? "text-neutral-600 cursor-not-allowed" : "hover:text-white"}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
     </div>
   </div>
 ));
@@ -61,7 +67,8 @@ const FileRow = memo(({
   onEdit, 
   onDelete, 
   onDownload,
-  serverBusy 
+  serverBusy,
+  canWrite
 }: { 
   name: string;
   fullPath: string;
@@ -70,6 +77,7 @@ const FileRow = memo(({
   onDelete: () => void; 
   onDownload: () => void;
   serverBusy: boolean;
+  canWrite: boolean;
 }) => {
   const isNonEditable = useMemo(() => isNonEditableFile(fullPath), [fullPath]);
 
@@ -100,7 +108,7 @@ const FileRow = memo(({
           <button title="Download" onClick={onDownload} className="hover:text-white">
             <Download className="h-4 w-4" />
           </button>
-          {!isNonEditable && (
+          {canWrite && !isNonEditable && (
             <button
               title={serverBusy ? "Edit disabled while server is running" : "Edit"}
               disabled={serverBusy}
@@ -110,14 +118,16 @@ const FileRow = memo(({
               <Pencil className="h-4 w-4" />
             </button>
           )}
-          <button
-            title={serverBusy ? "Delete disabled while server is running" : "Delete"}
-            disabled={serverBusy}
-            onClick={onDelete}
-            className={serverBusy ? "text-neutral-600 cursor-not-allowed" : "hover:text-white"}
-          >
-            <Trash2 className="h-4 w-4" />
-          </button>
+          {canWrite && (
+            <button
+              title={serverBusy ? "Delete disabled while server is running" : "Delete"}
+              disabled={serverBusy}
+              onClick={onDelete}
+              className={serverBusy ? "text-neutral-600 cursor-not-allowed" : "hover:text-white"}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
         </span>
       </div>
     </div>
@@ -131,6 +141,8 @@ function FilesClient() {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [serverBusy, setServerBusy] = useState(false);
+  const { can } = useSession();
+  const canWrite = can("files:write");
   const [editingPath, setEditingPath] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>("");
   const [deletingPath, setDeletingPath] = useState<string | null>(null);
@@ -139,6 +151,7 @@ function FilesClient() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const rel = searchParams.get("path") || "";
+  const { withInstance } = useInstance();
 
   // Memoize sorted entries
   const { folders, files } = useMemo(() => {
@@ -155,7 +168,7 @@ function FilesClient() {
     setError(null);
     try {
       const qs = rel ? `?path=${encodeURIComponent(rel)}` : "";
-      const res = await fetch(`/api/list-mc${qs}`);
+      const res = await fetch(withInstance(`/api/list-mc${qs}`));
       if (!res.ok) throw new Error(`Request failed: ${res.status}`);
       const data = await res.json();
       setEntries(data.entries || []);
@@ -164,7 +177,7 @@ function FilesClient() {
     } finally {
       setLoading(false);
     }
-  }, [rel]);
+  }, [rel, withInstance]);
 
   // Initial load
   useEffect(() => {
@@ -173,7 +186,7 @@ function FilesClient() {
 
   // Use SSE for server status
   useEffect(() => {
-    const eventSource = new EventSource('/api/server-status-stream');
+    const eventSource = new EventSource(withInstance('/api/server-status-stream'));
 
     eventSource.onmessage = (event) => {
       try {
@@ -190,13 +203,13 @@ function FilesClient() {
     };
 
     return () => eventSource.close();
-  }, []);
+  }, [withInstance]);
 
   // Handlers
   const handleFolderOpen = useCallback((name: string) => {
     const next = rel ? `${rel}/${name}` : name;
-    router.push(`/files?path=${encodeURIComponent(next)}`);
-  }, [rel, router]);
+    router.push(withInstance(`/files?path=${encodeURIComponent(next)}`));
+  }, [rel, router, withInstance]);
 
   const handleFolderDelete = useCallback((name: string) => {
     if (serverBusy) {
@@ -210,7 +223,7 @@ function FilesClient() {
   const handleFileView = useCallback(async (name: string) => {
     try {
       const fileRel = rel ? `${rel}/${name}` : name;
-      const res = await fetch(`/api/mc-file?path=${encodeURIComponent(fileRel)}`);
+      const res = await fetch(withInstance(`/api/mc-file?path=${encodeURIComponent(fileRel)}`));
       if (!res.ok) throw new Error('Failed to load file');
       const data = await res.json();
       setViewingPath(fileRel);
@@ -219,7 +232,7 @@ function FilesClient() {
       console.error(err);
       showToast('✗ Failed to load file', 'error');
     }
-  }, [rel, showToast]);
+  }, [rel, showToast, withInstance]);
 
   const handleFileEdit = useCallback(async (name: string) => {
     if (serverBusy) {
@@ -228,7 +241,7 @@ function FilesClient() {
     }
     try {
       const fileRel = rel ? `${rel}/${name}` : name;
-      const res = await fetch(`/api/mc-file?path=${encodeURIComponent(fileRel)}`);
+      const res = await fetch(withInstance(`/api/mc-file?path=${encodeURIComponent(fileRel)}`));
       if (!res.ok) throw new Error('Failed to load file');
       const data = await res.json();
       setEditingPath(fileRel);
@@ -237,7 +250,7 @@ function FilesClient() {
       console.error(err);
       showToast('✗ Failed to load file', 'error');
     }
-  }, [rel, serverBusy, showToast]);
+  }, [rel, serverBusy, showToast, withInstance]);
 
   const handleFileDelete = useCallback((name: string) => {
     if (serverBusy) {
@@ -252,7 +265,7 @@ function FilesClient() {
     try {
       const fileRel = rel ? `${rel}/${name}` : name;
       showToast(`⬇ Downloading ${name}...`, 'info', 2000);
-      const url = `/api/mc-file?path=${encodeURIComponent(fileRel)}&download=1`;
+      const url = withInstance(`/api/mc-file?path=${encodeURIComponent(fileRel)}&download=1`);
       const a = document.createElement('a');
       a.href = url;
       a.download = name;
@@ -266,7 +279,7 @@ function FilesClient() {
       console.error(err);
       showToast('✗ Download failed', 'error');
     }
-  }, [rel, showToast]);
+  }, [rel, showToast, withInstance]);
 
   const handleUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (serverBusy) return;
@@ -275,7 +288,7 @@ function FilesClient() {
     const form = new FormData();
     Array.from(files).forEach(f => form.append('files', f));
     const qs = rel ? `?path=${encodeURIComponent(rel)}` : '';
-    const res = await fetch(`/api/upload-mc${qs}`, { method: 'POST', body: form });
+    const res = await fetch(withInstance(`/api/upload-mc${qs}`), { method: 'POST', body: form });
     if (!res.ok) {
       showToast('✗ Upload failed', 'error');
       return;
@@ -283,11 +296,11 @@ function FilesClient() {
     showToast('✓ Files uploaded successfully', 'success');
     await loadFiles();
     e.currentTarget.value = '';
-  }, [serverBusy, rel, showToast, loadFiles]);
+  }, [serverBusy, rel, showToast, loadFiles, withInstance]);
 
   const handleSave = useCallback(async () => {
     try {
-      const res = await fetch('/api/mc-file', {
+      const res = await fetch(withInstance('/api/mc-file'), {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ path: editingPath, content: editingContent })
@@ -299,12 +312,12 @@ function FilesClient() {
       console.error(err);
       showToast('✗ Failed to save file', 'error');
     }
-  }, [editingPath, editingContent, showToast]);
+  }, [editingPath, editingContent, showToast, withInstance]);
 
   const handleDelete = useCallback(async () => {
     try {
       showToast('Deleting...', 'info', 1500);
-      const res = await fetch(`/api/mc-file?path=${encodeURIComponent(deletingPath!)}`, { method: 'DELETE' });
+      const res = await fetch(withInstance(`/api/mc-file?path=${encodeURIComponent(deletingPath!)}`), { method: 'DELETE' });
       if (!res.ok) throw new Error('Delete failed');
       setDeletingPath(null);
       showToast('✓ File deleted successfully', 'success');
@@ -313,7 +326,7 @@ function FilesClient() {
       console.error(err);
       showToast('✗ Failed to delete file', 'error');
     }
-  }, [deletingPath, showToast, loadFiles]);
+  }, [deletingPath, showToast, loadFiles, withInstance]);
 
   return (
     <div className="flex-1 overflow-auto pb-16">
@@ -326,7 +339,7 @@ function FilesClient() {
                   const parts = rel.split("/").filter(Boolean);
                   parts.pop();
                   const parent = parts.join("/");
-                  router.push(parent ? `/files?path=${encodeURIComponent(parent)}` : "/files");
+                  router.push(withInstance(parent ? `/files?path=${encodeURIComponent(parent)}` : "/files"));
                 }}
                 className="inline-flex items-center gap-1 text-neutral-300 hover:text-white text-sm"
               >
@@ -335,26 +348,28 @@ function FilesClient() {
             )}
             <h1 className="text-xl font-bold text-white">Files{rel ? ` / ${rel}` : ""}</h1>
           </div>
-          <div>
-            <label 
-              className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm cursor-pointer ${serverBusy ? 'bg-neutral-700 text-neutral-400 cursor-not-allowed' : 'bg-white text-black hover:opacity-90'}`}
-              onClick={(e) => {
-                if (serverBusy) {
-                  e.preventDefault();
-                  showToast('Uploads are disabled while server is running or busy', 'info');
-                }
-              }}
-            >
-              <input
-                type="file"
-                multiple
-                className="hidden"
-                disabled={serverBusy}
-                onChange={handleUpload}
-              />
-              Upload
-            </label>
-          </div>
+          {canWrite && (
+            <div>
+              <label 
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm cursor-pointer ${serverBusy ? 'bg-neutral-700 text-neutral-400 cursor-not-allowed' : 'bg-white text-black hover:opacity-90'}`}
+                onClick={(e) => {
+                  if (serverBusy) {
+                    e.preventDefault();
+                    showToast('Uploads are disabled while server is running or busy', 'info');
+                  }
+                }}
+              >
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  disabled={serverBusy}
+                  onChange={handleUpload}
+                />
+                Upload
+              </label>
+            </div>
+          )}
         </div>
         {loading && (
           <div className="flex items-center gap-2 text-neutral-300 text-sm">
@@ -380,6 +395,7 @@ function FilesClient() {
                 onOpen={() => handleFolderOpen(e.name)}
                 onDelete={() => handleFolderDelete(e.name)}
                 serverBusy={serverBusy}
+                canWrite={canWrite}
               />
             ))}
             {files.map((e, i) => (
@@ -392,6 +408,7 @@ function FilesClient() {
                 onDelete={() => handleFileDelete(e.name)}
                 onDownload={() => handleFileDownload(e.name)}
                 serverBusy={serverBusy}
+                canWrite={canWrite}
               />
             ))}
 
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { BottomNav } from "./nav";
@@ -30,10 +31,13 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ToastProvider>
-          <div className="min-h-screen flex flex-col overflow-hidden pb-16">
-            {children}
-          </div>
-          <BottomNav />
+          {/* Pages and the nav read the selected instance from the URL (useSearchParams) */}
+          <Suspense>
+            <div className="min-h-screen flex flex-col overflow-hidden pb-16">
+              {children}
+            </div>
+            <BottomNav />
+          </Suspense>
         </ToastProvider>
       </body>
     </html>
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Lock } from "lucide-react";
+
+interface LoginFormProps {
+  /** No users exist yet: show the first-run admin form */
+  needsSetup: boolean;
+  /** Where to go after logging in */
+  next: string;
+}
+
+export default function LoginForm({ needsSetup, next }: LoginFormProps) {
+  const [setupCode, setSetupCode] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (needsSetup && password !== confirm) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await fetch(needsSetup ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(needsSetup ? { setupCode, username, password } : { username, password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Login failed");
+      }
+      // Full navigation so the server renders the gated pages with the new cookie
+      window.location.href = next;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full rounded border border-neutral-800 bg-black text-white px-3 py-2 text-sm focus:outline-none focus:border-neutral-500";
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4 bg-black">
+      <form onSubmit={onSubmit} className="w-full max-w-sm border border-neutral-800 bg-neutral-950 p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-3">
+          <Lock className="h-5 w-5 text-neutral-300" />
+          <h1 className="text-xl font-bold text-white">{needsSetup ? "Create admin account" : "Log in"}</h1>
+        </div>
+
+        {needsSetup && (
+          <div className="flex flex-col gap-2">
+            <p className="text-xs text-neutral-400">
+              No accounts exist yet. Enter the setup code printed in the server console to create the admin.
+            </p>
+            <label className="text-sm text-neutral-300" htmlFor="setupCode">Setup code</label>
+            <input
+              id="setupCode"
+              className={`${inputClass} font-mono`}
+              value={setupCode}
+              onChange={(e) => setSetupCode(e.target.value)}
+              autoComplete="off"
+              required
+            />
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm text-neutral-300" htmlFor="username">Username</label>
+          <input
+            id="username"
+            className={inputClass}
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus={!needsSetup}
+            required
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm text-neutral-300" htmlFor="password">Password</label>
+          <input
+            id="password"
+            type="password"
+            className={inputClass}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={needsSetup ? "new-password" : "current-password"}
+            required
+          />
+        </div>
+
+        {needsSetup && (
+          <div className="flex flex-col gap-2">
+            <label className="text-sm text-neutral-300" htmlFor="confirm">Confirm password</label>
+            <input
+              id="confirm"
+              type="password"
+              className={inputClass}
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className={`px-3 py-2 rounded text-sm ${busy ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+        >
+          {busy ? "Please wait..." : needsSetup ? "Create account" : "Log in"}
+        </button>
+      </form>
+    </div>
+  );
+}
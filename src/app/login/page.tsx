@@ -0,0 +1,15 @@
+import { authManager, safeRedirectPath } from '@/lib/auth';
+import LoginForm from './LoginForm';
+
+export const dynamic = 'force-dynamic';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  await authManager.initialize();
+  const { next } = await searchParams;
+
+  return <LoginForm needsSetup={authManager.needsSetup()} next={safeRedirectPath(next)} />;
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Download, Radio, RefreshCw } from "lucide-react";
+import { useInstance } from "@/hooks/useInstance";
+import type { LogFile, LogMatch } from "@/lib/logArchive";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+const LEVEL_FILTERS = [
+  { value: "", label: "All levels" },
+  { value: "WARN,ERROR,FATAL", label: "Warnings and errors" },
+  { value: "ERROR,FATAL", label: "Errors only" },
+];
+
+const LEVEL_COLORS: Record<string, string> = {
+  WARN: "text-yellow-400",
+  ERROR: "text-red-400",
+  FATAL: "text-red-500",
+};
+
+// Lines kept on screen while tailing
+const MAX_TAIL_LINES = 2000;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface SearchFilters {
+  q: string;
+  regex: boolean;
+  level: string;
+  file: string;
+  from: string;
+  to: string;
+}
+
+export default function LogsPage() {
+  const { withInstance } = useInstance();
+  const [files, setFiles] = useState<LogFile[]>([]);
+  const [matches, setMatches] = useState<LogMatch[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [q, setQ] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [level, setLevel] = useState("");
+  const [file, setFile] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  // Filters apply on submit: each submit stores a new object, which searches again
+  const [applied, setApplied] = useState<SearchFilters>({ q: "", regex: false, level: "", file: "", from: "", to: "" });
+  const [tailing, setTailing] = useState(false);
+  const [tailLines, setTailLines] = useState<string[]>([]);
+  const tailEndRef = useRef<HTMLDivElement>(null);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const res = await fetch(withInstance("/api/logs"), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to list logs");
+      setFiles(data.files || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [withInstance]);
+
+  const search = useCallback(async (filters: SearchFilters, cursor?: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (filters.q.trim()) params.set("q", filters.q.trim());
+      if (filters.q.trim() && filters.regex) params.set("regex", "1");
+      if (filters.level) params.set("level", filters.level);
+      if (filters.file) params.set("file", filters.file);
+      // datetime-local values are local time
+      if (filters.from) params.set("from", new Date(filters.from).toISOString());
+      if (filters.to) params.set("to", new Date(filters.to).toISOString());
+      if (cursor) params.set("cursor", cursor);
+      const res = await fetch(withInstance(`/api/logs/search?${params}`), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Search failed");
+      setMatches((prev) => (cursor ? [...prev, ...data.matches] : data.matches));
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [withInstance]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  useEffect(() => {
+    search(applied);
+  }, [search, applied]);
+
+  useEffect(() => {
+    if (!tailing) return;
+    const source = new EventSource(withInstance("/api/logs/tail"));
+    source.onmessage = (event) => {
+      const { lines } = JSON.parse(event.data) as { lines: string[] };
+      setTailLines((prev) => [...prev, ...lines].slice(-MAX_TAIL_LINES));
+    };
+    source.addEventListener("error", (event) => {
+      if (event instanceof MessageEvent) {
+        setError(JSON.parse(event.data).error);
+        source.close();
+        setTailing(false);
+      }
+    });
+    return () => source.close();
+  }, [tailing, withInstance]);
+
+  useEffect(() => {
+    tailEndRef.current?.scrollIntoView({ block: "end" });
+  }, [tailLines]);
+
+  const openFile = (name: string) => {
+    setTailing(false);
+    setFile(name);
+    setApplied({ q, regex, level, file: name, from, to });
+  };
+
+  const toggleTail = () => {
+    setTailLines([]);
+    setTailing((t) => !t);
+  };
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Logs</h1>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="md:w-64 shrink-0">
+            <h2 className="font-semibold text-white mb-2">Files ({files.length})</h2>
+            <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden max-h-[70vh] overflow-y-auto">
+              {files.length === 0 && <div className="p-2 text-sm text-neutral-400">No logs</div>}
+              {files.map((f) => (
+                <div key={f.name} className={`p-2 text-sm flex items-center justify-between gap-2 ${file === f.name ? "bg-neutral-900" : ""}`}>
+                  <button onClick={() => openFile(f.name)} className="min-w-0 text-left">
+                    <div className="text-white break-all hover:underline">{f.name}</div>
+                    <div className="text-xs text-neutral-500">{formatSize(f.size)} · {new Date(f.modified).toLocaleString()}</div>
+                  </button>
+                  <a
+                    href={withInstance(`/api/mc-file?path=${encodeURIComponent(`logs/${f.name}`)}&download=1`)}
+                    className="text-neutral-400 hover:text-white shrink-0"
+                    title="Download"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setTailing(false);
+                setApplied({ q, regex, level, file, from, to });
+              }}
+              className="flex flex-wrap gap-2 mb-4"
+            >
+              <input placeholder={regex ? "Regex, e.g. Steve|error" : "Search text"} value={q} onChange={(e) => setQ(e.target.value)} className={`${inputClass} flex-1 min-w-[12rem] font-mono`} />
+              <label className="inline-flex items-center gap-1 text-sm text-neutral-300">
+                <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+                Regex
+              </label>
+              <select value={level} onChange={(e) => setLevel(e.target.value)} className={inputClass}>
+                {LEVEL_FILTERS.map((l) => (
+                  <option key={l.value} value={l.value}>{l.label}</option>
+                ))}
+              </select>
+              <select value={file} onChange={(e) => setFile(e.target.value)} className={inputClass}>
+                <option value="">All logs</option>
+                {files.map((f) => (
+                  <option key={f.name} value={f.name}>{f.name}</option>
+                ))}
+              </select>
+              <input type="datetime-local" title="From" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+              <input type="datetime-local" title="To" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+              <button
+                type="submit"
+                disabled={loading}
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm ${loading ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                Search
+              </button>
+              <button
+                type="button"
+                onClick={toggleTail}
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm border border-neutral-800 ${tailing ? "text-emerald-400" : "text-neutral-300 hover:text-white"}`}
+                title="Follow latest.log"
+              >
+                <Radio className="h-4 w-4" />
+                {tailing ? "Stop tail" : "Live tail"}
+              </button>
+            </form>
+
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+            {tailing ? (
+              <div className="rounded-lg border border-neutral-800 bg-neutral-950 p-2 font-mono text-xs text-neutral-200 max-h-[70vh] overflow-auto">
+                {tailLines.length === 0 && <div className="text-neutral-500">Waiting for latest.log…</div>}
+                {tailLines.map((line, i) => (
+                  <div key={i} className="whitespace-pre-wrap break-all">{line}</div>
+                ))}
+                <div ref={tailEndRef} />
+              </div>
+            ) : (
+              <>
+                <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden font-mono text-xs">
+                  {!loading && matches.length === 0 && <div className="p-2 text-neutral-400">No matching lines</div>}
+                  {matches.map((m) => (
+                    <div key={`${m.file}:${m.line}`} className="p-2 flex gap-3">
+                      <div className="shrink-0 w-44 text-neutral-500">
+                        <div>{m.file}:{m.line}</div>
+                        {m.time && <div>{new Date(m.time).toLocaleString()}</div>}
+                      </div>
+                      <div className={`min-w-0 whitespace-pre-wrap break-all ${(m.level && LEVEL_COLORS[m.level]) || "text-neutral-200"}`}>{m.text}</div>
+                    </div>
+                  ))}
+                </div>
+                {nextCursor && (
+                  <button
+                    onClick={() => search(applied, nextCursor)}
+                    disabled={loading}
+                    className="mt-3 px-3 py-1.5 rounded text-sm border border-neutral-800 text-neutral-300 hover:text-white disabled:opacity-50"
+                  >
+                    {loading ? "Loading…" : "Load more"}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
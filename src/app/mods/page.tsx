@@ -0,0 +1,122 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { useInstance } from "@/hooks/useInstance";
+import type { ModInfo, ModLoader } from "@/lib/mods";
+
+const LOADER_LABELS: Record<ModLoader, string> = {
+  fabric: "Fabric",
+  quilt: "Quilt",
+  forge: "Forge",
+  neoforge: "NeoForge",
+};
+
+const ENVIRONMENT_LABELS: Record<ModInfo["environment"], string> = {
+  both: "client + server",
+  client: "client only",
+  server: "server only",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function ModsPage() {
+  const { withInstance } = useInstance();
+  const [mods, setMods] = useState<ModInfo[]>([]);
+  const [serverVersion, setServerVersion] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(withInstance("/api/mods"), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to list mods");
+      setMods(data.mods || []);
+      setServerVersion(data.serverVersion);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [withInstance]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const withIssues = mods.filter((m) => m.issues.length > 0);
+  const shown = onlyIssues ? withIssues : mods;
+  const loaders = [...new Set(mods.map((m) => m.loader).filter((l): l is ModLoader => !!l))];
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full max-w-4xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Mods</h1>
+          <button onClick={load} disabled={loading} className="ml-auto text-neutral-400 hover:text-white" title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-neutral-400 mb-4">
+          <span>
+            {mods.length} mods
+            {loaders.length > 0 && ` · ${loaders.map((l) => LOADER_LABELS[l]).join(", ")}`}
+            {withIssues.length > 0 && <span className="text-yellow-400"> · {withIssues.length} with issues</span>}
+            {serverVersion ? ` · server ${serverVersion}` : " · server version unknown, Minecraft version ranges are not checked"}
+          </span>
+          <label className="inline-flex items-center gap-2 ml-auto">
+            <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} />
+            Only with issues
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+          {!loading && shown.length === 0 && <div className="p-2 text-sm text-neutral-400">No mods</div>}
+          {shown.map((mod) => (
+            <div key={mod.file} className="p-3 text-sm">
+              <div className="text-white">
+                <span className="font-medium break-all">{mod.name || mod.id || mod.file}</span>
+                {mod.version && <span className="text-neutral-400"> {mod.version}</span>}
+                {mod.loader && <span className="ml-2 text-xs text-sky-400">{LOADER_LABELS[mod.loader]}</span>}
+                <span className={`ml-2 text-xs ${mod.environment === "client" ? "text-red-400" : "text-neutral-500"}`}>
+                  {ENVIRONMENT_LABELS[mod.environment]}
+                </span>
+              </div>
+              <div className="text-xs text-neutral-500 break-all">
+                {mod.id && `${mod.id} · `}
+                {mod.file} · {formatSize(mod.size)}
+              </div>
+              {mod.description && <div className="text-neutral-300 mt-1 line-clamp-2">{mod.description}</div>}
+              {mod.dependencies.length > 0 && (
+                <div className="text-xs text-neutral-400 mt-1 break-all">
+                  {mod.dependencies
+                    .map((dep) => `${dep.kind === "incompatible" ? "✗ " : dep.kind === "optional" ? "? " : ""}${dep.id} ${dep.versionRange}`)
+                    .join(" · ")}
+                </div>
+              )}
+              {mod.issues.map((issue) => (
+                <div key={issue.message} className="flex items-center gap-1 text-xs text-yellow-400 mt-1">
+                  <AlertTriangle className="h-3 w-3 shrink-0" /> {issue.message}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
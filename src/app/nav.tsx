@@ -1,21 +1,63 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
-import { LayoutDashboard, Terminal as TerminalIcon, Folder } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import { useSession } from "@/hooks/useSession";
+import { useInstance, withInstanceParam } from "@/hooks/useInstance";
+import { LayoutDashboard, Terminal as TerminalIcon, Folder, LogOut, Server } from "lucide-react";
 
 export function BottomNav() {
   const pathname = usePathname();
+  const router = useRouter();
   const isDashboard = pathname === "/";
   const isTerminal = pathname?.startsWith("/terminal");
   const isFiles = pathname?.startsWith("/files");
+  const { session, can } = useSession();
+  // Keep the Files tab while the session loads to avoid the bar jumping
+  const showFiles = !session || can("files:read");
+  const { instanceId, instances, withInstance } = useInstance();
+  // The switcher only shows up once a second instance is configured
+  const showSwitcher = instances.length > 1;
+  const columns = 3 + (showFiles ? 1 : 0) + (showSwitcher ? 1 : 0);
+
+  if (pathname === "/login") return null;
+
+  const switchInstance = (id: string) => {
+    // The first instance is the default one, which needs no parameter
+    router.push(withInstanceParam(pathname || "/", id === instances[0]?.id ? "" : id));
+  };
+
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      window.location.href = "/login";
+    }
+  };
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50 border-t border-neutral-800 bg-neutral-950/90 backdrop-blur supports-[backdrop-filter]:bg-neutral-950/60">
       <div className="mx-auto max-w-5xl">
-        <div className="grid grid-cols-3">
+        <div className={`grid ${columns === 5 ? "grid-cols-5" : columns === 4 ? "grid-cols-4" : "grid-cols-3"}`}>
+          {showSwitcher && (
+            <label className="relative flex items-center justify-center gap-2 py-3 text-sm text-neutral-400" title="Server instance">
+              <Server className="h-4 w-4 shrink-0" />
+              <select
+                value={instanceId || instances[0].id}
+                onChange={(e) => switchInstance(e.target.value)}
+                className="max-w-[8rem] truncate bg-transparent text-white focus:outline-none"
+              >
+                {instances.map((instance) => (
+                  <option key={instance.id} value={instance.id} className="bg-neutral-900">
+                    {instance.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
           <Link
-            href="/"
+            href={withInstance("/")}
             className={`relative flex items-center justify-center gap-2 py-3 text-sm transition-colors ${
               isDashboard ? "text-white" : "text-neutral-400 hover:text-neutral-200"
             }`}
@@ -31,7 +73,7 @@ export function BottomNav() {
           </Link>
 
           <Link
-            href="/terminal"
+            href={withInstance("/terminal")}
             className={`relative flex items-center justify-center gap-2 py-3 text-sm transition-colors ${
               isTerminal ? "text-white" : "text-neutral-400 hover:text-neutral-200"
             }`}
@@ -46,21 +88,31 @@ export function BottomNav() {
             Terminal
           </Link>
 
-          <Link
-            href="/files"
-            className={`relative flex items-center justify-center gap-2 py-3 text-sm transition-colors ${
-              isFiles ? "text-white" : "text-neutral-400 hover:text-neutral-200"
-            }`}
-          >
-            <span
-              className={`h-1 w-16 rounded-full absolute -top-[1px] ${
-                isFiles ? "bg-white" : "bg-transparent"
+          {showFiles && (
+            <Link
+              href={withInstance("/files")}
+              className={`relative flex items-center justify-center gap-2 py-3 text-sm transition-colors ${
+                isFiles ? "text-white" : "text-neutral-400 hover:text-neutral-200"
               }`}
-              aria-hidden
-            />
-            <Folder className="h-4 w-4" />
-            Files
-          </Link>
+            >
+              <span
+                className={`h-1 w-16 rounded-full absolute -top-[1px] ${
+                  isFiles ? "bg-white" : "bg-transparent"
+                }`}
+                aria-hidden
+              />
+              <Folder className="h-4 w-4" />
+              Files
+            </Link>
+          )}
+
+          <button
+            onClick={logout}
+            className="relative flex items-center justify-center gap-2 py-3 text-sm transition-colors text-neutral-400 hover:text-neutral-200"
+          >
+            <LogOut className="h-4 w-4" />
+            Log out
+          </button>
         </div>
       </div>
     </nav>
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Ban, MessageSquareWarning, StickyNote, UserX } from "lucide-react";
+import { useToast } from "../../toast";
+import { useSession } from "@/hooks/useSession";
+import { useInstance } from "@/hooks/useInstance";
+import type { AccessLists } from "@/lib/accessLists";
+import type { ModerationEntry, TempBan } from "@/lib/moderation";
+import type { PlayerSession } from "@/lib/playerTracker";
+import { BAN_DURATIONS } from "../banDurations";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+const ACTION_LABELS: Record<ModerationEntry["action"], string> = {
+  note: "Note",
+  warning: "Warning",
+  kick: "Kick",
+  ban: "Ban",
+  unban: "Unban",
+};
+
+const ACTION_COLORS: Record<ModerationEntry["action"], string> = {
+  note: "text-neutral-300",
+  warning: "text-yellow-400",
+  kick: "text-orange-400",
+  ban: "text-red-400",
+  unban: "text-emerald-400",
+};
+
+function formatDuration(fromIso: string, toIso?: string): string {
+  const seconds = Math.max(0, Math.floor(((toIso ? Date.parse(toIso) : Date.now()) - Date.parse(fromIso)) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+export default function PlayerProfilePage() {
+  const params = useParams<{ name: string }>();
+  const name = decodeURIComponent(params.name);
+  const { showToast } = useToast();
+  const { can } = useSession();
+  const { withInstance } = useInstance();
+  const canManage = can("players:manage");
+  const [access, setAccess] = useState<(AccessLists & { running: boolean }) | null>(null);
+  const [history, setHistory] = useState<ModerationEntry[]>([]);
+  const [tempBan, setTempBan] = useState<TempBan | null>(null);
+  const [sessions, setSessions] = useState<PlayerSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [duration, setDuration] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const playerPath = `/api/players/${encodeURIComponent(name)}`;
+      const [accessRes, moderationRes, sessionsRes] = await Promise.all([
+        fetch(withInstance("/api/access"), { cache: "no-store" }),
+        fetch(withInstance(`${playerPath}/moderation`), { cache: "no-store" }),
+        fetch(withInstance(`${playerPath}/sessions?limit=50`), { cache: "no-store" }),
+      ]);
+      const [accessData, moderationData, sessionsData] = await Promise.all([accessRes.json(), moderationRes.json(), sessionsRes.json()]);
+      if (!accessRes.ok) throw new Error(accessData.details || accessData.error || "Failed to load lists");
+      if (!moderationRes.ok) throw new Error(moderationData.error || "Failed to load moderation history");
+      setAccess(accessData);
+      setHistory(moderationData.history || []);
+      setTempBan(moderationData.tempBan || null);
+      setSessions(sessionsData.sessions || []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [name, withInstance]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const post = async (url: string, body: Record<string, unknown>, done: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(withInstance(url), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Action failed");
+      showToast(`✓ ${done}`, "success");
+      setText("");
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    } finally {
+      setSaving(false);
+      await load();
+    }
+  };
+
+  const moderate = (action: "note" | "warning" | "kick") =>
+    post(`/api/players/${encodeURIComponent(name)}/moderation`, { action, reason: text }, `${ACTION_LABELS[action]} recorded`);
+
+  const ban = () =>
+    post(
+      "/api/access",
+      { list: "bans", action: "add", name, ...(text.trim() ? { reason: text.trim() } : {}), ...(duration ? { durationMinutes: duration } : {}) },
+      `Banned ${name}`
+    );
+
+  const pardon = () => post("/api/access", { list: "bans", action: "remove", name }, `Pardoned ${name}`);
+
+  const lower = name.toLowerCase();
+  const whitelisted = access?.whitelist.some((e) => e.name.toLowerCase() === lower);
+  const op = access?.ops.find((e) => e.name.toLowerCase() === lower);
+  const banned = access?.bans.find((e) => e.name.toLowerCase() === lower);
+  const online = sessions.length > 0 && !sessions[0].leftAt;
+  const uuid = banned?.uuid || op?.uuid || sessions.find((s) => s.uuid)?.uuid;
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full max-w-4xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/players")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Players
+          </Link>
+          <h1 className="text-xl font-bold text-white break-all">{name}</h1>
+          {online && <span className="text-xs text-emerald-400">online</span>}
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex flex-col gap-8">
+          <div className="rounded border border-neutral-800 bg-neutral-950 p-3 text-sm flex flex-col gap-1 text-neutral-300">
+            {uuid && <div>UUID: <span className="text-white font-mono break-all">{uuid}</span></div>}
+            <div>Whitelisted: <span className="text-white">{whitelisted ? "yes" : "no"}</span></div>
+            <div>Operator: <span className="text-white">{op ? `level ${op.level}` : "no"}</span></div>
+            <div>
+              Banned:{" "}
+              <span className={banned ? "text-red-400" : "text-white"}>
+                {banned ? `yes (${banned.reason})` : "no"}
+                {banned && tempBan ? ` until ${new Date(tempBan.expiresAt).toLocaleString()}` : ""}
+              </span>
+            </div>
+          </div>
+
+          {canManage && (
+            <div className="flex flex-col gap-2">
+              <h2 className="font-semibold text-white">Moderate</h2>
+              <textarea
+                placeholder="Reason / note"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={2}
+                className={`${inputClass} w-full`}
+              />
+              <div className="flex flex-wrap gap-2">
+                <button disabled={saving || !text.trim()} onClick={() => moderate("note")} className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm border border-neutral-800 text-neutral-300 hover:text-white disabled:opacity-50">
+                  <StickyNote className="h-4 w-4" /> Note
+                </button>
+                <button disabled={saving || !text.trim()} onClick={() => moderate("warning")} className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm border border-neutral-800 text-yellow-400 hover:text-yellow-300 disabled:opacity-50">
+                  <MessageSquareWarning className="h-4 w-4" /> Warn
+                </button>
+                <button disabled={saving || !online} onClick={() => moderate("kick")} className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm border border-neutral-800 text-orange-400 hover:text-orange-300 disabled:opacity-50">
+                  <UserX className="h-4 w-4" /> Kick
+                </button>
+                {banned ? (
+                  <button disabled={saving} onClick={pardon} className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm border border-neutral-800 text-emerald-400 hover:text-emerald-300 disabled:opacity-50">
+                    <Ban className="h-4 w-4" /> Pardon
+                  </button>
+                ) : (
+                  <span className="inline-flex items-center gap-2">
+                    <select value={duration} onChange={(e) => setDuration(parseInt(e.target.value, 10))} className={inputClass}>
+                      {BAN_DURATIONS.map((d) => (
+                        <option key={d.minutes} value={d.minutes}>{d.label}</option>
+                      ))}
+                    </select>
+                    <button disabled={saving} onClick={ban} className="inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm bg-red-600 hover:bg-red-500 text-white disabled:opacity-50">
+                      <Ban className="h-4 w-4" /> Ban
+                    </button>
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h2 className="font-semibold text-white mb-2">Moderation history</h2>
+            <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+              {history.length === 0 && <div className="p-2 text-sm text-neutral-400">No records</div>}
+              {history.map((entry) => (
+                <div key={entry.id} className="p-2 text-sm">
+                  <div className="flex justify-between gap-3">
+                    <span className={ACTION_COLORS[entry.action]}>
+                      {ACTION_LABELS[entry.action]}
+                      {entry.expiresAt && <span className="text-neutral-500"> until {new Date(entry.expiresAt).toLocaleString()}</span>}
+                    </span>
+                    <span className="text-xs text-neutral-500">{entry.actor} · {new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  {entry.reason && <div className="text-neutral-300 break-words">{entry.reason}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="font-semibold text-white mb-2">Sessions</h2>
+            <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+              {sessions.length === 0 && <div className="p-2 text-sm text-neutral-400">No sessions recorded</div>}
+              {sessions.map((session) => (
+                <div key={session.joinedAt} className="p-2 text-sm flex justify-between gap-3 text-neutral-300">
+                  <span>{new Date(session.joinedAt).toLocaleString()}</span>
+                  <span className="text-neutral-500">
+                    {session.leftAt ? formatDuration(session.joinedAt, session.leftAt) : "online"}
+                    {session.ip ? ` · ${session.ip}` : ""}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
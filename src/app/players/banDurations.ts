@@ -0,0 +1,8 @@
+/** Ban lengths offered in the UI; 0 is a permanent ban */
+export const BAN_DURATIONS = [
+  { minutes: 0, label: "Permanent" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 24 * 60, label: "1 day" },
+  { minutes: 7 * 24 * 60, label: "7 days" },
+  { minutes: 30 * 24 * 60, label: "30 days" },
+];
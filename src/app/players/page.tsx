@@ -0,0 +1,305 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Clock, Plus, Trash2 } from "lucide-react";
+import { useToast } from "../toast";
+import { useSession } from "@/hooks/useSession";
+import { useInstance } from "@/hooks/useInstance";
+import { useOnlinePlayers } from "@/hooks/useOnlinePlayers";
+import { selectTerminalInstance } from "../terminal/wsSession";
+import type { AccessListName, AccessLists } from "@/lib/accessLists";
+import type { TempBan } from "@/lib/moderation";
+import type { PlayerSession } from "@/lib/playerTracker";
+import { BAN_DURATIONS } from "./banDurations";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+const TABS: { id: AccessListName; label: string }[] = [
+  { id: "whitelist", label: "Whitelist" },
+  { id: "ops", label: "Operators" },
+  { id: "bans", label: "Banned players" },
+  { id: "ip-bans", label: "Banned IPs" },
+];
+
+type AccessState = AccessLists & { running: boolean; whitelistEnabled: boolean; tempBans: TempBan[] };
+
+function formatDuration(fromIso: string, toIso?: string): string {
+  const seconds = Math.max(0, Math.floor(((toIso ? Date.parse(toIso) : Date.now()) - Date.parse(fromIso)) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+export default function PlayersPage() {
+  const { showToast } = useToast();
+  const { can } = useSession();
+  const { instanceId, withInstance } = useInstance();
+  const online = useOnlinePlayers();
+  const canManage = can("players:manage");
+  const [access, setAccess] = useState<AccessState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<AccessListName>("whitelist");
+  const [subject, setSubject] = useState("");
+  const [reason, setReason] = useState("");
+  const [duration, setDuration] = useState(0);
+  const [level, setLevel] = useState("");
+  const [bypass, setBypass] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [sessionsOf, setSessionsOf] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<PlayerSession[]>([]);
+
+  const loadAccess = useCallback(async () => {
+    try {
+      const res = await fetch(withInstance("/api/access"), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to load lists");
+      setAccess(data);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [withInstance]);
+
+  useEffect(() => {
+    loadAccess();
+  }, [loadAccess]);
+
+  // Online players come over the WebSocket of the selected instance
+  useEffect(() => {
+    selectTerminalInstance(instanceId);
+  }, [instanceId]);
+
+  const change = async (list: AccessListName, action: "add" | "remove", value: string, extra: Record<string, unknown> = {}) => {
+    setSaving(true);
+    try {
+      const res = await fetch(withInstance("/api/access"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ list, action, ...(list === "ip-bans" ? { ip: value } : { name: value }), ...extra }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Change failed");
+      showToast(`✓ ${action === "add" ? "Added" : "Removed"} ${value}${data.via === "console" ? " (console)" : ""}`, "success");
+      return true;
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+      return false;
+    } finally {
+      setSaving(false);
+      await loadAccess();
+    }
+  };
+
+  const onAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const extra: Record<string, unknown> = {};
+    if (tab === "bans" || tab === "ip-bans") {
+      if (reason.trim()) extra.reason = reason.trim();
+      if (duration) extra.durationMinutes = duration;
+    }
+    if (tab === "ops") {
+      if (level) extra.level = parseInt(level, 10);
+      if (bypass) extra.bypassesPlayerLimit = true;
+    }
+    if (await change(tab, "add", subject.trim(), extra)) {
+      setSubject("");
+      setReason("");
+      setLevel("");
+      setBypass(false);
+      setDuration(0);
+    }
+  };
+
+  const onRemove = async (list: AccessListName, value: string) => {
+    if (!window.confirm(`Remove ${value}?`)) return;
+    await change(list, "remove", value);
+  };
+
+  const toggleSessions = async (name: string) => {
+    if (sessionsOf === name) {
+      setSessionsOf(null);
+      return;
+    }
+    setSessionsOf(name);
+    setSessions([]);
+    try {
+      const res = await fetch(withInstance(`/api/players/${encodeURIComponent(name)}/sessions?limit=20`), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load sessions");
+      setSessions(data.sessions || []);
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    }
+  };
+
+  const expiry = (list: "bans" | "ip-bans", target: string) => {
+    const ban = access?.tempBans.find((b) => b.list === list && b.target.toLowerCase() === target.toLowerCase());
+    return ban ? ` · until ${new Date(ban.expiresAt).toLocaleString()}` : "";
+  };
+
+  const rows: { key: string; primary: string; secondary: string }[] = !access
+    ? []
+    : tab === "whitelist"
+      ? access.whitelist.map((e) => ({ key: e.name, primary: e.name, secondary: e.uuid }))
+      : tab === "ops"
+        ? access.ops.map((e) => ({ key: e.name, primary: e.name, secondary: `Level ${e.level}${e.bypassesPlayerLimit ? " · bypasses player limit" : ""}` }))
+        : tab === "bans"
+          ? access.bans.map((e) => ({ key: e.name, primary: e.name, secondary: `${e.reason} · by ${e.source} · ${e.created}${expiry("bans", e.name)}` }))
+          : access["ip-bans"].map((e) => ({ key: e.ip, primary: e.ip, secondary: `${e.reason} · by ${e.source} · ${e.created}${expiry("ip-bans", e.ip)}` }));
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full max-w-4xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Players</h1>
+        </div>
+
+        <div className="flex flex-col gap-8">
+          <div>
+            <h2 className="font-semibold text-white mb-2">Online now ({online.length})</h2>
+            <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+              {online.length === 0 && <div className="p-2 text-sm text-neutral-400">Nobody is online</div>}
+              {online.map((player) => (
+                <div key={player.name} className="p-2 text-white">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <Link href={withInstance(`/players/${encodeURIComponent(player.name)}`)} className="break-all hover:underline">
+                        {player.name}
+                      </Link>
+                      <div className="text-xs text-neutral-500 break-all">
+                        {[player.uuid, player.ip, `online for ${formatDuration(player.joinedAt)}`].filter(Boolean).join(" · ")}
+                      </div>
+                    </div>
+                    <button title="Sessions" onClick={() => toggleSessions(player.name)} className="text-neutral-300 hover:text-white">
+                      <Clock className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {sessionsOf === player.name && (
+                    <div className="mt-2 rounded border border-neutral-800 bg-neutral-950 p-2 text-xs text-neutral-300 flex flex-col gap-1">
+                      {sessions.length === 0 && <div className="text-neutral-500">Loading sessions...</div>}
+                      {sessions.map((session) => (
+                        <div key={session.joinedAt} className="flex justify-between gap-3">
+                          <span>{new Date(session.joinedAt).toLocaleString()}</span>
+                          <span className="text-neutral-500">
+                            {session.leftAt ? formatDuration(session.joinedAt, session.leftAt) : "online"}
+                            {session.ip ? ` · ${session.ip}` : ""}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {TABS.map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setTab(t.id)}
+                  className={`px-3 py-1.5 rounded text-sm border ${tab === t.id ? "bg-white text-black border-white" : "border-neutral-800 text-neutral-300 hover:text-white"}`}
+                >
+                  {t.label}
+                  {access && <span className="ml-1 text-xs opacity-60">{access[t.id].length}</span>}
+                </button>
+              ))}
+            </div>
+
+            {loading && <div className="text-neutral-300 text-sm">Loading lists...</div>}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {access && (
+              <>
+                <p className="text-xs text-neutral-500 mb-2">
+                  {access.running ? "Server is running: changes are made with console commands." : "Server is stopped: changes are written to the files."}
+                  {tab === "whitelist" && !access.whitelistEnabled && " The whitelist is off (white-list=false)."}
+                </p>
+                <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+                  {rows.length === 0 && <div className="p-2 text-sm text-neutral-400">Empty</div>}
+                  {rows.map((row) => (
+                    <div key={row.key} className="p-2 text-white flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        {tab === "ip-bans" ? (
+                          <div className="break-all">{row.primary}</div>
+                        ) : (
+                          <Link href={withInstance(`/players/${encodeURIComponent(row.primary)}`)} className="break-all hover:underline">
+                            {row.primary}
+                          </Link>
+                        )}
+                        <div className="text-xs text-neutral-500 break-all">{row.secondary}</div>
+                      </div>
+                      {canManage && (
+                        <button title="Remove" disabled={saving} onClick={() => onRemove(tab, row.key)} className="text-neutral-300 hover:text-white">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {canManage && (
+                  <form onSubmit={onAdd} className="mt-3 flex flex-wrap gap-2">
+                    <input
+                      placeholder={tab === "ip-bans" ? "IP address" : "Player name"}
+                      value={subject}
+                      onChange={(e) => setSubject(e.target.value)}
+                      autoComplete="off"
+                      className={inputClass}
+                      required
+                    />
+                    {(tab === "bans" || tab === "ip-bans") && (
+                      <input
+                        placeholder="Reason (optional)"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        className={`${inputClass} flex-1`}
+                      />
+                    )}
+                    {(tab === "bans" || tab === "ip-bans") && (
+                      <select value={duration} onChange={(e) => setDuration(parseInt(e.target.value, 10))} className={inputClass}>
+                        {BAN_DURATIONS.map((d) => (
+                          <option key={d.minutes} value={d.minutes}>{d.label}</option>
+                        ))}
+                      </select>
+                    )}
+                    {tab === "ops" && (
+                      <>
+                        <select value={level} onChange={(e) => setLevel(e.target.value)} className={inputClass} disabled={access.running}>
+                          <option value="">Default level</option>
+                          {[1, 2, 3, 4].map((l) => (
+                            <option key={l} value={l}>Level {l}</option>
+                          ))}
+                        </select>
+                        <label className="inline-flex items-center gap-2 text-sm text-neutral-300">
+                          <input type="checkbox" checked={bypass} onChange={(e) => setBypass(e.target.checked)} disabled={access.running} />
+                          Bypasses player limit
+                        </label>
+                      </>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm ${saving ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+                    >
+                      <Plus className="h-4 w-4" />
+                      {saving ? "Saving..." : "Add"}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { useToast } from "../toast";
+import { useSession } from "@/hooks/useSession";
+import { useInstance } from "@/hooks/useInstance";
+import type { PluginInfo } from "@/lib/plugins";
+
+type PluginsState = { running: boolean; serverVersion: string | null; plugins: PluginInfo[] };
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function PluginsPage() {
+  const { showToast } = useToast();
+  const { can } = useSession();
+  const { withInstance } = useInstance();
+  const canWrite = can("files:write");
+  const [state, setState] = useState<PluginsState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(withInstance("/api/plugins"), { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || "Failed to list plugins");
+      setState(data);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [withInstance]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggle = async (plugin: PluginInfo) => {
+    setSaving(plugin.file);
+    try {
+      const res = await fetch(withInstance("/api/plugins"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ file: plugin.file, enabled: !plugin.enabled }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Failed to change plugin");
+      showToast(`✓ ${plugin.name || plugin.file} ${plugin.enabled ? "disabled" : "enabled"}`, "success");
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    } finally {
+      setSaving(null);
+      await load();
+    }
+  };
+
+  const plugins = state?.plugins ?? [];
+  const withIssues = plugins.filter((p) => p.issues.length > 0).length;
+
+  return (
+    <div className="flex-1 overflow-auto pb-16">
+      <div className="p-4 md:p-10 h-full max-w-4xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href={withInstance("/")} className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Plugins</h1>
+          <button onClick={load} disabled={loading} className="ml-auto text-neutral-400 hover:text-white" title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+
+        {state && (
+          <p className="text-sm text-neutral-400 mb-4">
+            {plugins.filter((p) => p.enabled).length} enabled, {plugins.filter((p) => !p.enabled).length} disabled
+            {withIssues > 0 && <span className="text-yellow-400"> · {withIssues} with issues</span>}
+            {state.serverVersion ? ` · server ${state.serverVersion}` : " · server version unknown, api-version is not checked"}
+          </p>
+        )}
+        {state?.running && canWrite && (
+          <p className="text-sm text-yellow-400 mb-4">Stop the server to enable or disable plugins.</p>
+        )}
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+          {!loading && plugins.length === 0 && <div className="p-2 text-sm text-neutral-400">No plugins</div>}
+          {plugins.map((plugin) => (
+            <div key={`${plugin.enabled}-${plugin.file}`} className={`p-3 text-sm ${plugin.enabled ? "" : "opacity-60"}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-white">
+                    <span className="font-medium break-all">{plugin.name || plugin.file}</span>
+                    {plugin.version && <span className="text-neutral-400"> {plugin.version}</span>}
+                    {plugin.paperPlugin && <span className="ml-2 text-xs text-sky-400">paper-plugin</span>}
+                    {!plugin.enabled && <span className="ml-2 text-xs text-neutral-400">disabled</span>}
+                  </div>
+                  <div className="text-xs text-neutral-500 break-all">
+                    {plugin.file} · {formatSize(plugin.size)}
+                    {plugin.apiVersion && ` · api ${plugin.apiVersion}`}
+                    {plugin.authors.length > 0 && ` · by ${plugin.authors.join(", ")}`}
+                  </div>
+                  {plugin.description && <div className="text-neutral-300 mt-1">{plugin.description}</div>}
+                  {(plugin.depend.length > 0 || plugin.softdepend.length > 0) && (
+                    <div className="text-xs text-neutral-400 mt-1">
+                      {plugin.depend.length > 0 && `Depends on ${plugin.depend.join(", ")}`}
+                      {plugin.depend.length > 0 && plugin.softdepend.length > 0 && " · "}
+                      {plugin.softdepend.length > 0 && `optional ${plugin.softdepend.join(", ")}`}
+                    </div>
+                  )}
+                  {plugin.issues.map((issue) => (
+                    <div key={issue.message} className="flex items-center gap-1 text-xs text-yellow-400 mt-1">
+                      <AlertTriangle className="h-3 w-3 shrink-0" /> {issue.message}
+                    </div>
+                  ))}
+                </div>
+                {canWrite && (
+                  <button
+                    disabled={state?.running || saving !== null}
+                    onClick={() => toggle(plugin)}
+                    className="shrink-0 px-3 py-1.5 rounded text-sm border border-neutral-800 text-neutral-300 hover:text-white disabled:opacity-50"
+                  >
+                    {saving === plugin.file ? "…" : plugin.enabled ? "Disable" : "Enable"}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
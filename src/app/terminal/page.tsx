@@ -4,21 +4,60 @@ import { useEffect, useRef, useState } from 'react';
 import { Terminal } from '@xterm/xterm';
 import '@xterm/xterm/css/xterm.css';
 import { Terminal as TerminalIcon } from 'lucide-react';
-import { addTerminalListener, getOrCreateTerminalWS, getTerminalBuffer, onTerminalOpen, terminalSendInput, terminalSendResize, clearTerminalBuffer } from './wsSession';
+import { useSession } from '@/hooks/useSession';
+import { useInstance } from '@/hooks/useInstance';
+import { addConsoleListener, addTerminalListener, consoleSendInput, consoleSendResize, getConsoleBuffer, getOrCreateTerminalWS, getTerminalBuffer, onTerminalOpen, selectTerminalInstance, terminalSendInput, terminalSendResize } from './wsSession';
+
+type TerminalMode = 'console' | 'shell';
+
+// The Minecraft console and the bash shell share the same view, each with its own stream
+const SOURCES = {
+  console: {
+    getBuffer: getConsoleBuffer,
+    addListener: addConsoleListener,
+    sendInput: consoleSendInput,
+    sendResize: consoleSendResize,
+  },
+  shell: {
+    getBuffer: getTerminalBuffer,
+    addListener: addTerminalListener,
+    sendInput: terminalSendInput,
+    sendResize: terminalSendResize,
+  },
+};
 
 export default function TerminalPage() {
   const [connected, setConnected] = useState(false);
+  const [mode, setMode] = useState<TerminalMode>('console');
   const termRef = useRef<Terminal | null>(null);
   const fitRef = useRef<any | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const rafFitRef = useRef<number | null>(null);
   const hasAnyOutputRef = useRef<boolean>(false);
+  const { session, can } = useSession();
+  const canShell = can('terminal');
+  const canType = mode === 'shell' ? canShell : can('console:write');
+  const canTypeRef = useRef(canType);
+  const { instanceId } = useInstance();
+
+  // Read-only users see the output but cannot type
+  useEffect(() => {
+    canTypeRef.current = canType;
+    if (termRef.current) termRef.current.options.disableStdin = !canType;
+  }, [canType]);
+
+  // The console follows the selected instance; its history replaces the view
+  useEffect(() => {
+    selectTerminalInstance(instanceId);
+  }, [instanceId]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
     let disposeKey: { dispose: () => void } | null = null;
     let closed = false;
+    const source = SOURCES[mode];
+    hasAnyOutputRef.current = false;
 
     const setup = async () => {
       // Dynamic import FitAddon to avoid SSR issues
@@ -30,6 +69,7 @@ export default function TerminalPage() {
         fontSize: 12,
         scrollback: 1000,
         convertEol: true,
+        disableStdin: !canTypeRef.current,
         theme: { background: '#000000' },
       });
       const fit = new FitAddon();
@@ -50,16 +90,16 @@ export default function TerminalPage() {
         setConnected(true);
         try {
           fit.fit();
-          terminalSendResize(term.cols, term.rows);
+          source.sendResize(term.cols, term.rows);
         } catch {}
       });
       if (ws.readyState === WebSocket.OPEN) {
         setConnected(true);
-        try { fit.fit(); terminalSendResize(term.cols, term.rows); } catch {}
+        try { fit.fit(); source.sendResize(term.cols, term.rows); } catch {}
       }
 
       // Seed history buffer into terminal immediately
-      const existing = getTerminalBuffer();
+      const existing = source.getBuffer();
       if (existing) {
         hasAnyOutputRef.current = true;
         try { term.clear(); term.write(existing); term.scrollToBottom(); } catch {}
@@ -69,7 +109,7 @@ export default function TerminalPage() {
           try { (containerRef.current as HTMLElement).style.minHeight = '50vh'; } catch {}
         }
       }
-      const removeListener = addTerminalListener((type, data) => {
+      const removeListener = source.addListener((type, data) => {
         try {
           if (type === 'history') {
             term.clear();
@@ -88,7 +128,7 @@ export default function TerminalPage() {
 
       // Pipe keyboard input from xterm to server
       disposeKey = term.onData((data) => {
-        terminalSendInput(data);
+        source.sendInput(data);
       });
 
       // Fit to viewport on resize
@@ -99,7 +139,7 @@ export default function TerminalPage() {
           try {
             fit.fit();
             if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
+              source.sendResize(term.cols, term.rows);
             }
           } catch {}
         });
@@ -114,6 +154,7 @@ export default function TerminalPage() {
       return () => {
         ro.disconnect();
         window.removeEventListener('resize', onResize);
+        removeListener();
       };
     };
 
@@ -148,7 +189,7 @@ export default function TerminalPage() {
         setTimeout(heavyCleanup, 0);
       }
     };
-  }, []);
+  }, [mode]);
 
   return (
     <div className="min-h-screen h-screen w-screen bg-black text-white m-0 p-0 overflow-hidden flex flex-col">
@@ -156,6 +197,18 @@ export default function TerminalPage() {
       <div className="px-4 py-3 border-b border-neutral-800 flex items-center gap-2 sticky top-0 z-20 bg-black">
         <TerminalIcon className="h-5 w-5" />
         <h1 className="text-lg font-semibold">Terminal</h1>
+        {session && !canType && <span className="text-xs text-neutral-500">Read only</span>}
+        <div className="ml-auto inline-flex rounded border border-neutral-800 overflow-hidden text-sm">
+          {(canShell ? (['console', 'shell'] as const) : (['console'] as const)).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 ${mode === m ? 'bg-white text-black' : 'text-neutral-400 hover:text-white'}`}
+            >
+              {m === 'console' ? 'Console' : 'Shell'}
+            </button>
+          ))}
+        </div>
       </div>
       {/* Terminal area: height fills the rest below header, with padding for bottom nav */}
       <div className="flex-1 w-full relative pb-16">
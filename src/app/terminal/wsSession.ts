@@ -1,19 +1,45 @@
 "use client";
 
+import type { ProcessEvent } from "@/lib/serverProcess";
+import type { StatusAlert } from "@/lib/statusManager";
+import type { MetricsSample } from "@/lib/metricsCollector";
+import type { TickSample } from "@/lib/tickMonitor";
+import type { PlayerSession } from "@/lib/playerTracker";
+
 let ws: WebSocket | null = null;
 let listeners = new Set<(type: "output" | "history", data: string) => void>();
+const consoleListeners = new Set<(type: "output" | "history", data: string) => void>();
+const panelErrorListeners = new Set<(action: string, message: string) => void>();
+const processEventListeners = new Set<(event: ProcessEvent) => void>();
+const alertListeners = new Set<(alert: StatusAlert, instance?: { id: string; name: string }) => void>();
+const metricsListeners = new Set<(type: "sample" | "history", samples: MetricsSample[]) => void>();
+const tickListeners = new Set<(type: "sample" | "history", samples: TickSample[]) => void>();
+const playersListeners = new Set<(players: PlayerSession[]) => void>();
 let uptimeListeners = new Set<(seconds: number) => void>();
 let statusListeners = new Set<(statusData: any) => void>();
 let openCallbacks = new Set<() => void>();
+// Instance whose console, status and metrics this session follows ("" = default)
+let selectedInstance = "";
 let buffer = "";
+let consoleBuffer = "";
+let metricsHistory: MetricsSample[] = [];
+let tickHistory: TickSample[] = [];
+let onlinePlayers: PlayerSession[] = [];
 const MAX_BUFFER = 50000;
+const MAX_METRICS_HISTORY = 30;
+const MAX_TICK_HISTORY = 180;
 
 function appendToBuffer(chunk: string) {
   buffer += chunk;
   if (buffer.length > MAX_BUFFER) buffer = buffer.slice(-MAX_BUFFER);
 }
 
-export function panelAction(action: 'start' | 'stop') {
+function appendToConsoleBuffer(chunk: string) {
+  consoleBuffer += chunk;
+  if (consoleBuffer.length > MAX_BUFFER) consoleBuffer = consoleBuffer.slice(-MAX_BUFFER);
+}
+
+export function panelAction(action: 'start' | 'stop' | 'restart' | 'kill') {
   try {
     const s = getOrCreateTerminalWS();
     if (s.readyState === WebSocket.OPEN) {
@@ -36,6 +62,51 @@ export function addStatusListener(fn: (statusData: any) => void) {
   return () => statusListeners.delete(fn);
 }
 
+export function addPanelErrorListener(fn: (action: string, message: string) => void) {
+  panelErrorListeners.add(fn);
+  return () => panelErrorListeners.delete(fn);
+}
+
+export function addProcessEventListener(fn: (event: ProcessEvent) => void) {
+  processEventListeners.add(fn);
+  return () => processEventListeners.delete(fn);
+}
+
+/**
+ * Alerts arrive for every instance; `instance` tells which one raised it
+ */
+export function addAlertListener(fn: (alert: StatusAlert, instance?: { id: string; name: string }) => void) {
+  alertListeners.add(fn);
+  return () => alertListeners.delete(fn);
+}
+
+export function addMetricsListener(fn: (type: "sample" | "history", samples: MetricsSample[]) => void) {
+  metricsListeners.add(fn);
+  return () => metricsListeners.delete(fn);
+}
+
+export function getMetricsHistory() {
+  return metricsHistory;
+}
+
+export function addTickListener(fn: (type: "sample" | "history", samples: TickSample[]) => void) {
+  tickListeners.add(fn);
+  return () => tickListeners.delete(fn);
+}
+
+export function getTickHistory() {
+  return tickHistory;
+}
+
+export function addPlayersListener(fn: (players: PlayerSession[]) => void) {
+  playersListeners.add(fn);
+  return () => playersListeners.delete(fn);
+}
+
+export function getOnlinePlayers() {
+  return onlinePlayers;
+}
+
 export function getTerminalBuffer() {
   return buffer;
 }
@@ -44,13 +115,41 @@ export function clearTerminalBuffer() {
   buffer = "";
 }
 
+export function getConsoleBuffer() {
+  return consoleBuffer;
+}
+
+/**
+ * Follow another server instance; the server answers with its console
+ * history, status and metrics, which replace the current ones
+ */
+export function selectTerminalInstance(id: string) {
+  if (id === selectedInstance) return;
+  selectedInstance = id;
+  // A closed socket picks the instance up when it is recreated
+  if (!ws || ws.readyState === WebSocket.CLOSING || ws.readyState === WebSocket.CLOSED) return;
+  const s = ws;
+  const send = () => {
+    try { s.send(JSON.stringify({ type: 'select-instance', instance: selectedInstance })); } catch {}
+  };
+  if (s.readyState === WebSocket.OPEN) {
+    send();
+  } else {
+    const off = onTerminalOpen(() => {
+      off();
+      send();
+    });
+  }
+}
+
 export function getOrCreateTerminalWS(): WebSocket {
   if (typeof window === "undefined") throw new Error("WS only in browser");
   if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
     return ws;
   }
   const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  ws = new WebSocket(`${protocol}//${window.location.host}/api/terminal-ws`);
+  const query = selectedInstance ? `?instance=${encodeURIComponent(selectedInstance)}` : "";
+  ws = new WebSocket(`${protocol}//${window.location.host}/api/terminal-ws${query}`);
 
   ws.onopen = () => {
     openCallbacks.forEach((cb) => {
@@ -71,6 +170,83 @@ export function getOrCreateTerminalWS(): WebSocket {
         listeners.forEach((fn) => {
           try { fn('history', buffer); } catch {}
         });
+      } else if (msg?.type === 'console') {
+        appendToConsoleBuffer(msg.data || "");
+        consoleListeners.forEach((fn) => {
+          try { fn('output', msg.data || ""); } catch {}
+        });
+      } else if (msg?.type === 'console-history') {
+        consoleBuffer = msg.data || "";
+        if (consoleBuffer.length > MAX_BUFFER) consoleBuffer = consoleBuffer.slice(-MAX_BUFFER);
+        consoleListeners.forEach((fn) => {
+          try { fn('history', consoleBuffer); } catch {}
+        });
+      } else if (msg?.type === 'panel-error') {
+        panelErrorListeners.forEach((fn) => {
+          try { fn(msg.action, msg.message); } catch {}
+        });
+      } else if (msg?.type === 'process-event') {
+        if (msg.data?.type === 'spawn') {
+          consoleBuffer = "";
+          metricsHistory = [];
+          metricsListeners.forEach((fn) => {
+            try { fn('history', metricsHistory); } catch {}
+          });
+          tickHistory = [];
+          tickListeners.forEach((fn) => {
+            try { fn('history', tickHistory); } catch {}
+          });
+        }
+        processEventListeners.forEach((fn) => {
+          try { fn(msg.data); } catch {}
+        });
+      } else if (msg?.type === 'instance') {
+        // Start of an instance snapshot: drop what belonged to the previous one
+        consoleBuffer = "";
+        consoleListeners.forEach((fn) => {
+          try { fn('history', consoleBuffer); } catch {}
+        });
+        metricsHistory = [];
+        metricsListeners.forEach((fn) => {
+          try { fn('history', metricsHistory); } catch {}
+        });
+        tickHistory = [];
+        tickListeners.forEach((fn) => {
+          try { fn('history', tickHistory); } catch {}
+        });
+        onlinePlayers = [];
+        playersListeners.forEach((fn) => {
+          try { fn(onlinePlayers); } catch {}
+        });
+      } else if (msg?.type === 'alert') {
+        alertListeners.forEach((fn) => {
+          try { fn(msg.data, msg.instance); } catch {}
+        });
+      } else if (msg?.type === 'metrics') {
+        metricsHistory = [...metricsHistory, msg.data].slice(-MAX_METRICS_HISTORY);
+        metricsListeners.forEach((fn) => {
+          try { fn('sample', [msg.data]); } catch {}
+        });
+      } else if (msg?.type === 'metrics-history') {
+        metricsHistory = Array.isArray(msg.data) ? msg.data.slice(-MAX_METRICS_HISTORY) : [];
+        metricsListeners.forEach((fn) => {
+          try { fn('history', metricsHistory); } catch {}
+        });
+      } else if (msg?.type === 'tick') {
+        tickHistory = [...tickHistory, msg.data].slice(-MAX_TICK_HISTORY);
+        tickListeners.forEach((fn) => {
+          try { fn('sample', [msg.data]); } catch {}
+        });
+      } else if (msg?.type === 'tick-history') {
+        tickHistory = Array.isArray(msg.data) ? msg.data.slice(-MAX_TICK_HISTORY) : [];
+        tickListeners.forEach((fn) => {
+          try { fn('history', tickHistory); } catch {}
+        });
+      } else if (msg?.type === 'players') {
+        onlinePlayers = Array.isArray(msg.data) ? msg.data : [];
+        playersListeners.forEach((fn) => {
+          try { fn(onlinePlayers); } catch {}
+        });
       } else if (msg?.type === 'uptime') {
         const s = typeof msg.uptimeSeconds === 'number' ? msg.uptimeSeconds : null;
         if (s != null) uptimeListeners.forEach((fn) => { try { fn(s); } catch {} });
@@ -94,6 +270,11 @@ export function addTerminalListener(fn: (type: "output" | "history", data: strin
   return () => listeners.delete(fn);
 }
 
+export function addConsoleListener(fn: (type: "output" | "history", data: string) => void) {
+  consoleListeners.add(fn);
+  return () => consoleListeners.delete(fn);
+}
+
 export function onTerminalOpen(fn: () => void) {
   openCallbacks.add(fn);
   return () => openCallbacks.delete(fn);
@@ -122,3 +303,27 @@ export function terminalSendResize(cols: number, rows: number): boolean {
   });
   return false;
 }
+
+export function consoleSendInput(data: string): boolean {
+  const s = getOrCreateTerminalWS();
+  if (s.readyState === WebSocket.OPEN) {
+    s.send(JSON.stringify({ type: 'console-input', data }));
+    return true;
+  }
+  return false;
+}
+
+export function consoleSendResize(cols: number, rows: number): boolean {
+  const s = getOrCreateTerminalWS();
+  if (s.readyState === WebSocket.OPEN) {
+    s.send(JSON.stringify({ type: 'console-resize', cols, rows }));
+    return true;
+  }
+  // queue on open
+  onTerminalOpen(() => {
+    try {
+      s.send(JSON.stringify({ type: 'console-resize', cols, rows }));
+    } catch {}
+  });
+  return false;
+}
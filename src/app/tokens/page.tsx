@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { useToast } from "../toast";
+import { useSession } from "@/hooks/useSession";
+import { TOKEN_SCOPES, type TokenScope } from "@/lib/permissions";
+import type { PublicApiToken } from "@/lib/apiTokens";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+function formatTime(ms: number | null, fallback: string): string {
+  return ms === null ? fallback : new Date(ms).toLocaleString();
+}
+
+function tokenState(token: PublicApiToken): string {
+  if (token.revokedAt !== null) return "Revoked";
+  if (token.expiresAt !== null && token.expiresAt <= Date.now()) return "Expired";
+  return "Active";
+}
+
+export default function TokensPage() {
+  const { showToast } = useToast();
+  const { session, can } = useSession();
+  const [tokens, setTokens] = useState<PublicApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>(["status:read"]);
+  const [expiry, setExpiry] = useState("30");
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/tokens${showAll ? "?all=1" : ""}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load tokens");
+      setTokens(data.tokens || []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  const onCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const res = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expiresInDays: expiry ? Number(expiry) : null }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Create failed");
+      setNewToken(data.token);
+      setName("");
+      await loadTokens();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const onRevoke = async (token: PublicApiToken) => {
+    if (!window.confirm(`Revoke token ${token.name}? Scripts using it will stop working.`)) return;
+    try {
+      const res = await fetch(`/api/tokens/${encodeURIComponent(token.id)}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Revoke failed");
+      showToast(`✓ Revoked ${token.name}`, "success");
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    }
+    await loadTokens();
+  };
+
+  const onCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      showToast("✓ Copied", "success");
+    } catch {
+      showToast("Copy failed, select the token and copy it manually", "error");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-4 md:p-10 h-full max-w-5xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href="/" className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">API tokens</h1>
+        </div>
+
+        <p className="text-sm text-neutral-400 mb-6">
+          Send a token as <code className="text-neutral-200">Authorization: Bearer &lt;token&gt;</code> to call the API
+          or open <code className="text-neutral-200">/api/terminal-ws</code> (needs status:read). A token can only do what
+          both its scopes and your role allow.
+        </p>
+
+        {newToken && (
+          <div className="mb-6 rounded border border-green-700 bg-green-950/40 p-3 text-sm">
+            <div className="text-green-300 mb-2">Copy this token now, it will not be shown again.</div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all text-white">{newToken}</code>
+              <button title="Copy" onClick={onCopy} className="text-neutral-300 hover:text-white">
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={onCreate} className="flex flex-col gap-3 mb-8">
+          <h2 className="font-semibold text-white">New token</h2>
+          <div className="flex flex-wrap gap-2">
+            <input
+              placeholder="Name, e.g. backup script"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+              required
+            />
+            <select value={expiry} onChange={(e) => setExpiry(e.target.value)} className={inputClass} title="Expires after">
+              {EXPIRY_OPTIONS.map((o) => (
+                <option key={o.label} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={creating || scopes.length === 0}
+              className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm ${creating || scopes.length === 0 ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+            >
+              <KeyRound className="h-4 w-4" />
+              {creating ? "Creating..." : "Create"}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-neutral-300">
+            {TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className={`inline-flex items-center gap-2 ${can(scope) ? "" : "opacity-50"}`}>
+                <input type="checkbox" checked={scopes.includes(scope)} disabled={!can(scope)} onChange={() => toggleScope(scope)} />
+                {scope}
+              </label>
+            ))}
+          </div>
+        </form>
+
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="font-semibold text-white">Tokens</h2>
+          {can("users:manage") && (
+            <label className="inline-flex items-center gap-2 text-sm text-neutral-300">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              All users
+            </label>
+          )}
+        </div>
+
+        {loading && <div className="text-neutral-300 text-sm">Loading tokens...</div>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {!loading && !error && (
+          <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+            <div className="grid grid-cols-[1fr_1fr_10rem_10rem_3rem] gap-3 bg-neutral-900 text-neutral-400 text-xs uppercase tracking-wide p-2">
+              <div>Token</div>
+              <div>Scopes</div>
+              <div>Expires</div>
+              <div>Last used</div>
+              <div />
+            </div>
+            {tokens.length === 0 && <div className="p-2 text-sm text-neutral-400">No tokens</div>}
+            {tokens.map((token) => {
+              const state = tokenState(token);
+              return (
+                <div key={token.id} className="grid grid-cols-[1fr_1fr_10rem_10rem_3rem] gap-3 p-2 text-sm text-white items-center">
+                  <div className="break-all">
+                    {token.name}
+                    {token.owner !== session?.username && <span className="ml-2 text-xs text-neutral-500">({token.owner})</span>}
+                    <div className={`text-xs ${state === "Active" ? "text-green-400" : "text-neutral-500"}`}>{state}</div>
+                  </div>
+                  <div className="text-xs text-neutral-300">{token.scopes.join(", ")}</div>
+                  <div className="text-xs text-neutral-400">{formatTime(token.expiresAt, "Never")}</div>
+                  <div className="text-xs text-neutral-400">
+                    {formatTime(token.lastUsedAt, "Never")}
+                    {token.lastUsedIp && <div>{token.lastUsedIp}</div>}
+                  </div>
+                  <div className="flex justify-end text-neutral-300">
+                    {state === "Active" && (
+                      <button title="Revoke token" onClick={() => onRevoke(token)} className="hover:text-white">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { KeyRound, Trash2, UserPlus } from "lucide-react";
+import { useToast } from "../toast";
+import { useSession } from "@/hooks/useSession";
+import { ROLES, ROLE_LABELS, ROLE_PERMISSIONS, type Role } from "@/lib/permissions";
+import type { PublicUser } from "@/lib/auth";
+
+const inputClass = "rounded border border-neutral-800 bg-black text-white px-2 py-1.5 text-sm focus:outline-none focus:border-neutral-500";
+
+export default function UsersPage() {
+  const { showToast } = useToast();
+  const { session } = useSession();
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newUsername, setNewUsername] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newRole, setNewRole] = useState<Role>("viewer");
+  const [creating, setCreating] = useState(false);
+  const [resetting, setResetting] = useState<string | null>(null);
+  const [resetPassword, setResetPassword] = useState("");
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/users", { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load users");
+      setUsers(data.users || []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const updateUser = async (username: string, changes: { role?: Role; password?: string }) => {
+    const res = await fetch(`/api/users/${encodeURIComponent(username)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.success) throw new Error(data.error || "Update failed");
+  };
+
+  const onRoleChange = async (username: string, role: Role) => {
+    try {
+      await updateUser(username, { role });
+      showToast(`✓ ${username} is now ${ROLE_LABELS[role]}`, "success");
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    }
+    await loadUsers();
+  };
+
+  const onResetPassword = async (username: string) => {
+    try {
+      await updateUser(username, { password: resetPassword });
+      showToast(`✓ Password changed for ${username}`, "success");
+      setResetting(null);
+      setResetPassword("");
+      // Changing your own password ends your session as well
+      if (username === session?.username) window.location.href = "/login";
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    }
+  };
+
+  const onDelete = async (username: string) => {
+    if (!window.confirm(`Delete user ${username}?`)) return;
+    try {
+      const res = await fetch(`/api/users/${encodeURIComponent(username)}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Delete failed");
+      showToast(`✓ Deleted ${username}`, "success");
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    }
+    await loadUsers();
+  };
+
+  const onCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) throw new Error(data.error || "Create failed");
+      showToast(`✓ Created ${newUsername}`, "success");
+      setNewUsername("");
+      setNewPassword("");
+      setNewRole("viewer");
+      await loadUsers();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), "error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-4 md:p-10 h-full max-w-4xl">
+        <div className="flex items-center gap-3 mb-6">
+          <Link href="/" className="inline-flex items-center gap-2 text-neutral-300 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Users</h1>
+        </div>
+
+        {loading && <div className="text-neutral-300 text-sm">Loading users...</div>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {!loading && !error && (
+          <div className="flex flex-col gap-8">
+            <div className="divide-y divide-neutral-800 rounded-lg border border-neutral-800 overflow-hidden">
+              <div className="grid grid-cols-[1fr_10rem_5rem] gap-3 bg-neutral-900 text-neutral-400 text-xs uppercase tracking-wide p-2">
+                <div>User</div>
+                <div>Role</div>
+                <div />
+              </div>
+              {users.map((user) => (
+                <div key={user.username} className="p-2 text-white">
+                  <div className="grid grid-cols-[1fr_10rem_5rem] gap-3 items-center">
+                    <div className="break-all">
+                      {user.username}
+                      {user.username === session?.username && <span className="ml-2 text-xs text-neutral-500">(you)</span>}
+                      <div className="text-xs text-neutral-500">since {new Date(user.createdAt).toLocaleDateString()}</div>
+                    </div>
+                    <select
+                      value={user.role}
+                      onChange={(e) => onRoleChange(user.username, e.target.value as Role)}
+                      className={inputClass}
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <div className="inline-flex items-center justify-end gap-3 text-neutral-300">
+                      <button
+                        title="Change password"
+                        onClick={() => {
+                          setResetting(resetting === user.username ? null : user.username);
+                          setResetPassword("");
+                        }}
+                        className="hover:text-white"
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </button>
+                      <button title="Delete user" onClick={() => onDelete(user.username)} className="hover:text-white">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {resetting === user.username && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <input
+                        type="password"
+                        placeholder="New password"
+                        value={resetPassword}
+                        onChange={(e) => setResetPassword(e.target.value)}
+                        autoComplete="new-password"
+                        className={`${inputClass} flex-1`}
+                      />
+                      <button
+                        onClick={() => onResetPassword(user.username)}
+                        className="px-3 py-1.5 rounded text-sm bg-white text-black hover:opacity-90"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={onCreate} className="flex flex-col gap-3">
+              <h2 className="font-semibold text-white">Add user</h2>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  placeholder="Username"
+                  value={newUsername}
+                  onChange={(e) => setNewUsername(e.target.value)}
+                  autoComplete="off"
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="password"
+                  placeholder="Password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className={inputClass}
+                  required
+                />
+                <select value={newRole} onChange={(e) => setNewRole(e.target.value as Role)} className={inputClass}>
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={creating}
+                  className={`inline-flex items-center gap-2 px-3 py-1.5 rounded text-sm ${creating ? "bg-neutral-700 text-neutral-400" : "bg-white text-black hover:opacity-90"}`}
+                >
+                  <UserPlus className="h-4 w-4" />
+                  {creating ? "Adding..." : "Add"}
+                </button>
+              </div>
+            </form>
+
+            <div>
+              <h2 className="font-semibold text-white mb-2">Roles</h2>
+              <div className="rounded border border-neutral-800 bg-neutral-950 p-3 text-sm flex flex-col gap-2">
+                {ROLES.map((role) => (
+                  <div key={role}>
+                    <span className="text-white">{ROLE_LABELS[role]}</span>
+                    <span className="text-neutral-400">: {ROLE_PERMISSIONS[role].join(", ")}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { HardDriveUpload } from 'lucide-react';
+import { useToast } from '@/app/toast';
+import { useInstance } from '@/hooks/useInstance';
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Starts an S3 backup and reports the result once it finishes
+ */
+export function BackupButton() {
+  const { showToast } = useToast();
+  const { withInstance } = useInstance();
+  const [running, setRunning] = useState(false);
+  const pollRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => () => {
+    if (pollRef.current) clearInterval(pollRef.current);
+  }, []);
+
+  const startBackup = async () => {
+    setRunning(true);
+    try {
+      const before = await fetch(withInstance('/api/backup')).then((res) => res.json());
+      const res = await fetch(withInstance('/api/backup'), { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to start backup');
+      }
+      showToast('Backup started', 'info', 2000);
+
+      pollRef.current = setInterval(async () => {
+        try {
+          const status = await fetch(withInstance('/api/backup')).then((r) => r.json());
+          if (status.inProgress) return;
+          if (pollRef.current) clearInterval(pollRef.current);
+          pollRef.current = null;
+          setRunning(false);
+          if (status.lastSuccessAt && status.lastSuccessAt !== before.lastSuccessAt) {
+            showToast('✓ Backup completed', 'success');
+          } else {
+            showToast('✗ Backup failed, see server logs', 'error');
+          }
+        } catch {}
+      }, POLL_INTERVAL_MS);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+      setRunning(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={startBackup}
+      disabled={running}
+      className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      title={running ? 'Backup in progress...' : 'Back up now'}
+    >
+      <HardDriveUpload className={`w-5 h-5 ${running ? 'animate-pulse' : ''}`} />
+    </button>
+  );
+}
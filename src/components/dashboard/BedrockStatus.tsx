@@ -0,0 +1,46 @@
+'use client';
+
+import type { BedrockPingResult } from '@/lib/bedrockPing';
+
+interface BedrockStatusProps {
+  bedrock?: BedrockPingResult;
+  running: boolean;
+}
+
+/**
+ * Reachability of the Bedrock listener from the last RakNet ping
+ */
+export function BedrockStatus({ bedrock, running }: BedrockStatusProps) {
+  if (!running || !bedrock) {
+    return (
+      <p className="mt-3 text-xs text-white/40">
+        {running ? 'Checking Bedrock listener...' : 'Not checked while the server is offline'}
+      </p>
+    );
+  }
+
+  if (!bedrock.online) {
+    return (
+      <div className="mt-3 flex items-center gap-2">
+        <div className="w-2 h-2 rounded-full bg-red-500" />
+        <span className="text-xs text-red-400">Unreachable{bedrock.error ? ` (${bedrock.error})` : ''}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+        <span className="text-xs font-medium text-emerald-400">
+          Reachable{bedrock.latencyMs !== undefined ? ` · ${bedrock.latencyMs} ms` : ''}
+        </span>
+      </div>
+      <p className="text-xs text-white/60">
+        {bedrock.edition || 'Bedrock'}{bedrock.version ? ` ${bedrock.version}` : ''}
+        {bedrock.players ? ` · ${bedrock.players.online}/${bedrock.players.max} players` : ''}
+      </p>
+      {bedrock.motd && <p className="text-xs text-white/50 truncate">{bedrock.motd}</p>}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useState } from 'react';
 import { Copy, Check, Server, Globe, X } from 'lucide-react';
 import { useToast } from '@/app/toast';
+import { BedrockStatus } from './BedrockStatus';
+import type { BedrockPingResult } from '@/lib/bedrockPing';
 
 interface ConnectionDrawerProps {
   isOpen: boolean;
@@ -11,9 +13,10 @@ interface ConnectionDrawerProps {
   javaIp: string;
   bedrockIp: string;
   running: boolean;
+  bedrock?: BedrockPingResult;
 }
 
-export function ConnectionDrawer({ isOpen, onClose, javaIp, bedrockIp, running }: ConnectionDrawerProps) {
+export function ConnectionDrawer({ isOpen, onClose, javaIp, bedrockIp, running, bedrock }: ConnectionDrawerProps) {
   return (
     <AnimatePresence>
       {isOpen && (
@@ -72,7 +75,9 @@ export function ConnectionDrawer({ isOpen, onClose, javaIp, bedrockIp, running }
                   address={bedrockIp || 'Not configured'}
                   icon={<Server className="w-4 h-4" />}
                   available={!!bedrockIp}
-                />
+                >
+                  {bedrockIp && <BedrockStatus bedrock={bedrock} running={running} />}
+                </ConnectionItem>
               </div>
             </div>
           </motion.div>
@@ -85,11 +90,13 @@ export function ConnectionDrawer({ isOpen, onClose, javaIp, bedrockIp, running }
 function ConnectionItem({ 
   address, 
   icon, 
-  available 
+  available,
+  children,
 }: { 
   address: string; 
   icon: React.ReactNode;
   available: boolean;
+  children?: React.ReactNode;
 }) {
   const [copied, setCopied] = useState(false);
   const { showToast } = useToast();
@@ -144,6 +151,7 @@ function ConnectionItem({
           <p className={`font-mono text-sm break-all ${available ? 'text-white' : 'text-white/40'}`}>
             {address}
           </p>
+          {children}
         </div>
         
         {available && (
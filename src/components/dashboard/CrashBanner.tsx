@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Skull, X } from 'lucide-react';
+import { useInstance } from '@/hooks/useInstance';
+import type { CrashRecord } from '@/lib/statusManager';
+
+interface CrashBannerProps {
+  crash?: CrashRecord;
+}
+
+/**
+ * "Server crashed" summary of the last crash, from its crash report when there is one
+ */
+export function CrashBanner({ crash }: CrashBannerProps) {
+  const { withInstance } = useInstance();
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  if (!crash || dismissed === crash.timestamp) return null;
+  const report = crash.reports[0];
+
+  return (
+    <div className="mb-8 p-5 bg-orange-500/10 border border-orange-500/30 flex items-start gap-3">
+      <Skull className="w-6 h-6 text-orange-400 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="text-base font-medium text-orange-400">
+          Server crashed {new Date(crash.timestamp).toLocaleString()}
+          <span className="text-sm font-normal text-orange-300/70"> · exit code {crash.exitCode ?? 'none'} after {crash.uptimeSeconds}s</span>
+        </p>
+        {report ? (
+          <div className="text-sm text-orange-200/80 mt-1 space-y-0.5">
+            {report.description && <p>{report.description}</p>}
+            {report.exception && <p className="font-mono text-xs break-all">{report.exception}</p>}
+            {report.suspects.length > 0 && <p>Suspects: {report.suspects.join(', ')}</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-orange-200/80 mt-1">No crash report was written; see the last console lines in the crash history.</p>
+        )}
+        <Link href={withInstance('/crashes')} className="inline-block mt-2 text-sm text-orange-300 hover:text-orange-200 underline">
+          Crash history
+        </Link>
+      </div>
+      <button
+        onClick={() => setDismissed(crash.timestamp)}
+        className="p-1 hover:bg-orange-500/20 text-orange-400 transition-colors"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
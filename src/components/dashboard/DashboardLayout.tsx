@@ -2,14 +2,28 @@
 
 import { StatusPanel } from './StatusPanel';
 import { ConnectionDrawer } from './ConnectionDrawer';
+import { CrashBanner } from './CrashBanner';
+import { BackupButton } from './BackupButton';
 import { motion } from 'framer-motion';
-import { AlertCircle, X, Plug2 } from 'lucide-react';
+import { AlertCircle, X, Plug2, Users, ScrollText, KeyRound, UserCheck, FileText, Bug, Puzzle, Boxes } from 'lucide-react';
+import Link from 'next/link';
 import { useState } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { useInstance } from '@/hooks/useInstance';
+import type { StopStep } from '@/lib/serverProcess';
+import type { AutoRestartState, CrashRecord } from '@/lib/statusManager';
+import type { SlpResult } from '@/lib/slp';
+import type { BedrockPingResult } from '@/lib/bedrockPing';
 
 interface DashboardLayoutProps {
   running: boolean;
   preparing: boolean;
   stopping: boolean;
+  stopStep: StopStep | null;
+  autoRestartState: AutoRestartState;
+  lastCrash?: CrashRecord;
+  ping?: SlpResult;
+  bedrock?: BedrockPingResult;
   busy: boolean;
   error: string | null;
   statusReady: boolean;
@@ -25,6 +39,11 @@ export function DashboardLayout({
   running,
   preparing,
   stopping,
+  stopStep,
+  autoRestartState,
+  lastCrash,
+  ping,
+  bedrock,
   busy,
   error,
   statusReady,
@@ -36,6 +55,8 @@ export function DashboardLayout({
   bedrockIp,
 }: DashboardLayoutProps) {
   const [isConnectionDrawerOpen, setIsConnectionDrawerOpen] = useState(false);
+  const { session, can } = useSession();
+  const { withInstance } = useInstance();
   
   return (
     <div className="min-h-screen bg-black text-white">
@@ -43,13 +64,84 @@ export function DashboardLayout({
       <header className="border-b border-white/10 bg-black">
         <div className="max-w-5xl mx-auto px-6 py-5 flex items-center justify-between">
           <h1 className="text-3xl font-bold">Minecraft Server</h1>
-          <button
-            onClick={() => setIsConnectionDrawerOpen(true)}
-            className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
-            title="Connection Info"
-          >
-            <Plug2 className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {can('backup:run') && <BackupButton />}
+            <Link
+              href={withInstance('/players')}
+              className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              title="Players"
+            >
+              <UserCheck className="w-5 h-5" />
+            </Link>
+            <Link
+              href={withInstance('/crashes')}
+              className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              title="Crash history"
+            >
+              <Bug className="w-5 h-5" />
+            </Link>
+            {can('files:read') && (
+              <Link
+                href={withInstance('/logs')}
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="Logs"
+              >
+                <FileText className="w-5 h-5" />
+              </Link>
+            )}
+            {can('files:read') && (
+              <Link
+                href={withInstance('/plugins')}
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="Plugins"
+              >
+                <Puzzle className="w-5 h-5" />
+              </Link>
+            )}
+            {can('files:read') && (
+              <Link
+                href={withInstance('/mods')}
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="Mods"
+              >
+                <Boxes className="w-5 h-5" />
+              </Link>
+            )}
+            {can('users:manage') && (
+              <Link
+                href="/users"
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="Users"
+              >
+                <Users className="w-5 h-5" />
+              </Link>
+            )}
+            {can('audit:read') && (
+              <Link
+                href="/audit"
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="Audit log"
+              >
+                <ScrollText className="w-5 h-5" />
+              </Link>
+            )}
+            {session && (
+              <Link
+                href="/tokens"
+                className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                title="API tokens"
+              >
+                <KeyRound className="w-5 h-5" />
+              </Link>
+            )}
+            <button
+              onClick={() => setIsConnectionDrawerOpen(true)}
+              className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              title="Connection Info"
+            >
+              <Plug2 className="w-5 h-5" />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -77,11 +169,16 @@ export function DashboardLayout({
           </motion.div>
         )}
 
+        <CrashBanner crash={lastCrash} />
+
         {/* Status Panel */}
         <StatusPanel
           running={running}
           preparing={preparing}
           stopping={stopping}
+          stopStep={stopStep}
+          autoRestartState={autoRestartState}
+          ping={ping}
           statusReady={statusReady}
           uptimeSeconds={uptimeSeconds}
           busy={busy}
@@ -97,6 +194,7 @@ export function DashboardLayout({
         javaIp={javaIp}
         bedrockIp={bedrockIp}
         running={running}
+        bedrock={bedrock}
       />
     </div>
   );
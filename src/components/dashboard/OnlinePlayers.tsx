@@ -0,0 +1,56 @@
+'use client';
+
+import { useOnlinePlayers } from '@/hooks/useOnlinePlayers';
+import type { SlpResult } from '@/lib/slp';
+
+interface OnlinePlayersProps {
+  running: boolean;
+  ping?: SlpResult;
+}
+
+function formatJoinTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Players online from the console join / leave lines, with the server list ping as fallback
+ */
+export function OnlinePlayers({ running, ping }: OnlinePlayersProps) {
+  const players = useOnlinePlayers();
+  const max = ping?.players?.max;
+  const count = players.length > 0 || !ping?.players ? players.length : ping.players.online;
+
+  return (
+    <div className="relative pt-2">
+      <div className="absolute top-0 left-2 px-2 py-0.5 bg-gradient-to-r from-teal-500 to-emerald-500 border border-teal-400/50 text-[10px] text-white uppercase tracking-wider font-bold shadow-lg shadow-teal-500/30">
+        Players Online
+      </div>
+      <div className="bg-white/5 border border-white/20 p-3 pt-4">
+        <p className="text-sm font-bold text-white text-center">
+          {running ? `${count}${max !== undefined ? ` / ${max}` : ''}` : '-'}
+          {running && typeof ping?.latencyMs === 'number' && (
+            <span className="ml-2 text-xs font-normal text-white/50">{ping.latencyMs} ms</span>
+          )}
+        </p>
+        {running && players.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {players.map((player) => (
+              <li key={player.name} className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 flex-shrink-0" />
+                  <span className="text-white truncate">{player.name}</span>
+                </span>
+                <span className="text-white/40 font-mono flex-shrink-0">since {formatJoinTime(player.joinedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {running && players.length === 0 && ping?.players && ping.players.sample.length > 0 && (
+          <p className="mt-1 text-xs text-white/60 text-center break-words">
+            {ping.players.sample.map((p) => p.name).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
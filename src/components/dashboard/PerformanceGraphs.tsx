@@ -2,83 +2,156 @@
 
 import { motion } from 'framer-motion';
 import { useEffect, useState } from 'react';
-import { Activity, Cpu, MemoryStick } from 'lucide-react';
+import { Activity, Cpu, Gauge, MemoryStick, Timer } from 'lucide-react';
+import { useServerMetrics } from '@/hooks/useServerMetrics';
+import { useInstance } from '@/hooks/useInstance';
 
 interface PerformanceData {
   timestamp: number;
   value: number;
 }
 
+const BYTES_PER_MB = 1024 * 1024;
+
 interface PerformanceGraphsProps {
   running: boolean;
 }
 
-export function PerformanceGraphs({ running }: PerformanceGraphsProps) {
-  const [ramData, setRamData] = useState<PerformanceData[]>([]);
-  const [cpuData, setCpuData] = useState<PerformanceData[]>([]);
-  const [currentRam, setCurrentRam] = useState(0);
-  const [currentCpu, setCurrentCpu] = useState(0);
+type HistoryRange = 'live' | '24h' | '7d';
+
+type HistorySeries = 'cpu' | 'ram' | 'tps' | 'mspt';
 
-  const MAX_DATA_POINTS = 30;
+const HISTORY_RANGES: { id: HistoryRange; label: string; ms: number; step: string }[] = [
+  { id: 'live', label: 'Live', ms: 0, step: '' },
+  { id: '24h', label: '24h', ms: 24 * 60 * 60 * 1000, step: '5m' },
+  { id: '7d', label: '7d', ms: 7 * 24 * 60 * 60 * 1000, step: '1h' },
+];
+
+export function PerformanceGraphs({ running }: PerformanceGraphsProps) {
+  const { samples, latest, ticks, latestTick } = useServerMetrics();
+  const { withInstance } = useInstance();
+  const [range, setRange] = useState<HistoryRange>('live');
+  const [history, setHistory] = useState<Record<HistorySeries, PerformanceData[]> | null>(null);
 
+  // Stored history from /api/metrics, refreshed every minute while a range is selected
   useEffect(() => {
-    if (!running) {
-      // Reset data when server is offline
-      setRamData([]);
-      setCpuData([]);
-      setCurrentRam(0);
-      setCurrentCpu(0);
-      return;
-    }
-
-    // Simulate performance data (in a real app, fetch from API)
-    const interval = setInterval(() => {
-      const now = Date.now();
-      
-      // Generate realistic-looking data
-      const newRam = Math.min(100, Math.max(20, currentRam + (Math.random() - 0.5) * 15));
-      const newCpu = Math.min(100, Math.max(5, currentCpu + (Math.random() - 0.5) * 20));
-
-      setCurrentRam(newRam);
-      setCurrentCpu(newCpu);
-
-      setRamData(prev => {
-        const updated = [...prev, { timestamp: now, value: newRam }];
-        return updated.slice(-MAX_DATA_POINTS);
-      });
-
-      setCpuData(prev => {
-        const updated = [...prev, { timestamp: now, value: newCpu }];
-        return updated.slice(-MAX_DATA_POINTS);
-      });
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [running, currentRam, currentCpu]);
+    const selected = HISTORY_RANGES.find(r => r.id === range);
+    if (!selected || selected.id === 'live') return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const from = Date.now() - selected.ms;
+        const res = await fetch(withInstance(`/api/metrics?series=cpu,ram,tps,mspt&from=${from}&step=${selected.step}`), { cache: 'no-store' });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data = await res.json();
+        if (cancelled) return;
+        const toData = (name: HistorySeries): PerformanceData[] =>
+          (data?.series?.[name]?.points || []).map((p: { t: number; avg: number }) => ({ timestamp: p.t, value: p.avg }));
+        setHistory({ cpu: toData('cpu'), ram: toData('ram'), tps: toData('tps'), mspt: toData('mspt') });
+      } catch (err) {
+        console.error('[PerformanceGraphs] Failed to load metrics history:', err);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [range, withInstance]);
+
+  // RAM is plotted in MB against MAX_RAM (-Xmx), CPU as a share of the whole host
+  const liveRam: PerformanceData[] = samples.map(s => ({ timestamp: Date.parse(s.timestamp), value: s.rssBytes / BYTES_PER_MB }));
+  const liveCpu: PerformanceData[] = samples.map(s => ({ timestamp: Date.parse(s.timestamp), value: s.cpuPercent }));
+  const maxRam = latest?.maxRamBytes ? latest.maxRamBytes / BYTES_PER_MB : undefined;
+
+  // TPS is plotted against the 20 TPS target, MSPT against the 50 ms tick budget
+  const liveTps: PerformanceData[] = ticks.filter(t => t.tps != null).map(t => ({ timestamp: Date.parse(t.timestamp), value: t.tps as number }));
+  const liveMspt: PerformanceData[] = ticks.filter(t => t.mspt != null).map(t => ({ timestamp: Date.parse(t.timestamp), value: t.mspt as number }));
+  const overloadWarnings = ticks.reduce((sum, t) => sum + t.overloadWarnings, 0);
+
+  const isLive = range === 'live';
+  const showHistory = !isLive && history !== null;
+  const ramData = showHistory ? history.ram : liveRam;
+  const cpuData = showHistory ? history.cpu : liveCpu;
+  const tpsData = showHistory ? history.tps : liveTps;
+  const msptData = showHistory ? history.mspt : liveMspt;
+  const last = (data: PerformanceData[]) => (data.length > 0 ? data[data.length - 1].value : 0);
+  // History stays visible while the server is offline
+  const active = running || showHistory;
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      {/* RAM Usage Graph */}
-      <PerformanceCard
-        title="RAM Usage"
-        icon={<MemoryStick className="w-5 h-5" />}
-        data={ramData}
-        currentValue={currentRam}
-        color="cyan"
-        running={running}
-        unit="MB"
-      />
+    <div className="space-y-4">
+      {/* Range selector */}
+      <div className="flex justify-end gap-2">
+        {HISTORY_RANGES.map(r => (
+          <button
+            key={r.id}
+            onClick={() => setRange(r.id)}
+            className={`px-3 py-1 rounded-lg text-xs font-medium border transition-colors ${
+              range === r.id
+                ? 'bg-white/10 border-white/30 text-white'
+                : 'bg-black/20 border-white/10 text-white/50 hover:text-white/80'
+            }`}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
 
-      {/* CPU Usage Graph */}
-      <PerformanceCard
-        title="CPU Usage"
-        icon={<Cpu className="w-5 h-5" />}
-        data={cpuData}
-        currentValue={currentCpu}
-        color="blue"
-        running={running}
-        unit="%"
-      />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* RAM Usage Graph */}
+        <PerformanceCard
+          title="RAM Usage"
+          icon={<MemoryStick className="w-5 h-5" />}
+          data={ramData}
+          currentValue={isLive && latest ? latest.rssBytes / BYTES_PER_MB : last(ramData)}
+          color="cyan"
+          running={active}
+          unit="MB"
+          maxValue={maxRam}
+          subtitle={maxRam ? `of ${maxRam.toFixed(0)} MB (MAX_RAM)` : undefined}
+        />
+
+        {/* CPU Usage Graph */}
+        <PerformanceCard
+          title="CPU Usage"
+          icon={<Cpu className="w-5 h-5" />}
+          data={cpuData}
+          currentValue={isLive && latest ? latest.cpuPercent : last(cpuData)}
+          color="blue"
+          running={active}
+          unit="%"
+        />
+
+        {/* TPS Graph */}
+        <PerformanceCard
+          title="TPS"
+          icon={<Gauge className="w-5 h-5" />}
+          data={tpsData}
+          currentValue={isLive ? latestTick?.tps ?? 0 : last(tpsData)}
+          color="emerald"
+          running={active}
+          unit="tps"
+          maxValue={20}
+          subtitle={isLive && latestTick?.tps5m !== undefined ? `5m ${latestTick.tps5m.toFixed(1)} · 15m ${latestTick.tps15m?.toFixed(1)}` : undefined}
+        />
+
+        {/* MSPT Graph */}
+        <PerformanceCard
+          title="MSPT"
+          icon={<Timer className="w-5 h-5" />}
+          data={msptData}
+          currentValue={isLive ? latestTick?.mspt ?? 0 : last(msptData)}
+          color="amber"
+          running={active}
+          unit="ms"
+          maxValue={50}
+          subtitle={isLive && overloadWarnings > 0 ? `${overloadWarnings} "Can't keep up!" warnings` : undefined}
+        />
+      </div>
     </div>
   );
 }
@@ -88,9 +161,11 @@ interface PerformanceCardProps {
   icon: React.ReactNode;
   data: PerformanceData[];
   currentValue: number;
-  color: 'cyan' | 'blue';
+  color: 'cyan' | 'blue' | 'emerald' | 'amber';
   running: boolean;
   unit: string;
+  maxValue?: number;
+  subtitle?: string;
 }
 
 function PerformanceCard({ 
@@ -100,7 +175,9 @@ function PerformanceCard({
   currentValue, 
   color,
   running,
-  unit 
+  unit,
+  maxValue = 100,
+  subtitle,
 }: PerformanceCardProps) {
   const colorClasses = {
     cyan: {
@@ -123,6 +200,26 @@ function PerformanceCard({
       line: 'stroke-blue-400',
       fill: 'fill-blue-500/20',
     },
+    emerald: {
+      gradient: 'from-emerald-950/80 to-emerald-900/40',
+      border: 'border-emerald-500/40',
+      glow: 'shadow-emerald-500/30',
+      text: 'text-emerald-400',
+      bar: 'bg-emerald-500',
+      barGlow: 'shadow-emerald-500/50',
+      line: 'stroke-emerald-400',
+      fill: 'fill-emerald-500/20',
+    },
+    amber: {
+      gradient: 'from-amber-950/80 to-amber-900/40',
+      border: 'border-amber-500/40',
+      glow: 'shadow-amber-500/30',
+      text: 'text-amber-400',
+      bar: 'bg-amber-500',
+      barGlow: 'shadow-amber-500/50',
+      line: 'stroke-amber-400',
+      fill: 'fill-amber-500/20',
+    },
   };
 
   const colors = colorClasses[color];
@@ -156,6 +253,7 @@ function PerformanceCard({
               {running ? currentValue.toFixed(1) : '0.0'}
             </span>
             <span className="text-lg text-white/40">{unit}</span>
+            {running && subtitle && <span className="text-sm text-white/40">{subtitle}</span>}
           </div>
           
           {/* Progress Bar */}
@@ -163,7 +261,7 @@ function PerformanceCard({
             <motion.div
               className={`h-full ${colors.bar} shadow-lg ${colors.barGlow}`}
               initial={{ width: 0 }}
-              animate={{ width: running ? `${currentValue}%` : '0%' }}
+              animate={{ width: running ? `${Math.min(100, (currentValue / maxValue) * 100)}%` : '0%' }}
               transition={{ duration: 0.5 }}
             />
           </div>
@@ -172,7 +270,7 @@ function PerformanceCard({
         {/* Graph */}
         <div className="h-32 relative">
           {running && data.length > 1 ? (
-            <LineChart data={data} color={colors} />
+            <LineChart data={data} color={colors} maxValue={maxValue} />
           ) : (
             <div className="h-full flex items-center justify-center">
               <p className="text-sm text-white/30">
@@ -209,16 +307,18 @@ function PerformanceCard({
 
 function LineChart({ 
   data, 
-  color 
+  color,
+  maxValue: scaleMax,
 }: { 
   data: PerformanceData[]; 
   color: any;
+  maxValue: number;
 }) {
   const width = 100;
   const height = 100;
   const padding = 5;
 
-  const maxValue = Math.max(...data.map(d => d.value), 100);
+  const maxValue = Math.max(...data.map(d => d.value), scaleMax);
   const minValue = 0;
 
   const points = data.map((d, i) => {
@@ -1,57 +1,34 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { useEffect, useState } from 'react';
-import { Activity, Cpu, MemoryStick, TrendingUp } from 'lucide-react';
+import { Activity, Cpu, Gauge, MemoryStick, Timer, TrendingUp } from 'lucide-react';
+import { useServerMetrics } from '@/hooks/useServerMetrics';
 
 interface PerformanceData {
   timestamp: number;
   value: number;
 }
 
+const BYTES_PER_MB = 1024 * 1024;
+
 interface PerformanceMonitorProps {
   running: boolean;
 }
 
 export function PerformanceMonitor({ running }: PerformanceMonitorProps) {
-  const [ramData, setRamData] = useState<PerformanceData[]>([]);
-  const [cpuData, setCpuData] = useState<PerformanceData[]>([]);
-  const [currentRam, setCurrentRam] = useState(0);
-  const [currentCpu, setCurrentCpu] = useState(0);
-
-  const MAX_DATA_POINTS = 30;
-
-  useEffect(() => {
-    if (!running) {
-      setRamData([]);
-      setCpuData([]);
-      setCurrentRam(0);
-      setCurrentCpu(0);
-      return;
-    }
-
-    const interval = setInterval(() => {
-      const now = Date.now();
-      
-      const newRam = Math.min(100, Math.max(20, currentRam + (Math.random() - 0.5) * 15));
-      const newCpu = Math.min(100, Math.max(5, currentCpu + (Math.random() - 0.5) * 20));
-
-      setCurrentRam(newRam);
-      setCurrentCpu(newCpu);
+  const { samples, latest, ticks, latestTick } = useServerMetrics();
 
-      setRamData(prev => {
-        const updated = [...prev, { timestamp: now, value: newRam }];
-        return updated.slice(-MAX_DATA_POINTS);
-      });
+  // RAM is plotted in MB against MAX_RAM (-Xmx), CPU as a share of the whole host
+  const ramData: PerformanceData[] = samples.map(s => ({ timestamp: Date.parse(s.timestamp), value: s.rssBytes / BYTES_PER_MB }));
+  const cpuData: PerformanceData[] = samples.map(s => ({ timestamp: Date.parse(s.timestamp), value: s.cpuPercent }));
+  const currentRam = latest ? latest.rssBytes / BYTES_PER_MB : 0;
+  const currentCpu = latest ? latest.cpuPercent : 0;
+  const maxRam = latest?.maxRamBytes ? latest.maxRamBytes / BYTES_PER_MB : undefined;
 
-      setCpuData(prev => {
-        const updated = [...prev, { timestamp: now, value: newCpu }];
-        return updated.slice(-MAX_DATA_POINTS);
-      });
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [running, currentRam, currentCpu]);
+  // TPS is plotted against the 20 TPS target, MSPT against the 50 ms tick budget
+  const tpsData: PerformanceData[] = ticks.filter(t => t.tps != null).map(t => ({ timestamp: Date.parse(t.timestamp), value: t.tps as number }));
+  const msptData: PerformanceData[] = ticks.filter(t => t.mspt != null).map(t => ({ timestamp: Date.parse(t.timestamp), value: t.mspt as number }));
+  const overloadWarnings = ticks.reduce((sum, t) => sum + t.overloadWarnings, 0);
 
   return (
     <motion.div
@@ -93,6 +70,8 @@ export function PerformanceMonitor({ running }: PerformanceMonitorProps) {
             color="cyan"
             running={running}
             unit="MB"
+            maxValue={maxRam}
+            subtitle={maxRam ? `of ${maxRam.toFixed(0)} MB (MAX_RAM)` : undefined}
           />
 
           {/* CPU Usage */}
@@ -104,8 +83,49 @@ export function PerformanceMonitor({ running }: PerformanceMonitorProps) {
             color="blue"
             running={running}
             unit="%"
+            subtitle={latest ? `host ${latest.host.cpuPercent.toFixed(1)}% of ${latest.host.cpuCount} cores` : undefined}
+          />
+
+          {/* TPS */}
+          <MetricPanel
+            title="TPS"
+            icon={<Gauge className="w-5 h-5" />}
+            data={tpsData}
+            currentValue={latestTick?.tps ?? 0}
+            color="emerald"
+            running={running}
+            unit="tps"
+            maxValue={20}
+            subtitle={latestTick?.tps5m !== undefined ? `5m ${latestTick.tps5m.toFixed(1)} · 15m ${latestTick.tps15m?.toFixed(1)}` : undefined}
+          />
+
+          {/* MSPT */}
+          <MetricPanel
+            title="MSPT"
+            icon={<Timer className="w-5 h-5" />}
+            data={msptData}
+            currentValue={latestTick?.mspt ?? 0}
+            color="amber"
+            running={running}
+            unit="ms"
+            maxValue={50}
+            subtitle={overloadWarnings > 0 ? `${overloadWarnings} "Can't keep up!" warnings` : undefined}
           />
         </div>
+
+        {/* Process Details */}
+        {running && latest && (
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatBox label="Threads" value={String(latest.threads)} unit="" />
+            <StatBox label="Open Files" value={latest.openFds != null ? String(latest.openFds) : '—'} unit="" />
+            <StatBox
+              label="Host RAM Used"
+              value={((latest.host.totalMemBytes - latest.host.freeMemBytes) / BYTES_PER_MB).toFixed(0)}
+              unit={`/ ${(latest.host.totalMemBytes / BYTES_PER_MB).toFixed(0)} MB`}
+            />
+            <StatBox label="Load Avg" value={latest.host.loadAvg.map(l => l.toFixed(2)).join(' ')} unit="" />
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -116,9 +136,11 @@ interface MetricPanelProps {
   icon: React.ReactNode;
   data: PerformanceData[];
   currentValue: number;
-  color: 'cyan' | 'blue';
+  color: 'cyan' | 'blue' | 'emerald' | 'amber';
   running: boolean;
   unit: string;
+  maxValue?: number;
+  subtitle?: string;
 }
 
 function MetricPanel({ 
@@ -128,7 +150,9 @@ function MetricPanel({
   currentValue, 
   color,
   running,
-  unit 
+  unit,
+  maxValue = 100,
+  subtitle,
 }: MetricPanelProps) {
   const colorClasses = {
     cyan: {
@@ -149,6 +173,24 @@ function MetricPanel({
       line: 'stroke-blue-400',
       fill: 'fill-blue-500/20',
     },
+    emerald: {
+      text: 'text-emerald-400',
+      bg: 'bg-emerald-500',
+      gradient: 'from-emerald-500/20 to-emerald-600/10',
+      border: 'border-emerald-500/30',
+      glow: 'shadow-emerald-500/50',
+      line: 'stroke-emerald-400',
+      fill: 'fill-emerald-500/20',
+    },
+    amber: {
+      text: 'text-amber-400',
+      bg: 'bg-amber-500',
+      gradient: 'from-amber-500/20 to-amber-600/10',
+      border: 'border-amber-500/30',
+      glow: 'shadow-amber-500/50',
+      line: 'stroke-amber-400',
+      fill: 'fill-amber-500/20',
+    },
   };
 
   const colors = colorClasses[color];
@@ -174,6 +216,7 @@ function MetricPanel({
           {running ? currentValue.toFixed(1) : '0.0'}
         </span>
         <span className="text-xl text-slate-500">{unit}</span>
+        {running && subtitle && <span className="text-sm text-slate-500">{subtitle}</span>}
       </div>
 
       {/* Progress Bar */}
@@ -181,7 +224,7 @@ function MetricPanel({
         <motion.div
           className={`h-full ${colors.bg} shadow-lg ${colors.glow}`}
           initial={{ width: 0 }}
-          animate={{ width: running ? `${currentValue}%` : '0%' }}
+          animate={{ width: running ? `${Math.min(100, (currentValue / maxValue) * 100)}%` : '0%' }}
           transition={{ duration: 0.5 }}
         />
       </div>
@@ -189,7 +232,7 @@ function MetricPanel({
       {/* Graph */}
       <div className="h-32 bg-slate-800/30 rounded-xl border border-slate-700/50 p-2">
         {running && data.length > 1 ? (
-          <MiniChart data={data} color={colors} />
+          <MiniChart data={data} color={colors} maxValue={maxValue} />
         ) : (
           <div className="h-full flex items-center justify-center">
             <p className="text-sm text-slate-600">
@@ -225,16 +268,18 @@ function MetricPanel({
 
 function MiniChart({ 
   data, 
-  color 
+  color,
+  maxValue: scaleMax,
 }: { 
   data: PerformanceData[]; 
   color: any;
+  maxValue: number;
 }) {
   const width = 100;
   const height = 100;
   const padding = 5;
 
-  const maxValue = Math.max(...data.map(d => d.value), 100);
+  const maxValue = Math.max(...data.map(d => d.value), scaleMax);
   const minValue = 0;
 
   const pathD = data.map((d, i) => {
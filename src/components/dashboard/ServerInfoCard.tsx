@@ -3,14 +3,17 @@
 import { motion } from 'framer-motion';
 import { useState } from 'react';
 import { Copy, Check, Server, Globe } from 'lucide-react';
+import { BedrockStatus } from './BedrockStatus';
+import type { BedrockPingResult } from '@/lib/bedrockPing';
 
 interface ServerInfoCardProps {
   javaIp: string;
   bedrockIp: string;
   running: boolean;
+  bedrock?: BedrockPingResult;
 }
 
-export function ServerInfoCard({ javaIp, bedrockIp, running }: ServerInfoCardProps) {
+export function ServerInfoCard({ javaIp, bedrockIp, running, bedrock }: ServerInfoCardProps) {
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -45,7 +48,9 @@ export function ServerInfoCard({ javaIp, bedrockIp, running }: ServerInfoCardPro
             address={bedrockIp || 'Not configured'}
             icon={<Server className="w-4 h-4" />}
             available={!!bedrockIp}
-          />
+          >
+            {bedrockIp && <BedrockStatus bedrock={bedrock} running={running} />}
+          </ConnectionItem>
         </div>
 
         {/* Status indicator */}
@@ -72,12 +77,14 @@ function ConnectionItem({
   label, 
   address, 
   icon, 
-  available 
+  available,
+  children,
 }: { 
   label: string; 
   address: string; 
   icon: React.ReactNode;
   available: boolean;
+  children?: React.ReactNode;
 }) {
   const [copied, setCopied] = useState(false);
 
@@ -106,6 +113,7 @@ function ConnectionItem({
           <p className={`font-mono text-sm break-all ${available ? 'text-white' : 'text-white/40'}`}>
             {address}
           </p>
+          {children}
         </div>
         
         {available && (
@@ -1,14 +1,25 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { Play, Square, Zap, Pencil, ChevronDown } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { Play, Square, Zap, Pencil, ChevronDown, AlertTriangle } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
 import { useToast } from '@/app/toast';
+import { useSession } from '@/hooks/useSession';
+import { useInstance } from '@/hooks/useInstance';
+import { OnlinePlayers } from './OnlinePlayers';
+import type { StopStep } from '@/lib/serverProcess';
+import type { AutoRestartState } from '@/lib/statusManager';
+import type { SlpResult } from '@/lib/slp';
+import type { JavaCheck, ServerSoftware } from '@/lib/serverSoftware';
+import { PLATFORM_LABELS } from '@/lib/serverPlatforms';
 
 interface StatusPanelProps {
   running: boolean;
   preparing: boolean;
   stopping: boolean;
+  stopStep?: StopStep | null;
+  autoRestartState?: AutoRestartState;
+  ping?: SlpResult;
   statusReady: boolean;
   uptimeSeconds: number | null;
   busy: boolean;
@@ -23,10 +34,19 @@ const DIFFICULTY_OPTIONS = [
   { value: 'hard', label: 'Hard' },
 ];
 
+const STOP_STEP_LABELS: Record<StopStep, string> = {
+  command: 'Stopping',
+  sigterm: 'Stopping (SIGTERM)',
+  sigkill: 'Stopping (SIGKILL)',
+};
+
 export function StatusPanel({ 
   running, 
   preparing, 
   stopping, 
+  stopStep,
+  autoRestartState,
+  ping,
   statusReady,
   uptimeSeconds,
   busy,
@@ -38,18 +58,19 @@ export function StatusPanel({
   const [isUpdatingDifficulty, setIsUpdatingDifficulty] = useState(false);
   const [maxPlayers, setMaxPlayers] = useState<string>('20');
   const [isUpdatingMaxPlayers, setIsUpdatingMaxPlayers] = useState(false);
+  const [software, setSoftware] = useState<ServerSoftware | null>(null);
+  const [javaCheck, setJavaCheck] = useState<JavaCheck | null>(null);
+  const { can } = useSession();
+  const { withInstance } = useInstance();
+  const canControl = can('server:control');
+  const propertiesLocked = running || preparing || !can('properties:write');
   
-  const startDisabled = busy || running || preparing || stopping || !statusReady;
-  const stopDisabled = busy || !running || preparing || stopping || !statusReady;
-  
-  // Fetch server properties on mount
-  useEffect(() => {
-    fetchServerProperties();
-  }, []);
+  const startDisabled = !canControl || busy || running || preparing || stopping || !statusReady;
+  const stopDisabled = !canControl || busy || !running || preparing || stopping || !statusReady;
   
-  const fetchServerProperties = async () => {
+  const fetchServerProperties = useCallback(async () => {
     try {
-      const response = await fetch('/api/server-properties');
+      const response = await fetch(withInstance('/api/server-properties'));
       const data = await response.json();
       if (data.success && data.properties) {
         if (data.properties.difficulty) {
@@ -62,6 +83,32 @@ export function StatusPanel({
     } catch (error) {
       console.error('Failed to fetch server properties:', error);
     }
+  }, [withInstance]);
+  
+  // Fetch server properties on mount
+  useEffect(() => {
+    fetchServerProperties();
+  }, [fetchServerProperties]);
+
+  // Detect the server software again after each start / stop (the jar may have been swapped)
+  useEffect(() => {
+    let cancelled = false;
+    fetch(withInstance('/api/server/software'))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setSoftware(data.software);
+        setJavaCheck(data.java);
+      })
+      .catch((error) => console.error('Failed to detect server software:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [withInstance, running]);
+
+  const handleStart = () => {
+    if (javaCheck?.warning && !window.confirm(`${javaCheck.warning}. Start anyway?`)) return;
+    startServer();
   };
   
   const handleDifficultyChange = async (newDifficulty: string) => {
@@ -72,7 +119,7 @@ export function StatusPanel({
     
     setIsUpdatingDifficulty(true);
     try {
-      const response = await fetch('/api/server-properties', {
+      const response = await fetch(withInstance('/api/server-properties'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ key: 'difficulty', value: newDifficulty }),
@@ -120,7 +167,7 @@ export function StatusPanel({
     
     setIsUpdatingMaxPlayers(true);
     try {
-      const response = await fetch('/api/server-properties', {
+      const response = await fetch(withInstance('/api/server-properties'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ key: 'max-players', value: maxPlayers }),
@@ -165,8 +212,14 @@ export function StatusPanel({
     statusText = 'Starting';
     statusColor = 'bg-yellow-600';
   } else if (stopping) {
-    statusText = 'Stopping';
+    statusText = stopStep ? STOP_STEP_LABELS[stopStep] : 'Stopping';
     statusColor = 'bg-orange-600';
+  } else if (autoRestartState === 'waiting') {
+    statusText = 'Crashed - Restarting';
+    statusColor = 'bg-yellow-600';
+  } else if (autoRestartState === 'crash-loop') {
+    statusText = 'Crash Loop';
+    statusColor = 'bg-red-800';
   } else {
     statusText = 'Offline';
     statusColor = 'bg-red-600';
@@ -210,7 +263,7 @@ export function StatusPanel({
         <motion.button
           whileHover={!startDisabled ? { scale: 1.01 } : {}}
           whileTap={!startDisabled ? { scale: 0.99 } : {}}
-          onClick={startServer}
+          onClick={handleStart}
           disabled={startDisabled}
           className={`
             px-3 py-2 font-medium text-xs transition-all duration-200 rounded
@@ -286,6 +339,21 @@ export function StatusPanel({
           </div>
         </div>
 
+        {/* Online Players */}
+        <OnlinePlayers running={running} ping={ping} />
+
+        {/* MOTD */}
+        {running && ping?.motd && (
+          <div className="relative pt-2">
+            <div className="absolute top-0 left-2 px-2 py-0.5 bg-gradient-to-r from-sky-500 to-indigo-500 border border-sky-400/50 text-[10px] text-white uppercase tracking-wider font-bold shadow-lg shadow-sky-500/30">
+              MOTD
+            </div>
+            <div className="bg-white/5 border border-white/20 p-3 pt-4">
+              <p className="text-sm text-white text-center whitespace-pre-line">{ping.motd}</p>
+            </div>
+          </div>
+        )}
+
         {/* Players */}
         <div className="relative pt-2">
           <div className="absolute top-0 left-2 px-2 py-0.5 bg-gradient-to-r from-emerald-500 to-green-500 border border-emerald-400/50 text-[10px] text-white uppercase tracking-wider font-bold shadow-lg shadow-emerald-500/30">
@@ -298,12 +366,12 @@ export function StatusPanel({
                 value={maxPlayers}
                 onChange={(e) => handleMaxPlayersChange(e.target.value)}
                 onBlur={handleMaxPlayersBlur}
-                disabled={running || preparing || isUpdatingMaxPlayers}
+                disabled={propertiesLocked || isUpdatingMaxPlayers}
                 className="w-full bg-transparent text-sm font-bold text-white text-center border-none outline-none disabled:cursor-not-allowed disabled:opacity-50 pr-6"
                 placeholder="20"
                 maxLength={4}
               />
-              <Pencil className={`absolute right-0 w-3 h-3 ${running || preparing ? 'text-white/30' : 'text-emerald-400'}`} />
+              <Pencil className={`absolute right-0 w-3 h-3 ${propertiesLocked ? 'text-white/30' : 'text-emerald-400'}`} />
             </div>
           </div>
         </div>
@@ -314,7 +382,9 @@ export function StatusPanel({
             Version
           </div>
           <div className="bg-white/5 border border-white/20 p-3 pt-4">
-            <p className="text-sm font-bold text-white text-center">1.21.1</p>
+            <p className="text-sm font-bold text-white text-center">
+              {running && ping?.version?.name ? ping.version.name : software?.minecraftVersion ?? 'Unknown'}
+            </p>
           </div>
         </div>
 
@@ -324,7 +394,14 @@ export function StatusPanel({
             Software
           </div>
           <div className="bg-white/5 border border-white/20 p-3 pt-4">
-            <p className="text-sm font-bold text-white text-center">Paper</p>
+            <p className="text-sm font-bold text-white text-center" title={software?.platformVersion ?? software?.jar}>
+              {software?.platform ? PLATFORM_LABELS[software.platform] : 'Unknown'}
+            </p>
+            {javaCheck?.warning && (
+              <p className="flex items-center justify-center gap-1 text-xs text-yellow-400 text-center mt-1">
+                <AlertTriangle className="w-3 h-3 shrink-0" /> {javaCheck.warning}
+              </p>
+            )}
           </div>
         </div>
 
@@ -348,7 +425,7 @@ export function StatusPanel({
               <select
                 value={difficulty}
                 onChange={(e) => handleDifficultyChange(e.target.value)}
-                disabled={running || preparing || isUpdatingDifficulty}
+                disabled={propertiesLocked || isUpdatingDifficulty}
                 className="w-full bg-transparent text-sm font-bold text-white text-center border-none outline-none cursor-pointer disabled:cursor-not-allowed disabled:opacity-50 pr-6"
                 style={{ 
                   appearance: 'none',
@@ -362,7 +439,7 @@ export function StatusPanel({
                   </option>
                 ))}
               </select>
-              <ChevronDown className={`absolute right-0 w-3 h-3 pointer-events-none ${running || preparing ? 'text-white/30' : 'text-red-400'}`} />
+              <ChevronDown className={`absolute right-0 w-3 h-3 pointer-events-none ${propertiesLocked ? 'text-white/30' : 'text-red-400'}`} />
             </div>
           </div>
         </div>
@@ -3,3 +3,7 @@ export { StatusPanel } from './StatusPanel';
 export { PerformanceMonitor } from './PerformanceMonitor';
 export { ConnectionDrawer } from './ConnectionDrawer';
 export { ServerInfoCard } from './ServerInfoCard';
+export { BedrockStatus } from './BedrockStatus';
+export { BackupButton } from './BackupButton';
+export { OnlinePlayers } from './OnlinePlayers';
+export { CrashBanner } from './CrashBanner';
@@ -1,89 +1,246 @@
+import type { JavaRuntime } from './lib/javaRuntimes'
+import { configDefault, INSTANCE_ID_PATTERN, migrateConfigContent, parseKeyValue, parseRamToMB } from './lib/configSchema'
+
 // Centralized configuration loader for config.panel
 // Reads and parses simple KEY=VALUE pairs and exposes typed config
+//
+// Top-level keys configure the default instance. Further instances are
+// listed in INSTANCES; their keys use the <id>.KEY form and fall back to
+// the top-level value, except MC_DIR, which defaults to ./mc-<id>.
+// Keys, their defaults and constraints are described in lib/configSchema.ts.
+
+export const DEFAULT_INSTANCE_ID = 'default'
+
+export type InstanceSummary = {
+  id: string
+  name: string
+}
 
 export type PanelConfig = {
+  /** Display name of the instance */
+  NAME?: string
   JAR_NAME: string
   MC_DIR: string
   MIN_RAM?: string
   MAX_RAM?: string
+  /** Java home (or its bin/java) to start the server with */
+  JAVA_PATH?: string
+  /** Java major version to pick from the detected runtimes when JAVA_PATH is not set */
+  JAVA_VERSION?: number
+  /** JVM flag preset: none, aikar, zgc or custom (see jvmProfiles.ts) */
+  JVM_PROFILE?: string
+  /** Extra JVM flags, space separated */
+  JVM_ARGS?: string
+  /** Extra system properties as space separated key=value pairs (passed as -Dkey=value) */
+  JVM_PROPERTIES?: string
+  /** Extra server arguments after nogui, e.g. --world-dir worlds --port 25566 */
+  SERVER_ARGS?: string
+  /** Write a rotated GC log to logs/gc.log */
+  GC_LOG?: boolean
   JAVA_IP?: string
   BEDROCK_IP?: string
   ENABLE_PINGGY?: boolean
   ENABLE_PLAYIT?: boolean
+  STOP_GRACE_SECONDS?: number
+  STOP_TERM_SECONDS?: number
+  AUTO_RESTART?: boolean
+  AUTO_RESTART_MAX?: number
+  AUTO_RESTART_WINDOW_SECONDS?: number
+  AUTO_RESTART_BACKOFF_SECONDS?: number
+  AUTO_RESTART_MAX_BACKOFF_SECONDS?: number
+  CRASH_LOOP_THRESHOLD?: number
+  CRASH_LOOP_QUICK_SECONDS?: number
+  METRICS_TOKEN?: string
 }
 
 // Default values if keys are missing
-const DEFAULTS: Required<Pick<PanelConfig, 'MIN_RAM' | 'MAX_RAM'>> = {
-  MIN_RAM: '1G',
-  MAX_RAM: '2G',
-}
+const DEFAULTS = {
+  MIN_RAM: configDefault('MIN_RAM'),
+  MAX_RAM: configDefault('MAX_RAM'),
+  STOP_GRACE_SECONDS: Number(configDefault('STOP_GRACE_SECONDS')),
+  STOP_TERM_SECONDS: Number(configDefault('STOP_TERM_SECONDS')),
+  AUTO_RESTART_MAX: Number(configDefault('AUTO_RESTART_MAX')),
+  AUTO_RESTART_WINDOW_SECONDS: Number(configDefault('AUTO_RESTART_WINDOW_SECONDS')),
+  AUTO_RESTART_BACKOFF_SECONDS: Number(configDefault('AUTO_RESTART_BACKOFF_SECONDS')),
+  AUTO_RESTART_MAX_BACKOFF_SECONDS: Number(configDefault('AUTO_RESTART_MAX_BACKOFF_SECONDS')),
+  CRASH_LOOP_THRESHOLD: Number(configDefault('CRASH_LOOP_THRESHOLD')),
+  CRASH_LOOP_QUICK_SECONDS: Number(configDefault('CRASH_LOOP_QUICK_SECONDS')),
+} satisfies Partial<PanelConfig>
 
-function parseKeyValue(content: string): Record<string, string> {
-  const map: Record<string, string> = {}
-  for (const raw of content.split(/\r?\n/)) {
-    const line = raw.trim()
-    if (!line || line.startsWith('#')) continue
-    const idx = line.indexOf('=')
-    if (idx === -1) continue
-    const key = line.slice(0, idx).trim()
-    const value = line.slice(idx + 1).trim()
-    if (key) map[key] = value
-  }
-  return map
+function parseNonNegativeInt(v: string | undefined, fallback: number): number {
+  const n = parseInt(v || '', 10)
+  return Number.isFinite(n) && n >= 0 ? n : fallback
 }
 
-export async function getConfig(): Promise<PanelConfig> {
+async function readConfigMap(): Promise<Record<string, string> | null> {
   // config.panel is expected at project root (process.cwd())
   const path = (await import('path')).default
   const fs = (await import('fs/promises'))
   const filePath = path.join(process.cwd(), 'config.panel')
 
-  let content = ''
   try {
-    content = await fs.readFile(filePath, 'utf8')
+    // Files written before a key rename keep working before they are saved again
+    return parseKeyValue(migrateConfigContent(await fs.readFile(filePath, 'utf8')).content)
   } catch (e) {
+    return null
+  }
+}
+
+export async function getConfig(): Promise<PanelConfig> {
+  const map = await readConfigMap()
+  if (!map) {
     // If missing, return minimal defaults; callers can handle missing mandatory fields
     return {
       JAR_NAME: '',
       MC_DIR: '',
       MIN_RAM: DEFAULTS.MIN_RAM,
       MAX_RAM: DEFAULTS.MAX_RAM,
+      STOP_GRACE_SECONDS: DEFAULTS.STOP_GRACE_SECONDS,
+      STOP_TERM_SECONDS: DEFAULTS.STOP_TERM_SECONDS,
+      AUTO_RESTART: false,
+      AUTO_RESTART_MAX: DEFAULTS.AUTO_RESTART_MAX,
+      AUTO_RESTART_WINDOW_SECONDS: DEFAULTS.AUTO_RESTART_WINDOW_SECONDS,
+      AUTO_RESTART_BACKOFF_SECONDS: DEFAULTS.AUTO_RESTART_BACKOFF_SECONDS,
+      AUTO_RESTART_MAX_BACKOFF_SECONDS: DEFAULTS.AUTO_RESTART_MAX_BACKOFF_SECONDS,
+      CRASH_LOOP_THRESHOLD: DEFAULTS.CRASH_LOOP_THRESHOLD,
+      CRASH_LOOP_QUICK_SECONDS: DEFAULTS.CRASH_LOOP_QUICK_SECONDS,
     }
   }
 
-  const map = parseKeyValue(content)
+  return buildConfig(map)
+}
+
+function buildConfig(map: Record<string, string>): PanelConfig {
   const cfg: PanelConfig = {
+    NAME: map.NAME || '',
     JAR_NAME: map.JAR_NAME || '',
     MC_DIR: map.MC_DIR || '',
     MIN_RAM: map.MIN_RAM || DEFAULTS.MIN_RAM,
     MAX_RAM: map.MAX_RAM || DEFAULTS.MAX_RAM,
+    JAVA_PATH: map.JAVA_PATH || '',
+    JAVA_VERSION: parseNonNegativeInt(map.JAVA_VERSION, 0),
+    JVM_PROFILE: (map.JVM_PROFILE || configDefault('JVM_PROFILE')).toLowerCase(),
+    JVM_ARGS: map.JVM_ARGS || '',
+    JVM_PROPERTIES: map.JVM_PROPERTIES || '',
+    SERVER_ARGS: map.SERVER_ARGS || '',
+    GC_LOG: map.GC_LOG?.toLowerCase() === 'true',
     JAVA_IP: map.JAVA_IP || '',
     BEDROCK_IP: map.BEDROCK_IP || '',
     ENABLE_PINGGY: map.ENABLE_PINGGY?.toLowerCase() === 'true',
     ENABLE_PLAYIT: map.ENABLE_PLAYIT?.toLowerCase() === 'true',
+    STOP_GRACE_SECONDS: parseNonNegativeInt(map.STOP_GRACE_SECONDS, DEFAULTS.STOP_GRACE_SECONDS),
+    STOP_TERM_SECONDS: parseNonNegativeInt(map.STOP_TERM_SECONDS, DEFAULTS.STOP_TERM_SECONDS),
+    AUTO_RESTART: map.AUTO_RESTART?.toLowerCase() === 'true',
+    AUTO_RESTART_MAX: parseNonNegativeInt(map.AUTO_RESTART_MAX, DEFAULTS.AUTO_RESTART_MAX),
+    AUTO_RESTART_WINDOW_SECONDS: parseNonNegativeInt(map.AUTO_RESTART_WINDOW_SECONDS, DEFAULTS.AUTO_RESTART_WINDOW_SECONDS),
+    AUTO_RESTART_BACKOFF_SECONDS: parseNonNegativeInt(map.AUTO_RESTART_BACKOFF_SECONDS, DEFAULTS.AUTO_RESTART_BACKOFF_SECONDS),
+    AUTO_RESTART_MAX_BACKOFF_SECONDS: parseNonNegativeInt(map.AUTO_RESTART_MAX_BACKOFF_SECONDS, DEFAULTS.AUTO_RESTART_MAX_BACKOFF_SECONDS),
+    CRASH_LOOP_THRESHOLD: parseNonNegativeInt(map.CRASH_LOOP_THRESHOLD, DEFAULTS.CRASH_LOOP_THRESHOLD),
+    CRASH_LOOP_QUICK_SECONDS: parseNonNegativeInt(map.CRASH_LOOP_QUICK_SECONDS, DEFAULTS.CRASH_LOOP_QUICK_SECONDS),
+    METRICS_TOKEN: map.METRICS_TOKEN || '',
   }
   return cfg
 }
 
-// Helper to validate memory values like 512M or 1G and to compare
-export function parseRamToMB(v: string): number | null {
-  if (!v) return null
-  const m = String(v).trim()
-  const g = m.match(/^([0-9]+)\s*[Gg]$/)
-  if (g) return parseInt(g[1], 10) * 1024
-  const mm = m.match(/^([0-9]+)\s*[Mm]$/)
-  if (mm) return parseInt(mm[1], 10)
-  const num = m.match(/^([0-9]+)$/)
-  if (num) return parseInt(num[1], 10)
+/**
+ * Default instance config from config.panel content that is not saved yet
+ */
+export function parseConfig(content: string): PanelConfig {
+  return buildConfig(parseKeyValue(migrateConfigContent(content).content))
+}
+
+function parseInstanceIds(map: Record<string, string>): string[] {
+  const ids = (map.INSTANCES || '').split(',').map((id) => id.trim()).filter(Boolean)
+  return [...new Set(ids)].filter((id) => id !== DEFAULT_INSTANCE_ID && INSTANCE_ID_PATTERN.test(id))
+}
+
+/**
+ * The default instance followed by the ones listed in INSTANCES
+ */
+export async function listInstances(): Promise<InstanceSummary[]> {
+  const map = (await readConfigMap()) || {}
+  return [
+    { id: DEFAULT_INSTANCE_ID, name: map.NAME || 'Default' },
+    ...parseInstanceIds(map).map((id) => ({ id, name: map[`${id}.NAME`] || id })),
+  ]
+}
+
+/**
+ * Config of one instance: its <id>.KEY values over the top-level ones
+ */
+export async function getInstanceConfig(instanceId: string): Promise<PanelConfig> {
+  if (instanceId === DEFAULT_INSTANCE_ID) return getConfig()
+  return instanceConfigFromMap((await readConfigMap()) || {}, instanceId)
+}
+
+/**
+ * Config of every instance from config.panel content that is not saved yet
+ */
+export async function parseInstanceConfigs(content: string): Promise<{ id: string; config: PanelConfig }[]> {
+  const map = parseKeyValue(migrateConfigContent(content).content)
+  const ids = [DEFAULT_INSTANCE_ID, ...parseInstanceIds(map)]
+  return Promise.all(ids.map(async (id) => ({
+    id,
+    config: id === DEFAULT_INSTANCE_ID ? buildConfig(map) : await instanceConfigFromMap(map, id),
+  })))
+}
+
+async function instanceConfigFromMap(map: Record<string, string>, instanceId: string): Promise<PanelConfig> {
+  const path = (await import('path')).default
+  const merged: Record<string, string> = {}
+  for (const [key, value] of Object.entries(map)) {
+    if (!key.includes('.')) merged[key] = value
+  }
+  // Sharing a folder with another instance would mix worlds, so MC_DIR is not inherited
+  merged.MC_DIR = path.join(process.cwd(), `mc-${instanceId}`)
+  merged.NAME = instanceId
+  const prefix = `${instanceId}.`
+  for (const [key, value] of Object.entries(map)) {
+    if (key.startsWith(prefix)) merged[key.slice(prefix.length)] = value
+  }
+  return buildConfig(merged)
+}
+
+/**
+ * Minecraft server folder of an instance (MC_DIR, or ./mc for the default instance)
+ */
+export async function getInstanceDir(instanceId: string): Promise<string> {
+  const path = (await import('path')).default
+  const config = await getInstanceConfig(instanceId)
+  return config.MC_DIR || path.join(process.cwd(), 'mc')
+}
+
+/**
+ * Runtime chosen by JAVA_PATH or JAVA_VERSION among the found ones (see
+ * findJavaRuntimes); null when neither is set or nothing matches
+ */
+export function selectJavaRuntime(c: PanelConfig, runtimes: JavaRuntime[]): JavaRuntime | null {
+  if (c.JAVA_PATH) return runtimes.find((r) => r.source === 'JAVA_PATH') ?? null
+  if (c.JAVA_VERSION) return runtimes.find((r) => r.major === c.JAVA_VERSION) ?? null
   return null
 }
 
-export function validateConfig(c: PanelConfig): { ok: boolean; error?: string } {
+/**
+ * Check config.panel values; with the found Java runtimes, also check that
+ * JAVA_PATH / JAVA_VERSION select one
+ */
+export function validateConfig(c: PanelConfig, runtimes?: JavaRuntime[]): { ok: boolean; error?: string } {
   if (!c.MC_DIR) return { ok: false, error: 'MC_DIR is missing in config.panel' }
   if (!c.JAR_NAME) return { ok: false, error: 'JAR_NAME is missing in config.panel' }
   const minMB = parseRamToMB(c.MIN_RAM || DEFAULTS.MIN_RAM)
   const maxMB = parseRamToMB(c.MAX_RAM || DEFAULTS.MAX_RAM)
   if (minMB == null || maxMB == null) return { ok: false, error: 'Invalid MIN_RAM or MAX_RAM format. Use values like 512M or 1G.' }
   if (minMB > maxMB) return { ok: false, error: `MIN_RAM (${c.MIN_RAM}) must be <= MAX_RAM (${c.MAX_RAM})` }
+  if (runtimes && (c.JAVA_PATH || c.JAVA_VERSION)) {
+    const runtime = selectJavaRuntime(c, runtimes)
+    if (c.JAVA_PATH && !runtime) return { ok: false, error: `JAVA_PATH (${c.JAVA_PATH}) is not a Java runtime` }
+    if (c.JAVA_PATH && runtime && c.JAVA_VERSION && runtime.major !== c.JAVA_VERSION) {
+      return { ok: false, error: `JAVA_PATH (${c.JAVA_PATH}) is Java ${runtime.major}, but JAVA_VERSION is ${c.JAVA_VERSION}` }
+    }
+    if (!runtime) {
+      const found = [...new Set(runtimes.map((r) => r.major))].join(', ') || 'none'
+      return { ok: false, error: `No Java ${c.JAVA_VERSION} runtime found (detected: ${found}). Install one or set JAVA_PATH.` }
+    }
+  }
   return { ok: true }
 }
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import type { ServerStatus } from '@/lib/statusManager';
+
+export interface InstanceInfo {
+  id: string;
+  name: string;
+  status: ServerStatus;
+}
+
+interface UseInstanceReturn {
+  /**
+   * Selected instance id from the ?instance= parameter ('' for the default instance)
+   */
+  instanceId: string;
+
+  /**
+   * Instances managed by the panel, default first (empty while loading)
+   */
+  instances: InstanceInfo[];
+
+  /**
+   * Add the selected instance to an API or page URL
+   */
+  withInstance: (url: string) => string;
+}
+
+// Shared across components so the list is fetched once per page load
+let instancesPromise: Promise<InstanceInfo[]> | null = null;
+
+function fetchInstances(): Promise<InstanceInfo[]> {
+  if (!instancesPromise) {
+    instancesPromise = fetch('/api/instances', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : { instances: [] }))
+      .then((data) => (Array.isArray(data.instances) ? data.instances : []))
+      .catch(() => {
+        instancesPromise = null;
+        return [];
+      });
+  }
+  return instancesPromise;
+}
+
+/**
+ * Add `instance=<id>` to a URL; the default instance ('') leaves it unchanged
+ */
+export function withInstanceParam(url: string, instanceId: string): string {
+  if (!instanceId) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}instance=${encodeURIComponent(instanceId)}`;
+}
+
+/**
+ * React hook for the server instance the page is showing
+ * The instance travels in the ?instance= parameter so links and reloads keep it
+ *
+ * @example
+ * ```tsx
+ * const { withInstance } = useInstance();
+ * const res = await fetch(withInstance('/api/backup'));
+ * ```
+ */
+export function useInstance(): UseInstanceReturn {
+  const searchParams = useSearchParams();
+  const instanceId = searchParams.get('instance') || '';
+  const [instances, setInstances] = useState<InstanceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchInstances().then((list) => {
+      if (!cancelled) setInstances(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const withInstance = useCallback((url: string) => withInstanceParam(url, instanceId), [instanceId]);
+
+  return { instanceId, instances, withInstance };
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { addPlayersListener, getOnlinePlayers, getOrCreateTerminalWS } from '@/app/terminal/wsSession';
+import type { PlayerSession } from '@/lib/playerTracker';
+
+/**
+ * React hook for the players online on the followed instance, pushed over the WebSocket
+ *
+ * @example
+ * ```tsx
+ * const players = useOnlinePlayers();
+ * return <div>{players.map((p) => p.name).join(', ')}</div>;
+ * ```
+ */
+export function useOnlinePlayers(): PlayerSession[] {
+  const [players, setPlayers] = useState<PlayerSession[]>(() =>
+    typeof window === 'undefined' ? [] : getOnlinePlayers()
+  );
+
+  useEffect(() => {
+    try { getOrCreateTerminalWS(); } catch {}
+    const offPlayers = addPlayersListener((list) => {
+      setPlayers(list);
+    });
+    return () => {
+      offPlayers();
+    };
+  }, []);
+
+  return players;
+}
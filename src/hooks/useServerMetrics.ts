@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { addMetricsListener, addTickListener, getMetricsHistory, getOrCreateTerminalWS, getTickHistory } from '@/app/terminal/wsSession';
+import type { MetricsSample } from '@/lib/metricsCollector';
+import type { TickSample } from '@/lib/tickMonitor';
+
+interface UseServerMetricsReturn {
+  /**
+   * Recent process samples, oldest first (up to 30, one every 2 seconds)
+   */
+  samples: MetricsSample[];
+
+  /**
+   * Most recent process sample, or null before the first one arrives
+   */
+  latest: MetricsSample | null;
+
+  /**
+   * Recent TPS / MSPT samples, oldest first (up to 180, one every 10 seconds)
+   */
+  ticks: TickSample[];
+
+  /**
+   * Most recent TPS / MSPT sample, or null before the first one arrives
+   */
+  latestTick: TickSample | null;
+}
+
+/**
+ * React hook for the Minecraft server metrics pushed over the WebSocket
+ *
+ * @example
+ * ```tsx
+ * const { latest, latestTick } = useServerMetrics();
+ * return <div>CPU {latest?.cpuPercent.toFixed(1)}% · TPS {latestTick?.tps}</div>;
+ * ```
+ */
+export function useServerMetrics(): UseServerMetricsReturn {
+  const [samples, setSamples] = useState<MetricsSample[]>(() =>
+    typeof window === 'undefined' ? [] : getMetricsHistory()
+  );
+  const [ticks, setTicks] = useState<TickSample[]>(() =>
+    typeof window === 'undefined' ? [] : getTickHistory()
+  );
+
+  useEffect(() => {
+    try { getOrCreateTerminalWS(); } catch {}
+    const offMetrics = addMetricsListener(() => {
+      setSamples(getMetricsHistory());
+    });
+    const offTicks = addTickListener(() => {
+      setTicks(getTickHistory());
+    });
+    return () => {
+      offMetrics();
+      offTicks();
+    };
+  }, []);
+
+  return {
+    samples,
+    latest: samples.length > 0 ? samples[samples.length - 1] : null,
+    ticks,
+    latestTick: ticks.length > 0 ? ticks[ticks.length - 1] : null,
+  };
+}
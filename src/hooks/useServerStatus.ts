@@ -14,6 +14,11 @@ interface UseServerStatusOptions {
    */
   port?: number;
   
+  /**
+   * Server instance to check (the default instance when omitted)
+   */
+  instance?: string;
+  
   /**
    * Whether to start polling automatically
    * @default true
@@ -83,6 +88,7 @@ export function useServerStatus(options: UseServerStatusOptions = {}): UseServer
   const {
     pollInterval = 3000,
     port = 25565,
+    instance,
     autoStart = true,
   } = options;
   
@@ -102,7 +108,8 @@ export function useServerStatus(options: UseServerStatusOptions = {}): UseServer
       setLoading(true);
       setError(null);
       
-      const response = await fetch(`/api/server/status?port=${port}`, {
+      const instanceParam = instance ? `&instance=${encodeURIComponent(instance)}` : '';
+      const response = await fetch(`/api/server/status?port=${port}${instanceParam}`, {
         cache: 'no-store',
       });
       
@@ -128,7 +135,7 @@ export function useServerStatus(options: UseServerStatusOptions = {}): UseServer
         setLoading(false);
       }
     }
-  }, [port]);
+  }, [port, instance]);
   
   /**
    * Start polling
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Permission, Role } from '@/lib/permissions';
+
+export interface SessionInfo {
+  username: string;
+  role: Role;
+  permissions: Permission[];
+}
+
+interface UseSessionReturn {
+  /**
+   * Logged-in user, or null while loading / logged out
+   */
+  session: SessionInfo | null;
+
+  /**
+   * Whether the current user has a permission (false while loading)
+   */
+  can: (permission: Permission) => boolean;
+}
+
+// Shared across components so the session is fetched once per page load
+let sessionPromise: Promise<SessionInfo | null> | null = null;
+
+function fetchSession(): Promise<SessionInfo | null> {
+  if (!sessionPromise) {
+    sessionPromise = fetch('/api/auth/me', { cache: 'no-store' })
+      .then((res) => (res.ok ? (res.json() as Promise<SessionInfo>) : null))
+      .catch(() => {
+        sessionPromise = null;
+        return null;
+      });
+  }
+  return sessionPromise;
+}
+
+/**
+ * React hook for the logged-in user and their permissions
+ * Use it to hide or disable controls; the server enforces the same permissions
+ *
+ * @example
+ * ```tsx
+ * const { can } = useSession();
+ * return <button disabled={!can('server:control')}>Start</button>;
+ * ```
+ */
+export function useSession(): UseSessionReturn {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSession().then((info) => {
+      if (!cancelled) setSession(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => !!session?.permissions.includes(permission),
+    [session]
+  );
+
+  return { session, can };
+}
@@ -0,0 +1,354 @@
+/**
+ * Whitelist, Ops and Bans
+ *
+ * Typed access to whitelist.json, ops.json, banned-players.json and
+ * banned-ips.json in an instance's MC_DIR.
+ *
+ * While the server is running it owns these files and rewrites them on
+ * every change, so edits go through console commands (`whitelist add`,
+ * `op`, `ban`, `pardon`, ...). While it is stopped the files are written
+ * directly. Player UUIDs for direct writes come from usercache.json, or
+ * are computed the way offline mode servers do when online-mode=false.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { isIP } from 'net';
+import { getInstanceDir } from '../config';
+import { readServerProperties } from './serverProperties';
+import type { ServerInstance } from './instances';
+
+export const ACCESS_LISTS = ['whitelist', 'ops', 'bans', 'ip-bans'] as const;
+export type AccessListName = typeof ACCESS_LISTS[number];
+
+export interface WhitelistEntry {
+  uuid: string;
+  name: string;
+}
+
+export interface OpEntry extends WhitelistEntry {
+  /** Permission level 1-4 */
+  level: number;
+  bypassesPlayerLimit: boolean;
+}
+
+interface BanFields {
+  /** "yyyy-MM-dd HH:mm:ss Z", as written by the server */
+  created: string;
+  source: string;
+  /** "forever" or a date like `created` */
+  expires: string;
+  reason: string;
+}
+
+export interface PlayerBanEntry extends WhitelistEntry, BanFields {}
+
+export interface IpBanEntry extends BanFields {
+  ip: string;
+}
+
+export interface AccessLists {
+  whitelist: WhitelistEntry[];
+  ops: OpEntry[];
+  bans: PlayerBanEntry[];
+  'ip-bans': IpBanEntry[];
+}
+
+export type AccessChange =
+  | { list: 'whitelist'; action: 'add' | 'remove'; name: string }
+  | { list: 'ops'; action: 'add'; name: string; level?: number; bypassesPlayerLimit?: boolean }
+  | { list: 'ops'; action: 'remove'; name: string }
+  | { list: 'bans'; action: 'add'; name: string; reason?: string; source?: string; expiresAt?: string }
+  | { list: 'bans'; action: 'remove'; name: string }
+  | { list: 'ip-bans'; action: 'add'; ip: string; reason?: string; source?: string; expiresAt?: string }
+  | { list: 'ip-bans'; action: 'remove'; ip: string };
+
+/** What changeAccessList needs of an instance */
+export type AccessTarget = Pick<ServerInstance, 'id' | 'process' | 'status'>;
+
+export interface AccessChangeResult {
+  /** How the change was made: console command (server running) or file write (server stopped) */
+  via: 'console' | 'file';
+  /** Whether the list shows the change (a console command may be refused by the server) */
+  applied: boolean;
+  entries: AccessLists[AccessListName];
+}
+
+const LIST_FILES: Record<AccessListName, string> = {
+  whitelist: 'whitelist.json',
+  ops: 'ops.json',
+  bans: 'banned-players.json',
+  'ip-bans': 'banned-ips.json',
+};
+
+// Java names; Geyser / Floodgate prefix Bedrock players with '.' or '*'
+const PLAYER_NAME_PATTERN = /^[.*]?\w{1,16}$/;
+const MAX_REASON_LENGTH = 256;
+const DEFAULT_OP_LEVEL = 4;
+const DEFAULT_BAN_REASON = 'Banned by an operator.';
+const COMMAND_WAIT_MS = 3000;
+const COMMAND_POLL_MS = 100;
+
+// Direct file writes are serialized per file
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function isPlayerName(value: unknown): value is string {
+  return typeof value === 'string' && PLAYER_NAME_PATTERN.test(value);
+}
+
+export function isAccessListName(value: unknown): value is AccessListName {
+  return typeof value === 'string' && (ACCESS_LISTS as readonly string[]).includes(value);
+}
+
+/**
+ * The UUID an offline mode server gives a player: a v3 UUID of "OfflinePlayer:<name>"
+ */
+export function offlinePlayerUuid(name: string): string {
+  const bytes = createHash('md5').update(`OfflinePlayer:${name}`, 'utf8').digest();
+  bytes[6] = (bytes[6] & 0x0f) | 0x30;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Date in the server's ban list format, e.g. "2024-05-01 10:20:30 +0000"
+ */
+function formatBanDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace('T', ' ')} +0000`;
+}
+
+/**
+ * Reason text safe to put in a console command
+ */
+export function cleanReason(reason: string | undefined): string {
+  // Control characters would end the console command early
+  return (reason ?? '').replace(/[\x00-\x1f\x7f]/g, ' ').trim().slice(0, MAX_REASON_LENGTH);
+}
+
+function validateChange(change: AccessChange): void {
+  if ('name' in change && !isPlayerName(change.name)) {
+    throw new Error(`Invalid player name: ${change.name}`);
+  }
+  if ('ip' in change && !isIP(change.ip)) {
+    throw new Error(`Invalid IP address: ${change.ip}`);
+  }
+  if ((change.list === 'bans' || change.list === 'ip-bans') && change.action === 'add' && change.expiresAt !== undefined) {
+    if (!(Date.parse(change.expiresAt) > Date.now())) {
+      throw new Error('Ban expiry must be in the future');
+    }
+  }
+  if (change.list === 'ops' && change.action === 'add' && change.level !== undefined) {
+    if (!Number.isInteger(change.level) || change.level < 1 || change.level > 4) {
+      throw new Error('Op level must be 1-4');
+    }
+  }
+}
+
+async function listFile(instanceId: string, list: AccessListName): Promise<string> {
+  return path.join(await getInstanceDir(instanceId), LIST_FILES[list]);
+}
+
+async function readListFile(file: string): Promise<Array<Record<string, unknown>>> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const data = content.trim() ? JSON.parse(content) : [];
+  if (!Array.isArray(data)) {
+    throw new Error(`${path.basename(file)} is not a JSON array`);
+  }
+  return data;
+}
+
+async function writeListFile(file: string, entries: unknown[]): Promise<void> {
+  const tmp = `${file}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(entries, null, 2) + '\n', 'utf8');
+  await fs.promises.rename(tmp, file);
+}
+
+async function fileMtime(file: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(file)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Read one list
+ */
+export async function readAccessList<K extends AccessListName>(instanceId: string, list: K): Promise<AccessLists[K]> {
+  return (await readListFile(await listFile(instanceId, list))) as unknown as AccessLists[K];
+}
+
+/**
+ * Read all lists
+ */
+export async function readAccessLists(instanceId: string): Promise<AccessLists> {
+  const [whitelist, ops, bans, ipBans] = await Promise.all([
+    readAccessList(instanceId, 'whitelist'),
+    readAccessList(instanceId, 'ops'),
+    readAccessList(instanceId, 'bans'),
+    readAccessList(instanceId, 'ip-bans'),
+  ]);
+  return { whitelist, ops, bans, 'ip-bans': ipBans };
+}
+
+/**
+ * Find a player's UUID and name as the server knows it
+ * Throws when the player is unknown to an online mode server
+ */
+export async function resolvePlayer(instanceId: string, name: string): Promise<WhitelistEntry> {
+  try {
+    const file = path.join(await getInstanceDir(instanceId), 'usercache.json');
+    const cache = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    if (Array.isArray(cache)) {
+      const entry = cache.find((e) => typeof e?.name === 'string' && e.name.toLowerCase() === name.toLowerCase());
+      if (entry && typeof entry.uuid === 'string') {
+        return { uuid: entry.uuid, name: entry.name };
+      }
+    }
+  } catch {
+    // No usercache.json yet
+  }
+
+  const properties = await readServerProperties(instanceId);
+  if (properties['online-mode'] === 'false') {
+    return { uuid: offlinePlayerUuid(name), name };
+  }
+  throw new Error(`Unknown player '${name}': not in usercache.json. Add them while the server is running, or after they have joined once`);
+}
+
+/**
+ * Whether a list entry is the player / IP a change is about
+ */
+function matchesEntry(change: AccessChange, entry: Record<string, unknown>): boolean {
+  return 'ip' in change
+    ? entry.ip === change.ip
+    : typeof entry.name === 'string' && entry.name.toLowerCase() === change.name.toLowerCase();
+}
+
+/**
+ * Whether a list shows the change
+ */
+function isApplied(change: AccessChange, entries: Array<Record<string, unknown>>): boolean {
+  const present = entries.some((entry) => matchesEntry(change, entry));
+  return change.action === 'add' ? present : !present;
+}
+
+function consoleCommand(change: AccessChange): string {
+  switch (change.list) {
+    case 'whitelist':
+      return `whitelist ${change.action} ${change.name}`;
+    case 'ops':
+      return `${change.action === 'add' ? 'op' : 'deop'} ${change.name}`;
+    case 'bans': {
+      if (change.action === 'remove') return `pardon ${change.name}`;
+      const reason = cleanReason(change.reason);
+      return reason ? `ban ${change.name} ${reason}` : `ban ${change.name}`;
+    }
+    case 'ip-bans': {
+      if (change.action === 'remove') return `pardon-ip ${change.ip}`;
+      const reason = cleanReason(change.reason);
+      return reason ? `ban-ip ${change.ip} ${reason}` : `ban-ip ${change.ip}`;
+    }
+  }
+}
+
+/**
+ * Apply a change to a stopped server's list file
+ */
+async function applyToFile(instanceId: string, change: AccessChange, file: string): Promise<AccessLists[AccessListName]> {
+  const entries = await readListFile(file);
+  const remaining = entries.filter((entry) => !matchesEntry(change, entry));
+
+  if (change.action === 'remove') {
+    await writeListFile(file, remaining);
+    return remaining as unknown as AccessLists[AccessListName];
+  }
+
+  let entry: Record<string, unknown>;
+  if (change.list === 'ip-bans') {
+    entry = {
+      ip: change.ip,
+      created: formatBanDate(new Date()),
+      source: change.source || 'Server',
+      expires: change.expiresAt ? formatBanDate(new Date(change.expiresAt)) : 'forever',
+      reason: cleanReason(change.reason) || DEFAULT_BAN_REASON,
+    };
+  } else {
+    const player = await resolvePlayer(instanceId, change.name);
+    if (change.list === 'whitelist') {
+      entry = { ...player };
+    } else if (change.list === 'ops') {
+      const properties = await readServerProperties(instanceId);
+      const defaultLevel = parseInt(properties['op-permission-level'] || '', 10) || DEFAULT_OP_LEVEL;
+      entry = { ...player, level: change.level ?? defaultLevel, bypassesPlayerLimit: change.bypassesPlayerLimit ?? false };
+    } else {
+      entry = {
+        ...player,
+        created: formatBanDate(new Date()),
+        source: change.source || 'Server',
+        expires: change.expiresAt ? formatBanDate(new Date(change.expiresAt)) : 'forever',
+        reason: cleanReason(change.reason) || DEFAULT_BAN_REASON,
+      };
+    }
+  }
+
+  const updated = [...remaining, entry];
+  await writeListFile(file, updated);
+  return updated as unknown as AccessLists[AccessListName];
+}
+
+/**
+ * Add to or remove from a list
+ * Running server: console command, then waits (briefly) for the server to rewrite the file.
+ * Stopped server: direct file write. Throws with a user-facing message on invalid input.
+ * Ban expiry is only written to the file when the server is stopped; the
+ * moderation scheduler pardons temporary bans either way.
+ */
+export async function changeAccessList(instance: AccessTarget, change: AccessChange): Promise<AccessChangeResult> {
+  validateChange(change);
+  const file = await listFile(instance.id, change.list);
+  const status = instance.status.getStatus();
+
+  if (status === 'running') {
+    if (change.list === 'ops' && change.action === 'add' && (change.level !== undefined || change.bypassesPlayerLimit)) {
+      const properties = await readServerProperties(instance.id);
+      const defaultLevel = parseInt(properties['op-permission-level'] || '', 10) || DEFAULT_OP_LEVEL;
+      if ((change.level ?? defaultLevel) !== defaultLevel || change.bypassesPlayerLimit) {
+        throw new Error('Op level and player limit bypass can only be set while the server is stopped');
+      }
+    }
+
+    const before = await fileMtime(file);
+    const command = consoleCommand(change);
+    if (!instance.process.write(`${command}\n`)) {
+      throw new Error('Server is not running');
+    }
+    console.log(`[AccessLists] Sent '${command}' (${instance.id})`);
+
+    const deadline = Date.now() + COMMAND_WAIT_MS;
+    while (Date.now() < deadline && (await fileMtime(file)) === before) {
+      await new Promise((resolve) => setTimeout(resolve, COMMAND_POLL_MS));
+    }
+    const entries = await readListFile(file);
+    return { via: 'console', applied: isApplied(change, entries), entries: entries as unknown as AccessLists[AccessListName] };
+  }
+
+  if (status !== 'stopped' || instance.process.isRunning() || instance.process.isStarting()) {
+    throw new Error(`Server is ${status}; try again once it is running or stopped`);
+  }
+
+  const previous = writeQueues.get(file) ?? Promise.resolve();
+  const task = previous.catch(() => {}).then(() => applyToFile(instance.id, change, file));
+  writeQueues.set(file, task);
+  const entries = await task;
+  console.log(`[AccessLists] ${change.action} ${'ip' in change ? change.ip : change.name} in ${LIST_FILES[change.list]} (${instance.id})`);
+  return { via: 'file', applied: true, entries };
+}
@@ -0,0 +1,240 @@
+/**
+ * API Tokens
+ *
+ * Personal access tokens for scripts and other non-browser clients,
+ * sent as `Authorization: Bearer pmx_<id>_<secret>`. Each token belongs to
+ * a panel user and carries a subset of TOKEN_SCOPES; it can only do what
+ * both its scopes and its owner's current role allow.
+ *
+ * Only a SHA-256 hash of the secret is kept in data/api-tokens.json, so a
+ * token is shown once when it is created. Revoked tokens stay in the file
+ * (marked revokedAt) so the token list keeps their history.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { isTokenScope, type TokenScope } from './permissions';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** Username the token acts as */
+  owner: string;
+  scopes: TokenScope[];
+  /** SHA-256 of the secret part, hex */
+  secretHash: string;
+  /** Epoch ms */
+  createdAt: number;
+  /** Epoch ms, or null for tokens that never expire */
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  lastUsedIp: string | null;
+  revokedAt: number | null;
+}
+
+/** A token as exposed by the tokens API (no secret hash) */
+export type PublicApiToken = Omit<ApiToken, 'secretHash'>;
+
+interface TokensFile {
+  tokens: ApiToken[];
+}
+
+export const TOKEN_PREFIX = 'pmx_';
+const DATA_DIR = path.join(process.cwd(), 'data');
+const TOKENS_FILE = path.join(DATA_DIR, 'api-tokens.json');
+const MAX_NAME_LENGTH = 64;
+// last-used updates are written at most this often
+const LAST_USED_SAVE_DELAY_MS = 60_000;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toPublic(token: ApiToken): PublicApiToken {
+  const { id, name, owner, scopes, createdAt, expiresAt, lastUsedAt, lastUsedIp, revokedAt } = token;
+  return { id, name, owner, scopes, createdAt, expiresAt, lastUsedAt, lastUsedIp, revokedAt };
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer ...` header
+ */
+export function parseBearerToken(header: string | null | undefined): string | null {
+  const match = (header || '').match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+class ApiTokenManager {
+  private tokens: ApiToken[] = [];
+  private loaded = false;
+  private initPromise: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load tokens from disk; safe to call more than once
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(TOKENS_FILE, 'utf8')) as TokensFile;
+      this.tokens = (Array.isArray(parsed.tokens) ? parsed.tokens : []).map((t) => ({
+        ...t,
+        scopes: (Array.isArray(t.scopes) ? t.scopes : []).filter(isTokenScope),
+      }));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.tokens = [];
+    }
+    this.loaded = true;
+    console.log(`[ApiTokens] Loaded ${this.tokens.length} token(s)`);
+  }
+
+  private async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await fs.promises.mkdir(DATA_DIR, { recursive: true });
+    const tmp = `${TOKENS_FILE}.tmp`;
+    const data: TokensFile = { tokens: this.tokens };
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2) + '\n', { mode: 0o600 });
+    await fs.promises.rename(tmp, TOKENS_FILE);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => console.error('[ApiTokens] Failed to save last-used times:', error));
+    }, LAST_USED_SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Create a token; returns the full token string, which is not stored and cannot be shown again
+   * Throws with a user-facing message on invalid input
+   */
+  async createToken(
+    owner: string,
+    name: string,
+    scopes: TokenScope[],
+    expiresAt: number | null
+  ): Promise<{ token: string; info: PublicApiToken }> {
+    await this.initialize();
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      throw new Error(`Token name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (scopes.length === 0) throw new Error('Select at least one scope');
+    if (expiresAt !== null && expiresAt <= Date.now()) throw new Error('Expiry must be in the future');
+
+    const id = randomBytes(8).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const token: ApiToken = {
+      id,
+      name: trimmed,
+      owner,
+      scopes: [...new Set(scopes)],
+      secretHash: hashSecret(secret),
+      createdAt: Date.now(),
+      expiresAt,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null,
+    };
+    this.tokens.push(token);
+    await this.save();
+    console.log(`[ApiTokens] Token '${trimmed}' created for '${owner}' (${token.scopes.join(', ')})`);
+    return { token: `${TOKEN_PREFIX}${id}_${secret}`, info: toPublic(token) };
+  }
+
+  /**
+   * List tokens, newest first; pass an owner to list only theirs
+   */
+  listTokens(owner?: string): PublicApiToken[] {
+    return this.tokens
+      .filter((t) => owner === undefined || t.owner === owner)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(toPublic);
+  }
+
+  getToken(id: string): PublicApiToken | null {
+    const token = this.tokens.find((t) => t.id === id);
+    return token ? toPublic(token) : null;
+  }
+
+  /**
+   * Revoke a token; it stops working immediately, including on open WebSocket connections
+   */
+  async revokeToken(id: string): Promise<void> {
+    await this.initialize();
+    const token = this.tokens.find((t) => t.id === id);
+    if (!token) throw new Error('Token not found');
+    if (token.revokedAt !== null) return;
+    token.revokedAt = Date.now();
+    await this.save();
+    console.log(`[ApiTokens] Token '${token.name}' of '${token.owner}' revoked`);
+  }
+
+  /**
+   * Revoke every token of a user (used when the user is deleted)
+   */
+  async revokeOwnerTokens(owner: string): Promise<void> {
+    await this.initialize();
+    const now = Date.now();
+    let changed = false;
+    for (const token of this.tokens) {
+      if (token.owner === owner && token.revokedAt === null) {
+        token.revokedAt = now;
+        changed = true;
+      }
+    }
+    if (changed) await this.save();
+  }
+
+  /**
+   * Whether a token id is still usable (not revoked, not expired)
+   */
+  isActive(id: string): boolean {
+    const token = this.tokens.find((t) => t.id === id);
+    return !!token && token.revokedAt === null && (token.expiresAt === null || token.expiresAt > Date.now());
+  }
+
+  /**
+   * Check a bearer token and record its use; returns the token or null
+   */
+  verifyToken(raw: string, ip?: string): PublicApiToken | null {
+    if (!this.loaded || !raw.startsWith(TOKEN_PREFIX)) return null;
+    const rest = raw.slice(TOKEN_PREFIX.length);
+    const sep = rest.indexOf('_');
+    if (sep === -1) return null;
+    const id = rest.slice(0, sep);
+    const secret = rest.slice(sep + 1);
+
+    const token = this.tokens.find((t) => t.id === id);
+    if (!token) return null;
+    const given = Buffer.from(hashSecret(secret), 'hex');
+    const expected = Buffer.from(token.secretHash, 'hex');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+    if (!this.isActive(id)) return null;
+
+    token.lastUsedAt = Date.now();
+    if (ip) token.lastUsedIp = ip;
+    this.scheduleSave();
+    return toPublic(token);
+  }
+}
+
+// Export singleton instance (shared with Next.js route bundles via globalThis)
+const globalForApiTokens = globalThis as unknown as { apiTokenManager?: ApiTokenManager };
+export const apiTokenManager = globalForApiTokens.apiTokenManager ?? new ApiTokenManager();
+globalForApiTokens.apiTokenManager = apiTokenManager;
@@ -0,0 +1,214 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of privileged panel actions: who (actor and IP),
+ * when, what (action) and on what (target). Entries are JSON lines in
+ * data/audit/audit.jsonl; when the file passes 5 MB it is renamed to
+ * audit-<timestamp>.jsonl and a new one is started. The 20 most recent
+ * rotated files are kept.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IncomingMessage } from 'http';
+
+export interface AuditEntry {
+  timestamp: string;
+  /** Username, or 'system' for scheduled / automatic actions */
+  actor: string;
+  ip: string;
+  /** Dotted action name such as server.start, file.delete, config.save */
+  action: string;
+  target?: string;
+  success: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  /** Exact action or a prefix ending in '.' (e.g. 'file.') */
+  action?: string;
+  /** Case-insensitive text search over target and details */
+  q?: string;
+  /** Epoch ms */
+  from?: number;
+  /** Epoch ms */
+  to?: number;
+  limit?: number;
+}
+
+/**
+ * Header server.ts sets on every request it hands to Next.js, so route
+ * handlers can read the client IP (any client-supplied value is replaced)
+ */
+export const CLIENT_IP_HEADER = 'x-panel-client-ip';
+
+const AUDIT_DIR = path.join(process.cwd(), 'data', 'audit');
+const CURRENT_FILE = path.join(AUDIT_DIR, 'audit.jsonl');
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ROTATED_FILES = 20;
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+function isLoopback(address: string): boolean {
+  return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+}
+
+/**
+ * Client IP of a Node.js request
+ * X-Forwarded-For is only trusted from loopback, i.e. from the local tunnel agents,
+ * and only its rightmost entry: the one that proxy appended (earlier ones are client-supplied)
+ */
+export function getClientIp(req: IncomingMessage): string {
+  const remote = req.socket.remoteAddress || '';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (isLoopback(remote) && forwarded) {
+    const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded).split(',');
+    const last = entries[entries.length - 1].trim();
+    if (last) return last;
+  }
+  return remote;
+}
+
+/**
+ * Split keystrokes from a terminal into completed lines
+ * Handles backspace and drops escape sequences (arrow keys etc.)
+ */
+export function splitTypedInput(pending: string, data: string): { pending: string; lines: string[] } {
+  const lines: string[] = [];
+  let current = pending;
+  const cleaned = data.replace(/\x1b\[[0-9;?]*[A-Za-z~]|\x1b[O]?[A-Za-z]/g, '');
+  for (const ch of cleaned) {
+    if (ch === '\r' || ch === '\n') {
+      if (current.trim()) lines.push(current);
+      current = '';
+    } else if (ch === '\x7f' || ch === '\b') {
+      current = current.slice(0, -1);
+    } else if (ch === '\x03' || ch === '\x15') {
+      // Ctrl+C / Ctrl+U discard the line
+      current = '';
+    } else if (ch >= ' ') {
+      current += ch;
+    }
+  }
+  return { pending: current.slice(-1000), lines };
+}
+
+class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private currentSize: number | null = null;
+
+  /**
+   * Append an entry; never throws (failures are logged)
+   */
+  record(entry: Omit<AuditEntry, 'timestamp' | 'success'> & { success?: boolean }): void {
+    const full: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      actor: entry.actor,
+      ip: entry.ip,
+      action: entry.action,
+      ...(entry.target !== undefined ? { target: entry.target } : {}),
+      success: entry.success ?? true,
+      ...(entry.details ? { details: entry.details } : {}),
+    };
+    const line = JSON.stringify(full) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(() => this.append(line))
+      .catch((error) => console.error('[Audit] Failed to write entry:', error));
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.currentSize === null) {
+      await fs.promises.mkdir(AUDIT_DIR, { recursive: true });
+      try {
+        this.currentSize = (await fs.promises.stat(CURRENT_FILE)).size;
+      } catch {
+        this.currentSize = 0;
+      }
+    }
+    if (this.currentSize > 0 && this.currentSize + Buffer.byteLength(line) > MAX_FILE_BYTES) {
+      await this.rotate();
+    }
+    await fs.promises.appendFile(CURRENT_FILE, line, { mode: 0o600 });
+    this.currentSize += Buffer.byteLength(line);
+  }
+
+  private async rotate(): Promise<void> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await fs.promises.rename(CURRENT_FILE, path.join(AUDIT_DIR, `audit-${stamp}.jsonl`));
+    this.currentSize = 0;
+    console.log('[Audit] Rotated audit log');
+
+    const rotated = await this.listRotatedFiles();
+    for (const file of rotated.slice(MAX_ROTATED_FILES)) {
+      await fs.promises.unlink(path.join(AUDIT_DIR, file)).catch(() => {});
+    }
+  }
+
+  /**
+   * Rotated file names, newest first (timestamps sort lexically)
+   */
+  private async listRotatedFiles(): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(AUDIT_DIR);
+      return files.filter((f) => /^audit-.+\.jsonl$/.test(f)).sort().reverse();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Search entries, newest first
+   * Reads the current file, then rotated files, until `limit` matches are found
+   */
+  async query(filters: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writeQueue;
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const q = filters.q?.toLowerCase();
+    const matches: AuditEntry[] = [];
+
+    const files = [CURRENT_FILE, ...(await this.listRotatedFiles()).map((f) => path.join(AUDIT_DIR, f))];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(file, 'utf8');
+      } catch {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        if (!lines[i]) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(lines[i]);
+        } catch {
+          continue;
+        }
+
+        const time = Date.parse(entry.timestamp);
+        if (filters.to !== undefined && time > filters.to) continue;
+        // Files are in time order, so everything after this is older still
+        if (filters.from !== undefined && time < filters.from) return matches;
+        if (filters.actor && entry.actor !== filters.actor) continue;
+        if (filters.action) {
+          const prefix = filters.action.endsWith('.');
+          if (prefix ? !entry.action.startsWith(filters.action) : entry.action !== filters.action) continue;
+        }
+        if (q) {
+          const haystack = `${entry.target ?? ''} ${entry.details ? JSON.stringify(entry.details) : ''}`.toLowerCase();
+          if (!haystack.includes(q)) continue;
+        }
+
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+    return matches;
+  }
+}
+
+// Export singleton instance (shared with Next.js route bundles via globalThis)
+const globalForAuditLog = globalThis as unknown as { auditLog?: AuditLog };
+export const auditLog = globalForAuditLog.auditLog ?? new AuditLog();
+globalForAuditLog.auditLog = auditLog;
@@ -0,0 +1,399 @@
+/**
+ * Panel Authentication
+ *
+ * Users are kept in data/users.json with scrypt password hashes.
+ * Sessions are stateless cookies signed with HMAC-SHA256; the signing
+ * secret is generated on first run and kept in data/session-secret.
+ *
+ * First run: while no users exist, a one-time setup code is printed to
+ * the console and the login page offers to create the admin account.
+ *
+ * Roles are looked up on every request rather than stored in the cookie,
+ * so role changes apply immediately; password changes bump the user's
+ * session version, which logs out their existing sessions.
+ *
+ * Scripts authenticate with API tokens (see apiTokens.ts) instead of a
+ * cookie; authenticateRequest accepts either.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { apiTokenManager, parseBearerToken } from './apiTokens';
+import { isRole, type Permission, type Role } from './permissions';
+
+export interface PanelUser {
+  username: string;
+  passwordHash: string;
+  role: Role;
+  createdAt: string;
+  /** Bumped on password change to invalidate existing sessions */
+  sessionVersion?: number;
+}
+
+/** A user as exposed by the users API (no password hash) */
+export interface PublicUser {
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+export interface SessionUser {
+  username: string;
+  role: Role;
+  /** Epoch ms; null for API tokens that never expire */
+  expiresAt: number | null;
+  /** Set when authenticated with an API token: the token's scopes */
+  scopes?: readonly Permission[];
+  tokenId?: string;
+}
+
+interface UsersFile {
+  users: PanelUser[];
+}
+
+export const SESSION_COOKIE = 'panel_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DATA_DIR = path.join(process.cwd(), 'data');
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+const SECRET_FILE = path.join(DATA_DIR, 'session-secret');
+const SCRYPT_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+// Slows down password guessing without keeping per-client state
+const FAILED_LOGIN_DELAY_MS = 1000;
+const DUMMY_HASH = `scrypt:${'00'.repeat(16)}:${'00'.repeat(SCRYPT_KEY_LENGTH)}`;
+
+function scryptAsync(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, 'hex');
+  const key = await scryptAsync(password, Buffer.from(saltHex, 'hex'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+function validateUsername(username: string): void {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new Error('Username must be 3-32 characters: letters, digits, _ . -');
+  }
+}
+
+function validatePassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+/**
+ * Parse a Cookie header into a name → value map
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const idx = part.indexOf('=');
+    if (idx === -1) continue;
+    const name = part.slice(0, idx).trim();
+    if (!name) continue;
+    try {
+      cookies[name] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch {
+      cookies[name] = part.slice(idx + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Only allow same-site relative paths as post-login redirects
+ */
+export function safeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return '/';
+  return next;
+}
+
+class AuthManager {
+  private users: PanelUser[] = [];
+  private secret: Buffer | null = null;
+  private setupCode: string | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  /**
+   * Load users and the session secret; safe to call more than once
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    await fs.promises.mkdir(DATA_DIR, { recursive: true });
+
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(USERS_FILE, 'utf8')) as UsersFile;
+      // Accounts created before roles existed were all admins
+      this.users = (Array.isArray(parsed.users) ? parsed.users : []).map((u) => ({
+        ...u,
+        role: u.role === undefined ? 'admin' : isRole(u.role) ? u.role : 'viewer',
+      }));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.users = [];
+    }
+
+    try {
+      this.secret = Buffer.from((await fs.promises.readFile(SECRET_FILE, 'utf8')).trim(), 'hex');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.secret = null;
+    }
+    if (!this.secret || this.secret.length < 32) {
+      this.secret = randomBytes(32);
+      await fs.promises.writeFile(SECRET_FILE, this.secret.toString('hex') + '\n', { mode: 0o600 });
+      console.log('[Auth] Generated new session secret');
+    }
+
+    await apiTokenManager.initialize();
+
+    console.log(`[Auth] Loaded ${this.users.length} user(s)`);
+    if (this.users.length === 0) {
+      this.setupCode = randomBytes(6).toString('hex');
+      console.log('[Auth] ═══════════════════════════════════════');
+      console.log('[Auth] No users yet. Open /login to create the admin account');
+      console.log(`[Auth] Setup code: ${this.setupCode}`);
+      console.log('[Auth] ═══════════════════════════════════════');
+    }
+  }
+
+  private async saveUsers(): Promise<void> {
+    const tmp = `${USERS_FILE}.tmp`;
+    const data: UsersFile = { users: this.users };
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2) + '\n', { mode: 0o600 });
+    await fs.promises.rename(tmp, USERS_FILE);
+  }
+
+  /**
+   * Whether the first-run admin account still has to be created
+   */
+  needsSetup(): boolean {
+    return this.users.length === 0;
+  }
+
+  /**
+   * Create the first (admin) account using the setup code from the console
+   * Throws with a user-facing message on invalid input
+   */
+  async createAdmin(setupCode: string, username: string, password: string): Promise<void> {
+    await this.initialize();
+    if (!this.needsSetup() || !this.setupCode) {
+      throw new Error('Setup has already been completed');
+    }
+    const given = Buffer.from(setupCode.trim());
+    const expected = Buffer.from(this.setupCode);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      throw new Error('Invalid setup code');
+    }
+    validateUsername(username);
+    validatePassword(password);
+
+    // Claim the code before awaiting so a concurrent request cannot create a second admin
+    const code = this.setupCode;
+    this.setupCode = null;
+    try {
+      this.users.push({ username, passwordHash: await hashPassword(password), role: 'admin', createdAt: new Date().toISOString() });
+      await this.saveUsers();
+    } catch (error) {
+      this.users = [];
+      this.setupCode = code;
+      throw error;
+    }
+    console.log(`[Auth] Admin account '${username}' created`);
+  }
+
+  /**
+   * Check a username / password pair; returns the username or null
+   */
+  async verifyCredentials(username: string, password: string): Promise<string | null> {
+    await this.initialize();
+    const user = this.users.find((u) => u.username === username);
+    // Hash anyway for unknown users so response times do not reveal them
+    const ok = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+    if (!user || !ok) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      return null;
+    }
+    return user.username;
+  }
+
+  /**
+   * List users without their password hashes
+   */
+  listUsers(): PublicUser[] {
+    return this.users.map(({ username, role, createdAt }) => ({ username, role, createdAt }));
+  }
+
+  /**
+   * Current role of a user, or null if the user no longer exists
+   */
+  getRole(username: string): Role | null {
+    return this.users.find((u) => u.username === username)?.role ?? null;
+  }
+
+  private countAdmins(): number {
+    return this.users.filter((u) => u.role === 'admin').length;
+  }
+
+  /**
+   * Add a user; throws with a user-facing message on invalid input
+   */
+  async createUser(username: string, password: string, role: Role): Promise<PublicUser> {
+    await this.initialize();
+    validateUsername(username);
+    validatePassword(password);
+    if (this.users.some((u) => u.username === username)) {
+      throw new Error(`User '${username}' already exists`);
+    }
+    const user: PanelUser = { username, passwordHash: await hashPassword(password), role, createdAt: new Date().toISOString() };
+    this.users.push(user);
+    await this.saveUsers();
+    console.log(`[Auth] User '${username}' created with role ${role}`);
+    return { username, role, createdAt: user.createdAt };
+  }
+
+  /**
+   * Change a user's role and / or password; the last admin cannot be demoted
+   */
+  async updateUser(username: string, changes: { role?: Role; password?: string }): Promise<PublicUser> {
+    await this.initialize();
+    const user = this.users.find((u) => u.username === username);
+    if (!user) throw new Error(`User '${username}' not found`);
+    if (changes.role && changes.role !== 'admin' && user.role === 'admin' && this.countAdmins() <= 1) {
+      throw new Error('Cannot demote the last admin');
+    }
+    if (changes.password !== undefined) {
+      validatePassword(changes.password);
+      user.passwordHash = await hashPassword(changes.password);
+      user.sessionVersion = (user.sessionVersion ?? 0) + 1;
+    }
+    if (changes.role) user.role = changes.role;
+    await this.saveUsers();
+    console.log(`[Auth] User '${username}' updated${changes.role ? ` (role ${changes.role})` : ''}${changes.password !== undefined ? ' (password changed)' : ''}`);
+    return { username, role: user.role, createdAt: user.createdAt };
+  }
+
+  /**
+   * Remove a user; the last admin cannot be deleted
+   */
+  async deleteUser(username: string): Promise<void> {
+    await this.initialize();
+    const user = this.users.find((u) => u.username === username);
+    if (!user) throw new Error(`User '${username}' not found`);
+    if (user.role === 'admin' && this.countAdmins() <= 1) {
+      throw new Error('Cannot delete the last admin');
+    }
+    this.users = this.users.filter((u) => u !== user);
+    await this.saveUsers();
+    await apiTokenManager.revokeOwnerTokens(username);
+    console.log(`[Auth] User '${username}' deleted`);
+  }
+
+  private sign(payload: string): string {
+    if (!this.secret) throw new Error('Auth manager not initialized');
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  /**
+   * Issue a signed session token for a user
+   */
+  createSession(username: string): string {
+    const version = this.users.find((u) => u.username === username)?.sessionVersion ?? 0;
+    const payload = Buffer.from(JSON.stringify({ u: username, v: version, exp: Date.now() + SESSION_TTL_MS })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Verify a session token; returns null if it is forged, expired, the user is gone
+   * or their password has changed since it was issued
+   */
+  verifySession(token: string | undefined): SessionUser | null {
+    if (!token || !this.secret) return null;
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const given = Buffer.from(signature);
+    const expected = Buffer.from(this.sign(payload));
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+    try {
+      const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { u?: unknown; v?: unknown; exp?: unknown };
+      if (typeof data.u !== 'string' || typeof data.exp !== 'number' || data.exp <= Date.now()) return null;
+      const user = this.users.find((u) => u.username === data.u);
+      if (!user || (data.v ?? 0) !== (user.sessionVersion ?? 0)) return null;
+      return { username: user.username, role: user.role, expiresAt: data.exp };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the session user from a Cookie header
+   */
+  authenticate(cookieHeader: string | null | undefined): SessionUser | null {
+    return this.verifySession(parseCookies(cookieHeader)[SESSION_COOKIE]);
+  }
+
+  /**
+   * Resolve the caller from request headers: an `Authorization: Bearer` API token
+   * if one is sent, otherwise the session cookie
+   * @param ip - Client IP, recorded as the token's last-used address
+   */
+  authenticateRequest(
+    headers: { cookie?: string | null; authorization?: string | null },
+    ip?: string
+  ): SessionUser | null {
+    const raw = parseBearerToken(headers.authorization);
+    if (raw) {
+      const token = apiTokenManager.verifyToken(raw, ip);
+      const role = token ? this.getRole(token.owner) : null;
+      if (!token || !role) return null;
+      return { username: token.owner, role, expiresAt: token.expiresAt, scopes: token.scopes, tokenId: token.id };
+    }
+    return this.authenticate(headers.cookie);
+  }
+
+  /**
+   * Set-Cookie value for a new session
+   */
+  sessionCookie(token: string, secure: boolean): string {
+    const maxAge = Math.floor(SESSION_TTL_MS / 1000);
+    return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure ? '; Secure' : ''}`;
+  }
+
+  /**
+   * Set-Cookie value that clears the session
+   */
+  clearSessionCookie(): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+  }
+}
+
+// Export singleton instance (shared with Next.js route bundles via globalThis)
+const globalForAuth = globalThis as unknown as { authManager?: AuthManager };
+export const authManager = globalForAuth.authManager ?? new AuthManager();
+globalForAuth.authManager = authManager;
@@ -0,0 +1,111 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import dgram from 'dgram';
+import { parseHostPort, pingBedrock } from './bedrockPing';
+
+const MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex');
+const SERVER_ID = 'MCPE;§aDedicated Server;712;1.21.20;3;10;13253860892328930865;Bedrock level;Survival;1;19132;19133;';
+
+function pong(pingTime: Buffer, serverId: string, declaredLength?: number): Buffer {
+  const id = Buffer.from(serverId, 'utf8');
+  const header = Buffer.alloc(1 + 8 + 8);
+  header.writeUInt8(0x1c, 0);
+  pingTime.copy(header, 1);
+  header.writeBigUInt64BE(BigInt('13253860892328930865'), 9);
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(declaredLength ?? id.length);
+  return Buffer.concat([header, MAGIC, length, id]);
+}
+
+type Responder = (ping: Buffer, reply: (msg: Buffer) => void) => void;
+
+/**
+ * Local UDP listener that hands every datagram to `respond`
+ */
+function fakeListener(respond: Responder): Promise<{ socket: dgram.Socket; port: number }> {
+  const socket = dgram.createSocket('udp4');
+  socket.on('message', (msg, remote) => {
+    respond(msg, (reply) => socket.send(reply, remote.port, remote.address));
+  });
+  return new Promise((resolve) => {
+    socket.bind(0, '127.0.0.1', () => resolve({ socket, port: socket.address().port }));
+  });
+}
+
+describe('pingBedrock', () => {
+  const sockets: dgram.Socket[] = [];
+  const start = async (respond: Responder) => {
+    const { socket, port } = await fakeListener(respond);
+    sockets.push(socket);
+    return port;
+  };
+
+  after(() => {
+    sockets.forEach((socket) => socket.close());
+  });
+
+  it('sends an unconnected ping and parses the pong', async () => {
+    let ping: Buffer | null = null;
+    const port = await start((msg, reply) => {
+      ping = msg;
+      reply(pong(msg.subarray(1, 9), SERVER_ID));
+    });
+
+    const result = await pingBedrock('127.0.0.1', port, 1000);
+    assert.ok(ping);
+    const request = ping as Buffer;
+    assert.equal(request.length, 33);
+    assert.equal(request[0], 0x01);
+    assert.ok(request.subarray(9, 25).equals(MAGIC));
+
+    assert.equal(result.online, true);
+    assert.equal(result.edition, 'MCPE');
+    assert.equal(result.motd, 'Dedicated Server');
+    assert.equal(result.subMotd, 'Bedrock level');
+    assert.equal(result.protocol, 712);
+    assert.equal(result.version, '1.21.20');
+    assert.deepEqual(result.players, { online: 3, max: 10 });
+    assert.equal(result.serverGuid, '13253860892328930865');
+    assert.equal(result.gamemode, 'Survival');
+    assert.equal(typeof result.latencyMs, 'number');
+  });
+
+  it('ignores short and malformed replies', async () => {
+    const port = await start((msg, reply) => {
+      const valid = pong(msg.subarray(1, 9), SERVER_ID);
+      // Too short for a pong header
+      reply(valid.subarray(0, 20));
+      // Wrong packet id
+      reply(Buffer.concat([Buffer.from([0x1d]), valid.subarray(1)]));
+      // Wrong magic
+      const badMagic = Buffer.from(valid);
+      badMagic[20] ^= 0xff;
+      reply(badMagic);
+      // Server ID shorter than its declared length
+      reply(pong(msg.subarray(1, 9), 'MCPE;cut', 200));
+    });
+
+    const result = await pingBedrock('127.0.0.1', port, 500);
+    assert.equal(result.online, false);
+    assert.equal(result.error, 'Timed out');
+  });
+
+  it('uses the first valid pong after a malformed one', async () => {
+    const port = await start((msg, reply) => {
+      reply(Buffer.from([0x1c, 0x00]));
+      reply(pong(msg.subarray(1, 9), SERVER_ID));
+    });
+
+    const result = await pingBedrock('127.0.0.1', port, 1000);
+    assert.equal(result.online, true);
+    assert.equal(result.version, '1.21.20');
+  });
+});
+
+describe('parseHostPort', () => {
+  it('splits host and port, with the Bedrock default', () => {
+    assert.deepEqual(parseHostPort('play.example.com:19133'), { host: 'play.example.com', port: 19133 });
+    assert.deepEqual(parseHostPort('[::1]:19132'), { host: '::1', port: 19132 });
+    assert.deepEqual(parseHostPort('play.example.com'), { host: 'play.example.com', port: 19132 });
+  });
+});
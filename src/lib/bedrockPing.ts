@@ -0,0 +1,110 @@
+/**
+ * Bedrock Edition status client (RakNet unconnected ping)
+ *
+ * Queries a Bedrock listener (a Bedrock Dedicated Server or Geyser) over UDP
+ * the same way the Bedrock server list does.
+ *
+ * https://wiki.bedrock.dev/servers/raknet
+ */
+
+import dgram from 'dgram';
+import { stripFormatting } from './slp';
+
+export interface BedrockPingResult {
+  online: boolean;
+  host: string;
+  port: number;
+  edition?: string;
+  motd?: string;
+  subMotd?: string;
+  protocol?: number;
+  version?: string;
+  players?: { online: number; max: number };
+  gamemode?: string;
+  serverGuid?: string;
+  latencyMs?: number;
+  error?: string;
+  timestamp: string;
+}
+
+const DEFAULT_BEDROCK_PORT = 19132;
+const UNCONNECTED_PING = 0x01;
+const UNCONNECTED_PONG = 0x1c;
+// RakNet "offline message" magic
+const MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex');
+
+/**
+ * Split "host:port" (as used by BEDROCK_IP) into its parts
+ */
+export function parseHostPort(address: string, defaultPort: number = DEFAULT_BEDROCK_PORT): { host: string; port: number } {
+  const trimmed = address.trim();
+  const match = trimmed.match(/^\[?([^\]]+?)\]?:(\d+)$/);
+  if (match) {
+    const port = parseInt(match[2], 10);
+    if (port > 0 && port <= 65535) return { host: match[1], port };
+  }
+  return { host: trimmed, port: defaultPort };
+}
+
+/**
+ * Parse the pong server ID string:
+ * Edition;MOTD;Protocol;Version;Online;Max;ServerGUID;SubMOTD;GameMode;GameModeNum;PortV4;PortV6;
+ */
+function parseServerId(serverId: string): Omit<BedrockPingResult, 'online' | 'host' | 'port' | 'timestamp'> {
+  const [edition, motd, protocol, version, online, max, serverGuid, subMotd, gamemode] = serverId.split(';');
+  return {
+    edition,
+    motd: motd !== undefined ? stripFormatting(motd) : undefined,
+    subMotd: subMotd !== undefined ? stripFormatting(subMotd) : undefined,
+    protocol: parseInt(protocol, 10) || undefined,
+    version,
+    players: { online: parseInt(online, 10) || 0, max: parseInt(max, 10) || 0 },
+    serverGuid,
+    gamemode,
+  };
+}
+
+/**
+ * Ping a Bedrock listener
+ * Never throws; returns { online: false, error } when nothing answers
+ */
+export function pingBedrock(host: string, port: number = DEFAULT_BEDROCK_PORT, timeout: number = 3000): Promise<BedrockPingResult> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket(host.includes(':') ? 'udp6' : 'udp4');
+    const sentAt = Date.now();
+    let settled = false;
+
+    const finish = (result: Omit<BedrockPingResult, 'host' | 'port' | 'timestamp'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve({ ...result, host, port, timestamp: new Date().toISOString() });
+    };
+
+    const timer = setTimeout(() => finish({ online: false, error: 'Timed out' }), timeout);
+
+    socket.on('error', (err) => finish({ online: false, error: err.message }));
+    socket.on('message', (msg: Buffer) => {
+      // 0x1C | time (8) | server GUID (8) | magic (16) | string length (2) | server ID
+      if (msg.length < 35 || msg[0] !== UNCONNECTED_PONG) return;
+      if (!msg.subarray(17, 33).equals(MAGIC)) return;
+      const length = msg.readUInt16BE(33);
+      // A reply cut short would otherwise parse as a partial server ID
+      if (msg.length < 35 + length) return;
+      const serverId = msg.subarray(35, 35 + length).toString('utf8');
+      finish({ online: true, latencyMs: Date.now() - sentAt, ...parseServerId(serverId) });
+    });
+
+    // 0x01 | time (8) | magic (16) | client GUID (8)
+    const ping = Buffer.alloc(1 + 8 + 16 + 8);
+    ping.writeUInt8(UNCONNECTED_PING, 0);
+    ping.writeBigInt64BE(BigInt(sentAt), 1);
+    MAGIC.copy(ping, 9);
+    ping.writeBigInt64BE(BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER)), 25);
+
+    socket.send(ping, port, host, (err) => {
+      if (err) finish({ online: false, error: err.message });
+    });
+  });
+}
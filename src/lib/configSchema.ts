@@ -0,0 +1,290 @@
+/**
+ * config.panel Schema
+ *
+ * One description of every config.panel key: its type, default, help text
+ * and constraints. It drives the config page form, the checks run before
+ * config.panel is saved, and the defaults config.ts falls back to.
+ *
+ * Checks that need the host (MC_DIR and JAR_NAME on disk, MAX_RAM against
+ * its memory) are added by the config page's server actions.
+ *
+ * Writes go through setConfigValue, which changes a value in place so the
+ * comments and order of the file are kept.
+ *
+ * Renamed keys are handled by versioned migrations: CONFIG_VERSION in
+ * config.panel records the last one applied. To rename a key, add
+ * { version: CONFIG_VERSION + 1, renames: { OLD: 'NEW' } } and bump
+ * CONFIG_VERSION; files are migrated when read and rewritten on save.
+ *
+ * Kept free of Node imports so client components can use it.
+ */
+
+import type { PanelConfig } from '../config';
+import { JVM_PROFILES, JVM_PROFILE_LABELS } from './jvmProfiles';
+
+export type ConfigKey = keyof PanelConfig | 'INSTANCES';
+
+export type ConfigFieldType = 'text' | 'path' | 'integer' | 'boolean' | 'ram' | 'enum' | 'secret';
+
+export type ConfigGroup = 'Server' | 'Java' | 'Stopping' | 'Auto restart' | 'Network' | 'Monitoring' | 'Instances';
+
+export interface ConfigField {
+  key: ConfigKey;
+  type: ConfigFieldType;
+  group: ConfigGroup;
+  description: string;
+  /** Value used when the key is missing or empty */
+  default?: string;
+  required?: boolean;
+  options?: readonly string[];
+  optionLabels?: Record<string, string>;
+  min?: number;
+  max?: number;
+  /** Ends up on the server command line, so shell metacharacters are refused */
+  commandLine?: boolean;
+  /** Only valid at the top level, not as <id>.KEY */
+  topLevelOnly?: boolean;
+}
+
+export interface ConfigIssue {
+  /** KEY or <id>.KEY */
+  key: string;
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ConfigMigration {
+  version: number;
+  description: string;
+  /** Old key → new key, applied to KEY and <id>.KEY lines */
+  renames: Record<string, string>;
+}
+
+export const CONFIG_GROUPS: ConfigGroup[] = ['Server', 'Java', 'Stopping', 'Auto restart', 'Network', 'Monitoring', 'Instances'];
+
+export const CONFIG_SCHEMA: ConfigField[] = [
+  { key: 'NAME', type: 'text', group: 'Server', description: 'Display name of the instance' },
+  { key: 'MC_DIR', type: 'path', group: 'Server', required: true, description: 'Full path to the Minecraft server folder' },
+  { key: 'JAR_NAME', type: 'text', group: 'Server', required: true, commandLine: true, description: 'Server jar file name inside MC_DIR' },
+  { key: 'MIN_RAM', type: 'ram', group: 'Server', default: '1G', description: 'Initial heap size (-Xms), e.g. 512M or 1G' },
+  { key: 'MAX_RAM', type: 'ram', group: 'Server', default: '2G', description: 'Maximum heap size (-Xmx), e.g. 2G' },
+  { key: 'SERVER_ARGS', type: 'text', group: 'Server', commandLine: true, description: 'Extra server arguments after nogui, e.g. --world-dir worlds --port 25566' },
+  { key: 'JAVA_PATH', type: 'path', group: 'Java', commandLine: true, description: 'Java home (or its bin/java) to start the server with; empty uses JAVA_VERSION or java from PATH' },
+  { key: 'JAVA_VERSION', type: 'integer', group: 'Java', default: '0', min: 0, max: 99, description: 'Java major version to pick from the detected runtimes; 0 for any' },
+  { key: 'JVM_PROFILE', type: 'enum', group: 'Java', default: 'none', options: JVM_PROFILES, optionLabels: JVM_PROFILE_LABELS, description: "JVM flag preset: none, Aikar's G1 flags, ZGC, or custom (JVM_ARGS only)" },
+  { key: 'JVM_ARGS', type: 'text', group: 'Java', commandLine: true, description: 'Extra JVM flags, space separated' },
+  { key: 'JVM_PROPERTIES', type: 'text', group: 'Java', commandLine: true, description: 'System properties as key=value pairs separated by spaces (passed as -Dkey=value)' },
+  { key: 'GC_LOG', type: 'boolean', group: 'Java', default: 'false', description: 'Write a rotated GC log to logs/gc.log' },
+  { key: 'STOP_GRACE_SECONDS', type: 'integer', group: 'Stopping', default: '60', min: 0, description: 'Seconds to wait after the `stop` command before SIGTERM' },
+  { key: 'STOP_TERM_SECONDS', type: 'integer', group: 'Stopping', default: '15', min: 0, description: 'Seconds to wait after SIGTERM before SIGKILL' },
+  { key: 'AUTO_RESTART', type: 'boolean', group: 'Auto restart', default: 'false', description: 'Restart the server automatically after a crash' },
+  { key: 'AUTO_RESTART_MAX', type: 'integer', group: 'Auto restart', default: '5', min: 0, description: 'Restarts allowed within AUTO_RESTART_WINDOW_SECONDS' },
+  { key: 'AUTO_RESTART_WINDOW_SECONDS', type: 'integer', group: 'Auto restart', default: '600', min: 1, description: 'Window for AUTO_RESTART_MAX, in seconds' },
+  { key: 'AUTO_RESTART_BACKOFF_SECONDS', type: 'integer', group: 'Auto restart', default: '5', min: 0, description: 'First restart delay; doubles per consecutive crash' },
+  { key: 'AUTO_RESTART_MAX_BACKOFF_SECONDS', type: 'integer', group: 'Auto restart', default: '300', min: 0, description: 'Longest restart delay' },
+  { key: 'CRASH_LOOP_THRESHOLD', type: 'integer', group: 'Auto restart', default: '3', min: 1, description: 'Quick crashes in a row that count as a crash loop and stop auto restart' },
+  { key: 'CRASH_LOOP_QUICK_SECONDS', type: 'integer', group: 'Auto restart', default: '60', min: 0, description: 'A crash within this many seconds of starting counts as quick' },
+  { key: 'JAVA_IP', type: 'text', group: 'Network', description: 'Java Edition address shown on the dashboard' },
+  { key: 'BEDROCK_IP', type: 'text', group: 'Network', description: 'Bedrock Edition address (host:port), also pinged while the server runs' },
+  { key: 'ENABLE_PINGGY', type: 'boolean', group: 'Network', default: 'false', description: 'Pinggy tunnel for Java Edition' },
+  { key: 'ENABLE_PLAYIT', type: 'boolean', group: 'Network', default: 'false', description: 'Playit tunnel for Bedrock Edition' },
+  { key: 'METRICS_TOKEN', type: 'secret', group: 'Monitoring', description: 'Bearer token for /metrics without a login session' },
+  { key: 'INSTANCES', type: 'text', group: 'Instances', topLevelOnly: true, description: 'Additional instance ids, comma separated (e.g. survival,creative); takes effect after a panel restart' },
+];
+
+export const CONFIG_VERSION = 1;
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  { version: 1, description: 'Record CONFIG_VERSION', renames: {} },
+];
+
+export const INSTANCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+export const SHELL_METACHARACTERS = /[;&|`$<>(){}[\]\\'"*?!~#\r\n]/;
+
+const CONFIG_VERSION_KEY = 'CONFIG_VERSION';
+const FIELDS = new Map<string, ConfigField>(CONFIG_SCHEMA.map((field) => [field.key, field]));
+
+/**
+ * Schema entry of KEY or <id>.KEY
+ */
+export function getConfigField(key: string): ConfigField | undefined {
+  return FIELDS.get(key) ?? FIELDS.get(key.slice(key.indexOf('.') + 1));
+}
+
+/**
+ * Default of a key as written in config.panel ('' when it has none)
+ */
+export function configDefault(key: ConfigKey): string {
+  return FIELDS.get(key)?.default ?? '';
+}
+
+export function parseKeyValue(content: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const idx = line.indexOf('=');
+    if (idx === -1) continue;
+    const key = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    if (key) map[key] = value;
+  }
+  return map;
+}
+
+// Helper to validate memory values like 512M or 1G and to compare
+export function parseRamToMB(v: string): number | null {
+  if (!v) return null;
+  const m = String(v).trim();
+  const g = m.match(/^([0-9]+)\s*[Gg]$/);
+  if (g) return parseInt(g[1], 10) * 1024;
+  const mm = m.match(/^([0-9]+)\s*[Mm]$/);
+  if (mm) return parseInt(mm[1], 10);
+  const num = m.match(/^([0-9]+)$/);
+  if (num) return parseInt(num[1], 10);
+  return null;
+}
+
+/**
+ * Error message if a command line value contains a shell metacharacter
+ */
+export function findShellMetacharacter(key: string, value: string | undefined): string | null {
+  const match = value?.match(SHELL_METACHARACTERS);
+  return match ? `${key} must not contain shell metacharacters (found ${JSON.stringify(match[0])})` : null;
+}
+
+/**
+ * Index of the line that sets a key, or -1
+ */
+function findKeyLine(lines: string[], key: string): number {
+  return lines.findIndex((line) => {
+    const trimmed = line.trim();
+    return !trimmed.startsWith('#') && trimmed.includes('=') && trimmed.slice(0, trimmed.indexOf('=')).trim() === key;
+  });
+}
+
+/**
+ * Set a key in config.panel content, keeping comments and order
+ * A new key is appended with its description as a comment; an empty value
+ * for a missing key changes nothing
+ */
+export function setConfigValue(content: string, key: string, value: string): string {
+  const lines = content.split('\n');
+  const index = findKeyLine(lines, key);
+  if (index !== -1) {
+    lines[index] = `${key}=${value}`;
+    return lines.join('\n');
+  }
+  if (!value) return content;
+  const description = getConfigField(key)?.description;
+  const block = [...(description ? [`# ${description}`] : []), `${key}=${value}`].join('\n');
+  const body = content.replace(/\n*$/, '');
+  return body ? `${body}\n\n${block}\n` : `${block}\n`;
+}
+
+/**
+ * Apply the migrations newer than the content's CONFIG_VERSION
+ * Renamed keys keep their value and position; if the new key is already
+ * set, the old line is commented out
+ */
+export function migrateConfigContent(content: string): { content: string; applied: ConfigMigration[] } {
+  const version = parseInt(parseKeyValue(content)[CONFIG_VERSION_KEY] || '0', 10) || 0;
+  const applied = CONFIG_MIGRATIONS.filter((migration) => migration.version > version).sort((a, b) => a.version - b.version);
+  if (applied.length === 0) return { content, applied };
+
+  const lines = content.split('\n');
+  for (const migration of applied) {
+    const renames = new Map(Object.entries(migration.renames));
+    for (const [index, line] of lines.entries()) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('#') || !trimmed.includes('=')) continue;
+      const key = trimmed.slice(0, trimmed.indexOf('=')).trim();
+      const dot = key.indexOf('.');
+      const prefix = dot === -1 ? '' : key.slice(0, dot + 1);
+      const renamed = renames.get(key.slice(prefix.length));
+      if (!renamed) continue;
+      const newKey = `${prefix}${renamed}`;
+      const value = trimmed.slice(trimmed.indexOf('=') + 1).trim();
+      lines[index] = findKeyLine(lines, newKey) === -1
+        ? `${newKey}=${value}`
+        : `# ${key}=${value} (renamed to ${newKey}, which is already set)`;
+    }
+  }
+
+  const migrated = lines.join('\n');
+  if (findKeyLine(lines, CONFIG_VERSION_KEY) !== -1) {
+    return { content: setConfigValue(migrated, CONFIG_VERSION_KEY, String(CONFIG_VERSION)), applied };
+  }
+  const body = migrated.replace(/\n*$/, '');
+  const block = `# Format version of this file, updated by the panel\n${CONFIG_VERSION_KEY}=${CONFIG_VERSION}\n`;
+  return { content: body ? `${body}\n\n${block}` : block, applied };
+}
+
+function checkValue(field: ConfigField, key: string, value: string): string | null {
+  if (!value) return null;
+  switch (field.type) {
+    case 'integer': {
+      if (!/^\d+$/.test(value)) return `${key} must be a whole number`;
+      const n = parseInt(value, 10);
+      if (field.min !== undefined && n < field.min) return `${key} must be at least ${field.min}`;
+      if (field.max !== undefined && n > field.max) return `${key} must be at most ${field.max}`;
+      return null;
+    }
+    case 'boolean':
+      return /^(true|false)$/i.test(value) ? null : `${key} must be true or false`;
+    case 'ram':
+      return parseRamToMB(value) ? null : `${key} must be a size like 512M or 2G`;
+    case 'enum':
+      return field.options?.includes(value.toLowerCase()) ? null : `${key} must be one of: ${field.options?.join(', ')}`;
+    default:
+      return field.commandLine ? findShellMetacharacter(key, value) : null;
+  }
+}
+
+/**
+ * Check config.panel values against the schema: types, ranges, required
+ * keys, MIN_RAM <= MAX_RAM and instance ids (the files on disk are not checked)
+ */
+export function validateConfigValues(values: Record<string, string>): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const instanceIds = (values.INSTANCES || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+  for (const [key, value] of Object.entries(values)) {
+    if (key === CONFIG_VERSION_KEY) continue;
+    const dot = key.indexOf('.');
+    const field = getConfigField(key);
+    if (!field || (dot !== -1 && (field.topLevelOnly || !FIELDS.has(key.slice(dot + 1))))) {
+      issues.push({ key, level: 'warning', message: `Unknown key ${key}` });
+      continue;
+    }
+    if (dot !== -1 && !instanceIds.includes(key.slice(0, dot))) {
+      issues.push({ key, level: 'warning', message: `${key} belongs to '${key.slice(0, dot)}', which is not in INSTANCES` });
+    }
+    const message = checkValue(field, key, value);
+    if (message) issues.push({ key, level: 'error', message });
+  }
+
+  for (const field of CONFIG_SCHEMA) {
+    if (field.required && !values[field.key]) {
+      issues.push({ key: field.key, level: 'error', message: `${field.key} is required` });
+    }
+  }
+
+  for (const id of instanceIds) {
+    if (!INSTANCE_ID_PATTERN.test(id)) {
+      issues.push({ key: 'INSTANCES', level: 'error', message: `Invalid instance id '${id}': use lowercase letters, digits, - and _` });
+    }
+  }
+
+  // Instances inherit top-level RAM settings, so each effective pair is compared
+  for (const prefix of ['', ...instanceIds.filter((id) => INSTANCE_ID_PATTERN.test(id)).map((id) => `${id}.`)]) {
+    const minRaw = values[`${prefix}MIN_RAM`] || values.MIN_RAM || configDefault('MIN_RAM');
+    const maxRaw = values[`${prefix}MAX_RAM`] || values.MAX_RAM || configDefault('MAX_RAM');
+    const minMB = parseRamToMB(minRaw);
+    const maxMB = parseRamToMB(maxRaw);
+    if (minMB !== null && maxMB !== null && minMB > maxMB) {
+      issues.push({ key: `${prefix}MIN_RAM`, level: 'error', message: `${prefix}MIN_RAM (${minRaw}) must be <= MAX_RAM (${maxRaw})` });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,215 @@
+/**
+ * Crash Reports
+ *
+ * Finds and parses what a dying server leaves in its MC_DIR:
+ *   crash-reports/crash-<date>-server.txt   (Minecraft crash reports)
+ *   hs_err_pid<pid>.log                     (fatal JVM errors)
+ * Only files written during the run session that ended are picked up, so
+ * a crash is linked to the reports it produced.
+ *
+ * The crash history itself is kept in crashes.json: data/crashes for the
+ * default instance, data/crashes/<id> for other instances.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_INSTANCE_ID, getInstanceDir } from '../config';
+import type { CrashRecord } from './statusManager';
+
+export interface CrashReport {
+  /** Path relative to MC_DIR */
+  file: string;
+  kind: 'minecraft' | 'jvm';
+  /** ISO timestamp of the file */
+  time: string;
+  description?: string;
+  /** First line of the exception ("java.lang.NullPointerException: ...") */
+  exception?: string;
+  /** Plugin / mod jars or native libraries found in the stack */
+  suspects: string[];
+}
+
+const CRASH_REPORTS_DIR = 'crash-reports';
+const JVM_ERROR_PATTERN = /^hs_err_pid\d+\.log$/;
+const CRASH_DIR = path.join(process.cwd(), 'data', 'crashes');
+// Crash reports are small; hs_err logs list memory maps after the interesting part
+const MAX_PARSE_BYTES = 256 * 1024;
+const MAX_VIEW_BYTES = 2 * 1024 * 1024;
+const MAX_SUSPECTS = 5;
+
+// Jars and packages of the server itself and the JDK, never suspects
+const SERVER_JAR_PATTERN = /^(paper|purpur|spigot|craftbukkit|bukkit|folia|pufferfish|minecraft|server|forge|neoforge|fabric|mohist|arclight|java\.base|patched_|fmlloader|securejarhandler|modlauncher|bootstraplauncher)/i;
+const SERVER_PACKAGE_PATTERN = /^(java|javax|jdk|sun|com\.sun|net\.minecraft|com\.mojang|org\.bukkit|org\.spigotmc|io\.papermc|com\.destroystokyo|co\.aikar|net\.md_5|org\.purpurmc|net\.minecraftforge|net\.neoforged|net\.fabricmc|cpw\.mods|org\.spongepowered|it\.unimi|com\.google|org\.apache|io\.netty|org\.slf4j|ca\.spottedleaf)\./;
+
+/**
+ * Suspected plugins / mods from the "at ..." frames of a stack trace:
+ * jar names that Paper and Forge print after each frame, or else the
+ * packages that do not belong to the server or the JDK
+ */
+function suspectsFromStack(lines: string[]): string[] {
+  const jars = new Set<string>();
+  const packages = new Set<string>();
+  for (const line of lines) {
+    const frame = line.trim().match(/^at (?:[\w.$-]+\/+)?([\w.$]+)\.[\w$<>]+\(.*?\)(?:.*?\[([^\]:]+?)(?::[^\]]*)?\])?/);
+    if (!frame) continue;
+    const [, className, jar] = frame;
+    if (jar) {
+      if (jar !== '?' && !SERVER_JAR_PATTERN.test(jar)) jars.add(jar);
+    } else if (!SERVER_PACKAGE_PATTERN.test(className + '.')) {
+      packages.add(className.split('.').slice(0, 3).join('.'));
+    }
+  }
+  return [...(jars.size > 0 ? jars : packages)].slice(0, MAX_SUSPECTS);
+}
+
+/**
+ * Parse a Minecraft crash report (crash-reports/*.txt)
+ */
+export function parseCrashReport(content: string): Pick<CrashReport, 'description' | 'exception' | 'suspects'> {
+  const lines = content.replace(/\r/g, '').split('\n');
+  const descriptionIndex = lines.findIndex((line) => line.startsWith('Description: '));
+  const description = descriptionIndex >= 0 ? lines[descriptionIndex].slice('Description: '.length).trim() : undefined;
+
+  // The exception follows the description after a blank line; its stack ends at the next blank line
+  let exception: string | undefined;
+  let stack: string[] = [];
+  const start = lines.findIndex((line, i) => i > descriptionIndex && line.trim() !== '');
+  if (descriptionIndex >= 0 && start >= 0) {
+    exception = lines[start].trim();
+    const end = lines.findIndex((line, i) => i > start && line.trim() === '');
+    stack = lines.slice(start + 1, end === -1 ? undefined : end);
+  }
+
+  // Forge and Fabric name the culprits themselves
+  const named = lines
+    .map((line) => line.match(/^\s*Suspected Mods?: (.+)$/)?.[1].trim())
+    .filter((value): value is string => !!value && value !== 'NONE' && value !== 'None')
+    .flatMap((value) => value.split(',').map((s) => s.trim()));
+
+  return {
+    ...(description ? { description } : {}),
+    ...(exception ? { exception } : {}),
+    suspects: named.length > 0 ? named.slice(0, MAX_SUSPECTS) : suspectsFromStack(stack),
+  };
+}
+
+/**
+ * Parse a fatal JVM error log (hs_err_pid*.log)
+ */
+export function parseJvmErrorLog(content: string): Pick<CrashReport, 'description' | 'exception' | 'suspects'> {
+  const lines = content.replace(/\r/g, '').split('\n');
+  const header = lines.filter((line) => line.startsWith('#')).map((line) => line.replace(/^#\s*/, '').trim());
+
+  const outOfMemory = header.find((line) => line.startsWith('There is insufficient memory'));
+  const signal = header.find((line) => /^(SIG[A-Z]+|EXCEPTION_[A-Z_]+|Internal Error)/.test(line));
+  const frameIndex = header.findIndex((line) => line.startsWith('Problematic frame:'));
+  const frame = frameIndex >= 0 ? header[frameIndex + 1] : undefined;
+  // "C  [libfoo.so+0x1234]  symbol" → libfoo.so
+  const library = frame?.match(/\[([^\]+]+)/)?.[1];
+
+  return {
+    description: outOfMemory ?? 'Fatal error in the Java Runtime Environment',
+    ...(signal ? { exception: signal } : {}),
+    suspects: library && !/^libjvm|^jvm\.dll/.test(library) ? [library] : [],
+  };
+}
+
+async function readHead(file: string, bytes: number): Promise<string> {
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead).toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Crash reports and JVM error logs written since `sinceMs`, oldest first
+ */
+export async function findCrashReports(instanceId: string, sinceMs: number): Promise<CrashReport[]> {
+  const mcDir = await getInstanceDir(instanceId);
+  const candidates: { file: string; kind: CrashReport['kind'] }[] = [];
+
+  const list = async (dir: string) => {
+    try {
+      return await fs.promises.readdir(dir);
+    } catch {
+      return [];
+    }
+  };
+  for (const name of await list(path.join(mcDir, CRASH_REPORTS_DIR))) {
+    if (name.endsWith('.txt')) candidates.push({ file: `${CRASH_REPORTS_DIR}/${name}`, kind: 'minecraft' });
+  }
+  for (const name of await list(mcDir)) {
+    if (JVM_ERROR_PATTERN.test(name)) candidates.push({ file: name, kind: 'jvm' });
+  }
+
+  const reports: CrashReport[] = [];
+  for (const { file, kind } of candidates) {
+    const fullPath = path.join(mcDir, file);
+    try {
+      const stat = await fs.promises.stat(fullPath);
+      if (!stat.isFile() || stat.mtimeMs < sinceMs) continue;
+      const content = await readHead(fullPath, MAX_PARSE_BYTES);
+      reports.push({
+        file,
+        kind,
+        time: stat.mtime.toISOString(),
+        ...(kind === 'jvm' ? parseJvmErrorLog(content) : parseCrashReport(content)),
+      });
+    } catch (error) {
+      console.error(`[CrashReports:${instanceId}] Failed to read ${file}:`, error);
+    }
+  }
+  return reports.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Full text of a crash report or JVM error log (large files are cut off)
+ */
+export async function readCrashReportFile(instanceId: string, file: string): Promise<string> {
+  const [dir, name, ...rest] = file.split('/');
+  const valid = rest.length === 0 && (
+    (name !== undefined && dir === CRASH_REPORTS_DIR && name.endsWith('.txt') && !name.startsWith('.')) ||
+    (name === undefined && JVM_ERROR_PATTERN.test(dir))
+  );
+  if (!valid) {
+    throw new Error(`Not a crash report: ${file}`);
+  }
+  const fullPath = path.join(await getInstanceDir(instanceId), file);
+  const content = await readHead(fullPath, MAX_VIEW_BYTES);
+  return content.length >= MAX_VIEW_BYTES ? `${content}\n… (cut off)` : content;
+}
+
+function crashHistoryFile(instanceId: string): string {
+  const dir = instanceId === DEFAULT_INSTANCE_ID ? CRASH_DIR : path.join(CRASH_DIR, instanceId);
+  return path.join(dir, 'crashes.json');
+}
+
+/**
+ * Load the saved crash history of an instance (oldest first)
+ */
+export async function loadCrashHistory(instanceId: string): Promise<CrashRecord[]> {
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(crashHistoryFile(instanceId), 'utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[CrashReports:${instanceId}] Failed to read crash history:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Save the crash history of an instance
+ */
+export async function saveCrashHistory(instanceId: string, crashes: CrashRecord[]): Promise<void> {
+  const file = crashHistoryFile(instanceId);
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(crashes, null, 2) + '\n', 'utf8');
+  await fs.promises.rename(tmp, file);
+}
@@ -0,0 +1,121 @@
+/**
+ * Server Instances
+ *
+ * The panel can manage several Minecraft servers, e.g. survival, creative
+ * and test. Every instance from config.panel (see listInstances) gets its
+ * own process supervisor, status manager, metrics collector, tick monitor,
+ * metrics store, player tracker, moderation records and backup service.
+ *
+ * Instances are read once at startup; adding or removing one in
+ * config.panel takes effect after a panel restart. Per-instance settings
+ * (jar, RAM, auto restart, ...) are re-read on every start as before.
+ */
+
+import { DEFAULT_INSTANCE_ID, listInstances } from '../config';
+import { ServerProcess } from './serverProcess';
+import { StatusManager } from './statusManager';
+import { MetricsCollector } from './metricsCollector';
+import { TickMonitor } from './tickMonitor';
+import { MetricsStore } from './metricsStore';
+import { PlayerTracker } from './playerTracker';
+import { ModerationManager } from './moderation';
+import { S3BackupService } from './s3Backup';
+
+export interface ServerInstance {
+  id: string;
+  name: string;
+  process: ServerProcess;
+  status: StatusManager;
+  metrics: MetricsCollector;
+  ticks: TickMonitor;
+  store: MetricsStore;
+  players: PlayerTracker;
+  moderation: ModerationManager;
+  backup: S3BackupService;
+}
+
+class InstanceManager {
+  private instances = new Map<string, ServerInstance>();
+  private initPromise: Promise<void> | null = null;
+
+  /**
+   * Create and initialize all configured instances; safe to call more than once
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    for (const { id, name } of await listInstances()) {
+      const serverProcess = new ServerProcess(id);
+      const status = new StatusManager(id, serverProcess);
+      const metrics = new MetricsCollector(id, serverProcess);
+      const ticks = new TickMonitor(id, serverProcess, status);
+      const store = new MetricsStore(id, metrics, ticks, status);
+      const players = new PlayerTracker(id, serverProcess);
+      const moderation = new ModerationManager(id, serverProcess, status);
+
+      await status.initialize();
+      metrics.initialize();
+      ticks.initialize();
+      players.initialize();
+      try {
+        await store.initialize();
+      } catch (error) {
+        console.error(`[Instances] Failed to initialize metrics store of '${id}':`, error);
+      }
+      await moderation.initialize();
+
+      this.instances.set(id, {
+        id,
+        name,
+        process: serverProcess,
+        status,
+        metrics,
+        ticks,
+        store,
+        players,
+        moderation,
+        backup: new S3BackupService(id),
+      });
+    }
+    console.log(`[Instances] Loaded ${this.instances.size} instance(s): ${[...this.instances.keys()].join(', ')}`);
+  }
+
+  /**
+   * Look up an instance; a missing id means the default instance
+   */
+  get(id?: string | null): ServerInstance | null {
+    return this.instances.get(id || DEFAULT_INSTANCE_ID) ?? null;
+  }
+
+  /**
+   * All instances, default first
+   */
+  list(): ServerInstance[] {
+    return [...this.instances.values()];
+  }
+
+  /**
+   * Clean up resources of all instances (pending metrics are written first)
+   */
+  async destroy(): Promise<void> {
+    await Promise.all(this.list().map(async (instance) => {
+      instance.backup.stopAutoBackup();
+      instance.ticks.destroy();
+      instance.metrics.destroy();
+      instance.status.destroy();
+      await instance.store.destroy();
+      await instance.players.destroy();
+      await instance.moderation.destroy();
+    }));
+  }
+}
+
+// Export singleton instance (shared with Next.js route bundles via globalThis)
+const globalForInstances = globalThis as unknown as { instanceManager?: InstanceManager };
+export const instanceManager = globalForInstances.instanceManager ?? new InstanceManager();
+globalForInstances.instanceManager = instanceManager;
@@ -0,0 +1,135 @@
+/**
+ * Java Runtime Discovery
+ *
+ * Finds the JDKs / JREs installed on the machine:
+ *   $JAVA_HOME
+ *   /usr/lib/jvm/*                         (Debian / Ubuntu / Fedora packages)
+ *   $SDKMAN_DIR/candidates/java/*          (sdkman, ~/.sdkman by default)
+ * and reads the version and vendor from each one's `release` file.
+ *
+ * config.panel picks the runtime of an instance with JAVA_PATH (a Java
+ * home or its bin/java) or JAVA_VERSION (a major version); without
+ * either, `java` from PATH is used as before.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { selectJavaRuntime, type PanelConfig } from '../config';
+import { getJavaMajorVersion } from './serverSoftware';
+
+export interface JavaRuntime {
+  /** Java home folder */
+  home: string;
+  /** Path of bin/java */
+  executable: string;
+  /** Full version ("21.0.2", "1.8.0_392") */
+  version: string;
+  major: number;
+  vendor?: string;
+  source: 'JAVA_PATH' | 'JAVA_HOME' | 'jvm' | 'sdkman';
+}
+
+const JVM_DIRS = ['/usr/lib/jvm'];
+
+/**
+ * KEY="value" pairs of a Java home's release file
+ */
+function parseRelease(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z_]+)=\s*"?(.*?)"?\s*$/);
+    if (match) result[match[1]] = match[2];
+  }
+  return result;
+}
+
+/**
+ * Major version of a Java version string ("1.8.0_392" → 8, "21.0.2" → 21)
+ */
+export function javaMajorVersion(version: string): number | null {
+  const match = version.match(/^(\d+)(?:\.(\d+))?/);
+  if (!match) return null;
+  return match[1] === '1' ? parseInt(match[2] ?? '0', 10) : parseInt(match[1], 10);
+}
+
+/**
+ * Describe the runtime at a Java home, or at a bin/java inside one
+ */
+export async function inspectJavaRuntime(location: string, source: JavaRuntime['source']): Promise<JavaRuntime | null> {
+  let home: string;
+  try {
+    const real = await fs.promises.realpath(location);
+    home = (await fs.promises.stat(real)).isDirectory() ? real : path.dirname(path.dirname(real));
+  } catch {
+    return null;
+  }
+  const executable = path.join(home, 'bin', 'java');
+  try {
+    await fs.promises.access(executable, fs.constants.X_OK);
+  } catch {
+    return null;
+  }
+
+  const release = parseRelease(await fs.promises.readFile(path.join(home, 'release'), 'utf8').catch(() => ''));
+  const version = release.JAVA_VERSION || release.JAVA_RUNTIME_VERSION;
+  const major = version ? javaMajorVersion(version) : await getJavaMajorVersion(executable);
+  if (!major) return null;
+  return {
+    home,
+    executable,
+    version: version || String(major),
+    major,
+    vendor: release.IMPLEMENTOR || undefined,
+    source,
+  };
+}
+
+async function listSubdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => (entry.isDirectory() || entry.isSymbolicLink()) && entry.name !== 'current')
+      .map((entry) => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Java runtimes installed on this machine, newest major version first
+ * Homes reached through several links (e.g. default-java) are listed once
+ */
+export async function discoverJavaRuntimes(): Promise<JavaRuntime[]> {
+  const sdkmanDir = process.env.SDKMAN_DIR || path.join(os.homedir(), '.sdkman');
+  const candidates: { location: string; source: JavaRuntime['source'] }[] = [
+    ...(process.env.JAVA_HOME ? [{ location: process.env.JAVA_HOME, source: 'JAVA_HOME' as const }] : []),
+    ...(await Promise.all(JVM_DIRS.map(listSubdirectories))).flat().map((location) => ({ location, source: 'jvm' as const })),
+    ...(await listSubdirectories(path.join(sdkmanDir, 'candidates', 'java'))).map((location) => ({ location, source: 'sdkman' as const })),
+  ];
+
+  const runtimes = new Map<string, JavaRuntime>();
+  for (const { location, source } of candidates) {
+    const runtime = await inspectJavaRuntime(location, source);
+    if (runtime && !runtimes.has(runtime.home)) runtimes.set(runtime.home, runtime);
+  }
+  return [...runtimes.values()].sort((a, b) => b.major - a.major || a.home.localeCompare(b.home));
+}
+
+/**
+ * Discovered runtimes, led by the one JAVA_PATH points at (source 'JAVA_PATH')
+ */
+export async function findJavaRuntimes(config: PanelConfig): Promise<JavaRuntime[]> {
+  const runtimes = await discoverJavaRuntimes();
+  const configured = config.JAVA_PATH ? await inspectJavaRuntime(config.JAVA_PATH, 'JAVA_PATH') : null;
+  if (!configured) return runtimes;
+  return [configured, ...runtimes.filter((runtime) => runtime.home !== configured.home)];
+}
+
+/**
+ * Java executable an instance starts with: its selected runtime, or `java` from PATH
+ */
+export async function getJavaCommand(config: PanelConfig): Promise<string> {
+  if (!config.JAVA_PATH && !config.JAVA_VERSION) return 'java';
+  return selectJavaRuntime(config, await findJavaRuntimes(config))?.executable ?? 'java';
+}
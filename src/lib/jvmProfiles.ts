@@ -0,0 +1,72 @@
+/**
+ * JVM Flag Profiles
+ *
+ * Presets for JVM_PROFILE in config.panel (see launchCommand.ts):
+ *   none     only -Xms / -Xmx
+ *   aikar    Aikar's G1 flags (https://docs.papermc.io/paper/aikars-flags)
+ *   zgc      ZGC, generational on Java 21 / 22
+ *   custom   only what JVM_ARGS lists
+ * Kept free of Node imports so the config page can list them.
+ */
+
+export const JVM_PROFILES = ['none', 'aikar', 'zgc', 'custom'] as const;
+
+export type JvmProfile = (typeof JVM_PROFILES)[number];
+
+export const JVM_PROFILE_LABELS: Record<JvmProfile, string> = {
+  none: 'None (-Xms / -Xmx only)',
+  aikar: "Aikar's G1 flags",
+  zgc: 'ZGC',
+  custom: 'Custom (JVM_ARGS)',
+};
+
+// Aikar's flags use bigger young generation settings above 12 GB
+const AIKAR_LARGE_HEAP_MB = 12 * 1024;
+
+export function isJvmProfile(value: string): value is JvmProfile {
+  return (JVM_PROFILES as readonly string[]).includes(value);
+}
+
+/**
+ * Flags of a profile for the given maximum heap and Java major version (null if unknown)
+ */
+export function jvmProfileFlags(profile: JvmProfile, maxRamMB: number, javaMajor: number | null): string[] {
+  switch (profile) {
+    case 'aikar': {
+      const large = maxRamMB > AIKAR_LARGE_HEAP_MB;
+      return [
+        '-XX:+UseG1GC',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:MaxGCPauseMillis=200',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+DisableExplicitGC',
+        '-XX:+AlwaysPreTouch',
+        `-XX:G1NewSizePercent=${large ? 40 : 30}`,
+        `-XX:G1MaxNewSizePercent=${large ? 50 : 40}`,
+        `-XX:G1HeapRegionSize=${large ? '16M' : '8M'}`,
+        `-XX:G1ReservePercent=${large ? 15 : 20}`,
+        '-XX:G1HeapWastePercent=5',
+        '-XX:G1MixedGCCountTarget=4',
+        `-XX:InitiatingHeapOccupancyPercent=${large ? 20 : 15}`,
+        '-XX:G1MixedGCLiveThresholdPercent=90',
+        '-XX:G1RSetUpdatingPauseTimePercent=5',
+        '-XX:SurvivorRatio=32',
+        '-XX:+PerfDisableSharedMem',
+        '-XX:MaxTenuringThreshold=1',
+        '-Dusing.aikars.flags=https://mcflags.emc.gs',
+        '-Daikars.new.flags=true',
+      ];
+    }
+    case 'zgc':
+      return [
+        '-XX:+UseZGC',
+        // Generational ZGC is opt-in on 21 / 22 and the only mode from 23 on
+        ...(javaMajor === 21 || javaMajor === 22 ? ['-XX:+ZGenerational'] : []),
+        '-XX:+AlwaysPreTouch',
+        '-XX:+DisableExplicitGC',
+        '-XX:+PerfDisableSharedMem',
+      ];
+    default:
+      return [];
+  }
+}
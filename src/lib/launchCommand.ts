@@ -0,0 +1,133 @@
+/**
+ * Server Launch Command
+ *
+ * Builds the command line an instance is started with, from config.panel:
+ *
+ *   <java> -Xms<MIN_RAM> -Xmx<MAX_RAM> <JVM_PROFILE flags> <JVM_ARGS>
+ *     -D<JVM_PROPERTIES>... <GC_LOG flags> -jar <JAR_NAME> nogui <SERVER_ARGS>
+ *
+ * <java> is the runtime picked by JAVA_PATH / JAVA_VERSION (see
+ * javaRuntimes.ts) or `java` from PATH. The server is spawned without a
+ * shell, but the values are still refused if they contain shell
+ * metacharacters, so the previewed command line is safe to paste and
+ * means the same as what is run.
+ */
+
+import { selectJavaRuntime, validateConfig, type PanelConfig } from '../config';
+import { CONFIG_SCHEMA, findShellMetacharacter, parseRamToMB } from './configSchema';
+import { findJavaRuntimes } from './javaRuntimes';
+import { getJavaMajorVersion } from './serverSoftware';
+import { isJvmProfile, jvmProfileFlags, JVM_PROFILES } from './jvmProfiles';
+
+export interface LaunchSpec {
+  command: string;
+  args: string[];
+  cwd: string;
+}
+
+export interface JavaCommand {
+  command: string;
+  /** Major version, null if unknown */
+  major: number | null;
+}
+
+// Keys whose values end up on the command line
+const LAUNCH_KEYS = CONFIG_SCHEMA.filter((field) => field.commandLine).map((field) => field.key);
+const PROPERTY_PATTERN = /^[\w.-]+(=\S*)?$/;
+const GC_LOG_FILE = 'logs/gc.log';
+
+function splitArgs(value: string | undefined): string[] {
+  return (value || '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Check the JVM profile, arguments and properties of a config
+ */
+export function validateLaunchOptions(config: PanelConfig): string | null {
+  for (const key of LAUNCH_KEYS) {
+    const unsafe = findShellMetacharacter(key, String(config[key as keyof PanelConfig] ?? ''));
+    if (unsafe) return unsafe;
+  }
+
+  const profile = config.JVM_PROFILE || 'none';
+  if (!isJvmProfile(profile)) return `Unknown JVM_PROFILE '${profile}'. Use one of: ${JVM_PROFILES.join(', ')}`;
+  const jvmArgs = splitArgs(config.JVM_ARGS);
+  if (profile === 'custom' && jvmArgs.length === 0) return 'JVM_PROFILE=custom needs the flags in JVM_ARGS';
+  const notFlag = jvmArgs.find((arg) => !arg.startsWith('-') || arg === '-jar');
+  if (notFlag) return `JVM_ARGS may only hold JVM flags, not '${notFlag}'`;
+  const badProperty = splitArgs(config.JVM_PROPERTIES).find((property) => !PROPERTY_PATTERN.test(property));
+  if (badProperty) return `Invalid JVM_PROPERTIES entry '${badProperty}'. Use key=value pairs separated by spaces.`;
+  return null;
+}
+
+function gcLogFlags(javaMajor: number | null): string[] {
+  if (javaMajor !== null && javaMajor < 9) {
+    return [
+      `-Xloggc:${GC_LOG_FILE}`,
+      '-XX:+PrintGCDetails',
+      '-XX:+PrintGCDateStamps',
+      '-XX:+UseGCLogFileRotation',
+      '-XX:NumberOfGCLogFiles=5',
+      '-XX:GCLogFileSize=10M',
+    ];
+  }
+  return [`-Xlog:gc*:file=${GC_LOG_FILE}:time,uptime:filecount=5,filesize=10M`];
+}
+
+/**
+ * Build the launch spec from a (validated) config and the Java to run it with
+ */
+export function buildLaunchSpec(config: PanelConfig, java: JavaCommand = { command: 'java', major: null }): LaunchSpec {
+  const minRam = (config.MIN_RAM || '1G').trim();
+  const maxRam = (config.MAX_RAM || '2G').trim();
+  const profile = config.JVM_PROFILE && isJvmProfile(config.JVM_PROFILE) ? config.JVM_PROFILE : 'none';
+
+  return {
+    command: java.command,
+    args: [
+      `-Xms${minRam}`,
+      `-Xmx${maxRam}`,
+      ...jvmProfileFlags(profile, parseRamToMB(maxRam) ?? 0, java.major),
+      ...splitArgs(config.JVM_ARGS),
+      ...splitArgs(config.JVM_PROPERTIES).map((property) => `-D${property}`),
+      ...(config.GC_LOG ? gcLogFlags(java.major) : []),
+      '-jar',
+      config.JAR_NAME,
+      'nogui',
+      ...splitArgs(config.SERVER_ARGS),
+    ],
+    cwd: config.MC_DIR,
+  };
+}
+
+/**
+ * Validate a config and build its launch spec with the selected Java runtime
+ * Throws with the validation message if the config cannot be started
+ */
+export async function resolveLaunchSpec(config: PanelConfig): Promise<LaunchSpec> {
+  // Runtimes are only looked up when config.panel asks for a specific one
+  const runtimes = config.JAVA_PATH || config.JAVA_VERSION ? await findJavaRuntimes(config) : undefined;
+  const validation = validateConfig(config, runtimes);
+  if (!validation.ok) {
+    throw new Error(validation.error);
+  }
+  const invalid = validateLaunchOptions(config);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  const runtime = runtimes ? selectJavaRuntime(config, runtimes) : null;
+  const command = runtime?.executable ?? 'java';
+  return buildLaunchSpec(config, { command, major: runtime?.major ?? (await getJavaMajorVersion(command)) });
+}
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The launch spec as a shell command line, e.g. for a preview
+ */
+export function formatLaunchCommand(spec: LaunchSpec): string {
+  return `(cd ${shellQuote(spec.cwd)} && ${[spec.command, ...spec.args].map(shellQuote).join(' ')})`;
+}
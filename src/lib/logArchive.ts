@@ -0,0 +1,552 @@
+/**
+ * Server Log Archive
+ *
+ * Lists, searches and tails the log files in <MC_DIR>/logs: latest.log
+ * plus the archives the server rolls over on every start
+ * (YYYY-MM-DD-N.log.gz). Files are always read as streams, and archives
+ * are decompressed on the fly, so large logs are never loaded whole.
+ *
+ * Log lines only carry a time of day ("[12:00:00] [Server thread/INFO]:"
+ * or Paper's "[12:00:00 INFO]:"). The date comes from the archive name, or
+ * from the creation time of latest.log, and moves on a day whenever the
+ * time of day goes backwards. Lines without a prefix (stack traces) take
+ * the time and level of the line before them.
+ *
+ * Queries match as plain text. Regular expressions are opt-in and run in
+ * a worker thread with a time limit, so a catastrophic pattern cannot
+ * stall the event loop that supervises the server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Worker } from 'worker_threads';
+import { getInstanceConfig } from '../config';
+
+export const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const LATEST_LOG = 'latest.log';
+
+export interface LogFile {
+  name: string;
+  size: number;
+  /** ISO timestamp of the last modification */
+  modified: string;
+  compressed: boolean;
+  /** Day the log belongs to (YYYY-MM-DD), from the archive name */
+  date: string | null;
+}
+
+export interface LogMatch {
+  file: string;
+  /** 1-based line number in the (decompressed) file */
+  line: number;
+  /** ISO timestamp, missing for lines before the first timestamped one */
+  time?: string;
+  level?: LogLevel;
+  text: string;
+}
+
+export interface LogSearchOptions {
+  /** Text matched case-insensitively */
+  query?: string;
+  /** Treat query as a regular expression */
+  regex?: boolean;
+  levels?: LogLevel[];
+  /** ISO timestamps bounding the line times */
+  from?: string;
+  to?: string;
+  /** Only search this file */
+  file?: string;
+  /** nextCursor of the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface LogSearchResult {
+  matches: LogMatch[];
+  /** Resume point for the next page; null once every file has been read */
+  nextCursor: string | null;
+}
+
+const ARCHIVE_PATTERN = /^(\d{4}-\d{2}-\d{2})-(\d+)\.log\.gz$/;
+const LINE_PREFIX_PATTERN = /^\[(\d{2}):(\d{2}):(\d{2})(?: ([A-Z]+))?\](?: \[[^\]]*?\/([A-Z]+)\])?/;
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_SEARCH_LIMIT = 200;
+const MAX_SEARCH_LIMIT = 1000;
+// Lines read per request, so a search across years of archives returns in pages
+const MAX_LINES_PER_SEARCH = 500_000;
+// Lines handed to the regex worker at once, and how long it may take for them
+const MATCH_BATCH_LINES = 2000;
+const REGEX_TIMEOUT_MS = 2000;
+// Bounds for reading untrusted files (anyone with files:write can upload a
+// gzip bomb into logs/): longer lines are cut, larger files are not read further
+const MAX_LINE_LENGTH = 16 * 1024;
+const MAX_LOG_TEXT_LENGTH = 1024 * 1024 * 1024;
+const TAIL_POLL_MS = 1000;
+const TAIL_CHUNK_BYTES = 64 * 1024;
+// Bytes read backwards for the initial tail, and per poll while following
+const MAX_TAIL_BACKLOG_BYTES = 4 * 1024 * 1024;
+const MAX_TAIL_BYTES_PER_POLL = 1024 * 1024;
+const MAX_TAIL_LINES = 1000;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * logs folder of an instance, from its configured MC_DIR
+ */
+export async function getLogsDir(instanceId: string): Promise<string> {
+  const config = await getInstanceConfig(instanceId);
+  if (!config.MC_DIR) {
+    throw new Error('MC_DIR is missing in config.panel');
+  }
+  return path.join(config.MC_DIR, 'logs');
+}
+
+function isLogFileName(name: string): boolean {
+  return name.endsWith('.log') || name.endsWith('.log.gz');
+}
+
+/**
+ * Resolve a log file name inside the logs folder (no sub folders or traversal)
+ */
+async function resolveLogFile(instanceId: string, name: string): Promise<string> {
+  if (!name || name !== path.basename(name) || name.startsWith('.') || !isLogFileName(name)) {
+    throw new Error(`Invalid log file: ${name}`);
+  }
+  return path.join(await getLogsDir(instanceId), name);
+}
+
+/**
+ * Log files of an instance: latest.log first, then archives newest first
+ */
+export async function listLogs(instanceId: string): Promise<LogFile[]> {
+  const dir = await getLogsDir(instanceId);
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const files: (LogFile & { index: number })[] = [];
+  for (const name of names.filter(isLogFileName)) {
+    try {
+      const stat = await fs.promises.stat(path.join(dir, name));
+      if (!stat.isFile()) continue;
+      const archive = name.match(ARCHIVE_PATTERN);
+      files.push({
+        name,
+        size: stat.size,
+        modified: stat.mtime.toISOString(),
+        compressed: name.endsWith('.gz'),
+        date: archive ? archive[1] : null,
+        index: archive ? parseInt(archive[2], 10) : 0,
+      });
+    } catch {
+      // Rotated away while listing
+    }
+  }
+
+  const rank = (file: LogFile) => (file.name === LATEST_LOG ? 0 : file.date ? 1 : 2);
+  return files
+    .sort((a, b) =>
+      rank(a) - rank(b) ||
+      (b.date ?? '').localeCompare(a.date ?? '') ||
+      b.index - a.index ||
+      b.modified.localeCompare(a.modified)
+    )
+    .map(({ name, size, modified, compressed, date }) => ({ name, size, modified, compressed, date }));
+}
+
+/**
+ * Lines of a log file, decompressing .gz archives while reading
+ * Lines are cut at MAX_LINE_LENGTH and reading stops after
+ * MAX_LOG_TEXT_LENGTH characters, so memory stays bounded for any input
+ */
+async function* readLogLines(file: string): AsyncGenerator<string> {
+  const input = fs.createReadStream(file);
+  const stream = file.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input;
+  stream.setEncoding('utf8');
+  let partial = '';
+  // The rest of an over-long line is dropped up to its line break
+  let skipping = false;
+  let total = 0;
+  try {
+    for await (let chunk of stream as AsyncIterable<string>) {
+      total += chunk.length;
+      if (total > MAX_LOG_TEXT_LENGTH) {
+        console.warn(`[Logs] ${path.basename(file)} is over ${MAX_LOG_TEXT_LENGTH} characters; the rest is not read`);
+        return;
+      }
+      if (skipping) {
+        const end = chunk.indexOf('\n');
+        if (end === -1) continue;
+        skipping = false;
+        yield partial;
+        partial = '';
+        chunk = chunk.slice(end + 1);
+      }
+      const lines = (partial + chunk).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        yield line.slice(0, MAX_LINE_LENGTH).replace(/\r$/, '');
+      }
+      if (partial.length > MAX_LINE_LENGTH) {
+        partial = partial.slice(0, MAX_LINE_LENGTH);
+        skipping = true;
+      }
+    }
+    if (partial) yield partial.replace(/\r$/, '');
+  } finally {
+    input.destroy();
+    stream.destroy();
+  }
+}
+
+/**
+ * Text of a log file, decompressing .gz archives while reading
+ * Null once it grows past maxLength characters, so a gzip bomb stops early
+ */
+export async function readLogText(file: string, maxLength: number): Promise<string | null> {
+  const input = fs.createReadStream(file);
+  const stream = file.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input;
+  stream.setEncoding('utf8');
+  let text = '';
+  try {
+    // Counted per chunk, not per line: a bomb may have no line breaks at all
+    for await (const chunk of stream) {
+      text += chunk;
+      if (text.length > maxLength) return null;
+    }
+    return text;
+  } finally {
+    input.destroy();
+    stream.destroy();
+  }
+}
+
+/**
+ * Midnight (local time) of the first day a log file covers
+ */
+async function logStartDay(file: LogFile, fullPath: string): Promise<Date> {
+  if (file.date) {
+    const [year, month, day] = file.date.split('-').map((part) => parseInt(part, 10));
+    return new Date(year, month - 1, day);
+  }
+  const stat = await fs.promises.stat(fullPath);
+  const created = stat.birthtimeMs > 0 ? stat.birthtime : stat.mtime;
+  return new Date(created.getFullYear(), created.getMonth(), created.getDate());
+}
+
+interface LineMatcher {
+  test(lines: string[]): Promise<boolean[]>;
+  close(): void;
+}
+
+const REGEX_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const pattern = new RegExp(workerData.source, 'i');
+parentPort.on('message', (lines) => parentPort.postMessage(lines.map((line) => pattern.test(line))));
+`;
+
+/**
+ * Matcher for a search query: plain text in-process, regular expressions
+ * in a worker that is terminated when a batch takes too long
+ */
+function createMatcher(query: string, regex: boolean): LineMatcher {
+  if (!regex) {
+    const needle = query.toLowerCase();
+    return {
+      test: async (lines) => lines.map((line) => line.toLowerCase().includes(needle)),
+      close: () => {},
+    };
+  }
+
+  try {
+    new RegExp(query, 'i');
+  } catch {
+    throw new Error(`Invalid search pattern: ${query}`);
+  }
+  const worker = new Worker(REGEX_WORKER_SOURCE, {
+    eval: true,
+    workerData: { source: query },
+    resourceLimits: { maxOldGenerationSizeMb: 64 },
+  });
+  return {
+    test: (lines) =>
+      new Promise((resolve, reject) => {
+        const cleanup = () => {
+          clearTimeout(timer);
+          worker.off('message', onMessage);
+          worker.off('error', onError);
+        };
+        const onMessage = (hits: boolean[]) => {
+          cleanup();
+          resolve(hits);
+        };
+        const onError = (error: Error) => {
+          cleanup();
+          reject(error);
+        };
+        const timer = setTimeout(() => {
+          cleanup();
+          void worker.terminate();
+          reject(new Error(`Search pattern took longer than ${REGEX_TIMEOUT_MS / 1000}s; use a simpler pattern`));
+        }, REGEX_TIMEOUT_MS);
+        worker.on('message', onMessage);
+        worker.on('error', onError);
+        worker.postMessage(lines);
+      }),
+    close: () => void worker.terminate(),
+  };
+}
+
+function parseCursor(cursor: string): { file: string; line: number } {
+  const separator = cursor.lastIndexOf(':');
+  const line = parseInt(cursor.slice(separator + 1), 10);
+  if (separator <= 0 || !Number.isInteger(line) || line < 0) {
+    throw new Error('Invalid cursor');
+  }
+  return { file: cursor.slice(0, separator), line };
+}
+
+/**
+ * Search log files newest first (lines in file order within a file)
+ *
+ * A page ends after `limit` matches or after a fixed number of lines have
+ * been read; pass nextCursor back to continue where it stopped.
+ */
+export async function searchLogs(instanceId: string, options: LogSearchOptions = {}): Promise<LogSearchResult> {
+  if (options.query && options.query.length > MAX_QUERY_LENGTH) {
+    throw new Error(`Search pattern is longer than ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const from = options.from ? Date.parse(options.from) : null;
+  const to = options.to ? Date.parse(options.to) : null;
+  if ((from !== null && Number.isNaN(from)) || (to !== null && Number.isNaN(to))) {
+    throw new Error('from and to must be ISO timestamps');
+  }
+  const levels = options.levels?.length ? new Set(options.levels) : null;
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+
+  const dir = await getLogsDir(instanceId);
+  let files = await listLogs(instanceId);
+  if (options.file) {
+    await resolveLogFile(instanceId, options.file);
+    files = files.filter((file) => file.name === options.file);
+    if (files.length === 0) throw new Error(`Log file not found: ${options.file}`);
+  }
+
+  let skipLines = 0;
+  if (options.cursor) {
+    const cursor = parseCursor(options.cursor);
+    const start = files.findIndex((file) => file.name === cursor.file);
+    if (start === -1) throw new Error('The log file of this cursor no longer exists; start the search again');
+    files = files.slice(start);
+    skipLines = cursor.line;
+  }
+
+  const matcher = options.query ? createMatcher(options.query, options.regex ?? false) : null;
+  try {
+    return await collectMatches(dir, files, skipLines, matcher, { from, to, levels, limit });
+  } finally {
+    matcher?.close();
+  }
+}
+
+async function collectMatches(
+  dir: string,
+  files: LogFile[],
+  startLine: number,
+  matcher: LineMatcher | null,
+  filters: { from: number | null; to: number | null; levels: Set<LogLevel> | null; limit: number }
+): Promise<LogSearchResult> {
+  const { from, to, levels, limit } = filters;
+  let skipLines = startLine;
+  const matches: LogMatch[] = [];
+  let linesRead = 0;
+
+  for (const file of files) {
+    const fullPath = path.join(dir, file.name);
+    // Archives of days outside the range can be skipped without reading them
+    if (file.date) {
+      const dayStart = new Date(`${file.date}T00:00:00`).getTime();
+      if ((to !== null && dayStart > to) || (from !== null && dayStart + 2 * 86_400_000 < from)) {
+        skipLines = 0;
+        continue;
+      }
+    }
+
+    let day: Date;
+    try {
+      day = await logStartDay(file, fullPath);
+    } catch {
+      // Rotated away since it was listed
+      skipLines = 0;
+      continue;
+    }
+
+    let lineNumber = 0;
+    let lastSeconds = -1;
+    let time: number | undefined;
+    let level: LogLevel | undefined;
+    // Lines that passed the level and time filters, waiting for the query
+    const candidates: LogMatch[] = [];
+
+    // Cursor of the match that filled the page, or null
+    const flush = async (): Promise<string | null> => {
+      const hits = matcher ? await matcher.test(candidates.map((candidate) => candidate.text)) : null;
+      for (const [index, candidate] of candidates.entries()) {
+        if (hits && !hits[index]) continue;
+        matches.push(candidate);
+        if (matches.length >= limit) return `${file.name}:${candidate.line}`;
+      }
+      candidates.length = 0;
+      return null;
+    };
+
+    for await (const text of readLogLines(fullPath)) {
+      lineNumber++;
+      const prefix = text.match(LINE_PREFIX_PATTERN);
+      if (prefix) {
+        const seconds = parseInt(prefix[1], 10) * 3600 + parseInt(prefix[2], 10) * 60 + parseInt(prefix[3], 10);
+        if (seconds < lastSeconds) {
+          day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+        }
+        lastSeconds = seconds;
+        time = day.getTime() + seconds * 1000;
+        const lineLevel = prefix[5] ?? prefix[4];
+        level = isLogLevel(lineLevel) ? lineLevel : undefined;
+      }
+      if (lineNumber <= skipLines) continue;
+
+      if (
+        (!levels || (level && levels.has(level))) &&
+        (from === null || (time !== undefined && time >= from)) &&
+        (to === null || (time !== undefined && time <= to))
+      ) {
+        candidates.push({
+          file: file.name,
+          line: lineNumber,
+          ...(time !== undefined ? { time: new Date(time).toISOString() } : {}),
+          ...(level ? { level } : {}),
+          text,
+        });
+      }
+
+      linesRead++;
+      if (candidates.length >= MATCH_BATCH_LINES || linesRead >= MAX_LINES_PER_SEARCH) {
+        const cursor = await flush();
+        if (cursor) return { matches, nextCursor: cursor };
+        if (linesRead >= MAX_LINES_PER_SEARCH) return { matches, nextCursor: `${file.name}:${lineNumber}` };
+      }
+    }
+    const cursor = await flush();
+    if (cursor) return { matches, nextCursor: cursor };
+    skipLines = 0;
+  }
+
+  return { matches, nextCursor: null };
+}
+
+/**
+ * Last lines of a file, read backwards in chunks
+ */
+async function readLastLines(file: string, count: number): Promise<{ lines: string[]; size: number }> {
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const { size } = await handle.stat();
+    let position = size;
+    let text = '';
+    while (position > 0 && size - position < MAX_TAIL_BACKLOG_BYTES && text.split('\n').length <= count + 1) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, position);
+      text = buffer.toString('utf8') + text;
+    }
+    const lines = text.replace(/\r/g, '').split('\n');
+    // The last element is the unfinished line (usually empty)
+    lines.pop();
+    return { lines: count > 0 ? lines.slice(-count).map((line) => line.slice(0, MAX_LINE_LENGTH)) : [], size };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Follow latest.log: `onLines` gets the last `initialLines` lines, then
+ * every complete line appended. Starts over when the file is truncated or
+ * replaced (the server rolled it over on start).
+ * Returns a function to stop following.
+ */
+export async function tailLatestLog(
+  instanceId: string,
+  initialLines: number,
+  onLines: (lines: string[]) => void
+): Promise<() => void> {
+  const file = await resolveLogFile(instanceId, LATEST_LOG);
+  let position = 0;
+  let inode = 0;
+  let partial = '';
+  let reading = false;
+  let stopped = false;
+
+  try {
+    const stat = await fs.promises.stat(file);
+    const last = await readLastLines(file, Math.min(Math.max(initialLines, 0), MAX_TAIL_LINES));
+    inode = stat.ino;
+    position = last.size;
+    if (last.lines.length > 0) onLines(last.lines);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const poll = async () => {
+    if (reading || stopped) return;
+    reading = true;
+    try {
+      const stat = await fs.promises.stat(file);
+      if (stat.ino !== inode || stat.size < position) {
+        inode = stat.ino;
+        position = 0;
+        partial = '';
+      }
+      if (stat.size === position) return;
+
+      // Read in chunks, and at most MAX_TAIL_BYTES_PER_POLL; the rest waits for the next poll
+      const handle = await fs.promises.open(file, 'r');
+      try {
+        const end = Math.min(stat.size, position + MAX_TAIL_BYTES_PER_POLL);
+        const buffer = Buffer.alloc(Math.min(TAIL_CHUNK_BYTES, end - position));
+        while (position < end && !stopped) {
+          const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, end - position), position);
+          if (bytesRead === 0) break;
+          position += bytesRead;
+          const lines = (partial + buffer.subarray(0, bytesRead).toString('utf8')).replace(/\r/g, '').split('\n');
+          partial = (lines.pop() ?? '').slice(0, MAX_LINE_LENGTH);
+          if (lines.length > 0) onLines(lines.map((line) => line.slice(0, MAX_LINE_LENGTH)));
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[Logs:${instanceId}] Failed to follow ${LATEST_LOG}:`, error);
+      }
+    } finally {
+      reading = false;
+    }
+  };
+
+  const interval = setInterval(poll, TAIL_POLL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Minecraft Server Metrics Collector
+ *
+ * Samples an instance's supervised JVM (see serverProcess.ts) from procfs every
+ * 2 seconds while it is running:
+ *   /proc/<pid>/stat   → CPU time (utime + stime)
+ *   /proc/<pid>/status → resident memory (VmRSS) and thread count
+ *   /proc/<pid>/fd     → open file descriptors
+ * plus host totals from `os`.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import type { ServerProcess, ProcessEvent } from './serverProcess';
+import { getInstanceConfig } from '../config';
+import { parseRamToMB } from './configSchema';
+
+export interface HostMetrics {
+  cpuCount: number;
+  cpuPercent: number;
+  totalMemBytes: number;
+  freeMemBytes: number;
+  loadAvg: number[];
+}
+
+export interface MetricsSample {
+  timestamp: string;
+  pid: number;
+  /** Share of the whole host (all cores), 0-100 */
+  cpuPercent: number;
+  rssBytes: number;
+  /** -Xmx from MAX_RAM; null if it cannot be parsed */
+  maxRamBytes: number | null;
+  /** rssBytes relative to maxRamBytes, 0-100 */
+  ramPercent: number | null;
+  threads: number;
+  openFds: number | null;
+  host: HostMetrics;
+}
+
+const SAMPLE_INTERVAL_MS = 2000;
+const MAX_HISTORY = 30;
+// USER_HZ; Linux reports /proc CPU times in 1/100 s on all mainstream architectures
+const CLOCK_TICKS_PER_SECOND = 100;
+
+interface CpuSnapshot {
+  at: number;
+  processTicks: number;
+  hostBusy: number;
+  hostTotal: number;
+}
+
+/**
+ * Parse utime + stime (in clock ticks) from /proc/<pid>/stat
+ */
+function parseProcessTicks(stat: string): number {
+  // The command name is wrapped in parentheses and may contain spaces
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+  // fields[0] is field 3 (state); utime and stime are fields 14 and 15
+  return (parseInt(fields[11], 10) || 0) + (parseInt(fields[12], 10) || 0);
+}
+
+/**
+ * Read a "Key:   value" line from /proc/<pid>/status
+ */
+function readStatusField(status: string, key: string): number {
+  const match = status.match(new RegExp(`^${key}:\\s+(\\d+)`, 'm'));
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function hostCpuTimes(): { busy: number; total: number } {
+  let busy = 0;
+  let total = 0;
+  for (const cpu of os.cpus()) {
+    const { user, nice, sys, idle, irq } = cpu.times;
+    busy += user + nice + sys + irq;
+    total += user + nice + sys + idle + irq;
+  }
+  return { busy, total };
+}
+
+export class MetricsCollector {
+  private readonly tag: string;
+  private listeners = new Set<(sample: MetricsSample) => void>();
+  private history: MetricsSample[] = [];
+  private sampleInterval: NodeJS.Timeout | null = null;
+  private removeProcessListener: (() => void) | null = null;
+  private lastCpu: CpuSnapshot | null = null;
+
+  constructor(private readonly instanceId: string, private readonly serverProcess: ServerProcess) {
+    this.tag = `[Metrics:${instanceId}]`;
+  }
+
+  /**
+   * Initialize the collector
+   * Follows the server process lifecycle: sampling starts on spawn and stops on exit
+   */
+  initialize(): void {
+    if (!this.removeProcessListener) {
+      this.removeProcessListener = this.serverProcess.addEventListener((event) => this.handleProcessEvent(event));
+    }
+    if (this.serverProcess.isRunning()) {
+      this.startSampling();
+    }
+  }
+
+  private handleProcessEvent(event: ProcessEvent): void {
+    if (event.type === 'spawn') {
+      this.history = [];
+      this.startSampling();
+    } else if (event.type === 'exit') {
+      this.stopSampling();
+    }
+  }
+
+  private startSampling(): void {
+    this.stopSampling();
+    console.log(`${this.tag} Sampling server process every ${SAMPLE_INTERVAL_MS / 1000}s`);
+    this.sampleInterval = setInterval(() => {
+      this.sample().catch((error) => console.error(`${this.tag} Sample failed:`, error));
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  private stopSampling(): void {
+    if (this.sampleInterval) {
+      clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+      console.log(`${this.tag} Sampling stopped`);
+    }
+    this.lastCpu = null;
+  }
+
+  /**
+   * Take one sample of the running server process
+   * The first sample after a start only primes the CPU counters
+   */
+  private async sample(): Promise<void> {
+    const pid = this.serverProcess.getPid();
+    if (pid === undefined) return;
+
+    let stat: string;
+    let status: string;
+    try {
+      [stat, status] = await Promise.all([
+        fs.promises.readFile(`/proc/${pid}/stat`, 'utf8'),
+        fs.promises.readFile(`/proc/${pid}/status`, 'utf8'),
+      ]);
+    } catch {
+      // Process exited between the PID lookup and the read
+      return;
+    }
+
+    let openFds: number | null = null;
+    try {
+      openFds = (await fs.promises.readdir(`/proc/${pid}/fd`)).length;
+    } catch {
+      // Not readable (different user); leave unknown
+    }
+
+    const now = Date.now();
+    const processTicks = parseProcessTicks(stat);
+    const hostTimes = hostCpuTimes();
+    const previous = this.lastCpu;
+    this.lastCpu = { at: now, processTicks, hostBusy: hostTimes.busy, hostTotal: hostTimes.total };
+    if (!previous) return;
+
+    const cpuCount = os.cpus().length || 1;
+    const elapsedSeconds = (now - previous.at) / 1000;
+    const processSeconds = (processTicks - previous.processTicks) / CLOCK_TICKS_PER_SECOND;
+    const cpuPercent = elapsedSeconds > 0
+      ? Math.min(100, Math.max(0, (processSeconds / elapsedSeconds / cpuCount) * 100))
+      : 0;
+    const hostTotalDelta = hostTimes.total - previous.hostTotal;
+    const hostCpuPercent = hostTotalDelta > 0
+      ? Math.min(100, Math.max(0, ((hostTimes.busy - previous.hostBusy) / hostTotalDelta) * 100))
+      : 0;
+
+    const config = await getInstanceConfig(this.instanceId);
+    const maxRamMB = parseRamToMB(config.MAX_RAM || '');
+    const maxRamBytes = maxRamMB != null ? maxRamMB * 1024 * 1024 : null;
+    const rssBytes = readStatusField(status, 'VmRSS') * 1024;
+
+    const sample: MetricsSample = {
+      timestamp: new Date(now).toISOString(),
+      pid,
+      cpuPercent,
+      rssBytes,
+      maxRamBytes,
+      ramPercent: maxRamBytes ? (rssBytes / maxRamBytes) * 100 : null,
+      threads: readStatusField(status, 'Threads'),
+      openFds,
+      host: {
+        cpuCount,
+        cpuPercent: hostCpuPercent,
+        totalMemBytes: os.totalmem(),
+        freeMemBytes: os.freemem(),
+        loadAvg: os.loadavg(),
+      },
+    };
+
+    this.history.push(sample);
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.slice(-MAX_HISTORY);
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(sample);
+      } catch (error) {
+        console.error(`${this.tag} Error in metrics listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Get recent samples, oldest first
+   */
+  getHistory(): MetricsSample[] {
+    return [...this.history];
+  }
+
+  /**
+   * Add a metrics sample listener
+   * Returns a function to remove the listener
+   */
+  addListener(callback: (sample: MetricsSample) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.stopSampling();
+    this.removeProcessListener?.();
+    this.removeProcessListener = null;
+    this.listeners.clear();
+  }
+}
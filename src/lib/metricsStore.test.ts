@@ -0,0 +1,55 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { MetricsCollector } from './metricsCollector';
+import type { TickMonitor } from './tickMonitor';
+import type { StatusManager } from './statusManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('MetricsStore.query', () => {
+  const cwd = process.cwd();
+  let tmpDir: string;
+  let store: import('./metricsStore').MetricsStore;
+  const now = Date.now();
+  // Two minutes early yesterday, so both land in the same day bucket
+  const yesterday = Math.floor(now / DAY_MS) * DAY_MS - DAY_MS;
+
+  before(async () => {
+    // The store keeps its files under process.cwd(), so load it from a scratch directory
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'metrics-store-'));
+    process.chdir(tmpDir);
+    const { MetricsStore } = await import('./metricsStore');
+    store = new MetricsStore(
+      'test',
+      {} as MetricsCollector,
+      {} as TickMonitor,
+      {} as StatusManager
+    );
+    store.record('players', 3, yesterday + 60 * 1000);
+    store.record('players', 5, yesterday + 2 * 60 * 1000);
+    await store.flush();
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns recent samples for a short range', async () => {
+    const result = await store.query('players', yesterday, now, 60);
+    assert.deepEqual(result.points.map((p) => p.avg), [3, 5]);
+  });
+
+  it('returns recent samples for ranges longer than the retention', async () => {
+    for (const from of [0, now - 5 * 366 * DAY_MS]) {
+      const result = await store.query('players', from, now);
+      assert.equal(result.points.length, 1);
+      assert.equal(result.points[0].count, 2);
+      assert.equal(result.points[0].avg, 4);
+      assert.equal(result.points[0].max, 5);
+    }
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Metrics Time-Series Store
+ *
+ * Keeps server metrics on disk so graphs survive reloads and restarts.
+ * Each series has three fixed-size ring files (round-robin archives):
+ *   1m buckets for 2 days, 1h buckets for 90 days, 1d buckets for 3 years
+ * A bucket holds count / sum / min / max, so coarser tiers are exact
+ * rollups of finer ones and partially filled buckets can be merged after
+ * a restart.
+ *
+ * Samples are accumulated in memory for the current minute and written
+ * to all three tiers when the minute is over.
+ *
+ * The default instance keeps its files in data/metrics, other instances
+ * in data/metrics/<id>.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_INSTANCE_ID, getInstanceConfig } from '../config';
+import type { MetricsCollector } from './metricsCollector';
+import type { TickMonitor } from './tickMonitor';
+import type { StatusManager } from './statusManager';
+
+export const METRIC_SERIES = ['cpu', 'ram', 'tps', 'mspt', 'players', 'disk'] as const;
+export type MetricSeries = typeof METRIC_SERIES[number];
+
+/** Units of each series, for API consumers */
+export const METRIC_UNITS: Record<MetricSeries, string> = {
+  cpu: 'percent',
+  ram: 'MB',
+  tps: 'tps',
+  mspt: 'ms',
+  players: 'players',
+  disk: 'MB',
+};
+
+export interface MetricPoint {
+  /** Bucket start (epoch ms) */
+  t: number;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface MetricQueryResult {
+  series: MetricSeries;
+  unit: string;
+  stepSeconds: number;
+  points: MetricPoint[];
+}
+
+interface Tier {
+  name: '1m' | '1h' | '1d';
+  stepSeconds: number;
+  capacity: number;
+}
+
+interface Bucket {
+  start: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export const TIERS: Tier[] = [
+  { name: '1m', stepSeconds: 60, capacity: 2 * 24 * 60 },
+  { name: '1h', stepSeconds: 3600, capacity: 90 * 24 },
+  { name: '1d', stepSeconds: 86400, capacity: 3 * 366 },
+];
+
+const METRICS_DIR = path.join(process.cwd(), 'data', 'metrics');
+// start, count, sum, min, max as float64
+const SLOT_SIZE = 5 * 8;
+const FLUSH_CHECK_INTERVAL_MS = 15 * 1000;
+const DISK_SAMPLE_INTERVAL_MS = 10 * 60 * 1000;
+const BYTES_PER_MB = 1024 * 1024;
+
+function bucketStart(timestampSeconds: number, stepSeconds: number): number {
+  return Math.floor(timestampSeconds / stepSeconds) * stepSeconds;
+}
+
+function mergeBuckets(a: Bucket | null, b: Bucket): Bucket {
+  if (!a) return { ...b };
+  return {
+    start: a.start,
+    count: a.count + b.count,
+    sum: a.sum + b.sum,
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+  };
+}
+
+/**
+ * Total size of a directory tree in bytes (symlinks are not followed)
+ */
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(full);
+    } else if (entry.isFile()) {
+      try {
+        total += (await fs.promises.stat(full)).size;
+      } catch {
+        // Removed while walking
+      }
+    }
+  }
+  return total;
+}
+
+function decodeSlot(buf: Buffer, offset: number): Bucket | null {
+  const count = buf.readDoubleLE(offset + 8);
+  if (!(count > 0)) return null;
+  return {
+    start: buf.readDoubleLE(offset),
+    count,
+    sum: buf.readDoubleLE(offset + 16),
+    min: buf.readDoubleLE(offset + 24),
+    max: buf.readDoubleLE(offset + 32),
+  };
+}
+
+export class MetricsStore {
+  private readonly tag: string;
+  private readonly dir: string;
+  private pending = new Map<MetricSeries, Bucket>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private diskInterval: NodeJS.Timeout | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private lastPlayersPing: string | null = null;
+
+  constructor(
+    private readonly instanceId: string,
+    private readonly metricsCollector: MetricsCollector,
+    private readonly tickMonitor: TickMonitor,
+    private readonly statusManager: StatusManager
+  ) {
+    this.tag = `[MetricsStore:${instanceId}]`;
+    this.dir = instanceId === DEFAULT_INSTANCE_ID ? METRICS_DIR : path.join(METRICS_DIR, instanceId);
+  }
+
+  private tierFile(series: MetricSeries, tier: Tier): string {
+    return path.join(this.dir, `${series}.${tier.name}.rrd`);
+  }
+
+  /**
+   * Initialize the store
+   * Records samples from the metrics collector, tick monitor and status ping,
+   * plus the MC_DIR size every 10 minutes
+   */
+  async initialize(): Promise<void> {
+    if (this.flushInterval) return;
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    console.log(`${this.tag} Storing metrics in ${this.dir}`);
+
+    this.unsubscribers.push(
+      this.metricsCollector.addListener((sample) => {
+        this.record('cpu', sample.cpuPercent);
+        this.record('ram', sample.rssBytes / BYTES_PER_MB);
+      }),
+      this.tickMonitor.addListener((sample) => {
+        if (sample.tps != null) this.record('tps', sample.tps);
+        if (sample.mspt != null) this.record('mspt', sample.mspt);
+      }),
+      this.statusManager.addListener((statusInfo) => {
+        // Status notifications also fire for non-ping changes; record each ping once
+        const ping = statusInfo.ping;
+        if (!ping?.online || !ping.players || ping.timestamp === this.lastPlayersPing) return;
+        this.lastPlayersPing = ping.timestamp;
+        this.record('players', ping.players.online);
+      })
+    );
+
+    this.flushInterval = setInterval(() => this.flushCompleted(), FLUSH_CHECK_INTERVAL_MS);
+
+    const sampleDisk = async () => {
+      const config = await getInstanceConfig(this.instanceId);
+      if (!config.MC_DIR) return;
+      this.record('disk', (await directorySize(config.MC_DIR)) / BYTES_PER_MB);
+    };
+    sampleDisk().catch((error) => console.error(`${this.tag} Disk sample failed:`, error));
+    this.diskInterval = setInterval(() => {
+      sampleDisk().catch((error) => console.error(`${this.tag} Disk sample failed:`, error));
+    }, DISK_SAMPLE_INTERVAL_MS);
+  }
+
+  /**
+   * Add a sample to the current minute of a series
+   */
+  record(series: MetricSeries, value: number, timestamp: number = Date.now()): void {
+    if (!Number.isFinite(value)) return;
+    const start = bucketStart(Math.floor(timestamp / 1000), TIERS[0].stepSeconds);
+    const current = this.pending.get(series);
+
+    if (current && current.start !== start) {
+      this.pending.delete(series);
+      this.enqueueWrite(series, current);
+    }
+
+    this.pending.set(series, mergeBuckets(this.pending.get(series) ?? null, {
+      start,
+      count: 1,
+      sum: value,
+      min: value,
+      max: value,
+    }));
+  }
+
+  /**
+   * Write out minutes that are over (series that stopped receiving samples)
+   */
+  private flushCompleted(): void {
+    const now = bucketStart(Math.floor(Date.now() / 1000), TIERS[0].stepSeconds);
+    for (const [series, bucket] of this.pending) {
+      if (bucket.start < now) {
+        this.pending.delete(series);
+        this.enqueueWrite(series, bucket);
+      }
+    }
+  }
+
+  /**
+   * Flush everything, including the current minute
+   */
+  async flush(): Promise<void> {
+    for (const [series, bucket] of this.pending) {
+      this.enqueueWrite(series, bucket);
+    }
+    this.pending.clear();
+    await this.writeQueue;
+  }
+
+  private enqueueWrite(series: MetricSeries, minute: Bucket): void {
+    this.writeQueue = this.writeQueue
+      .then(() => this.writeMinute(series, minute))
+      .catch((error) => console.error(`${this.tag} Failed to write ${series}:`, error));
+  }
+
+  /**
+   * Merge a finished minute into the matching bucket of every tier
+   */
+  private async writeMinute(series: MetricSeries, minute: Bucket): Promise<void> {
+    for (const tier of TIERS) {
+      const start = bucketStart(minute.start, tier.stepSeconds);
+      const file = await this.openTier(series, tier);
+      try {
+        const slot = (start / tier.stepSeconds) % tier.capacity;
+        const existing = await this.readSlot(file, slot);
+        const merged = mergeBuckets(existing && existing.start === start ? existing : null, { ...minute, start });
+        const buf = Buffer.alloc(SLOT_SIZE);
+        buf.writeDoubleLE(merged.start, 0);
+        buf.writeDoubleLE(merged.count, 8);
+        buf.writeDoubleLE(merged.sum, 16);
+        buf.writeDoubleLE(merged.min, 24);
+        buf.writeDoubleLE(merged.max, 32);
+        await file.write(buf, 0, SLOT_SIZE, slot * SLOT_SIZE);
+      } finally {
+        await file.close();
+      }
+    }
+  }
+
+  private async openTier(series: MetricSeries, tier: Tier): Promise<fs.promises.FileHandle> {
+    const filePath = this.tierFile(series, tier);
+    let file: fs.promises.FileHandle;
+    try {
+      file = await fs.promises.open(filePath, 'r+');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      file = await fs.promises.open(filePath, 'w+');
+    }
+    const size = tier.capacity * SLOT_SIZE;
+    if ((await file.stat()).size !== size) {
+      await file.truncate(size);
+    }
+    return file;
+  }
+
+  private async readSlot(file: fs.promises.FileHandle, slot: number): Promise<Bucket | null> {
+    const buf = Buffer.alloc(SLOT_SIZE);
+    const { bytesRead } = await file.read(buf, 0, SLOT_SIZE, slot * SLOT_SIZE);
+    return bytesRead < SLOT_SIZE ? null : decodeSlot(buf, 0);
+  }
+
+  /**
+   * Pick the finest tier that still covers `from` and keeps the requested step
+   */
+  private pickTier(fromMs: number, stepSeconds?: number): Tier {
+    const ageSeconds = (Date.now() - fromMs) / 1000;
+    const covering = TIERS.filter((tier) => tier.stepSeconds * tier.capacity >= ageSeconds);
+    const candidates = covering.length > 0 ? covering : [TIERS[TIERS.length - 1]];
+    if (stepSeconds === undefined) return candidates[0];
+    const fitting = candidates.filter((tier) => tier.stepSeconds <= stepSeconds);
+    return fitting.length > 0 ? fitting[fitting.length - 1] : candidates[0];
+  }
+
+  /**
+   * Read a series between two timestamps (epoch ms)
+   * `stepSeconds` downsamples the tier buckets; by default about 500 points are returned
+   */
+  async query(series: MetricSeries, fromMs: number, toMs: number, stepSeconds?: number): Promise<MetricQueryResult> {
+    const autoStep = stepSeconds ?? Math.max(60, Math.ceil((toMs - fromMs) / 1000 / 500));
+    const tier = this.pickTier(fromMs, autoStep);
+    const step = Math.max(tier.stepSeconds, Math.round(autoStep / tier.stepSeconds) * tier.stepSeconds);
+
+    const fromSeconds = bucketStart(Math.floor(fromMs / 1000), tier.stepSeconds);
+    const toSeconds = Math.floor(toMs / 1000);
+    const buckets = new Map<number, Bucket>();
+
+    let data: Buffer | null = null;
+    try {
+      data = await fs.promises.readFile(this.tierFile(series, tier));
+    } catch {
+      // Nothing recorded yet
+    }
+
+    if (data) {
+      // The ring only holds the last `capacity` buckets up to `to`, so older starts are skipped
+      const firstSeconds = Math.max(
+        fromSeconds,
+        bucketStart(toSeconds, tier.stepSeconds) - (tier.capacity - 1) * tier.stepSeconds
+      );
+      const count = Math.floor((toSeconds - firstSeconds) / tier.stepSeconds) + 1;
+      for (let i = 0; i < count; i++) {
+        const start = firstSeconds + i * tier.stepSeconds;
+        const offset = ((start / tier.stepSeconds) % tier.capacity) * SLOT_SIZE;
+        if (offset + SLOT_SIZE > data.length) continue;
+        const bucket = decodeSlot(data, offset);
+        // A slot still holding an older lap of the ring is skipped
+        if (!bucket || bucket.start !== start) continue;
+        const target = bucketStart(start, step);
+        buckets.set(target, mergeBuckets(buckets.get(target) ?? null, { ...bucket, start: target }));
+      }
+    }
+
+    // The current minute has not been written yet
+    const current = this.pending.get(series);
+    if (current && current.start >= fromSeconds && current.start <= toSeconds) {
+      const target = bucketStart(current.start, step);
+      buckets.set(target, mergeBuckets(buckets.get(target) ?? null, { ...current, start: target }));
+    }
+
+    const points = [...buckets.values()]
+      .sort((a, b) => a.start - b.start)
+      .map((b) => ({ t: b.start * 1000, avg: b.sum / b.count, min: b.min, max: b.max, count: b.count }));
+
+    return { series, unit: METRIC_UNITS[series], stepSeconds: step, points };
+  }
+
+  /**
+   * Clean up resources (pending minutes are written first)
+   */
+  async destroy(): Promise<void> {
+    if (this.flushInterval) clearInterval(this.flushInterval);
+    if (this.diskInterval) clearInterval(this.diskInterval);
+    this.flushInterval = null;
+    this.diskInterval = null;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    await this.flush();
+  }
+}
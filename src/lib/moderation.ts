@@ -0,0 +1,263 @@
+/**
+ * Moderation History and Temporary Bans
+ *
+ * Keeps per-player moderation records (notes, warnings, kicks, bans and
+ * unbans, with actor and reason) and the expiry of temporary bans in
+ * moderation.json: data/moderation for the default instance,
+ * data/moderation/<id> for other instances.
+ *
+ * banned-players.json has no expiry the panel can rely on (the ban
+ * command always writes "forever"), so a scheduler pardons temporary bans
+ * once they expire, through changeAccessList like any other change. An
+ * expiry that passes while the server is starting or stopping is retried
+ * on the next check.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { DEFAULT_INSTANCE_ID } from '../config';
+import { changeAccessList, cleanReason, type AccessTarget } from './accessLists';
+import { auditLog } from './auditLog';
+import type { ServerProcess } from './serverProcess';
+import type { StatusManager } from './statusManager';
+
+export const MODERATION_ACTIONS = ['note', 'warning', 'kick', 'ban', 'unban'] as const;
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+
+export interface ModerationEntry {
+  id: string;
+  timestamp: string;
+  /** Player name, or the IP address for IP bans */
+  target: string;
+  action: ModerationAction;
+  /** Panel username, or 'system' for scheduled unbans */
+  actor: string;
+  reason?: string;
+  /** Temporary bans only */
+  expiresAt?: string;
+}
+
+export interface TempBan {
+  list: 'bans' | 'ip-bans';
+  target: string;
+  expiresAt: string;
+  actor: string;
+  reason?: string;
+}
+
+interface ModerationFile {
+  tempBans: TempBan[];
+  history: ModerationEntry[];
+}
+
+const MODERATION_DIR = path.join(process.cwd(), 'data', 'moderation');
+const CHECK_INTERVAL_MS = 30 * 1000;
+const MAX_HISTORY_PER_TARGET = 200;
+
+export function isModerationAction(value: unknown): value is ModerationAction {
+  return typeof value === 'string' && (MODERATION_ACTIONS as readonly string[]).includes(value);
+}
+
+function sameTarget(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export class ModerationManager {
+  private readonly tag: string;
+  private readonly dir: string;
+  private data: ModerationFile = { tempBans: [], history: [] };
+  private loaded: Promise<void> | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private readonly instanceId: string,
+    private readonly serverProcess: ServerProcess,
+    private readonly statusManager: StatusManager
+  ) {
+    this.tag = `[Moderation:${instanceId}]`;
+    this.dir = instanceId === DEFAULT_INSTANCE_ID ? MODERATION_DIR : path.join(MODERATION_DIR, instanceId);
+  }
+
+  private get file(): string {
+    return path.join(this.dir, 'moderation.json');
+  }
+
+  /**
+   * Load moderation.json and start the temporary ban scheduler
+   */
+  async initialize(): Promise<void> {
+    await this.load();
+    if (!this.checkInterval) {
+      this.checkInterval = setInterval(() => {
+        this.checkExpired().catch((error) => console.error(`${this.tag} Expiry check failed:`, error));
+      }, CHECK_INTERVAL_MS);
+    }
+    if (this.data.tempBans.length > 0) {
+      console.log(`${this.tag} ${this.data.tempBans.length} temporary ban(s) scheduled`);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const parsed = JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+          this.data = {
+            tempBans: Array.isArray(parsed?.tempBans) ? parsed.tempBans : [],
+            history: Array.isArray(parsed?.history) ? parsed.history : [],
+          };
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`${this.tag} Failed to read ${this.file}:`, error);
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private save(): Promise<void> {
+    const content = JSON.stringify(this.data, null, 2) + '\n';
+    this.saveQueue = this.saveQueue
+      .then(async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        await fs.promises.writeFile(tmp, content, 'utf8');
+        await fs.promises.rename(tmp, this.file);
+      })
+      .catch((error) => console.error(`${this.tag} Failed to save moderation data:`, error));
+    return this.saveQueue;
+  }
+
+  /**
+   * Add a record to a player's (or IP's) moderation history
+   */
+  async record(entry: Omit<ModerationEntry, 'id' | 'timestamp'>): Promise<ModerationEntry> {
+    await this.load();
+    const full: ModerationEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      target: entry.target,
+      action: entry.action,
+      actor: entry.actor,
+      ...(entry.reason ? { reason: cleanReason(entry.reason) } : {}),
+      ...(entry.expiresAt ? { expiresAt: entry.expiresAt } : {}),
+    };
+    this.data.history.push(full);
+
+    const forTarget = this.data.history.filter((e) => sameTarget(e.target, full.target));
+    if (forTarget.length > MAX_HISTORY_PER_TARGET) {
+      const drop = new Set(forTarget.slice(0, forTarget.length - MAX_HISTORY_PER_TARGET));
+      this.data.history = this.data.history.filter((e) => !drop.has(e));
+    }
+    await this.save();
+    return full;
+  }
+
+  /**
+   * Moderation history of a player or IP, newest first
+   */
+  async getHistory(target: string): Promise<ModerationEntry[]> {
+    await this.load();
+    return this.data.history.filter((e) => sameTarget(e.target, target)).reverse();
+  }
+
+  /**
+   * Pending temporary ban of a player or IP, if any
+   */
+  async getTempBan(target: string): Promise<TempBan | null> {
+    await this.load();
+    return this.data.tempBans.find((ban) => sameTarget(ban.target, target)) ?? null;
+  }
+
+  /**
+   * All pending temporary bans, soonest expiry first
+   */
+  async listTempBans(): Promise<TempBan[]> {
+    await this.load();
+    return [...this.data.tempBans].sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt));
+  }
+
+  /**
+   * Pardon a player or IP when `expiresAt` has passed (replaces an earlier schedule)
+   */
+  async scheduleUnban(ban: TempBan): Promise<void> {
+    await this.load();
+    this.data.tempBans = this.data.tempBans.filter((b) => !(b.list === ban.list && sameTarget(b.target, ban.target)));
+    this.data.tempBans.push(ban);
+    await this.save();
+    console.log(`${this.tag} ${ban.target} is banned until ${ban.expiresAt}`);
+  }
+
+  /**
+   * Drop a scheduled unban, e.g. after a manual pardon or a permanent ban
+   */
+  async cancelUnban(list: TempBan['list'], target: string): Promise<void> {
+    await this.load();
+    const before = this.data.tempBans.length;
+    this.data.tempBans = this.data.tempBans.filter((b) => !(b.list === list && sameTarget(b.target, target)));
+    if (this.data.tempBans.length !== before) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Pardon every temporary ban that has expired
+   */
+  private async checkExpired(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      await this.load();
+      const target: AccessTarget = { id: this.instanceId, process: this.serverProcess, status: this.statusManager };
+      const now = Date.now();
+
+      for (const ban of this.data.tempBans.filter((b) => Date.parse(b.expiresAt) <= now)) {
+        const change = ban.list === 'ip-bans'
+          ? { list: 'ip-bans' as const, action: 'remove' as const, ip: ban.target }
+          : { list: 'bans' as const, action: 'remove' as const, name: ban.target };
+        const audit = {
+          actor: 'system',
+          ip: '',
+          action: `player.${ban.list}.remove`,
+          target: ban.target,
+          details: { instance: this.instanceId, reason: 'temporary ban expired' },
+        };
+
+        let applied: boolean;
+        try {
+          applied = (await changeAccessList(target, change)).applied;
+        } catch (error) {
+          // Server starting or stopping: try again on the next check
+          console.warn(`${this.tag} Could not pardon ${ban.target} yet:`, error instanceof Error ? error.message : error);
+          continue;
+        }
+
+        auditLog.record({ ...audit, success: applied });
+        if (!applied) {
+          console.warn(`${this.tag} Server did not pardon ${ban.target}, retrying later`);
+          continue;
+        }
+        console.log(`${this.tag} Temporary ban of ${ban.target} expired, pardoned`);
+        await this.cancelUnban(ban.list, ban.target);
+        await this.record({ target: ban.target, action: 'unban', actor: 'system', reason: 'Temporary ban expired' });
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Stop the scheduler (pending writes are finished first)
+   */
+  async destroy(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    await this.saveQueue;
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Mod Manager
+ *
+ * Lists the Fabric, Quilt, Forge and NeoForge mods in <MC_DIR>/mods by
+ * reading their metadata out of each jar:
+ *   fabric.mod.json, quilt.mod.json          (Fabric / Quilt)
+ *   META-INF/neoforge.mods.toml, mods.toml   (NeoForge / Forge)
+ * and checks them for client-only mods (which crash a dedicated server),
+ * duplicate mod ids and dependencies that are missing or out of range.
+ *
+ * Mods bundled inside other jars (jar-in-jar) are not read, so a
+ * dependency they provide can show up as missing.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getInstanceDir } from '../config';
+import { readZipEntries } from './zipReader';
+import { getMinecraftVersion } from './serverSoftware';
+import type { ServerInstance } from './instances';
+
+export type ModTarget = Pick<ServerInstance, 'id' | 'status'>;
+
+export type ModLoader = 'fabric' | 'quilt' | 'forge' | 'neoforge';
+export type ModEnvironment = 'both' | 'client' | 'server';
+
+export type ModIssueType = 'invalid' | 'client-only' | 'duplicate' | 'missing-dependency' | 'dependency-version' | 'incompatible';
+
+export interface ModIssue {
+  type: ModIssueType;
+  message: string;
+}
+
+export interface ModDependency {
+  id: string;
+  /** Version range as written in the metadata ("*" when any version will do) */
+  versionRange: string;
+  kind: 'required' | 'optional' | 'incompatible';
+}
+
+export interface ModInfo {
+  /** Jar file name */
+  file: string;
+  size: number;
+  loader?: ModLoader;
+  id?: string;
+  name?: string;
+  version?: string;
+  description?: string;
+  environment: ModEnvironment;
+  dependencies: ModDependency[];
+  issues: ModIssue[];
+}
+
+const MODS_DIR = 'mods';
+const METADATA_FILES = ['fabric.mod.json', 'quilt.mod.json', 'META-INF/neoforge.mods.toml', 'META-INF/mods.toml', 'META-INF/MANIFEST.MF'];
+// Provided by the loader itself rather than by a jar in mods/
+const LOADER_IDS = new Set(['java', 'fabricloader', 'fabric-loader', 'quilt_loader', 'quilted_fabric_api', 'forge', 'neoforge', 'fml', 'javafml', 'lowcodefml']);
+
+type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+function tomlValue(raw: string): TomlValue {
+  const value = raw.trim();
+  if (value.startsWith('"') || value.startsWith("'")) {
+    const quote = value[0];
+    const end = value.indexOf(quote, 1);
+    const inner = value.slice(1, end === -1 ? undefined : end);
+    return quote === '"' ? inner.replace(/\\"/g, '"').replace(/\\n/g, '\n').replace(/\\\\/g, '\\') : inner;
+  }
+  if (value.startsWith('[')) {
+    const inner = value.slice(1, value.lastIndexOf(']'));
+    return inner.split(',').map((item) => item.trim()).filter(Boolean).map(tomlValue);
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  const number = Number(value.replace(/_/g, ''));
+  return Number.isNaN(number) ? value : number;
+}
+
+/**
+ * Parse the subset of TOML mods.toml files use: tables, arrays of tables,
+ * strings (including multi-line), numbers, booleans and inline arrays
+ */
+export function parseSimpleToml(content: string): TomlTable {
+  const root: TomlTable = {};
+  let current = root;
+  const lines = content.replace(/\r/g, '').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const header = line.match(/^(\[\[?)\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      const keys = header[2].split('.').map((key) => key.trim().replace(/^["']|["']$/g, ''));
+      let table = root;
+      for (const key of keys.slice(0, -1)) {
+        const next = table[key];
+        if (Array.isArray(next)) table = next[next.length - 1] as TomlTable;
+        else table = (table[key] = (next as TomlTable) ?? {}) as TomlTable;
+      }
+      const last = keys[keys.length - 1];
+      if (header[1] === '[[') {
+        const list = (Array.isArray(table[last]) ? table[last] : (table[last] = [])) as TomlValue[];
+        current = {};
+        list.push(current);
+      } else {
+        current = (table[last] = (table[last] as TomlTable) ?? {}) as TomlTable;
+      }
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (eq === -1) continue;
+    const key = line.slice(0, eq).trim().replace(/^["']|["']$/g, '');
+    let raw = line.slice(eq + 1).trim();
+
+    // Multi-line strings and arrays continue on the next lines
+    const triple = raw.startsWith('"""') ? '"""' : raw.startsWith("'''") ? "'''" : null;
+    if (triple) {
+      let text = raw.slice(3);
+      while (!text.includes(triple) && i + 1 < lines.length) text += '\n' + lines[++i];
+      current[key] = text.slice(0, text.indexOf(triple)).replace(/^\n/, '');
+      continue;
+    }
+    if (raw.startsWith('[')) {
+      while (!raw.includes(']') && i + 1 < lines.length) raw += ' ' + lines[++i].trim();
+    }
+    current[key] = tomlValue(raw.replace(/\s+#[^"']*$/, ''));
+  }
+  return root;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function tables(value: TomlValue | undefined): TomlTable[] {
+  return Array.isArray(value) ? value.filter((item): item is TomlTable => !!item && typeof item === 'object' && !Array.isArray(item)) : [];
+}
+
+type ModMetadata = Omit<ModInfo, 'file' | 'size' | 'issues'> & { provides: string[] };
+
+/**
+ * fabric.mod.json: depends / recommends / suggests / breaks map ids to a range or a list of ranges
+ */
+function readFabricMetadata(json: Record<string, unknown>): ModMetadata {
+  const dependencies: ModDependency[] = [];
+  const add = (field: string, kind: ModDependency['kind']) => {
+    const entries = json[field];
+    if (!entries || typeof entries !== 'object') return;
+    for (const [id, range] of Object.entries(entries as Record<string, unknown>)) {
+      dependencies.push({ id, versionRange: Array.isArray(range) ? range.join(' || ') : String(range ?? '*'), kind });
+    }
+  };
+  add('depends', 'required');
+  add('recommends', 'optional');
+  add('suggests', 'optional');
+  add('breaks', 'incompatible');
+
+  const environment = json.environment === 'client' ? 'client' : json.environment === 'server' ? 'server' : 'both';
+  return {
+    loader: 'fabric',
+    id: str(json.id),
+    name: str(json.name),
+    version: str(json.version),
+    description: str(json.description),
+    environment,
+    dependencies,
+    provides: Array.isArray(json.provides) ? json.provides.filter((id): id is string => typeof id === 'string') : [],
+  };
+}
+
+/**
+ * quilt.mod.json: quilt_loader.depends / breaks hold ids or { id, versions, optional } objects
+ */
+function readQuiltMetadata(json: Record<string, unknown>): ModMetadata {
+  const loader = (json.quilt_loader ?? {}) as Record<string, unknown>;
+  const metadata = (loader.metadata ?? {}) as Record<string, unknown>;
+  const dependencies: ModDependency[] = [];
+  const add = (field: string, kind: ModDependency['kind']) => {
+    const entries = loader[field];
+    if (!Array.isArray(entries)) return;
+    for (const entry of entries) {
+      if (typeof entry === 'string') {
+        dependencies.push({ id: entry, versionRange: '*', kind });
+      } else if (entry && typeof entry === 'object' && typeof entry.id === 'string') {
+        const versions = Array.isArray(entry.versions) ? entry.versions.join(' || ') : String(entry.versions ?? '*');
+        dependencies.push({ id: entry.id, versionRange: versions, kind: kind === 'required' && entry.optional ? 'optional' : kind });
+      }
+    }
+  };
+  add('depends', 'required');
+  add('breaks', 'incompatible');
+
+  const minecraft = (json.minecraft ?? {}) as Record<string, unknown>;
+  const environment = minecraft.environment === 'client' ? 'client' : minecraft.environment === 'dedicated_server' ? 'server' : 'both';
+  return {
+    loader: 'quilt',
+    id: str(loader.id),
+    name: str(metadata.name),
+    version: str(loader.version),
+    description: str(metadata.description),
+    environment,
+    dependencies,
+    provides: Array.isArray(loader.provides)
+      ? loader.provides.map((p) => (typeof p === 'string' ? p : p?.id)).filter((id): id is string => typeof id === 'string')
+      : [],
+  };
+}
+
+/**
+ * mods.toml / neoforge.mods.toml: [[mods]] and [[dependencies.<modId>]] tables
+ */
+function readForgeMetadata(toml: TomlTable, loader: 'forge' | 'neoforge', manifest: string | undefined): ModMetadata {
+  const mod = tables(toml.mods)[0] ?? {};
+  const id = str(mod.modId);
+  // "${file.jarVersion}" is filled in from the jar manifest
+  let version = str(mod.version);
+  if (version === '${file.jarVersion}') {
+    version = manifest?.match(/^Implementation-Version:\s*(.+)$/m)?.[1].trim();
+  }
+
+  const dependencyTables = toml.dependencies && typeof toml.dependencies === 'object' && !Array.isArray(toml.dependencies)
+    ? tables((toml.dependencies as TomlTable)[id ?? ''])
+    : [];
+  const dependencies: ModDependency[] = dependencyTables
+    .filter((dep) => str(dep.modId) && (dep.side === undefined || dep.side === 'BOTH' || dep.side === 'SERVER'))
+    .map((dep) => {
+      const type = str(dep.type)?.toLowerCase();
+      const kind: ModDependency['kind'] = type === 'incompatible'
+        ? 'incompatible'
+        : type === 'optional' || type === 'discouraged' || dep.mandatory === false
+          ? 'optional'
+          : 'required';
+      return { id: str(dep.modId)!, versionRange: str(dep.versionRange) ?? '*', kind };
+    });
+
+  return {
+    loader,
+    id,
+    name: str(mod.displayName),
+    version,
+    description: str(mod.description)?.trim(),
+    environment: mod.clientSideOnly === true || toml.clientSideOnly === true ? 'client' : 'both',
+    dependencies,
+    provides: [],
+  };
+}
+
+function parseVersion(version: string): { parts: number[]; pre: boolean } {
+  const core = version.trim().replace(/^v/i, '').split('+')[0];
+  const [main, ...pre] = core.split('-');
+  return { parts: main.split('.').map((part) => parseInt(part, 10) || 0), pre: pre.length > 0 };
+}
+
+/**
+ * Compare versions by their numeric parts; a pre-release sorts before its release
+ */
+export function compareModVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  for (let i = 0; i < Math.max(va.parts.length, vb.parts.length); i++) {
+    const diff = (va.parts[i] ?? 0) - (vb.parts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return va.pre === vb.pre ? 0 : va.pre ? -1 : 1;
+}
+
+/**
+ * Fabric / Quilt range: "*", "1.2.3", ">=1.2 <2", "~1.2", "^1.2", "1.20.x", alternatives joined with "||"
+ */
+function satisfiesSemverRange(version: string, range: string): boolean {
+  return range.split('||').some((alternative) =>
+    alternative.trim().split(/\s+/).filter(Boolean).every((predicate) => {
+      if (predicate === '*') return true;
+      const match = predicate.match(/^(>=|<=|>|<|=|~|\^)?(.+)$/);
+      if (!match) return true;
+      const [, op = '=', target] = match;
+      if (/[xX*]/.test(target)) {
+        const prefix = target.split('.').filter((part) => !/^[xX*]$/.test(part));
+        const parts = parseVersion(version).parts;
+        return prefix.every((part, i) => parts[i] === (parseInt(part, 10) || 0));
+      }
+      const cmp = compareModVersions(version, target);
+      const t = parseVersion(target).parts;
+      switch (op) {
+        case '>=': return cmp >= 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '<': return cmp < 0;
+        case '~': return cmp >= 0 && compareModVersions(version, `${t[0]}.${(t[1] ?? 0) + 1}`) < 0;
+        case '^': return cmp >= 0 && compareModVersions(version, `${t[0] + 1}`) < 0;
+        default: return cmp === 0;
+      }
+    })
+  );
+}
+
+/**
+ * Forge / NeoForge Maven range: "[47,)", "[1.20.1,1.21)", "[1.0]", or a bare minimum version
+ */
+function satisfiesMavenRange(version: string, range: string): boolean {
+  return range.split(/(?<=[\])]),(?=[[(])/).some((part) => {
+    const match = part.trim().match(/^([[(])\s*([^,]*?)\s*(?:,\s*([^\])]*?)\s*)?([\])])$/);
+    if (!match) return !part.trim() || part.trim() === '*' || compareModVersions(version, part) >= 0;
+    const [, open, low, high, close] = match;
+    // "[1.0]" is an exact version
+    if (high === undefined) return compareModVersions(version, low) === 0;
+    if (low && (open === '[' ? compareModVersions(version, low) < 0 : compareModVersions(version, low) <= 0)) return false;
+    if (high && (close === ']' ? compareModVersions(version, high) > 0 : compareModVersions(version, high) >= 0)) return false;
+    return true;
+  });
+}
+
+function satisfiesRange(loader: ModLoader | undefined, version: string, range: string): boolean {
+  if (!range || range === '*') return true;
+  return loader === 'forge' || loader === 'neoforge' ? satisfiesMavenRange(version, range) : satisfiesSemverRange(version, range);
+}
+
+async function readModJar(file: string, fullPath: string): Promise<{ mod: ModInfo; provides: string[] }> {
+  const size = (await fs.promises.stat(fullPath)).size;
+  const invalid = (message: string) => ({
+    mod: { file, size, environment: 'both' as const, dependencies: [], issues: [{ type: 'invalid' as const, message }] },
+    provides: [],
+  });
+  try {
+    const entries = await readZipEntries(fullPath, METADATA_FILES);
+    const text = (name: string) => entries.get(name)?.toString('utf8');
+
+    let metadata: ModMetadata;
+    if (entries.has('fabric.mod.json')) {
+      metadata = readFabricMetadata(JSON.parse(text('fabric.mod.json')!));
+    } else if (entries.has('quilt.mod.json')) {
+      metadata = readQuiltMetadata(JSON.parse(text('quilt.mod.json')!));
+    } else if (entries.has('META-INF/neoforge.mods.toml')) {
+      metadata = readForgeMetadata(parseSimpleToml(text('META-INF/neoforge.mods.toml')!), 'neoforge', text('META-INF/MANIFEST.MF'));
+    } else if (entries.has('META-INF/mods.toml')) {
+      metadata = readForgeMetadata(parseSimpleToml(text('META-INF/mods.toml')!), 'forge', text('META-INF/MANIFEST.MF'));
+    } else {
+      return invalid('No fabric.mod.json, quilt.mod.json or mods.toml in the jar');
+    }
+
+    const { provides, ...info } = metadata;
+    if (!info.id) return invalid('The mod metadata has no id');
+    return { mod: { file, size, ...info, issues: [] }, provides };
+  } catch (error) {
+    return invalid(`Cannot read jar: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Mods of an instance, with their issues
+ */
+export async function listMods(instance: ModTarget): Promise<{ serverVersion: string | null; mods: ModInfo[] }> {
+  const modsDir = path.join(await getInstanceDir(instance.id), MODS_DIR);
+  let files: string[];
+  try {
+    files = (await fs.promises.readdir(modsDir)).filter((name) => name.toLowerCase().endsWith('.jar')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    files = [];
+  }
+
+  const results = await Promise.all(files.map((file) => readModJar(file, path.join(modsDir, file))));
+  const mods = results.map((result) => result.mod);
+  const serverVersion = await getMinecraftVersion(instance);
+
+  // Versions by mod id, including provided ids and the Minecraft version when known
+  const available = new Map<string, string | null>();
+  for (const { mod, provides } of results) {
+    if (!mod.id) continue;
+    available.set(mod.id, mod.version ?? null);
+    for (const id of provides) available.set(id, mod.version ?? null);
+  }
+  available.set('minecraft', serverVersion);
+
+  for (const mod of mods) {
+    if (!mod.id) continue;
+    if (mod.environment === 'client') {
+      mod.issues.push({ type: 'client-only', message: 'Client-only mod; it will crash or be ignored on a dedicated server' });
+    }
+    const duplicates = mods.filter((other) => other !== mod && other.id === mod.id);
+    if (duplicates.length > 0) {
+      mod.issues.push({ type: 'duplicate', message: `Same mod id as ${duplicates.map((other) => other.file).join(', ')}` });
+    }
+    for (const dep of mod.dependencies) {
+      if (LOADER_IDS.has(dep.id)) continue;
+      const present = available.has(dep.id);
+      const version = available.get(dep.id);
+      if (dep.kind === 'incompatible') {
+        if (present && (!version || satisfiesRange(mod.loader, version, dep.versionRange))) {
+          mod.issues.push({ type: 'incompatible', message: `Incompatible with ${dep.id}${version ? ` ${version}` : ''}` });
+        }
+      } else if (!present) {
+        if (dep.kind === 'required') {
+          mod.issues.push({ type: 'missing-dependency', message: `Needs ${dep.id} ${dep.versionRange} (missing, unless bundled in another mod)` });
+        }
+      } else if (version && !satisfiesRange(mod.loader, version, dep.versionRange)) {
+        mod.issues.push({ type: 'dependency-version', message: `Needs ${dep.id} ${dep.versionRange}, found ${version}` });
+      }
+    }
+  }
+
+  return { serverVersion, mods };
+}
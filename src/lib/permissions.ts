@@ -0,0 +1,79 @@
+/**
+ * Panel Roles and Permissions
+ *
+ * Pure data shared by the server (enforcement) and the UI (hiding or
+ * disabling controls); keep it free of Node.js imports.
+ */
+
+export const ROLES = ['admin', 'operator', 'console-only', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  /** Dashboard, status, metrics and crash history */
+  'status:read',
+  /** Start / stop / restart / kill the Minecraft server */
+  'server:control',
+  /** Type into the Minecraft console */
+  'console:write',
+  /** Raw bash PTY (WS input / resize) and /api/exec */
+  'terminal',
+  /** List, view and download files in MC_DIR */
+  'files:read',
+  /** Upload, edit and delete files in MC_DIR */
+  'files:write',
+  /** Change server.properties */
+  'properties:write',
+  /** Whitelist, op, ban and pardon players */
+  'players:manage',
+  /** Read and write config.panel */
+  'config:manage',
+  /** Start / stop tunnels */
+  'tunnel:manage',
+  /** Run a backup now */
+  'backup:run',
+  /** Create, change and delete panel users */
+  'users:manage',
+  /** Browse the audit log */
+  'audit:read',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  operator: ['status:read', 'server:control', 'console:write', 'files:read', 'properties:write', 'players:manage', 'backup:run'],
+  'console-only': ['status:read', 'console:write'],
+  viewer: ['status:read'],
+};
+
+/**
+ * Permissions an API token can be granted (it also needs its owner's role to allow them)
+ * 'terminal' covers /api/exec and the bash PTY, i.e. a shell on the host
+ */
+export const TOKEN_SCOPES = ['status:read', 'console:write', 'files:read', 'files:write', 'terminal', 'backup:run'] as const satisfies readonly Permission[];
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  operator: 'Operator',
+  'console-only': 'Console only',
+  viewer: 'Viewer',
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function isTokenScope(value: unknown): value is TokenScope {
+  return typeof value === 'string' && (TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether a user has a permission; API token callers are further limited to the token's scopes
+ */
+export function userHasPermission(user: { role: Role; scopes?: readonly Permission[] }, permission: Permission): boolean {
+  return hasPermission(user.role, permission) && (!user.scopes || user.scopes.includes(permission));
+}
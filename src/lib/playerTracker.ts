@@ -0,0 +1,322 @@
+/**
+ * Player Tracker
+ *
+ * Follows who is online from the console line feed (see
+ * statusManager.handleTerminalLine):
+ *   "UUID of player <name> is <uuid>"          (login, before joining)
+ *   "<name>[/<ip>:<port>] logged in with ..."  (login, before joining)
+ *   "<name> joined the game" / "<name> left the game"
+ *   `list` replies, which replace the online set
+ * Everyone still online is logged out when the server process exits.
+ *
+ * Finished sessions are appended to sessions.jsonl in data/players for
+ * the default instance and data/players/<id> for other instances.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_INSTANCE_ID } from '../config';
+import type { ServerProcess } from './serverProcess';
+
+export interface PlayerSession {
+  name: string;
+  uuid?: string;
+  ip?: string;
+  joinedAt: string;
+  /** Missing while the player is online */
+  leftAt?: string;
+}
+
+interface PendingLogin {
+  uuid?: string;
+  ip?: string;
+}
+
+const PLAYERS_DIR = path.join(process.cwd(), 'data', 'players');
+const DEFAULT_SESSION_LIMIT = 100;
+const MAX_SESSION_LIMIT = 1000;
+// Paper prints `list` names on the lines after the header
+const MAX_LIST_FOLLOW_LINES = 10;
+
+// Java names are [A-Za-z0-9_]; Geyser / Floodgate prefix Bedrock players with '.' or '*'
+const NAME = '[\\w.*]{1,32}';
+const UUID_PATTERN = new RegExp(`^UUID of player (${NAME}) is ([0-9a-f-]{32,36})$`, 'i');
+const LOGIN_PATTERN = new RegExp(`^(${NAME})\\[/(.+?)\\] logged in with entity id`);
+const JOIN_PATTERN = new RegExp(`^(${NAME})(?: \\(formerly known as ${NAME}\\))? joined the game$`);
+const LEAVE_PATTERN = new RegExp(`^(${NAME}) left the game$`);
+const LIST_PATTERN = /^There are (\d+) (?:of a max of|out of maximum) (\d+) players online[:.]\s*(.*)$/;
+// Paper groups names by permission group ("default: Steve, Alex")
+const LIST_GROUP_PATTERN = /^[^:<]{1,32}: (.*)$/;
+
+/**
+ * Strip the log prefix ("[12:00:00 INFO]: ") and the console prompt
+ */
+function messageText(line: string): string {
+  return line
+    .replace(/\r/g, '')
+    .replace(/^[>\s]*/, '')
+    .replace(/^(\[[^\]]*\]\s*)+:?\s*/, '')
+    .trim();
+}
+
+/**
+ * Player names from a `list` reply; prefixes such as "[AFK]" are dropped
+ */
+function parseListNames(text: string): string[] {
+  const nameAtEnd = new RegExp(`(${NAME})$`);
+  return text
+    .split(',')
+    .map((entry) => entry.trim().match(nameAtEnd)?.[1])
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * "/1.2.3.4:51234" or "/[::1]:51234" → address without the port
+ */
+function parseAddress(address: string): string {
+  return address.replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1');
+}
+
+export class PlayerTracker {
+  private readonly tag: string;
+  private readonly dir: string;
+  private online = new Map<string, PlayerSession>();
+  private pendingLogins = new Map<string, PendingLogin>();
+  private listeners = new Set<(players: PlayerSession[]) => void>();
+  private removeProcessListener: (() => void) | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // `list` reply being collected over several lines (Paper)
+  private listExpected = 0;
+  private listNames: string[] = [];
+  private listLinesLeft = 0;
+
+  constructor(instanceId: string, private readonly serverProcess: ServerProcess) {
+    this.tag = `[Players:${instanceId}]`;
+    this.dir = instanceId === DEFAULT_INSTANCE_ID ? PLAYERS_DIR : path.join(PLAYERS_DIR, instanceId);
+  }
+
+  private get sessionsFile(): string {
+    return path.join(this.dir, 'sessions.jsonl');
+  }
+
+  /**
+   * Initialize the tracker
+   * Subscribes to the server process lifecycle
+   */
+  initialize(): void {
+    if (this.removeProcessListener) return;
+    this.removeProcessListener = this.serverProcess.addEventListener((event) => {
+      if (event.type === 'exit' || event.type === 'spawn') {
+        this.pendingLogins.clear();
+        this.listLinesLeft = 0;
+        this.leaveAll(event.timestamp);
+      }
+    });
+  }
+
+  /**
+   * Handle terminal output line
+   * Parses logins, joins, leaves and `list` replies
+   */
+  handleTerminalLine(line: string): void {
+    const text = messageText(line);
+    if (!text) return;
+
+    if (this.listLinesLeft > 0) {
+      this.listLinesLeft--;
+      const group = text.match(LIST_GROUP_PATTERN);
+      if (group) {
+        this.listNames.push(...parseListNames(group[1]));
+        if (this.listNames.length >= this.listExpected) {
+          this.finishList();
+        }
+        return;
+      }
+    }
+
+    let match = text.match(UUID_PATTERN);
+    if (match) {
+      this.pendingLogin(match[1]).uuid = match[2].toLowerCase();
+      return;
+    }
+
+    match = text.match(LOGIN_PATTERN);
+    if (match) {
+      this.pendingLogin(match[1]).ip = parseAddress(match[2]);
+      return;
+    }
+
+    match = text.match(JOIN_PATTERN);
+    if (match) {
+      this.join(match[1]);
+      this.notify();
+      return;
+    }
+
+    match = text.match(LEAVE_PATTERN);
+    if (match) {
+      this.leave(match[1], new Date().toISOString());
+      this.notify();
+      return;
+    }
+
+    match = text.match(LIST_PATTERN);
+    if (match) {
+      this.listExpected = parseInt(match[1], 10);
+      this.listNames = parseListNames(match[3]);
+      if (this.listExpected === 0 || this.listNames.length >= this.listExpected) {
+        this.finishList();
+      } else {
+        this.listLinesLeft = MAX_LIST_FOLLOW_LINES;
+      }
+    }
+  }
+
+  private pendingLogin(name: string): PendingLogin {
+    const key = name.toLowerCase();
+    let login = this.pendingLogins.get(key);
+    if (!login) {
+      login = {};
+      this.pendingLogins.set(key, login);
+    }
+    return login;
+  }
+
+  private join(name: string): void {
+    const key = name.toLowerCase();
+    if (this.online.has(key)) return;
+    const login = this.pendingLogins.get(key);
+    this.pendingLogins.delete(key);
+    this.online.set(key, {
+      name,
+      ...(login?.uuid ? { uuid: login.uuid } : {}),
+      ...(login?.ip ? { ip: login.ip } : {}),
+      joinedAt: new Date().toISOString(),
+    });
+  }
+
+  private leave(name: string, timestamp: string): void {
+    const key = name.toLowerCase();
+    const session = this.online.get(key);
+    if (!session) return;
+    this.online.delete(key);
+    this.saveSession({ ...session, leftAt: timestamp });
+  }
+
+  private leaveAll(timestamp: string): void {
+    if (this.online.size === 0) return;
+    for (const session of [...this.online.values()]) {
+      this.leave(session.name, timestamp);
+    }
+    this.notify();
+  }
+
+  /**
+   * Make the online set match a complete `list` reply
+   */
+  private finishList(): void {
+    this.listLinesLeft = 0;
+    const names = new Map(this.listNames.map((name) => [name.toLowerCase(), name]));
+    const now = new Date().toISOString();
+    let changed = false;
+
+    for (const [key, session] of [...this.online]) {
+      if (!names.has(key)) {
+        this.leave(session.name, now);
+        changed = true;
+      }
+    }
+    for (const [key, name] of names) {
+      if (!this.online.has(key)) {
+        this.join(name);
+        changed = true;
+      }
+    }
+    if (changed) {
+      console.log(`${this.tag} Online players updated from list: ${names.size} online`);
+      this.notify();
+    }
+  }
+
+  private saveSession(session: PlayerSession): void {
+    const line = JSON.stringify(session) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        await fs.promises.appendFile(this.sessionsFile, line);
+      })
+      .catch((error) => console.error(`${this.tag} Failed to save session:`, error));
+  }
+
+  private notify(): void {
+    const players = this.getOnlinePlayers();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(players);
+      } catch (error) {
+        console.error(`${this.tag} Error in player listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Get the players currently online, in join order
+   */
+  getOnlinePlayers(): PlayerSession[] {
+    return [...this.online.values()].map((session) => ({ ...session }));
+  }
+
+  /**
+   * Get a player's sessions, newest first (the open one first while online)
+   */
+  async getSessions(name: string, limit: number = DEFAULT_SESSION_LIMIT): Promise<PlayerSession[]> {
+    await this.writeQueue;
+    const max = Math.min(Math.max(limit, 1), MAX_SESSION_LIMIT);
+    const key = name.toLowerCase();
+    const sessions: PlayerSession[] = [];
+
+    const current = this.online.get(key);
+    if (current) sessions.push({ ...current });
+
+    let content = '';
+    try {
+      content = await fs.promises.readFile(this.sessionsFile, 'utf8');
+    } catch {
+      return sessions;
+    }
+
+    const lines = content.split('\n');
+    for (let i = lines.length - 1; i >= 0 && sessions.length < max; i--) {
+      if (!lines[i]) continue;
+      try {
+        const session: PlayerSession = JSON.parse(lines[i]);
+        if (session.name?.toLowerCase() === key) sessions.push(session);
+      } catch {
+        // Skip damaged lines
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Add a listener for changes to the online players
+   * Returns a function to remove the listener
+   */
+  addListener(callback: (players: PlayerSession[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Clean up resources (pending session writes are finished first)
+   */
+  async destroy(): Promise<void> {
+    this.removeProcessListener?.();
+    this.removeProcessListener = null;
+    this.listeners.clear();
+    await this.writeQueue;
+  }
+}
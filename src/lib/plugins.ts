@@ -0,0 +1,266 @@
+/**
+ * Plugin Manager
+ *
+ * Lists the Bukkit / Paper plugins in <MC_DIR>/plugins by reading
+ * plugin.yml or paper-plugin.yml out of each jar, and checks them for
+ * missing dependencies, duplicates and an api-version newer than the
+ * server. Disabled plugins are kept in plugins/.disabled, which the
+ * server does not load; jars are only moved while the server is stopped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getInstanceDir } from '../config';
+import { readZipEntries } from './zipReader';
+import { compareVersions, getMinecraftVersion } from './serverSoftware';
+import type { ServerInstance } from './instances';
+
+export type PluginTarget = Pick<ServerInstance, 'id' | 'process' | 'status'>;
+
+export type PluginIssueType = 'invalid' | 'missing-dependency' | 'duplicate' | 'api-version';
+
+export interface PluginIssue {
+  type: PluginIssueType;
+  message: string;
+}
+
+export interface PluginInfo {
+  /** Jar file name */
+  file: string;
+  enabled: boolean;
+  size: number;
+  /** From paper-plugin.yml rather than plugin.yml */
+  paperPlugin: boolean;
+  name?: string;
+  version?: string;
+  description?: string;
+  authors: string[];
+  apiVersion?: string;
+  depend: string[];
+  softdepend: string[];
+  issues: PluginIssue[];
+}
+
+const PLUGINS_DIR = 'plugins';
+const DISABLED_DIR = '.disabled';
+const DESCRIPTOR_FILES = ['paper-plugin.yml', 'plugin.yml'];
+
+type YamlValue = string | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+function yamlScalar(raw: string): YamlValue {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(',').map((item) => yamlScalar(item) as string) : [];
+  }
+  if (value === '{}') return {};
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Parse the block starting at lines[start] with the given indentation
+ */
+function parseYamlBlock(lines: YamlLine[], start: number, indent: number): [YamlValue, number] {
+  let i = start;
+  if (lines[i]?.text.startsWith('- ') || lines[i]?.text === '-') {
+    const list: YamlValue[] = [];
+    while (i < lines.length && lines[i].indent === indent && (lines[i].text.startsWith('- ') || lines[i].text === '-')) {
+      list.push(yamlScalar(lines[i].text.slice(1)));
+      i++;
+      // Nested content of list items (maps in lists) is not needed here
+      while (i < lines.length && lines[i].indent > indent) i++;
+    }
+    return [list, i];
+  }
+
+  const map: { [key: string]: YamlValue } = {};
+  while (i < lines.length && lines[i].indent === indent) {
+    const { text } = lines[i];
+    const colon = text.search(/:(\s|$)/);
+    if (colon === -1) {
+      i++;
+      continue;
+    }
+    const key = String(yamlScalar(text.slice(0, colon)));
+    const rest = text.slice(colon + 1).trim();
+    i++;
+    if (rest === '|' || rest === '>' || rest === '|-' || rest === '>-') {
+      const parts: string[] = [];
+      while (i < lines.length && lines[i].indent > indent) parts.push(lines[i++].text);
+      map[key] = parts.join(rest.startsWith('|') ? '\n' : ' ');
+    } else if (rest) {
+      map[key] = yamlScalar(rest);
+    } else if (i < lines.length && (lines[i].indent > indent || (lines[i].indent === indent && lines[i].text.startsWith('-')))) {
+      const [value, next] = parseYamlBlock(lines, i, lines[i].indent);
+      map[key] = value;
+      i = next;
+    } else {
+      map[key] = '';
+    }
+  }
+  return [map, i];
+}
+
+/**
+ * Parse the subset of YAML plugin descriptors use: nested maps, lists of
+ * scalars (block or inline) and quoted or block scalars
+ */
+export function parseSimpleYaml(content: string): { [key: string]: YamlValue } {
+  const lines: YamlLine[] = [];
+  for (const raw of content.replace(/\r/g, '').replace(/\t/g, '  ').split('\n')) {
+    // Drop comments that are not inside quotes
+    const text = /^\s*#/.test(raw) ? '' : raw.replace(/\s+#(?=[^"']*$).*$/, '');
+    if (!text.trim() || text.trim() === '---') continue;
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trim() });
+  }
+  if (lines.length === 0) return {};
+  const [root] = parseYamlBlock(lines, 0, lines[0].indent);
+  return typeof root === 'object' && !Array.isArray(root) ? root : {};
+}
+
+function asString(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function asList(value: YamlValue | undefined): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string' && !!item);
+  return typeof value === 'string' && value ? [value] : [];
+}
+
+/**
+ * Name, version and dependencies from plugin.yml or paper-plugin.yml
+ */
+function describePlugin(descriptor: { [key: string]: YamlValue }, paperPlugin: boolean) {
+  const depend = asList(descriptor.depend);
+  const softdepend = asList(descriptor.softdepend);
+
+  // paper-plugin.yml: dependencies: { server: { Name: { required: true } } }
+  const dependencies = descriptor.dependencies;
+  if (paperPlugin && dependencies && typeof dependencies === 'object' && !Array.isArray(dependencies)) {
+    const server = dependencies.server;
+    if (server && typeof server === 'object' && !Array.isArray(server)) {
+      for (const [name, options] of Object.entries(server)) {
+        const required = !(options && typeof options === 'object' && !Array.isArray(options) && options.required === 'false');
+        (required ? depend : softdepend).push(name);
+      }
+    }
+  }
+
+  return {
+    name: asString(descriptor.name),
+    version: asString(descriptor.version),
+    description: asString(descriptor.description),
+    authors: [...asList(descriptor.author), ...asList(descriptor.authors)],
+    apiVersion: asString(descriptor['api-version']),
+    depend,
+    softdepend,
+    provides: asList(descriptor.provides),
+  };
+}
+
+async function readPluginJar(file: string, enabled: boolean, fullPath: string): Promise<{ plugin: PluginInfo; provides: string[] }> {
+  const size = (await fs.promises.stat(fullPath)).size;
+  const invalid = (message: string) => ({
+    plugin: { file, enabled, size, paperPlugin: false, authors: [], depend: [], softdepend: [], issues: [{ type: 'invalid' as const, message }] },
+    provides: [],
+  });
+  try {
+    const entries = await readZipEntries(fullPath, DESCRIPTOR_FILES);
+    const descriptorFile = DESCRIPTOR_FILES.find((name) => entries.has(name));
+    if (!descriptorFile) return invalid('No plugin.yml or paper-plugin.yml in the jar');
+
+    const paperPlugin = descriptorFile === 'paper-plugin.yml';
+    const { provides, ...info } = describePlugin(parseSimpleYaml(entries.get(descriptorFile)!.toString('utf8')), paperPlugin);
+    if (!info.name) return invalid(`${descriptorFile} has no name`);
+    return { plugin: { file, enabled, size, paperPlugin, ...info, issues: [] }, provides };
+  } catch (error) {
+    return invalid(`Cannot read jar: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function listJars(dir: string): Promise<string[]> {
+  try {
+    return (await fs.promises.readdir(dir)).filter((name) => name.toLowerCase().endsWith('.jar')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Plugins of an instance (enabled ones first), with their issues
+ */
+export async function listPlugins(instance: PluginTarget): Promise<{ serverVersion: string | null; plugins: PluginInfo[] }> {
+  const pluginsDir = path.join(await getInstanceDir(instance.id), PLUGINS_DIR);
+  const disabledDir = path.join(pluginsDir, DISABLED_DIR);
+
+  const read = [
+    ...(await listJars(pluginsDir)).map((file) => readPluginJar(file, true, path.join(pluginsDir, file))),
+    ...(await listJars(disabledDir)).map((file) => readPluginJar(file, false, path.join(disabledDir, file))),
+  ];
+  const results = await Promise.all(read);
+  const plugins = results.map((result) => result.plugin);
+  const serverVersion = await getMinecraftVersion(instance);
+
+  const enabled = plugins.filter((plugin) => plugin.enabled && plugin.name);
+  const available = new Set(
+    results
+      .filter(({ plugin }) => plugin.enabled && plugin.name)
+      .flatMap(({ plugin, provides }) => [plugin.name!, ...provides])
+      .map((name) => name.toLowerCase())
+  );
+
+  for (const plugin of plugins) {
+    if (!plugin.name) continue;
+    const missing = plugin.depend.filter((name) => !available.has(name.toLowerCase()));
+    if (plugin.enabled && missing.length > 0) {
+      plugin.issues.push({ type: 'missing-dependency', message: `Missing dependencies: ${missing.join(', ')}` });
+    }
+    const duplicates = enabled.filter((other) => other !== plugin && other.name!.toLowerCase() === plugin.name!.toLowerCase());
+    if (plugin.enabled && duplicates.length > 0) {
+      plugin.issues.push({ type: 'duplicate', message: `Same plugin as ${duplicates.map((other) => other.file).join(', ')}` });
+    }
+    if (plugin.apiVersion && serverVersion && compareVersions(plugin.apiVersion, serverVersion) > 0) {
+      plugin.issues.push({ type: 'api-version', message: `Built for ${plugin.apiVersion}, the server runs ${serverVersion}` });
+    }
+  }
+
+  return { serverVersion, plugins };
+}
+
+/**
+ * Enable or disable a plugin by moving its jar out of or into plugins/.disabled
+ */
+export async function setPluginEnabled(instance: PluginTarget, file: string, enabled: boolean): Promise<void> {
+  if (!file || file !== path.basename(file) || file.startsWith('.') || !file.toLowerCase().endsWith('.jar')) {
+    throw new Error(`Invalid plugin file: ${file}`);
+  }
+  if (instance.status.getStatus() !== 'stopped' || instance.process.isRunning() || instance.process.isStarting()) {
+    throw new Error('Stop the server before enabling or disabling plugins');
+  }
+
+  const pluginsDir = path.join(await getInstanceDir(instance.id), PLUGINS_DIR);
+  const disabledDir = path.join(pluginsDir, DISABLED_DIR);
+  const from = path.join(enabled ? disabledDir : pluginsDir, file);
+  const to = path.join(enabled ? pluginsDir : disabledDir, file);
+
+  try {
+    await fs.promises.access(from);
+  } catch {
+    throw new Error(`${file} is not ${enabled ? 'disabled' : 'enabled'}`);
+  }
+  if (await fs.promises.access(to).then(() => true, () => false)) {
+    throw new Error(`${enabled ? 'plugins' : 'plugins/.disabled'} already has a ${file}`);
+  }
+  await fs.promises.mkdir(path.dirname(to), { recursive: true });
+  await fs.promises.rename(from, to);
+  console.log(`[Plugins:${instance.id}] ${enabled ? 'Enabled' : 'Disabled'} ${file}`);
+}
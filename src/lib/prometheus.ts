@@ -0,0 +1,69 @@
+/**
+ * Prometheus / OpenMetrics Text Exposition
+ *
+ * Renders metric families in the Prometheus text format (version 0.0.4),
+ * or in OpenMetrics 1.0 when the scraper asks for it. Only gauges are
+ * used, so both formats share the same body apart from the trailing # EOF.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge';
+  samples: MetricSample[];
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+function escapeHelp(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels?: MetricLabels): string {
+  const entries = Object.entries(labels || {});
+  if (entries.length === 0) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`;
+}
+
+/**
+ * Whether an Accept header prefers the OpenMetrics format
+ */
+export function wantsOpenMetrics(accept: string | undefined): boolean {
+  return !!accept && accept.includes('application/openmetrics-text');
+}
+
+/**
+ * Render metric families; families without samples are skipped
+ */
+export function renderMetrics(families: MetricFamily[], openMetrics = false): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    if (family.samples.length === 0) continue;
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  if (openMetrics) lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,74 @@
+/**
+ * Permission checks for Next.js route handlers and server actions
+ *
+ * server.ts already turns away requests without a session or API token;
+ * these helpers check what the caller's role (and token scopes) allow.
+ */
+
+import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import { authManager, type SessionUser } from './auth';
+import { CLIENT_IP_HEADER } from './auditLog';
+import { userHasPermission, type Permission } from './permissions';
+
+/**
+ * Resolve the caller of a route handler request (session cookie or API token)
+ */
+export function getSessionUser(request: Request): SessionUser | null {
+  return authManager.authenticateRequest(
+    { cookie: request.headers.get('cookie'), authorization: request.headers.get('authorization') },
+    request.headers.get(CLIENT_IP_HEADER) ?? undefined
+  );
+}
+
+/**
+ * Actor and client IP of a route handler request, for audit entries
+ */
+export function getAuditContext(request: Request): { actor: string; ip: string } {
+  return {
+    actor: getSessionUser(request)?.username ?? 'anonymous',
+    ip: request.headers.get(CLIENT_IP_HEADER) ?? '',
+  };
+}
+
+/**
+ * Returns a 401 / 403 response when the caller lacks the permission, or null if allowed
+ *
+ * @example
+ * ```ts
+ * const denied = checkPermission(request, 'files:write');
+ * if (denied) return denied;
+ * ```
+ */
+export function checkPermission(request: Request, permission: Permission): NextResponse | null {
+  const user = getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!userHasPermission(user, permission)) {
+    return NextResponse.json({ success: false, error: `Forbidden: requires ${permission}` }, { status: 403 });
+  }
+  return null;
+}
+
+/**
+ * Server action variant: returns an error message when the caller lacks the permission, or null if allowed
+ */
+export async function checkActionPermission(permission: Permission): Promise<string | null> {
+  const h = await headers();
+  const user = authManager.authenticateRequest({ cookie: h.get('cookie'), authorization: h.get('authorization') });
+  if (!user) return 'Unauthorized';
+  if (!userHasPermission(user, permission)) return `Forbidden: requires ${permission}`;
+  return null;
+}
+
+/**
+ * Server action variant of getAuditContext
+ */
+export async function getActionAuditContext(): Promise<{ actor: string; ip: string }> {
+  const h = await headers();
+  return {
+    actor: authManager.authenticateRequest({ cookie: h.get('cookie'), authorization: h.get('authorization') })?.username ?? 'anonymous',
+    ip: h.get(CLIENT_IP_HEADER) ?? '',
+  };
+}
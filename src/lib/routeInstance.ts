@@ -0,0 +1,38 @@
+/**
+ * Instance selection for Next.js route handlers
+ *
+ * Routes that act on one Minecraft server take `?instance=<id>`;
+ * without it they act on the default instance.
+ */
+
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { instanceManager, type ServerInstance } from './instances';
+
+/**
+ * Resolve the instance a request is for, or a 404 response for unknown ids
+ *
+ * @example
+ * ```ts
+ * const instance = getRequestInstance(request);
+ * if (instance instanceof NextResponse) return instance;
+ * ```
+ */
+export function getRequestInstance(request: Request): ServerInstance | NextResponse {
+  const id = new URL(request.url).searchParams.get('instance');
+  const instance = instanceManager.get(id);
+  if (!instance) {
+    return NextResponse.json({ success: false, error: `Unknown instance: ${id}` }, { status: 404 });
+  }
+  return instance;
+}
+
+/**
+ * Whether a resolved path is an instance folder or inside it
+ * Instance folders are siblings (./mc, ./mc-<id>), so a string prefix
+ * check would let ../mc-<id> through
+ */
+export function isInsideDir(root: string, target: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(target));
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
@@ -3,12 +3,17 @@
  * 
  * Automatically creates a compressed zip of the mc folder and uploads to S3
  * Runs every 10 minutes
+ *
+ * Each instance has its own service; the default instance uploads mc.zip,
+ * other instances mc-<id>.zip.
  */
 
 import { S3Client, PutObjectCommand, CreateBucketCommand, ListBucketsCommand } from '@aws-sdk/client-s3';
 import * as fs from 'fs';
 import * as path from 'path';
 import archiver from 'archiver';
+import { auditLog } from './auditLog';
+import { DEFAULT_INSTANCE_ID } from '../config';
 
 // S3 Configuration
 const S3_CONFIG = {
@@ -22,17 +27,24 @@ const S3_CONFIG = {
 };
 
 const BUCKET_NAME = 'test';
-const ZIP_NAME = 'mc.zip';
 const BACKUP_INTERVAL = 10 * 60 * 1000; // 10 minutes
 
-class S3BackupService {
+export class S3BackupService {
+  private readonly tag: string;
+  private readonly zipName: string;
   private s3Client: S3Client;
   private backupInterval: NodeJS.Timeout | null = null;
   private isBackupRunning = false;
   private mcFolderPath: string = '';
   private tempZipPath: string = '';
-
-  constructor() {
+  private lastSuccessAt: number | null = null;
+  private lastDurationMs: number | null = null;
+  private lastSizeBytes: number | null = null;
+  private lastFailureAt: number | null = null;
+
+  constructor(instanceId: string) {
+    this.tag = `[S3Backup:${instanceId}]`;
+    this.zipName = instanceId === DEFAULT_INSTANCE_ID ? 'mc.zip' : `mc-${instanceId}.zip`;
     this.s3Client = new S3Client(S3_CONFIG);
   }
 
@@ -41,19 +53,19 @@ class S3BackupService {
    */
   async initialize(mcPath: string): Promise<void> {
     this.mcFolderPath = mcPath;
-    this.tempZipPath = path.join('/tmp', ZIP_NAME);
+    this.tempZipPath = path.join('/tmp', this.zipName);
     
-    console.log('[S3Backup] Initializing backup service...');
-    console.log(`[S3Backup] MC folder: ${this.mcFolderPath}`);
-    console.log(`[S3Backup] Temp zip: ${this.tempZipPath}`);
-    console.log(`[S3Backup] Interval: ${BACKUP_INTERVAL / 1000 / 60} minutes`);
+    console.log(`${this.tag} Initializing backup service...`);
+    console.log(`${this.tag} MC folder: ${this.mcFolderPath}`);
+    console.log(`${this.tag} Temp zip: ${this.tempZipPath}`);
+    console.log(`${this.tag} Interval: ${BACKUP_INTERVAL / 1000 / 60} minutes`);
 
     // Test S3 connection and ensure bucket exists
     try {
       await this.ensureBucket();
-      console.log('[S3Backup] S3 connection successful');
+      console.log(`${this.tag} S3 connection successful`);
     } catch (error) {
-      console.error('[S3Backup] S3 connection failed:', error);
+      console.error(`${this.tag} S3 connection failed:`, error);
       throw error;
     }
   }
@@ -69,15 +81,15 @@ class S3BackupService {
       const bucketExists = response.Buckets?.some(b => b.Name === BUCKET_NAME);
       
       if (!bucketExists) {
-        console.log(`[S3Backup] Bucket "${BUCKET_NAME}" does not exist, creating...`);
+        console.log(`${this.tag} Bucket "${BUCKET_NAME}" does not exist, creating...`);
         const createCommand = new CreateBucketCommand({ Bucket: BUCKET_NAME });
         await this.s3Client.send(createCommand);
-        console.log(`[S3Backup] Bucket "${BUCKET_NAME}" created`);
+        console.log(`${this.tag} Bucket "${BUCKET_NAME}" created`);
       } else {
-        console.log(`[S3Backup] Bucket "${BUCKET_NAME}" exists`);
+        console.log(`${this.tag} Bucket "${BUCKET_NAME}" exists`);
       }
     } catch (error: any) {
-      console.error('[S3Backup] Error checking/creating bucket:', error);
+      console.error(`${this.tag} Error checking/creating bucket:`, error);
       throw error;
     }
   }
@@ -87,11 +99,11 @@ class S3BackupService {
    */
   startAutoBackup(): void {
     if (this.backupInterval) {
-      console.log('[S3Backup] Auto backup already running');
+      console.log(`${this.tag} Auto backup already running`);
       return;
     }
 
-    console.log('[S3Backup] Starting automatic backups...');
+    console.log(`${this.tag} Starting automatic backups...`);
 
     // Run initial backup after a short delay
     setTimeout(() => this.performBackup(), 5000);
@@ -109,7 +121,7 @@ class S3BackupService {
     if (this.backupInterval) {
       clearInterval(this.backupInterval);
       this.backupInterval = null;
-      console.log('[S3Backup] Automatic backups stopped');
+      console.log(`${this.tag} Automatic backups stopped`);
     }
   }
 
@@ -132,7 +144,7 @@ class S3BackupService {
 
       output.on('close', () => {
         totalBytes = archive.pointer();
-        console.log(`[S3Backup] Zip created: ${this.formatBytes(totalBytes)}`);
+        console.log(`${this.tag} Zip created: ${this.formatBytes(totalBytes)}`);
         resolve({ path: this.tempZipPath, size: totalBytes });
       });
 
@@ -142,7 +154,7 @@ class S3BackupService {
 
       archive.on('warning', (err) => {
         if (err.code === 'ENOENT') {
-          console.warn('[S3Backup] Warning:', err);
+          console.warn(`${this.tag} Warning:`, err);
         } else {
           reject(err);
         }
@@ -165,7 +177,7 @@ class S3BackupService {
 
     const command = new PutObjectCommand({
       Bucket: BUCKET_NAME,
-      Key: ZIP_NAME,
+      Key: this.zipName,
       Body: fileContent,
       ContentType: 'application/zip',
     });
@@ -180,58 +192,80 @@ class S3BackupService {
     try {
       if (fs.existsSync(this.tempZipPath)) {
         fs.unlinkSync(this.tempZipPath);
-        console.log('[S3Backup] Local zip file deleted');
+        console.log(`${this.tag} Local zip file deleted`);
       }
     } catch (error) {
-      console.error('[S3Backup] Failed to delete local zip:', error);
+      console.error(`${this.tag} Failed to delete local zip:`, error);
     }
   }
 
   /**
    * Perform backup
+   * Returns whether a backup was uploaded
+   * @param trigger - Who started it; scheduled runs are recorded as 'system'
    */
-  private async performBackup(): Promise<void> {
+  private async performBackup(trigger: { actor: string; ip: string } = { actor: 'system', ip: '' }): Promise<boolean> {
     if (this.isBackupRunning) {
-      console.log('[S3Backup] Backup already in progress, skipping...');
-      return;
+      console.log(`${this.tag} Backup already in progress, skipping...`);
+      return false;
     }
 
     this.isBackupRunning = true;
     const startTime = Date.now();
 
     try {
-      console.log('[S3Backup] ═══════════════════════════════════════');
-      console.log('[S3Backup] Starting backup at', new Date().toLocaleString());
+      console.log(`${this.tag} ═══════════════════════════════════════`);
+      console.log(`${this.tag} Starting backup at`, new Date().toLocaleString());
 
       // Check if mc folder exists
       if (!fs.existsSync(this.mcFolderPath)) {
-        console.log('[S3Backup] MC folder does not exist, skipping backup');
-        return;
+        console.log(`${this.tag} MC folder does not exist, skipping backup`);
+        return false;
       }
 
       // Step 1: Create compressed zip
-      console.log('[S3Backup] Creating compressed zip...');
+      console.log(`${this.tag} Creating compressed zip...`);
       const { size } = await this.createZip();
 
       // Step 2: Upload to S3
-      console.log('[S3Backup] Uploading to S3...');
+      console.log(`${this.tag} Uploading to S3...`);
       await this.uploadZip(this.tempZipPath);
-      console.log(`[S3Backup] Uploaded to s3://${BUCKET_NAME}/${ZIP_NAME}`);
+      console.log(`${this.tag} Uploaded to s3://${BUCKET_NAME}/${this.zipName}`);
 
       // Step 3: Delete local zip
-      console.log('[S3Backup] Cleaning up...');
+      console.log(`${this.tag} Cleaning up...`);
       this.deleteLocalZip();
 
-      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log('[S3Backup] ✓ Backup completed successfully');
-      console.log(`[S3Backup]   Duration: ${duration}s`);
-      console.log(`[S3Backup]   Size: ${this.formatBytes(size)}`);
-      console.log(`[S3Backup]   Next backup: ${new Date(Date.now() + BACKUP_INTERVAL).toLocaleTimeString()}`);
-      console.log('[S3Backup] ═══════════════════════════════════════');
+      this.lastSuccessAt = Date.now();
+      this.lastDurationMs = this.lastSuccessAt - startTime;
+      this.lastSizeBytes = size;
+
+      const duration = (this.lastDurationMs / 1000).toFixed(2);
+      console.log(`${this.tag} ✓ Backup completed successfully`);
+      console.log(`${this.tag}   Duration: ${duration}s`);
+      console.log(`${this.tag}   Size: ${this.formatBytes(size)}`);
+      console.log(`${this.tag}   Next backup: ${new Date(Date.now() + BACKUP_INTERVAL).toLocaleTimeString()}`);
+      console.log(`${this.tag} ═══════════════════════════════════════`);
+      auditLog.record({
+        ...trigger,
+        action: 'backup.run',
+        target: `s3://${BUCKET_NAME}/${this.zipName}`,
+        details: { durationMs: this.lastDurationMs, sizeBytes: size },
+      });
+      return true;
     } catch (error) {
-      console.error('[S3Backup] ✗ Backup failed:', error);
+      console.error(`${this.tag} ✗ Backup failed:`, error);
+      this.lastFailureAt = Date.now();
+      auditLog.record({
+        ...trigger,
+        action: 'backup.run',
+        target: `s3://${BUCKET_NAME}/${this.zipName}`,
+        success: false,
+        details: { durationMs: this.lastFailureAt - startTime, error: error instanceof Error ? error.message : String(error) },
+      });
       // Try to clean up zip file even on error
       this.deleteLocalZip();
+      return false;
     } finally {
       this.isBackupRunning = false;
     }
@@ -240,18 +274,32 @@ class S3BackupService {
   /**
    * Manually trigger a backup
    */
-  async manualBackup(): Promise<void> {
-    console.log('[S3Backup] Manual backup triggered');
-    await this.performBackup();
+  async manualBackup(trigger?: { actor: string; ip: string }): Promise<boolean> {
+    console.log(`${this.tag} Manual backup triggered`);
+    return this.performBackup(trigger);
   }
 
   /**
    * Get backup status
+   * Timestamps are epoch ms and null until the first backup succeeds / fails
    */
-  getStatus(): { running: boolean; interval: number } {
+  getStatus(): {
+    running: boolean;
+    interval: number;
+    inProgress: boolean;
+    lastSuccessAt: number | null;
+    lastDurationMs: number | null;
+    lastSizeBytes: number | null;
+    lastFailureAt: number | null;
+  } {
     return {
       running: this.backupInterval !== null,
       interval: BACKUP_INTERVAL / 1000 / 60,
+      inProgress: this.isBackupRunning,
+      lastSuccessAt: this.lastSuccessAt,
+      lastDurationMs: this.lastDurationMs,
+      lastSizeBytes: this.lastSizeBytes,
+      lastFailureAt: this.lastFailureAt,
     };
   }
 
@@ -266,6 +314,3 @@ class S3BackupService {
     return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
   }
 }
-
-// Export singleton instance
-export const s3BackupService = new S3BackupService();
@@ -0,0 +1,17 @@
+/**
+ * Server platforms the panel recognises (see serverSoftware.ts)
+ * Kept free of Node imports so dashboard components can use the labels
+ */
+
+export type ServerPlatform = 'vanilla' | 'paper' | 'purpur' | 'spigot' | 'fabric' | 'forge' | 'neoforge' | 'velocity';
+
+export const PLATFORM_LABELS: Record<ServerPlatform, string> = {
+  vanilla: 'Vanilla',
+  paper: 'Paper',
+  purpur: 'Purpur',
+  spigot: 'Spigot',
+  fabric: 'Fabric',
+  forge: 'Forge',
+  neoforge: 'NeoForge',
+  velocity: 'Velocity',
+};
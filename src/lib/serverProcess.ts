@@ -0,0 +1,300 @@
+/**
+ * Minecraft Server Process Supervisor
+ *
+ * Owns the JVM child process directly instead of typing a `java` command
+ * into the shared bash PTY. The supervisor spawns the server from
+ * config.panel in its own PTY, keeps a console buffer and exposes
+ * start / stop / restart / kill.
+ *
+ * Stopping is graceful: the `stop` console command first, then SIGTERM,
+ * then SIGKILL, each after its own timeout.
+ *
+ * There is one supervisor per instance, owned by the instance manager.
+ */
+
+import * as pty from 'node-pty';
+import { getInstanceConfig } from '../config';
+import { resolveLaunchSpec } from './launchCommand';
+
+export type StopStep = 'command' | 'sigterm' | 'sigkill';
+
+export type ProcessEvent =
+  | { type: 'spawn'; pid: number; timestamp: string }
+  | { type: 'stop-step'; step: StopStep; timeoutMs: number; timestamp: string }
+  | { type: 'exit'; exitCode: number | null; signal: number | null; timestamp: string }
+  | { type: 'error'; message: string; timestamp: string };
+
+/**
+ * Rewrites console output before it is buffered and broadcast
+ * Call `deliver` (now or later) with whatever should reach the console
+ */
+export type OutputFilter = (data: string, deliver: (data: string) => void) => void;
+
+const MAX_BUFFER_SIZE = 50000;
+const SIGKILL_WAIT_MS = 5000;
+
+export class ServerProcess {
+  private readonly tag: string;
+  private child: pty.IPty | null = null;
+  private outputBuffer = '';
+  private cols = 80;
+  private rows = 30;
+  private outputListeners = new Set<(data: string) => void>();
+  private eventListeners = new Set<(event: ProcessEvent) => void>();
+  private exitWaiters = new Set<() => void>();
+  private outputFilter: OutputFilter | null = null;
+  private stopping: Promise<void> | null = null;
+  private starting = false;
+
+  constructor(private readonly instanceId: string) {
+    this.tag = `[ServerProcess:${instanceId}]`;
+  }
+
+  /**
+   * Spawn the Minecraft server
+   * Throws if the server is already running or starting, or config.panel is invalid
+   */
+  async start(): Promise<void> {
+    if (this.child) {
+      throw new Error('Server is already running');
+    }
+    // Claimed before the first await so concurrent starts cannot spawn a second JVM
+    if (this.starting) {
+      throw new Error('Server is already starting');
+    }
+    this.starting = true;
+    try {
+      await this.spawnServer();
+    } finally {
+      this.starting = false;
+    }
+  }
+
+  private async spawnServer(): Promise<void> {
+    // Throws if config.panel is invalid (see launchCommand.ts)
+    const spec = await resolveLaunchSpec(await getInstanceConfig(this.instanceId));
+    console.log(`${this.tag} Starting: ${spec.command} ${spec.args.join(' ')} (cwd: ${spec.cwd})`);
+
+    let child: pty.IPty;
+    try {
+      child = pty.spawn(spec.command, spec.args, {
+        name: 'xterm-color',
+        cols: this.cols,
+        rows: this.rows,
+        cwd: spec.cwd,
+        env: process.env as { [key: string]: string },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit({ type: 'error', message, timestamp: new Date().toISOString() });
+      throw new Error(`Failed to start server: ${message}`);
+    }
+
+    this.child = child;
+    this.outputBuffer = '';
+
+    child.onData((data: string) => {
+      if (!this.outputFilter) {
+        this.deliverOutput(data);
+        return;
+      }
+      try {
+        this.outputFilter(data, (filtered) => this.deliverOutput(filtered));
+      } catch (error) {
+        console.error(`${this.tag} Error in output filter:`, error);
+        this.deliverOutput(data);
+      }
+    });
+
+    child.onExit(({ exitCode, signal }) => {
+      console.log(`${this.tag} Server exited with code ${exitCode}, signal ${signal}`);
+      this.child = null;
+      this.emit({
+        type: 'exit',
+        exitCode: exitCode ?? null,
+        signal: signal || null,
+        timestamp: new Date().toISOString(),
+      });
+      this.exitWaiters.forEach((resolve) => resolve());
+      this.exitWaiters.clear();
+    });
+
+    console.log(`${this.tag} Server spawned with PID: ${child.pid}`);
+    this.emit({ type: 'spawn', pid: child.pid, timestamp: new Date().toISOString() });
+  }
+
+  private deliverOutput(data: string): void {
+    if (!data) return;
+    this.outputBuffer += data;
+    if (this.outputBuffer.length > MAX_BUFFER_SIZE) {
+      this.outputBuffer = this.outputBuffer.slice(-MAX_BUFFER_SIZE);
+    }
+
+    this.outputListeners.forEach((listener) => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(`${this.tag} Error in output listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Gracefully stop the server
+   * Sends `stop`, waits STOP_GRACE_SECONDS, sends SIGTERM, waits
+   * STOP_TERM_SECONDS, then sends SIGKILL. Resolves once the process is gone.
+   * Concurrent calls share the same stop sequence.
+   */
+  stop(): Promise<void> {
+    if (!this.child) return Promise.resolve();
+    if (!this.stopping) {
+      this.stopping = this.runStopSequence().finally(() => {
+        this.stopping = null;
+      });
+    }
+    return this.stopping;
+  }
+
+  private async runStopSequence(): Promise<void> {
+    const config = await getInstanceConfig(this.instanceId);
+    const graceMs = (config.STOP_GRACE_SECONDS ?? 60) * 1000;
+    const termMs = (config.STOP_TERM_SECONDS ?? 15) * 1000;
+
+    const steps: { step: StopStep; timeoutMs: number; run: () => void }[] = [
+      { step: 'command', timeoutMs: graceMs, run: () => this.child?.write('stop\n') },
+      { step: 'sigterm', timeoutMs: termMs, run: () => this.child?.kill('SIGTERM') },
+      { step: 'sigkill', timeoutMs: SIGKILL_WAIT_MS, run: () => this.child?.kill('SIGKILL') },
+    ];
+
+    for (const { step, timeoutMs, run } of steps) {
+      if (!this.child) return;
+      console.log(`${this.tag} Stop step '${step}' (waiting up to ${timeoutMs / 1000}s)`);
+      this.emit({ type: 'stop-step', step, timeoutMs, timestamp: new Date().toISOString() });
+      const exited = this.waitForExit(timeoutMs);
+      run();
+      if (await exited) return;
+      console.warn(`${this.tag} Server did not exit after '${step}', escalating`);
+    }
+
+    if (this.child) {
+      console.error(`${this.tag} Server (PID: ${this.child.pid}) survived SIGKILL`);
+    }
+  }
+
+  /**
+   * Stop the server, wait for it to exit, then start it again
+   */
+  async restart(): Promise<void> {
+    await this.stop();
+    await this.start();
+  }
+
+  /**
+   * Kill the server process immediately
+   * Reported as a requested stop so it is not mistaken for a crash
+   */
+  kill(signal: string = 'SIGKILL'): void {
+    if (!this.child) return;
+    console.log(`${this.tag} Killing server with ${signal}`);
+    this.emit({ type: 'stop-step', step: 'sigkill', timeoutMs: 0, timestamp: new Date().toISOString() });
+    this.child.kill(signal);
+  }
+
+  /**
+   * Write raw input to the server console
+   */
+  write(data: string): boolean {
+    if (!this.child) return false;
+    this.child.write(data);
+    return true;
+  }
+
+  /**
+   * Resize the server console PTY
+   */
+  resize(cols: number, rows: number): void {
+    this.cols = cols;
+    this.rows = rows;
+    this.child?.resize(cols, rows);
+  }
+
+  /**
+   * Resolve once the current process has exited (immediately if none)
+   * Resolves to false if timeoutMs elapses first
+   */
+  waitForExit(timeoutMs?: number): Promise<boolean> {
+    if (!this.child) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | null = null;
+      const onExit = () => {
+        if (timer) clearTimeout(timer);
+        resolve(true);
+      };
+      this.exitWaiters.add(onExit);
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.exitWaiters.delete(onExit);
+          resolve(false);
+        }, timeoutMs);
+      }
+    });
+  }
+
+  isRunning(): boolean {
+    return this.child !== null;
+  }
+
+  isStarting(): boolean {
+    return this.starting;
+  }
+
+  getPid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * Get the console output history
+   */
+  getBuffer(): string {
+    return this.outputBuffer;
+  }
+
+  /**
+   * Add a console output listener
+   * Returns a function to remove the listener
+   */
+  addOutputListener(callback: (data: string) => void): () => void {
+    this.outputListeners.add(callback);
+    return () => {
+      this.outputListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Install (or with null, remove) the console output filter
+   */
+  setOutputFilter(filter: OutputFilter | null): void {
+    this.outputFilter = filter;
+  }
+
+  /**
+   * Add a lifecycle event listener
+   * Returns a function to remove the listener
+   */
+  addEventListener(callback: (event: ProcessEvent) => void): () => void {
+    this.eventListeners.add(callback);
+    return () => {
+      this.eventListeners.delete(callback);
+    };
+  }
+
+  private emit(event: ProcessEvent): void {
+    this.eventListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`${this.tag} Error in event listener:`, error);
+      }
+    });
+  }
+}
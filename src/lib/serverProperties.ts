@@ -0,0 +1,84 @@
+/**
+ * Server Properties Management
+ *
+ * Reads and updates server.properties in an instance's MC_DIR
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getInstanceDir } from '../config';
+
+const DEFAULT_SERVER_PORT = 25565;
+
+/**
+ * Read server.properties file
+ */
+export async function readServerProperties(instanceId: string): Promise<{ [key: string]: string }> {
+  try {
+    const propsPath = path.join(await getInstanceDir(instanceId), 'server.properties');
+    const content = await fs.promises.readFile(propsPath, 'utf8');
+
+    const properties: { [key: string]: string } = {};
+    const lines = content.split(/\r?\n/);
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key) {
+          properties[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+
+    return properties;
+  } catch (error) {
+    console.error('[ServerProperties] Error reading server.properties:', error);
+    return {};
+  }
+}
+
+/**
+ * Update a property in server.properties file
+ */
+export async function updateServerProperty(instanceId: string, key: string, value: string): Promise<boolean> {
+  try {
+    const propsPath = path.join(await getInstanceDir(instanceId), 'server.properties');
+    const content = await fs.promises.readFile(propsPath, 'utf8');
+    const lines = content.split(/\r?\n/);
+
+    let updated = false;
+    const newLines = lines.map(line => {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [lineKey] = trimmed.split('=');
+        if (lineKey && lineKey.trim() === key) {
+          updated = true;
+          return `${key}=${value}`;
+        }
+      }
+      return line;
+    });
+
+    // If property doesn't exist, add it
+    if (!updated) {
+      newLines.push(`${key}=${value}`);
+    }
+
+    await fs.promises.writeFile(propsPath, newLines.join('\n'), 'utf8');
+    console.log(`[ServerProperties] Updated ${key}=${value} (${instanceId})`);
+    return true;
+  } catch (error) {
+    console.error('[ServerProperties] Error updating server.properties:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the Java Edition listen port (server-port, default 25565)
+ */
+export async function getServerPort(instanceId: string): Promise<number> {
+  const properties = await readServerProperties(instanceId);
+  const port = parseInt(properties['server-port'] || '', 10);
+  return port > 0 && port <= 65535 ? port : DEFAULT_SERVER_PORT;
+}
@@ -0,0 +1,386 @@
+/**
+ * Server Software Detection
+ *
+ * Works out what JAR_NAME actually is: the platform (Vanilla, Paper,
+ * Purpur, Spigot, Fabric, Forge, NeoForge or Velocity), its Minecraft
+ * version and the Java version it needs. The jar is inspected first:
+ *   META-INF/MANIFEST.MF      Main-Class, Implementation-Title / -Version
+ *   version.json              Minecraft version and Java version (vanilla)
+ *   META-INF/versions.list    jar bundled by the vanilla / Paper / Spigot launcher
+ *   install.properties        Fabric server launcher from the installer
+ * Paperclip jars are followed into the patched jar they extract to
+ * versions/, and fabric-server-launch.jar into the server jar named in
+ * fabric-server-launcher.properties. What the jar does not tell is taken
+ * from the first lines of logs/latest.log.
+ *
+ * The installed `java` is checked against the required version so a
+ * start can be warned about before the JVM refuses the jar.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { getInstanceConfig, getInstanceDir } from '../config';
+import { readZipEntries } from './zipReader';
+import { PLATFORM_LABELS, type ServerPlatform } from './serverPlatforms';
+import type { ServerInstance } from './instances';
+
+export interface ServerSoftware {
+  /** JAR_NAME from config.panel */
+  jar: string;
+  platform: ServerPlatform | null;
+  /** Build, loader or proxy version ("1.21.1-119-a1b2c3d", "0.16.5") */
+  platformVersion: string | null;
+  /** null for proxies and unknown jars */
+  minecraftVersion: string | null;
+  /** Java major version the server needs */
+  javaVersion: number | null;
+  /** Where the platform was recognised */
+  source: 'jar' | 'log' | null;
+}
+
+export interface JavaCheck {
+  command: string;
+  /** Major version of the installed runtime, null if it could not be run */
+  installed: number | null;
+  required: number | null;
+  warning?: string;
+}
+
+type Detected = Omit<ServerSoftware, 'jar' | 'source'>;
+
+const JAR_ENTRIES = [
+  'META-INF/MANIFEST.MF',
+  'version.json',
+  'META-INF/versions.list',
+  'install.properties',
+  'patch.json',
+];
+const FABRIC_LAUNCHER_PROPERTIES = 'fabric-server-launcher.properties';
+const LOG_HEAD_BYTES = 64 * 1024;
+const JAVA_VERSION_TIMEOUT_MS = 10000;
+const JAVA_CACHE_MS = 60000;
+const MINECRAFT_VERSION_PATTERN = /\b1\.\d+(?:\.\d+)?\b/;
+
+const javaCache = new Map<string, { installed: number | null; checkedAt: number }>();
+
+const EMPTY: Detected = { platform: null, platformVersion: null, minecraftVersion: null, javaVersion: null };
+
+/**
+ * Main section of a MANIFEST.MF (continuation lines start with a space)
+ */
+function parseManifest(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  let last: string | null = null;
+  for (const line of content.replace(/\r/g, '').split('\n')) {
+    if (!line) break;
+    if (line.startsWith(' ') && last) {
+      result[last] += line.slice(1);
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    last = line.slice(0, colon).trim();
+    result[last] = line.slice(colon + 1).trim();
+  }
+  return result;
+}
+
+function parseProperties(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const idx = line.indexOf('=');
+    if (idx !== -1) result[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+  }
+  return result;
+}
+
+function parseJson(buffer: Buffer | undefined): Record<string, unknown> | null {
+  if (!buffer) return null;
+  try {
+    const value = JSON.parse(buffer.toString('utf8'));
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function minecraftVersionIn(text: string | undefined): string | null {
+  return text?.match(MINECRAFT_VERSION_PATTERN)?.[0] ?? null;
+}
+
+/**
+ * Compare dotted versions ("1.20" < "1.20.4" < "1.21"); missing parts count as 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const pb = b.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Java version a Minecraft release needs (snapshots and unknown versions give null)
+ */
+export function requiredJavaForMinecraft(version: string | null): number | null {
+  if (!version || !/^1\.\d+(?:\.\d+)?$/.test(version)) return null;
+  if (compareVersions(version, '1.20.5') >= 0) return 21;
+  if (compareVersions(version, '1.18') >= 0) return 17;
+  if (compareVersions(version, '1.17') >= 0) return 16;
+  return 8;
+}
+
+function platformFromJarName(name: string): ServerPlatform | null {
+  const base = path.basename(name).toLowerCase();
+  if (base.startsWith('paper')) return 'paper';
+  if (base.startsWith('purpur')) return 'purpur';
+  if (base.startsWith('spigot') || base.startsWith('craftbukkit')) return 'spigot';
+  if (base.startsWith('server-') || base === 'server.jar' || base.startsWith('minecraft_server')) return 'vanilla';
+  return null;
+}
+
+function platformFromTitle(title: string | undefined): ServerPlatform | null {
+  switch (title?.toLowerCase()) {
+    case 'paper':
+      return 'paper';
+    case 'purpur':
+      return 'purpur';
+    case 'spigot':
+    case 'craftbukkit':
+      return 'spigot';
+    default:
+      return null;
+  }
+}
+
+function platformFromMainClass(mainClass: string): ServerPlatform | null {
+  if (mainClass.startsWith('io.papermc.')) return 'paper';
+  if (mainClass.startsWith('org.purpurmc.')) return 'purpur';
+  if (mainClass.startsWith('org.bukkit.craftbukkit.')) return 'spigot';
+  if (mainClass.startsWith('net.fabricmc.')) return 'fabric';
+  if (mainClass.startsWith('net.minecraftforge.') || mainClass.startsWith('cpw.mods.')) return 'forge';
+  if (mainClass.startsWith('net.neoforged.')) return 'neoforge';
+  if (mainClass.startsWith('com.velocitypowered.')) return 'velocity';
+  if (mainClass.startsWith('net.minecraft.')) return 'vanilla';
+  return null;
+}
+
+/**
+ * Java version a class was compiled for, from its class file header
+ */
+async function classJavaVersion(jarPath: string, className: string): Promise<number | null> {
+  const entry = `${className.replace(/\./g, '/')}.class`;
+  const data = (await readZipEntries(jarPath, [entry])).get(entry);
+  if (!data || data.length < 8 || data.readUInt32BE(0) !== 0xcafebabe) return null;
+  return data.readUInt16BE(6) - 44;
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.promises.access(file).then(() => true, () => false);
+}
+
+/**
+ * Inspect a server jar; `depth` limits following launchers into the jar they start
+ */
+async function inspectJar(jarPath: string, mcDir: string, depth = 0): Promise<Detected> {
+  const entries = await readZipEntries(jarPath, JAR_ENTRIES);
+  const manifest = parseManifest(entries.get('META-INF/MANIFEST.MF')?.toString('utf8') ?? '');
+  const mainClass = manifest['Main-Class'] || '';
+  const versionJson = parseJson(entries.get('version.json'));
+
+  const result: Detected = {
+    platform: platformFromTitle(manifest['Implementation-Title']) ?? platformFromMainClass(mainClass),
+    platformVersion: null,
+    minecraftVersion: typeof versionJson?.id === 'string' ? versionJson.id : null,
+    javaVersion: typeof versionJson?.java_version === 'number' ? versionJson.java_version : null,
+  };
+
+  // Bundler jars (vanilla and Spigot since 1.18, Paperclip): "<hash>\t<id>\t<path>"
+  const versionsList = entries.get('META-INF/versions.list')?.toString('utf8').trim();
+  if (versionsList) {
+    const [, id, bundled] = versionsList.split('\n')[0].split('\t');
+    result.platform = (bundled ? platformFromJarName(bundled) : null) ?? result.platform;
+    result.minecraftVersion ??= minecraftVersionIn(id) ?? id ?? null;
+    // Paperclip extracts the patched server to versions/<path> on first start
+    const patched = bundled ? path.join(mcDir, 'versions', bundled) : null;
+    if (patched && depth === 0 && result.platform !== 'vanilla' && await exists(patched)) {
+      const inner = await inspectJar(patched, mcDir, depth + 1).catch(() => EMPTY);
+      result.platformVersion = inner.platformVersion;
+      result.minecraftVersion = inner.minecraftVersion ?? result.minecraftVersion;
+      result.javaVersion ??= inner.javaVersion;
+    }
+  }
+
+  // Paperclip before 1.18 names the version in patch.json
+  const patch = parseJson(entries.get('patch.json'));
+  if (typeof patch?.version === 'string') result.minecraftVersion ??= patch.version;
+
+  // Fabric server launcher made by the installer
+  const install = entries.has('install.properties') ? parseProperties(entries.get('install.properties')!.toString('utf8')) : null;
+  if (install?.['fabric-loader-version']) {
+    result.platform = 'fabric';
+    result.platformVersion = install['fabric-loader-version'];
+    result.minecraftVersion = install['game-version'] || result.minecraftVersion;
+  } else if (result.platform === 'fabric' && depth === 0) {
+    // fabric-server-launch.jar loads the vanilla jar named next to it
+    const properties = await fs.promises.readFile(path.join(mcDir, FABRIC_LAUNCHER_PROPERTIES), 'utf8').catch(() => '');
+    const serverJar = path.resolve(mcDir, parseProperties(properties).serverJar || 'server.jar');
+    if (await exists(serverJar)) {
+      const inner = await inspectJar(serverJar, mcDir, depth + 1).catch(() => EMPTY);
+      result.minecraftVersion ??= inner.minecraftVersion;
+      result.javaVersion ??= inner.javaVersion;
+    }
+  }
+
+  if (result.platform && result.platform !== 'vanilla' && !result.platformVersion) {
+    result.platformVersion = manifest['Implementation-Version'] || null;
+  }
+  if (result.platform === 'spigot' || result.platform === 'paper' || result.platform === 'purpur') {
+    // "git-Paper-196 (MC: 1.19.4)" in older patched jars
+    result.minecraftVersion ??= minecraftVersionIn(manifest['Implementation-Version']?.match(/\(MC: ([^)]+)\)/)?.[1]);
+  }
+  if (result.platform === 'forge' || result.platform === 'neoforge') {
+    // forge-1.20.1-47.2.0.jar
+    const match = path.basename(jarPath).match(/forge-(1\.\d+(?:\.\d+)?)-([\w.]+?)(?:-[a-z]+)?\.jar$/i);
+    if (match) {
+      result.minecraftVersion ??= match[1];
+      result.platformVersion ??= match[2];
+    }
+  }
+  if (result.platform === 'velocity') {
+    result.minecraftVersion = null;
+  }
+
+  result.javaVersion ??= requiredJavaForMinecraft(result.minecraftVersion);
+  if (!result.javaVersion && mainClass) {
+    result.javaVersion = await classJavaVersion(jarPath, mainClass).catch(() => null);
+  }
+
+  return result;
+}
+
+/**
+ * Platform and versions from the first lines of logs/latest.log
+ */
+async function inspectLog(mcDir: string): Promise<Detected> {
+  let head = '';
+  try {
+    const handle = await fs.promises.open(path.join(mcDir, 'logs', 'latest.log'), 'r');
+    try {
+      const buffer = Buffer.alloc(LOG_HEAD_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, LOG_HEAD_BYTES, 0);
+      head = buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return EMPTY;
+    throw error;
+  }
+
+  const result: Detected = { ...EMPTY };
+  let match: RegExpMatchArray | null;
+  if ((match = head.match(/This server is running (Paper|Purpur|CraftBukkit) version (\S+) \(MC: ([^)]+)\)/))) {
+    result.platform = match[1] === 'CraftBukkit' ? 'spigot' : platformFromTitle(match[1]);
+    result.platformVersion = match[2];
+    result.minecraftVersion = match[3];
+  } else if ((match = head.match(/Loading Minecraft (\S+) with Fabric Loader (\S+)/))) {
+    result.platform = 'fabric';
+    result.minecraftVersion = match[1];
+    result.platformVersion = match[2];
+  } else if ((match = head.match(/--fml\.(neoForgeVersion|forgeVersion), ([\w.-]+)/))) {
+    result.platform = match[1] === 'neoForgeVersion' ? 'neoforge' : 'forge';
+    result.platformVersion = match[2];
+    result.minecraftVersion = head.match(/--fml\.mcVersion, ([\w.-]+)/)?.[1] ?? null;
+  } else if ((match = head.match(/Booting up Velocity (\S+)/))) {
+    result.platform = 'velocity';
+    result.platformVersion = match[1];
+  } else if ((match = head.match(/Starting minecraft server version (\S+)/))) {
+    result.platform = 'vanilla';
+  }
+  result.minecraftVersion ??= head.match(/Starting minecraft server version (\S+)/)?.[1] ?? null;
+  result.javaVersion = requiredJavaForMinecraft(result.minecraftVersion);
+  return result;
+}
+
+/**
+ * Detect the server software of an instance from its jar, then its latest log
+ */
+export async function detectServerSoftware(instanceId: string): Promise<ServerSoftware> {
+  const config = await getInstanceConfig(instanceId);
+  const mcDir = await getInstanceDir(instanceId);
+  const software: ServerSoftware = { jar: config.JAR_NAME, ...EMPTY, source: null };
+
+  if (config.JAR_NAME) {
+    try {
+      Object.assign(software, await inspectJar(path.resolve(mcDir, config.JAR_NAME), mcDir));
+      if (software.platform) software.source = 'jar';
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[ServerSoftware:${instanceId}] Cannot inspect ${config.JAR_NAME}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // The log may be from an older jar, so it only fills in for a matching or unknown platform
+  const log = await inspectLog(mcDir);
+  if (log.platform && (!software.platform || software.platform === log.platform)) {
+    software.source ??= 'log';
+    software.platform = log.platform;
+    software.platformVersion ??= log.platformVersion;
+    software.minecraftVersion ??= log.minecraftVersion;
+    software.javaVersion ??= log.javaVersion;
+  }
+  return software;
+}
+
+/**
+ * Major version of a Java runtime from `<command> -version` ("1.8.0_392" → 8, "21.0.2" → 21)
+ */
+export function getJavaMajorVersion(command = 'java'): Promise<number | null> {
+  const cached = javaCache.get(command);
+  if (cached && Date.now() - cached.checkedAt < JAVA_CACHE_MS) return Promise.resolve(cached.installed);
+
+  return new Promise((resolve) => {
+    execFile(command, ['-version'], { timeout: JAVA_VERSION_TIMEOUT_MS }, (error, stdout, stderr) => {
+      const match = `${stderr}${stdout}`.match(/version "(\d+)(?:\.(\d+))?/);
+      const installed = error || !match ? null : match[1] === '1' ? parseInt(match[2] ?? '0', 10) : parseInt(match[1], 10);
+      javaCache.set(command, { installed, checkedAt: Date.now() });
+      resolve(installed);
+    });
+  });
+}
+
+/**
+ * Check the installed Java against what the detected software needs
+ */
+export async function checkJava(software: ServerSoftware, command = 'java'): Promise<JavaCheck> {
+  const installed = await getJavaMajorVersion(command);
+  const required = software.javaVersion;
+  const check: JavaCheck = { command, installed, required };
+  if (installed === null) {
+    check.warning = `Could not run \`${command} -version\`; is Java installed?`;
+  } else if (required !== null && installed < required) {
+    const name = software.platform
+      ? [PLATFORM_LABELS[software.platform], software.minecraftVersion].filter(Boolean).join(' ')
+      : software.jar;
+    check.warning = `Java ${installed} is installed but ${name} needs Java ${required} or newer`;
+  }
+  return check;
+}
+
+/**
+ * Minecraft version of an instance: what a running server reports in its
+ * server list ping ("Paper 1.21.1"), or else what its jar says
+ */
+export async function getMinecraftVersion(instance: Pick<ServerInstance, 'id' | 'status'>): Promise<string | null> {
+  const running = minecraftVersionIn(instance.status.getStatusInfo().ping?.version?.name);
+  if (running) return running;
+  const software = await detectServerSoftware(instance.id).catch(() => null);
+  return minecraftVersionIn(software?.minecraftVersion ?? undefined);
+}
@@ -0,0 +1,166 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { chatToText, pingServer, stripFormatting } from './slp';
+
+function writeVarInt(value: number): Buffer {
+  const bytes: number[] = [];
+  let v = value >>> 0;
+  do {
+    let byte = v & 0x7f;
+    v >>>= 7;
+    if (v !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (v !== 0);
+  return Buffer.from(bytes);
+}
+
+function readVarInt(buf: Buffer, offset: number): { value: number; size: number } | null {
+  let value = 0;
+  for (let size = 0; offset + size < buf.length; size++) {
+    const byte = buf[offset + size];
+    value |= (byte & 0x7f) << (7 * size);
+    if ((byte & 0x80) === 0) return { value, size: size + 1 };
+  }
+  return null;
+}
+
+function packet(id: number, body: Buffer = Buffer.alloc(0)): Buffer {
+  const content = Buffer.concat([writeVarInt(id), body]);
+  return Buffer.concat([writeVarInt(content.length), content]);
+}
+
+function statusPacket(status: unknown): Buffer {
+  const json = Buffer.from(JSON.stringify(status), 'utf8');
+  return packet(0x00, Buffer.concat([writeVarInt(json.length), json]));
+}
+
+type Responder = (socket: net.Socket, request: { id: number; body: Buffer }) => void;
+
+/**
+ * Local server that frames incoming packets and hands each to `respond`
+ */
+function fakeServer(respond: Responder): Promise<{ server: net.Server; port: number }> {
+  const server = net.createServer((socket) => {
+    let data = Buffer.alloc(0);
+    socket.on('error', () => {});
+    socket.on('data', (chunk) => {
+      data = Buffer.concat([data, chunk]);
+      for (;;) {
+        const length = readVarInt(data, 0);
+        if (!length || data.length < length.size + length.value) return;
+        const content = data.subarray(length.size, length.size + length.value);
+        data = data.subarray(length.size + length.value);
+        const id = readVarInt(content, 0)!;
+        respond(socket, { id: id.value, body: content.subarray(id.size) });
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as net.AddressInfo).port }));
+  });
+}
+
+describe('pingServer', () => {
+  const status = {
+    version: { name: 'Paper 1.21.1', protocol: 767 },
+    players: {
+      online: 2,
+      max: 20,
+      sample: [
+        { name: 'Steve', id: '8667ba71-b85a-4004-af54-457a9734eed7' },
+        { name: 'Alex', id: 'ec561538-f3fd-461d-aff5-086b22154bce' },
+      ],
+    },
+    description: { text: '§aHello ', extra: [{ text: 'world' }] },
+    // Over 16 KiB, so the packet length takes a 3-byte VarInt
+    favicon: `data:image/png;base64,${'A'.repeat(20000)}`,
+  };
+
+  const servers: net.Server[] = [];
+  const start = async (respond: Responder) => {
+    const { server, port } = await fakeServer(respond);
+    servers.push(server);
+    return port;
+  };
+
+  after(() => {
+    servers.forEach((server) => server.close());
+  });
+
+  it('parses the status response and measures latency', async () => {
+    const port = await start((socket, request) => {
+      if (request.id === 0x00 && request.body.length === 0) socket.write(statusPacket(status));
+      if (request.id === 0x01) socket.write(packet(0x01, request.body));
+    });
+
+    const result = await pingServer('127.0.0.1', port, 2000);
+    assert.equal(result.online, true);
+    assert.equal(result.legacy, false);
+    assert.deepEqual(result.version, { name: 'Paper 1.21.1', protocol: 767 });
+    assert.equal(result.players?.online, 2);
+    assert.equal(result.players?.max, 20);
+    assert.deepEqual(result.players?.sample.map((p) => p.name), ['Steve', 'Alex']);
+    assert.equal(result.motd, 'Hello world');
+    assert.equal(typeof result.latencyMs, 'number');
+  });
+
+  it('reassembles a response split across TCP chunks', async () => {
+    const port = await start((socket, request) => {
+      if (request.id === 0x00 && request.body.length === 0) {
+        const response = statusPacket(status);
+        // Split inside the length VarInt, then again inside the JSON
+        socket.write(response.subarray(0, 1));
+        setTimeout(() => socket.write(response.subarray(1, 5000)), 20);
+        setTimeout(() => socket.write(response.subarray(5000)), 40);
+      }
+      if (request.id === 0x01) socket.write(packet(0x01, request.body));
+    });
+
+    const result = await pingServer('127.0.0.1', port, 2000);
+    assert.equal(result.online, true);
+    assert.equal(result.players?.online, 2);
+    assert.equal(result.motd, 'Hello world');
+  });
+
+  it('keeps the status when the server closes instead of answering the ping', async () => {
+    const port = await start((socket, request) => {
+      if (request.id === 0x00 && request.body.length === 0) socket.write(statusPacket(status));
+      if (request.id === 0x01) socket.end();
+    });
+
+    const result = await pingServer('127.0.0.1', port, 2000);
+    assert.equal(result.online, true);
+    assert.equal(result.version?.name, 'Paper 1.21.1');
+  });
+
+  it('reports a truncated packet as offline', async () => {
+    const port = await start((socket, request) => {
+      if (request.id === 0x00 && request.body.length === 0) {
+        // Announces the full length, then hangs up halfway through
+        const response = statusPacket(status);
+        socket.end(response.subarray(0, response.length / 2));
+      }
+    });
+
+    const result = await pingServer('127.0.0.1', port, 2000);
+    assert.equal(result.online, false);
+    assert.match(result.error ?? '', /closed/i);
+  });
+
+  it('reports a closed port as offline', async () => {
+    const port = await start(() => {});
+    servers.pop()!.close();
+
+    const result = await pingServer('127.0.0.1', port, 1000);
+    assert.equal(result.online, false);
+    assert.ok(result.error);
+  });
+});
+
+describe('chatToText', () => {
+  it('flattens nested components and strips formatting codes', () => {
+    assert.equal(chatToText(['a', { text: 'b', extra: [{ translate: 'c' }] }]), 'abc');
+    assert.equal(stripFormatting('§l§cRed §rtext'), 'Red text');
+  });
+});
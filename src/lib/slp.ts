@@ -0,0 +1,291 @@
+/**
+ * Minecraft Server List Ping (SLP) client
+ *
+ * Queries a Java Edition server the same way the multiplayer screen does:
+ * handshake + status request (1.7+) followed by a ping for latency.
+ * Falls back to the legacy 1.6 ping (0xFE 0x01) for old servers.
+ *
+ * https://minecraft.wiki/w/Java_Edition_protocol/Server_List_Ping
+ */
+
+import net from 'net';
+
+export interface SlpPlayer {
+  name: string;
+  id: string;
+}
+
+export interface SlpResult {
+  online: boolean;
+  host: string;
+  port: number;
+  version?: { name: string; protocol: number };
+  players?: { online: number; max: number; sample: SlpPlayer[] };
+  motd?: string;
+  latencyMs?: number;
+  legacy?: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+// Handshake protocol version -1 means "any" for status requests
+const STATUS_PROTOCOL_VERSION = -1;
+const MAX_PACKET_LENGTH = 2 * 1024 * 1024;
+
+function writeVarInt(value: number): Buffer {
+  const bytes: number[] = [];
+  let v = value >>> 0;
+  do {
+    let byte = v & 0x7f;
+    v >>>= 7;
+    if (v !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (v !== 0);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Read a VarInt at offset; returns null if the buffer ends first
+ */
+function readVarInt(buf: Buffer, offset: number): { value: number; size: number } | null {
+  let value = 0;
+  let size = 0;
+  while (true) {
+    if (offset + size >= buf.length) return null;
+    const byte = buf[offset + size];
+    value |= (byte & 0x7f) << (7 * size);
+    size++;
+    if (size > 5) throw new Error('VarInt too long');
+    if ((byte & 0x80) === 0) break;
+  }
+  return { value: value | 0, size };
+}
+
+function writeString(value: string): Buffer {
+  const data = Buffer.from(value, 'utf8');
+  return Buffer.concat([writeVarInt(data.length), data]);
+}
+
+function packet(id: number, ...fields: Buffer[]): Buffer {
+  const body = Buffer.concat([writeVarInt(id), ...fields]);
+  return Buffer.concat([writeVarInt(body.length), body]);
+}
+
+/**
+ * Flatten a chat component (string or { text, extra }) to plain text
+ */
+export function chatToText(component: unknown): string {
+  if (component == null) return '';
+  if (typeof component === 'string') return component;
+  if (Array.isArray(component)) return component.map(chatToText).join('');
+  if (typeof component === 'object') {
+    const c = component as { text?: unknown; translate?: unknown; extra?: unknown };
+    const own = typeof c.text === 'string' ? c.text : typeof c.translate === 'string' ? c.translate : '';
+    return own + (Array.isArray(c.extra) ? c.extra.map(chatToText).join('') : '');
+  }
+  return String(component);
+}
+
+/**
+ * Remove legacy § formatting codes
+ */
+export function stripFormatting(text: string): string {
+  return text.replace(/§[0-9a-fk-orx]/gi, '');
+}
+
+/**
+ * Open a socket and collect data until `parse` returns a result
+ */
+function exchange<T>(
+  host: string,
+  port: number,
+  timeout: number,
+  onConnect: (socket: net.Socket) => void,
+  parse: (data: Buffer, socket: net.Socket) => T | null
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const socket = new net.Socket();
+    let data = Buffer.alloc(0);
+    let settled = false;
+
+    const finish = (error: Error | null, result?: T) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(result as T);
+    };
+
+    socket.setTimeout(timeout);
+    socket.once('timeout', () => finish(new Error('Timed out')));
+    socket.once('error', (err) => finish(err));
+    socket.once('close', () => finish(new Error('Connection closed')));
+    socket.on('data', (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      if (data.length > MAX_PACKET_LENGTH) {
+        finish(new Error('Response too large'));
+        return;
+      }
+      try {
+        const result = parse(data, socket);
+        if (result !== null) finish(null, result);
+      } catch (err) {
+        finish(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    socket.connect(port, host, () => onConnect(socket));
+  });
+}
+
+/**
+ * Modern (1.7+) status request
+ */
+async function modernPing(host: string, port: number, timeout: number): Promise<SlpResult> {
+  let statusJson: string | null = null;
+  let pingSentAt = 0;
+
+  const latencyAndStatus = await exchange<{ json: string; latencyMs: number }>(
+    host,
+    port,
+    timeout,
+    (socket) => {
+      const portBuf = Buffer.alloc(2);
+      portBuf.writeUInt16BE(port);
+      socket.write(Buffer.concat([
+        packet(0x00, writeVarInt(STATUS_PROTOCOL_VERSION), writeString(host), portBuf, writeVarInt(1)),
+        packet(0x00),
+      ]));
+    },
+    (data, socket) => {
+      let offset = 0;
+      while (offset < data.length) {
+        const length = readVarInt(data, offset);
+        if (!length || offset + length.size + length.value > data.length) return null;
+        const start = offset + length.size;
+        const end = start + length.value;
+        const id = readVarInt(data, start);
+        if (!id) throw new Error('Malformed packet');
+
+        if (id.value === 0x00 && statusJson === null) {
+          const strLen = readVarInt(data, start + id.size);
+          if (!strLen) throw new Error('Malformed status response');
+          const strStart = start + id.size + strLen.size;
+          statusJson = data.subarray(strStart, strStart + strLen.value).toString('utf8');
+
+          // Follow up with a ping to measure latency
+          const payload = Buffer.alloc(8);
+          payload.writeBigInt64BE(BigInt(Date.now()));
+          pingSentAt = Date.now();
+          socket.write(packet(0x01, payload));
+        } else if (id.value === 0x01 && statusJson !== null) {
+          return { json: statusJson, latencyMs: Date.now() - pingSentAt };
+        }
+        offset = end;
+      }
+      return null;
+    }
+  ).catch((error) => {
+    // Some servers close the socket instead of answering the ping; the status is still usable
+    if (statusJson !== null) return { json: statusJson, latencyMs: Date.now() - pingSentAt };
+    throw error;
+  });
+
+  const status = JSON.parse(latencyAndStatus.json);
+  const sample: SlpPlayer[] = Array.isArray(status?.players?.sample)
+    ? status.players.sample.map((p: { name?: unknown; id?: unknown }) => ({ name: String(p?.name ?? ''), id: String(p?.id ?? '') }))
+    : [];
+
+  return {
+    online: true,
+    host,
+    port,
+    version: status?.version
+      ? { name: String(status.version.name ?? ''), protocol: Number(status.version.protocol ?? 0) }
+      : undefined,
+    players: {
+      online: Number(status?.players?.online ?? 0),
+      max: Number(status?.players?.max ?? 0),
+      sample,
+    },
+    motd: stripFormatting(chatToText(status?.description)),
+    latencyMs: latencyAndStatus.latencyMs,
+    legacy: false,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Legacy (1.6) server list ping
+ */
+async function legacyPing(host: string, port: number, timeout: number): Promise<SlpResult> {
+  const startedAt = Date.now();
+
+  const fields = await exchange<string[]>(
+    host,
+    port,
+    timeout,
+    (socket) => {
+      const channel = Buffer.from('MC|PingHost', 'utf16le').swap16();
+      const hostBuf = Buffer.from(host, 'utf16le').swap16();
+      const rest = Buffer.alloc(1 + 2 + hostBuf.length + 4);
+      rest.writeUInt8(74, 0); // protocol version (1.6.2)
+      rest.writeUInt16BE(host.length, 1);
+      hostBuf.copy(rest, 3);
+      rest.writeInt32BE(port, 3 + hostBuf.length);
+
+      const header = Buffer.alloc(3 + 2);
+      header.writeUInt8(0xfe, 0);
+      header.writeUInt8(0x01, 1);
+      header.writeUInt8(0xfa, 2);
+      header.writeUInt16BE('MC|PingHost'.length, 3);
+      const restLength = Buffer.alloc(2);
+      restLength.writeUInt16BE(rest.length);
+      socket.write(Buffer.concat([header, channel, restLength, rest]));
+    },
+    (data) => {
+      if (data.length < 3) return null;
+      if (data[0] !== 0xff) throw new Error('Unexpected legacy response');
+      const chars = data.readUInt16BE(1);
+      if (data.length < 3 + chars * 2) return null;
+      const text = Buffer.from(data.subarray(3, 3 + chars * 2)).swap16().toString('utf16le');
+      // 1.4+ format: §1\0protocol\0version\0motd\0online\0max; beta format: motd§online§max
+      return text.startsWith('§1\u0000') ? text.split('\u0000').slice(1) : ['', '', ...text.split('§')];
+    }
+  );
+
+  const [protocol, versionName, motd, online, max] = fields;
+  return {
+    online: true,
+    host,
+    port,
+    version: versionName ? { name: versionName, protocol: parseInt(protocol, 10) || 0 } : undefined,
+    players: { online: parseInt(online, 10) || 0, max: parseInt(max, 10) || 0, sample: [] },
+    motd: stripFormatting(motd || ''),
+    latencyMs: Date.now() - startedAt,
+    legacy: true,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Ping a Java Edition server, falling back to the legacy protocol
+ * Never throws; returns { online: false, error } when the server does not answer
+ */
+export async function pingServer(host: string = '127.0.0.1', port: number = 25565, timeout: number = 3000): Promise<SlpResult> {
+  try {
+    return await modernPing(host, port, timeout);
+  } catch (modernError) {
+    try {
+      return await legacyPing(host, port, timeout);
+    } catch {
+      return {
+        online: false,
+        host,
+        port,
+        error: modernError instanceof Error ? modernError.message : String(modernError),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+}
@@ -3,46 +3,117 @@
  * 
  * Manages the Minecraft server status with proper state transitions:
  * stopped → starting → running → stopping → stopped
+ * 
+ * State is driven by the lifecycle of an instance's supervised server
+ * process (see serverProcess.ts) plus the "Done" line in its console output.
+ * 
+ * While running, the server is queried with a Server List Ping for
+ * players, MOTD, version and latency, and BEDROCK_IP (if set) with a
+ * RakNet unconnected ping.
+ * 
+ * An exit that was not requested through stop() and is not a clean exit
+ * (code 0, e.g. after `stop` typed in the console) is a crash. It is linked
+ * to the crash reports the run session left behind (see crashReports.ts)
+ * and kept in a saved crash history. When AUTO_RESTART is enabled,
+ * crashes are restarted with exponential backoff until the restart budget
+ * is used up or a crash loop is detected.
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import type { ServerProcess, ProcessEvent } from './serverProcess';
+import { getInstanceConfig } from '../config';
+import { pingServer, type SlpResult } from './slp';
+import { getServerPort } from './serverProperties';
+import { pingBedrock, parseHostPort, type BedrockPingResult } from './bedrockPing';
+import { findCrashReports, loadCrashHistory, saveCrashHistory, type CrashReport } from './crashReports';
 
 export type ServerStatus = 'stopped' | 'starting' | 'running' | 'stopping';
 
+export type AutoRestartState = 'idle' | 'waiting' | 'crash-loop';
+
+export interface AutoRestartInfo {
+  state: AutoRestartState;
+  consecutiveCrashes: number;
+  nextRestartAt?: string;
+}
+
 export interface StatusInfo {
   status: ServerStatus;
   timestamp: string;
   processFound: boolean;
   pid?: number;
+  autoRestart: AutoRestartInfo;
+  ping?: SlpResult;
+  bedrock?: BedrockPingResult;
+  /** Crash that ended the last run session, until the server is started by hand */
+  lastCrash?: CrashRecord;
 }
 
-class StatusManager {
+export interface CrashRecord {
+  timestamp: string;
+  /** Start of the run session that crashed */
+  sessionStartedAt: string | null;
+  exitCode: number | null;
+  signal: number | null;
+  uptimeSeconds: number;
+  lastLines: string[];
+  /** Crash reports and JVM error logs written during the session */
+  reports: CrashReport[];
+  restartDelayMs?: number;
+}
+
+export interface StatusAlert {
+  level: 'warning' | 'error';
+  message: string;
+  timestamp: string;
+}
+
+const MAX_RECENT_LINES = 20;
+const MAX_CRASH_RECORDS = 50;
+const PING_INTERVAL_MS = 10000;
+
+export class StatusManager {
+  private readonly tag: string;
   private currentStatus: ServerStatus = 'stopped';
   private listeners = new Set<(statusInfo: StatusInfo) => void>();
-  private stoppingMonitorInterval: NodeJS.Timeout | null = null;
-  private runningMonitorInterval: NodeJS.Timeout | null = null;
-  private lastProcessCheck: { found: boolean; pid?: number } = { found: false };
+  private alertListeners = new Set<(alert: StatusAlert) => void>();
+  private removeProcessListener: (() => void) | null = null;
+  private pingMonitorInterval: NodeJS.Timeout | null = null;
+  private lastPing: SlpResult | null = null;
+  private lastBedrockPing: BedrockPingResult | null = null;
+
+  // Crash tracking
+  private stopRequested = false;
+  private autoRestarting = false;
+  private spawnedAt: number | null = null;
+  private recentLines: string[] = [];
+  private crashes: CrashRecord[] = [];
+  private lastCrash: CrashRecord | null = null;
+  private crashesSaved: Promise<void> = Promise.resolve();
+  private restartTimes: number[] = [];
+  private autoRestart: AutoRestartInfo = { state: 'idle', consecutiveCrashes: 0 };
+  private restartTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly instanceId: string, private readonly serverProcess: ServerProcess) {
+    this.tag = `[StatusManager:${instanceId}]`;
+  }
 
   /**
    * Initialize the status manager
-   * Checks if Java process is already running on startup
+   * Subscribes to the server process lifecycle
    */
   async initialize(): Promise<void> {
-    console.log('[StatusManager] Initializing...');
-    const processInfo = await this.checkJavaProcess();
-    
-    if (processInfo.found) {
-      console.log(`[StatusManager] Java process found (PID: ${processInfo.pid}), setting status to 'running'`);
-      this.currentStatus = 'running';
-    } else {
-      console.log('[StatusManager] No Java process found, status is \'stopped\'');
-      this.currentStatus = 'stopped';
+    console.log(`${this.tag} Initializing...`);
+
+    if (!this.removeProcessListener) {
+      this.removeProcessListener = this.serverProcess.addEventListener((event) => this.handleProcessEvent(event));
     }
-    
-    this.lastProcessCheck = processInfo;
+
+    const saved = await loadCrashHistory(this.instanceId);
+    // Crashes recorded before the history was loaded come after the saved ones
+    this.crashes = [...saved, ...this.crashes].slice(-MAX_CRASH_RECORDS);
+
+    this.currentStatus = this.serverProcess.isRunning() ? 'running' : 'stopped';
+    console.log(`${this.tag} Initial status is '${this.currentStatus}'`);
   }
 
   /**
@@ -59,11 +130,22 @@ class StatusManager {
     return {
       status: this.currentStatus,
       timestamp: new Date().toISOString(),
-      processFound: this.lastProcessCheck.found,
-      pid: this.lastProcessCheck.pid,
+      processFound: this.serverProcess.isRunning(),
+      pid: this.serverProcess.getPid(),
+      autoRestart: { ...this.autoRestart },
+      ping: this.lastPing ?? undefined,
+      bedrock: this.lastBedrockPing ?? undefined,
+      lastCrash: this.lastCrash ?? undefined,
     };
   }
 
+  /**
+   * Get recorded crashes, most recent first
+   */
+  getCrashHistory(): CrashRecord[] {
+    return [...this.crashes].reverse();
+  }
+
   /**
    * Set status and notify all listeners
    */
@@ -75,153 +157,242 @@ class StatusManager {
     const oldStatus = this.currentStatus;
     this.currentStatus = newStatus;
     
-    console.log(`[StatusManager] Status changed: ${oldStatus} → ${newStatus}`);
+    console.log(`${this.tag} Status changed: ${oldStatus} → ${newStatus}`);
 
-    // Notify all listeners with full status info
+    // Only query the server list ping while the server is up
+    if (newStatus === 'running') {
+      this.startPingMonitor();
+    } else {
+      this.stopPingMonitor();
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Query the server every 10 seconds while running: a Server List Ping on
+   * the local Java port and a RakNet ping on BEDROCK_IP when configured
+   */
+  private startPingMonitor(): void {
+    this.stopPingMonitor();
+
+    const ping = async () => {
+      const [port, config] = await Promise.all([getServerPort(this.instanceId), getInstanceConfig(this.instanceId)]);
+      const bedrock = config.BEDROCK_IP ? parseHostPort(config.BEDROCK_IP) : null;
+      const [result, bedrockResult] = await Promise.all([
+        pingServer('127.0.0.1', port),
+        bedrock ? pingBedrock(bedrock.host, bedrock.port) : Promise.resolve(null),
+      ]);
+      if (this.currentStatus !== 'running') return;
+      this.lastPing = result;
+      this.lastBedrockPing = bedrockResult;
+      this.notify();
+    };
+
+    console.log(`${this.tag} Starting ping monitor (every ${PING_INTERVAL_MS / 1000}s)...`);
+    ping().catch((error) => console.error(`${this.tag} Ping failed:`, error));
+    this.pingMonitorInterval = setInterval(() => {
+      ping().catch((error) => console.error(`${this.tag} Ping failed:`, error));
+    }, PING_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the ping monitor and forget the last result
+   */
+  private stopPingMonitor(): void {
+    if (this.pingMonitorInterval) {
+      clearInterval(this.pingMonitorInterval);
+      this.pingMonitorInterval = null;
+      console.log(`${this.tag} Ping monitor cleared`);
+    }
+    this.lastPing = null;
+    this.lastBedrockPing = null;
+  }
+
+  /**
+   * Notify all listeners with full status info
+   */
+  private notify(): void {
     const statusInfo = this.getStatusInfo();
     this.listeners.forEach((listener) => {
       try {
         listener(statusInfo);
       } catch (error) {
-        console.error('[StatusManager] Error in status listener:', error);
+        console.error(`${this.tag} Error in status listener:`, error);
       }
     });
-
-    // Handle state-specific actions
-    if (newStatus === 'running') {
-      // Start monitoring when server is running
-      this.startRunningMonitor();
-      this.stopStoppingMonitor();
-    } else if (newStatus === 'stopping') {
-      // Switch to faster monitoring during stopping
-      this.stopRunningMonitor();
-      this.startStoppingMonitor();
-    } else if (newStatus === 'stopped') {
-      // Stop all monitoring
-      this.stopRunningMonitor();
-      this.stopStoppingMonitor();
-    } else if (newStatus === 'starting') {
-      // Stop monitoring during starting
-      this.stopRunningMonitor();
-      this.stopStoppingMonitor();
-    }
   }
 
   /**
-   * Check if Java process is running
-   * Returns process info including PID if found
+   * Map server process lifecycle events to status transitions
    */
-  async checkJavaProcess(): Promise<{ found: boolean; pid?: number }> {
-    try {
-      const platform = process.platform;
-      let command: string;
-      
-      if (platform === 'win32') {
-        // Windows: Find java.exe processes
-        command = 'tasklist /FI "IMAGENAME eq java.exe" /FO CSV /NH';
-      } else {
-        // Linux/macOS: Find java processes running jar files
-        command = 'ps aux | grep "[j]ava.*\\.jar"';
-      }
-      
-      const { stdout } = await execAsync(command);
-      
-      if (platform === 'win32') {
-        // Parse Windows output
-        const lines = stdout.trim().split('\n');
-        for (const line of lines) {
-          if (line.toLowerCase().includes('java.exe')) {
-            const parts = line.split(',');
-            const pid = parts[1]?.replace(/"/g, '').trim();
-            const pidNum = parseInt(pid || '0');
-            this.lastProcessCheck = { found: true, pid: pidNum };
-            return { found: true, pid: pidNum };
-          }
+  private handleProcessEvent(event: ProcessEvent): void {
+    switch (event.type) {
+      case 'spawn':
+        this.stopRequested = false;
+        this.spawnedAt = Date.now();
+        this.recentLines = [];
+        if (!this.autoRestarting) {
+          // A manual start resets crash tracking and leaves a crash loop
+          this.cancelAutoRestart();
+          this.autoRestart = { state: 'idle', consecutiveCrashes: 0 };
+          this.lastCrash = null;
         }
-      } else {
-        // Parse Linux/macOS output
-        if (stdout.trim()) {
-          const lines = stdout.trim().split('\n');
-          for (const line of lines) {
-            const match = line.match(/^\S+\s+(\d+)/);
-            if (match) {
-              const pid = parseInt(match[1]);
-              this.lastProcessCheck = { found: true, pid };
-              return { found: true, pid };
-            }
-          }
+        this.setStatus('starting');
+        break;
+      case 'stop-step':
+        this.stopRequested = true;
+        this.setStatus('stopping');
+        break;
+      case 'exit':
+        console.log(`${this.tag} Server process exited (code: ${event.exitCode}, signal: ${event.signal})`);
+        this.setStatus('stopped');
+        // A clean exit is a requested stop too, e.g. `stop` typed in the console
+        if (!this.stopRequested && (event.exitCode !== 0 || event.signal)) {
+          this.handleCrash(event.exitCode, event.signal).catch((error) => {
+            console.error(`${this.tag} Error handling crash:`, error);
+          });
         }
-      }
-      
-      this.lastProcessCheck = { found: false };
-      return { found: false };
-    } catch (error) {
-      // No process found or command failed
-      this.lastProcessCheck = { found: false };
-      return { found: false };
+        break;
     }
   }
 
   /**
-   * Start monitoring Java process when server is running
-   * Checks every 5 seconds to detect unexpected crashes
+   * Record an unexpected exit and schedule an automatic restart if allowed
    */
-  private startRunningMonitor(): void {
-    // Clear any existing monitor
-    this.stopRunningMonitor();
+  private async handleCrash(exitCode: number | null, signal: number | null): Promise<void> {
+    const now = Date.now();
+    const uptimeSeconds = this.spawnedAt ? Math.round((now - this.spawnedAt) / 1000) : 0;
+    const sessionStartedAt = this.spawnedAt;
+    const lastLines = [...this.recentLines];
+    const reports = sessionStartedAt
+      ? await findCrashReports(this.instanceId, sessionStartedAt).catch((error) => {
+          console.error(`${this.tag} Failed to look for crash reports:`, error);
+          return [];
+        })
+      : [];
+    const record: CrashRecord = {
+      timestamp: new Date(now).toISOString(),
+      sessionStartedAt: sessionStartedAt ? new Date(sessionStartedAt).toISOString() : null,
+      exitCode,
+      signal,
+      uptimeSeconds,
+      lastLines,
+      reports,
+    };
+    this.crashes.push(record);
+    if (this.crashes.length > MAX_CRASH_RECORDS) {
+      this.crashes = this.crashes.slice(-MAX_CRASH_RECORDS);
+    }
+    this.lastCrash = record;
+    this.saveCrashes();
+    console.error(`${this.tag} Server crashed after ${uptimeSeconds}s (code: ${exitCode}, signal: ${signal})`);
 
-    console.log('[StatusManager] Starting running monitor (checking every 5s)...');
-    
-    this.runningMonitorInterval = setInterval(async () => {
-      const processInfo = await this.checkJavaProcess();
-      
-      if (!processInfo.found) {
-        console.log('[StatusManager] Java process crashed or stopped unexpectedly, setting status to \'stopped\'');
-        this.setStatus('stopped');
-      }
-    }, 5000); // Check every 5 seconds
-  }
+    // "Exception in server tick loop (java.lang.NullPointerException)"
+    const report = reports[0];
+    const summary = report
+      ? `: ${[report.description, report.exception && `(${report.exception})`].filter(Boolean).join(' ')}`
+      : '';
 
-  /**
-   * Stop the running monitor
-   */
-  private stopRunningMonitor(): void {
-    if (this.runningMonitorInterval) {
-      clearInterval(this.runningMonitorInterval);
-      this.runningMonitorInterval = null;
-      console.log('[StatusManager] Running monitor cleared');
+    const config = await getInstanceConfig(this.instanceId);
+    if (!config.AUTO_RESTART) {
+      this.raiseAlert('error', `Server crashed (exit code ${exitCode ?? 'none'})${summary}; auto restart is disabled`);
+      this.notify();
+      return;
+    }
+
+    // Quick failures in a row count towards a crash loop; a long run resets the count
+    const quickSeconds = config.CRASH_LOOP_QUICK_SECONDS ?? 60;
+    const consecutiveCrashes = uptimeSeconds < quickSeconds ? this.autoRestart.consecutiveCrashes + 1 : 1;
+
+    const windowMs = (config.AUTO_RESTART_WINDOW_SECONDS ?? 600) * 1000;
+    this.restartTimes = this.restartTimes.filter((t) => now - t < windowMs);
+
+    if (consecutiveCrashes >= (config.CRASH_LOOP_THRESHOLD ?? 3)) {
+      this.enterCrashLoop(consecutiveCrashes, `Crash loop detected: ${consecutiveCrashes} quick failures in a row, auto restart gave up`);
+      return;
     }
+    if (this.restartTimes.length >= (config.AUTO_RESTART_MAX ?? 5)) {
+      this.enterCrashLoop(consecutiveCrashes, `Restart limit reached: ${this.restartTimes.length} restarts within ${windowMs / 1000}s, auto restart gave up`);
+      return;
+    }
+
+    const baseMs = (config.AUTO_RESTART_BACKOFF_SECONDS ?? 5) * 1000;
+    const maxMs = (config.AUTO_RESTART_MAX_BACKOFF_SECONDS ?? 300) * 1000;
+    const delayMs = Math.min(baseMs * Math.pow(2, consecutiveCrashes - 1), maxMs);
+    record.restartDelayMs = delayMs;
+    this.saveCrashes();
+
+    this.autoRestart = {
+      state: 'waiting',
+      consecutiveCrashes,
+      nextRestartAt: new Date(now + delayMs).toISOString(),
+    };
+    this.raiseAlert('warning', `Server crashed (exit code ${exitCode ?? 'none'})${summary}, restarting in ${Math.round(delayMs / 1000)}s`);
+    this.notify();
+
+    this.restartTimer = setTimeout(() => this.runAutoRestart(), delayMs);
   }
 
-  /**
-   * Start monitoring Java process for stopping state
-   * Checks every second until process is gone, then sets status to stopped
-   */
-  private startStoppingMonitor(): void {
-    // Clear any existing monitor
-    this.stopStoppingMonitor();
+  private saveCrashes(): void {
+    const crashes = [...this.crashes];
+    this.crashesSaved = this.crashesSaved
+      .then(() => saveCrashHistory(this.instanceId, crashes))
+      .catch((error) => console.error(`${this.tag} Failed to save crash history:`, error));
+  }
 
-    console.log('[StatusManager] Starting stopping monitor (checking every 1s)...');
-    
-    this.stoppingMonitorInterval = setInterval(async () => {
-      const processInfo = await this.checkJavaProcess();
-      
-      if (!processInfo.found) {
-        console.log('[StatusManager] Java process no longer running, setting status to \'stopped\'');
-        this.setStatus('stopped');
-      }
-    }, 1000); // Check every second
+  private async runAutoRestart(): Promise<void> {
+    this.restartTimer = null;
+    // Someone started it in the meantime
+    if (this.serverProcess.isRunning() || this.serverProcess.isStarting()) return;
+
+    console.log(`${this.tag} Auto restarting server...`);
+    this.restartTimes.push(Date.now());
+    this.autoRestart = { state: 'idle', consecutiveCrashes: this.autoRestart.consecutiveCrashes };
+    this.autoRestarting = true;
+    try {
+      await this.serverProcess.start();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.enterCrashLoop(this.autoRestart.consecutiveCrashes, `Auto restart failed: ${message}`);
+    } finally {
+      this.autoRestarting = false;
+    }
+  }
+
+  private enterCrashLoop(consecutiveCrashes: number, message: string): void {
+    this.autoRestart = { state: 'crash-loop', consecutiveCrashes };
+    this.raiseAlert('error', message);
+    this.notify();
   }
 
   /**
-   * Stop the stopping monitor
+   * Cancel a pending automatic restart
    */
-  private stopStoppingMonitor(): void {
-    if (this.stoppingMonitorInterval) {
-      clearInterval(this.stoppingMonitorInterval);
-      this.stoppingMonitorInterval = null;
-      console.log('[StatusManager] Stopping monitor cleared');
+  cancelAutoRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+      console.log(`${this.tag} Pending auto restart cancelled`);
+      this.autoRestart = { state: 'idle', consecutiveCrashes: this.autoRestart.consecutiveCrashes };
+      this.notify();
+    }
+  }
+
+  private raiseAlert(level: StatusAlert['level'], message: string): void {
+    const alert: StatusAlert = { level, message, timestamp: new Date().toISOString() };
+    if (level === 'error') {
+      console.error(`${this.tag} ALERT: ${message}`);
+    } else {
+      console.warn(`${this.tag} ${message}`);
     }
+    this.alertListeners.forEach((listener) => {
+      try {
+        listener(alert);
+      } catch (error) {
+        console.error(`${this.tag} Error in alert listener:`, error);
+      }
+    });
   }
 
   /**
@@ -229,6 +400,12 @@ class StatusManager {
    * Checks for the "Done" message to transition from starting to running
    */
   handleTerminalLine(line: string): void {
+    // Keep the last lines around for crash records
+    this.recentLines.push(line);
+    if (this.recentLines.length > MAX_RECENT_LINES) {
+      this.recentLines.shift();
+    }
+
     // Only process if we're in starting state
     if (this.currentStatus !== 'starting') {
       return;
@@ -238,7 +415,7 @@ class StatusManager {
     const donePattern = /\[\d{2}:\d{2}:\d{2}\s+INFO\]:\s+Done\s+\(\d+\.\d+s\)!/;
     
     if (donePattern.test(line)) {
-      console.log('[StatusManager] Server startup complete detected!');
+      console.log(`${this.tag} Server startup complete detected!`);
       this.setStatus('running');
     }
   }
@@ -254,15 +431,26 @@ class StatusManager {
     };
   }
 
+  /**
+   * Add an alert listener (crashes, crash loops)
+   * Returns a function to remove the listener
+   */
+  addAlertListener(callback: (alert: StatusAlert) => void): () => void {
+    this.alertListeners.add(callback);
+    return () => {
+      this.alertListeners.delete(callback);
+    };
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
-    this.stopRunningMonitor();
-    this.stopStoppingMonitor();
+    this.cancelAutoRestart();
+    this.stopPingMonitor();
+    this.removeProcessListener?.();
+    this.removeProcessListener = null;
     this.listeners.clear();
+    this.alertListeners.clear();
   }
 }
-
-// Export singleton instance
-export const statusManager = new StatusManager();
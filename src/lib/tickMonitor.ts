@@ -0,0 +1,450 @@
+/**
+ * Tick Health Monitor (TPS / MSPT)
+ *
+ * While the server is running, periodically asks it how the tick loop is
+ * doing and parses the reply out of the console stream:
+ *   Paper / Spigot: `tps` and `mspt`
+ *   Vanilla 1.20.3+: `tick query`
+ * The flavor is found by trial: `tps` first, `tick query` if that is an
+ * unknown command.
+ *
+ * Query replies are hidden from the console through the server process
+ * output filter, so users only see their own commands. Everything else
+ * (including "Can't keep up!" warnings) arrives through the same line feed
+ * as statusManager.handleTerminalLine.
+ */
+
+import stripAnsi from 'strip-ansi';
+import type { ServerProcess } from './serverProcess';
+import type { StatusManager, StatusAlert } from './statusManager';
+
+export type TickFlavor = 'unknown' | 'paper' | 'vanilla' | 'unsupported';
+
+export interface TickSample {
+  timestamp: string;
+  flavor: TickFlavor;
+  /** Ticks per second (1m average on Paper) */
+  tps: number | null;
+  tps5m?: number;
+  tps15m?: number;
+  /** Milliseconds per tick */
+  mspt: number | null;
+  msptMin?: number;
+  msptMax?: number;
+  /** "Can't keep up!" warnings since the previous sample */
+  overloadWarnings: number;
+}
+
+export interface OverloadWarning {
+  timestamp: string;
+  behindMs: number;
+  ticksBehind: number;
+}
+
+type QueryResult = 'ok' | 'unknown' | 'timeout';
+// 'unknown-more': an unknown command error with more lines to follow
+type LineVerdict = 'more' | 'done' | 'unknown' | 'unknown-more' | null;
+
+interface PendingQuery {
+  accept: (text: string) => LineVerdict;
+  finish: (result: QueryResult) => void;
+  unknown: boolean;
+}
+
+const QUERY_INTERVAL_MS = 10000;
+const QUERY_TIMEOUT_MS = 3000;
+const MAX_HISTORY = 180;
+const OVERLOAD_ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+
+const TPS_PATTERN = /TPS from last 1m, 5m, 15m:\s*\*?([\d.]+),\s*\*?([\d.]+),\s*\*?([\d.]+)/;
+const MSPT_HEADER_PATTERN = /Server tick times \(avg\/min\/max\)/;
+const MSPT_PATTERN = /([\d.]+)\/([\d.]+)\/([\d.]+),\s*([\d.]+)\/([\d.]+)\/([\d.]+),\s*([\d.]+)\/([\d.]+)\/([\d.]+)/;
+const TICK_STATUS_PATTERN = /The game is (running normally|frozen|sprinting)|Game is (running|frozen)/;
+const TICK_RATE_PATTERN = /Target tick rate: ([\d.]+) per second/;
+const TICK_AVERAGE_PATTERN = /Average time per tick: ([\d.]+)ms/;
+const TICK_PERCENTILES_PATTERN = /Percentiles: P50: [\d.]+ms/;
+const UNKNOWN_COMMAND_PATTERN = /Unknown command/;
+// Brigadier follows this with the command and a "<--[HERE]" marker
+const INCOMPLETE_COMMAND_PATTERN = /Unknown or incomplete command/;
+const OVERLOAD_PATTERN = /Can't keep up! Is the server overloaded\? Running (\d+)ms or (\d+) ticks behind/;
+
+/**
+ * Strip ANSI codes, the log prefix ("[12:00:00 INFO]: ") and the console prompt
+ */
+function messageText(line: string): string {
+  return stripAnsi(line)
+    .replace(/\r/g, '')
+    .replace(/^[>\s]*/, '')
+    .replace(/^(\[[^\]]*\]\s*)+:?\s*/, '')
+    .trim();
+}
+
+function isEcho(text: string, command: string): boolean {
+  return text.replace(/^[>/\s]+/, '') === command;
+}
+
+/**
+ * Recognize the unknown command reply (Bukkit and Brigadier styles)
+ */
+function unknownCommandVerdict(text: string): LineVerdict {
+  if (INCOMPLETE_COMMAND_PATTERN.test(text)) return 'unknown-more';
+  if (UNKNOWN_COMMAND_PATTERN.test(text) || text.includes('<--[HERE]')) return 'unknown';
+  return null;
+}
+
+export class TickMonitor {
+  private readonly tag: string;
+  private listeners = new Set<(sample: TickSample) => void>();
+  private alertListeners = new Set<(alert: StatusAlert) => void>();
+  private history: TickSample[] = [];
+  private queryInterval: NodeJS.Timeout | null = null;
+  private removeStatusListener: (() => void) | null = null;
+  private removeProcessListener: (() => void) | null = null;
+
+  private flavor: TickFlavor = 'unknown';
+  private msptSupported = true;
+  private querying = false;
+  private pending: PendingQuery | null = null;
+  private heldOutput = '';
+  private filtering = false;
+  private deliver: ((data: string) => void) | null = null;
+
+  // Values parsed since the last sample
+  private current: Partial<TickSample> = {};
+  private vanillaTargetRate: number | null = null;
+  private overloadCount = 0;
+  private lastOverload: OverloadWarning | null = null;
+  private lastOverloadAlertAt = 0;
+
+  constructor(
+    instanceId: string,
+    private readonly serverProcess: ServerProcess,
+    private readonly statusManager: StatusManager
+  ) {
+    this.tag = `[TickMonitor:${instanceId}]`;
+  }
+
+  /**
+   * Initialize the monitor
+   * Queries run while the status manager reports 'running'
+   */
+  initialize(): void {
+    this.serverProcess.setOutputFilter((data, deliver) => this.filterOutput(data, deliver));
+
+    if (!this.removeProcessListener) {
+      this.removeProcessListener = this.serverProcess.addEventListener((event) => {
+        if (event.type === 'spawn') {
+          // A restart may come with different server software
+          this.flavor = 'unknown';
+          this.msptSupported = true;
+          this.history = [];
+          this.lastOverload = null;
+        }
+      });
+    }
+
+    if (!this.removeStatusListener) {
+      this.removeStatusListener = this.statusManager.addListener((statusInfo) => {
+        if (statusInfo.status === 'running') {
+          this.startQuerying();
+        } else {
+          this.stopQuerying();
+        }
+      });
+    }
+
+    if (this.statusManager.getStatus() === 'running') {
+      this.startQuerying();
+    }
+  }
+
+  private startQuerying(): void {
+    if (this.queryInterval) return;
+    console.log(`${this.tag} Querying TPS/MSPT every ${QUERY_INTERVAL_MS / 1000}s`);
+    this.query().catch((error) => console.error(`${this.tag} Query failed:`, error));
+    this.queryInterval = setInterval(() => {
+      this.query().catch((error) => console.error(`${this.tag} Query failed:`, error));
+    }, QUERY_INTERVAL_MS);
+  }
+
+  private stopQuerying(): void {
+    if (this.queryInterval) {
+      clearInterval(this.queryInterval);
+      this.queryInterval = null;
+      console.log(`${this.tag} Querying stopped`);
+    }
+    this.pending?.finish('timeout');
+  }
+
+  /**
+   * Run one query cycle and record a sample
+   */
+  private async query(): Promise<void> {
+    if (this.querying || this.flavor === 'unsupported' || !this.serverProcess.isRunning()) return;
+    this.querying = true;
+    this.current = {};
+
+    try {
+      if (this.flavor === 'unknown' || this.flavor === 'paper') {
+        const result = await this.runCommand('tps', (text) => {
+          if (isEcho(text, 'tps')) return 'more';
+          if (TPS_PATTERN.test(text)) return 'done';
+          return unknownCommandVerdict(text);
+        });
+        if (result === 'ok') this.flavor = 'paper';
+        if (result === 'unknown') this.flavor = 'vanilla';
+      }
+
+      if (this.flavor === 'paper' && this.msptSupported) {
+        const result = await this.runCommand('mspt', (text) => {
+          if (isEcho(text, 'mspt') || MSPT_HEADER_PATTERN.test(text)) return 'more';
+          if (MSPT_PATTERN.test(text)) return 'done';
+          return unknownCommandVerdict(text);
+        });
+        if (result === 'unknown') {
+          // Spigot has `tps` but not `mspt`
+          console.log(`${this.tag} Server has no mspt command, reporting TPS only`);
+          this.msptSupported = false;
+        }
+      }
+
+      if (this.flavor === 'vanilla') {
+        const result = await this.runCommand('tick query', (text) => {
+          if (isEcho(text, 'tick query')) return 'more';
+          if (TICK_STATUS_PATTERN.test(text) || TICK_RATE_PATTERN.test(text) || TICK_AVERAGE_PATTERN.test(text)) return 'more';
+          if (TICK_PERCENTILES_PATTERN.test(text)) return 'done';
+          return unknownCommandVerdict(text);
+        });
+        if (result === 'unknown') {
+          console.warn(`${this.tag} Server supports neither tps nor tick query, TPS tracking disabled`);
+          this.flavor = 'unsupported';
+        }
+      }
+
+      if (this.current.tps !== undefined || this.current.mspt !== undefined) {
+        this.recordSample();
+      }
+    } finally {
+      this.querying = false;
+    }
+  }
+
+  /**
+   * Write a console command and wait for its reply
+   * Lines accepted by `accept` are hidden from the console and parsed here
+   */
+  private runCommand(command: string, accept: (text: string) => LineVerdict): Promise<QueryResult> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.pending?.finish('timeout'), QUERY_TIMEOUT_MS);
+      const pending: PendingQuery = {
+        accept,
+        finish: (result) => {
+          if (this.pending !== pending) return;
+          clearTimeout(timer);
+          this.pending = null;
+          this.flushHeldOutput();
+          resolve(result === 'timeout' && pending.unknown ? 'unknown' : result);
+        },
+        unknown: false,
+      };
+      this.pending = pending;
+      if (!this.serverProcess.write(`${command}\n`)) {
+        pending.finish('timeout');
+      }
+    });
+  }
+
+  /**
+   * Console output filter
+   * Passes output straight through unless a query is waiting for its reply;
+   * then whole lines are inspected and the reply lines are dropped
+   */
+  private filterOutput(data: string, deliver: (data: string) => void): void {
+    this.deliver = deliver;
+    if (!this.pending && !this.heldOutput) {
+      deliver(data);
+      return;
+    }
+
+    const parts = (this.heldOutput + data).split(/(?<=\n)/);
+    this.heldOutput = parts[parts.length - 1].endsWith('\n') ? '' : parts.pop() || '';
+
+    let passed = '';
+    this.filtering = true;
+    for (const raw of parts) {
+      const text = messageText(raw);
+      const verdict = text && this.pending ? this.pending.accept(text) : null;
+      if (verdict === null) {
+        passed += raw;
+        continue;
+      }
+      this.handleTerminalLine(stripAnsi(raw).trim());
+      if (verdict === 'unknown-more' && this.pending) {
+        this.pending.unknown = true;
+      } else if (verdict === 'done' || verdict === 'unknown') {
+        this.pending?.finish(verdict === 'done' ? 'ok' : 'unknown');
+      }
+    }
+    this.filtering = false;
+
+    if (!this.pending) {
+      passed += this.heldOutput;
+      this.heldOutput = '';
+    }
+    deliver(passed);
+  }
+
+  private flushHeldOutput(): void {
+    // Inside filterOutput the held partial line is appended after the passed lines
+    if (this.filtering) return;
+    if (this.heldOutput && this.deliver) {
+      const held = this.heldOutput;
+      this.heldOutput = '';
+      this.deliver(held);
+    }
+  }
+
+  /**
+   * Handle terminal output line
+   * Parses TPS / MSPT replies (including ones from commands typed by users)
+   * and "Can't keep up!" warnings
+   */
+  handleTerminalLine(line: string): void {
+    let match = line.match(TPS_PATTERN);
+    if (match) {
+      this.current.tps = parseFloat(match[1]);
+      this.current.tps5m = parseFloat(match[2]);
+      this.current.tps15m = parseFloat(match[3]);
+      return;
+    }
+
+    match = line.match(MSPT_PATTERN);
+    if (match) {
+      // Groups are 5s, 10s and 1m windows; use the 10s window to match the query interval
+      this.current.mspt = parseFloat(match[4]);
+      this.current.msptMin = parseFloat(match[5]);
+      this.current.msptMax = parseFloat(match[6]);
+      return;
+    }
+
+    match = line.match(TICK_RATE_PATTERN);
+    if (match) {
+      this.vanillaTargetRate = parseFloat(match[1]);
+    }
+
+    match = line.match(TICK_AVERAGE_PATTERN);
+    if (match) {
+      const mspt = parseFloat(match[1]);
+      const target = this.vanillaTargetRate ?? 20;
+      this.current.mspt = mspt;
+      // Vanilla reports no TPS; a tick that fits its budget runs at the target rate
+      this.current.tps = mspt > 0 ? Math.min(target, 1000 / mspt) : target;
+      return;
+    }
+
+    match = line.match(OVERLOAD_PATTERN);
+    if (match) {
+      this.handleOverload(parseInt(match[1], 10), parseInt(match[2], 10));
+    }
+  }
+
+  private handleOverload(behindMs: number, ticksBehind: number): void {
+    const now = Date.now();
+    this.overloadCount++;
+    this.lastOverload = { timestamp: new Date(now).toISOString(), behindMs, ticksBehind };
+    console.warn(`${this.tag} Server overloaded: ${behindMs}ms / ${ticksBehind} ticks behind`);
+
+    if (now - this.lastOverloadAlertAt < OVERLOAD_ALERT_COOLDOWN_MS) return;
+    this.lastOverloadAlertAt = now;
+    const alert: StatusAlert = {
+      level: 'warning',
+      message: `Server can't keep up: running ${behindMs}ms (${ticksBehind} ticks) behind`,
+      timestamp: this.lastOverload.timestamp,
+    };
+    this.alertListeners.forEach((listener) => {
+      try {
+        listener(alert);
+      } catch (error) {
+        console.error(`${this.tag} Error in alert listener:`, error);
+      }
+    });
+  }
+
+  private recordSample(): void {
+    const sample: TickSample = {
+      timestamp: new Date().toISOString(),
+      flavor: this.flavor,
+      tps: this.current.tps ?? null,
+      tps5m: this.current.tps5m,
+      tps15m: this.current.tps15m,
+      mspt: this.current.mspt ?? null,
+      msptMin: this.current.msptMin,
+      msptMax: this.current.msptMax,
+      overloadWarnings: this.overloadCount,
+    };
+    this.overloadCount = 0;
+
+    this.history.push(sample);
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.slice(-MAX_HISTORY);
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(sample);
+      } catch (error) {
+        console.error(`${this.tag} Error in tick listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Get recent samples, oldest first
+   */
+  getHistory(): TickSample[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get the most recent "Can't keep up!" warning since the server started
+   */
+  getLastOverload(): OverloadWarning | null {
+    return this.lastOverload;
+  }
+
+  /**
+   * Add a tick sample listener
+   * Returns a function to remove the listener
+   */
+  addListener(callback: (sample: TickSample) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Add an alert listener (overload warnings, at most one every 5 minutes)
+   * Returns a function to remove the listener
+   */
+  addAlertListener(callback: (alert: StatusAlert) => void): () => void {
+    this.alertListeners.add(callback);
+    return () => {
+      this.alertListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.stopQuerying();
+    this.serverProcess.setOutputFilter(null);
+    this.removeStatusListener?.();
+    this.removeStatusListener = null;
+    this.removeProcessListener?.();
+    this.removeProcessListener = null;
+    this.listeners.clear();
+    this.alertListeners.clear();
+  }
+}
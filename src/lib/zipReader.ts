@@ -0,0 +1,116 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Reads single entries out of a zip file (plugin / mod jars) through its
+ * central directory, without extracting or loading the whole archive:
+ * only the end of the file, the directory and the wanted entries are read.
+ * Stored and deflated entries are supported; ZIP64 archives are not.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed part of the end record plus the longest possible comment
+const MAX_END_RECORD_SIZE = 22 + 0xffff;
+// Entries read into memory are metadata files; anything bigger is refused
+const MAX_ENTRY_SIZE = 4 * 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+async function readCentralDirectory(handle: fs.promises.FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat();
+  const tailLength = Math.min(size, MAX_END_RECORD_SIZE);
+  const tail = await readAt(handle, size - tailLength, tailLength);
+
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a zip file');
+
+  const count = tail.readUInt16LE(end + 10);
+  const directorySize = tail.readUInt32LE(end + 12);
+  const directoryOffset = tail.readUInt32LE(end + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Damaged zip central directory');
+    }
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    entries.push({
+      name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readEntry(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<Buffer> {
+  if (entry.size > MAX_ENTRY_SIZE || entry.compressedSize > MAX_ENTRY_SIZE) {
+    throw new Error(`${entry.name} is too large`);
+  }
+  const header = await readAt(handle, entry.localHeaderOffset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Damaged zip entry: ${entry.name}`);
+  }
+  // The local name / extra lengths may differ from the central directory
+  const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data = await readAt(handle, dataOffset, entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+    default:
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}
+
+/**
+ * Read the entries with the given names from a zip file; names not in the
+ * archive are missing from the result
+ */
+export async function readZipEntries(file: string, names: string[]): Promise<Map<string, Buffer>> {
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const wanted = new Set(names);
+    const result = new Map<string, Buffer>();
+    for (const entry of await readCentralDirectory(handle)) {
+      if (wanted.has(entry.name) && !result.has(entry.name)) {
+        result.set(entry.name, await readEntry(handle, entry));
+      }
+    }
+    return result;
+  } finally {
+    await handle.close();
+  }
+}